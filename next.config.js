@@ -5,6 +5,8 @@ const nextConfig = {
   },
   experimental: {
     serverComponentsExternalPackages: ['better-sqlite3'],
+    // Resumes interrupted jobs at startup (src/instrumentation.ts)
+    instrumentationHook: true,
   },
   async headers() {
     return [
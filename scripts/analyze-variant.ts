@@ -0,0 +1,43 @@
+/**
+ * Analyze variants from the command line, without running the server.
+ *
+ *   npm run analyze -- TP53:p.R175H
+ *   npm run analyze -- --md "NM_004985.5:c.35G>A" 12-25245350-C-T
+ *   npm run analyze -- --offline "NM_004985.5:c.35G>A"
+ *
+ * Prints the report the API would return (JSON, or Markdown with --md) and
+ * exits non-zero if any input fails. --offline reads coding and genomic input
+ * against the bundled references only, never NCBI.
+ */
+import { analyzeVariant, renderReportMarkdown, AnalyzeVariantOptions } from '../src/lib/analyze-variant';
+
+const FLAGS = ['--md', '--offline'];
+
+async function main() {
+  const args = process.argv.slice(2);
+  const markdown = args.includes('--md');
+  const options: AnalyzeVariantOptions = args.includes('--offline') ? { loadReferenceData: async () => {} } : {};
+  const inputs = args.filter((arg) => !FLAGS.includes(arg));
+
+  if (inputs.length === 0) {
+    console.error('Usage: npm run analyze -- [--md] [--offline] <hgvs> [<hgvs> ...]');
+    process.exitCode = 2;
+    return;
+  }
+
+  for (const input of inputs) {
+    const result = await analyzeVariant(input, options);
+    if (!result.ok) {
+      console.error(`${input}: ${result.status}`);
+      console.log(JSON.stringify(result.error, null, 2));
+      process.exitCode = 1;
+      continue;
+    }
+    console.log(markdown ? renderReportMarkdown(result.report, result.outcomes) : JSON.stringify(result.report, null, 2));
+  }
+}
+
+main().catch((error) => {
+  console.error('Analysis failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from '@jest/globals';
+import request from 'supertest';
+import { createServer } from './test-server';
+import { apiKeyRateLimiter, batchRateLimiter, variantRateLimiter } from '../../../lib/rate-limit';
+import { getRecentAuditEntries } from '../../../lib/audit-logger';
+import { mockFetch } from '../../../lib/__tests__/mocks/external-apis';
+
+const ADMIN = { 'x-admin-api-key': 'test-admin-key' };
+
+describe('API keys', () => {
+  let server: any;
+  const previousAdminKey = process.env.ADMIN_API_KEY;
+
+  beforeAll(() => {
+    process.env.ADMIN_API_KEY = ADMIN['x-admin-api-key'];
+    mockFetch();
+    server = createServer().listen(0);
+  });
+
+  beforeEach(async () => {
+    await apiKeyRateLimiter.reset();
+    await batchRateLimiter.reset();
+    await variantRateLimiter.reset();
+  });
+
+  afterAll(() => {
+    process.env.ADMIN_API_KEY = previousAdminKey;
+    server.close();
+  });
+
+  async function issue(body: Record<string, unknown>) {
+    const response = await request(server).post('/api/admin/keys').set(ADMIN).send(body);
+    expect(response.status).toBe(201);
+    return response.body as { key: { id: string }; secret: string };
+  }
+
+  it('requires the admin key to manage keys', async () => {
+    const response = await request(server).post('/api/admin/keys').send({ name: 'lab' });
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('UNAUTHORIZED');
+  });
+
+  it('issues a key once and lists it without the secret', async () => {
+    const { key, secret } = await issue({ name: 'structure-lab', rateLimitPerMinute: 30 });
+
+    expect(secret).toMatch(/^vl_/);
+    expect(key).toMatchObject({ name: 'structure-lab', rateLimitPerMinute: 30, dailyQuota: 1000 });
+    expect(secret.startsWith((key as any).prefix)).toBe(true);
+
+    const list = await request(server).get('/api/admin/keys').set(ADMIN);
+    expect(list.status).toBe(200);
+    expect(JSON.stringify(list.body)).not.toContain(secret);
+    expect(list.body.keys.map((k: any) => k.id)).toContain(key.id);
+  });
+
+  it('attributes keyed requests in the audit log and reports X-RateLimit headers', async () => {
+    const { key, secret } = await issue({ name: 'clinic', rateLimitPerMinute: 5, dailyQuota: 10 });
+
+    const response = await request(server)
+      .post('/api/variant')
+      .set('Authorization', `Bearer ${secret}`)
+      .send({ hgvs: 'TP53:p.R175H' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['x-ratelimit-limit']).toBe('5');
+    expect(response.headers['x-ratelimit-remaining']).toBe('4');
+    expect(response.headers['x-ratelimit-quota-remaining']).toBe('9');
+    expect(getRecentAuditEntries(1)[0].apiKeyId).toBe(key.id);
+
+    const usage = await request(server).get(`/api/admin/keys/${key.id}`).set(ADMIN);
+    expect(usage.body.usageToday).toEqual({ requests: 1, analyses: 1 });
+  });
+
+  it('rate limits per key rather than per IP', async () => {
+    const { secret } = await issue({ name: 'burst', rateLimitPerMinute: 1 });
+    const send = () => request(server).post('/api/variant').set('x-api-key', secret).send({ hgvs: 'invalid' });
+
+    await send();
+    const limited = await send();
+    expect(limited.status).toBe(429);
+    expect(limited.body.code).toBe('RATE_LIMITED');
+    expect(limited.headers['x-ratelimit-remaining']).toBe('0');
+
+    const anonymous = await request(server).post('/api/variant').send({ hgvs: 'invalid' });
+    expect(anonymous.status).toBe(400);
+  });
+
+  it('never lets concurrent requests overshoot the daily quota', async () => {
+    const { key, secret } = await issue({ name: 'parallel', dailyQuota: 2 });
+
+    const responses = await Promise.all(Array.from({ length: 5 }, () =>
+      request(server).post('/api/variant').set('x-api-key', secret).send({ hgvs: 'TP53:p.R175H' })
+    ));
+
+    expect(responses.map((r) => r.status).sort()).toEqual([200, 200, 429, 429, 429]);
+    const usage = await request(server).get(`/api/admin/keys/${key.id}`).set(ADMIN);
+    expect(usage.body.usageToday).toEqual({ requests: 2, analyses: 2 });
+  });
+
+  it('keeps keyed permalink responses out of shared caches', async () => {
+    const { secret } = await issue({ name: 'permalink' });
+
+    const keyed = await request(server).get('/api/variant/TP53%3Ap.R175H').set('x-api-key', secret);
+    expect(keyed.status).toBe(200);
+    expect(keyed.headers['cache-control']).toBe('private, max-age=300');
+    expect(keyed.headers['vary']).toContain('Authorization, X-API-Key');
+
+    const anonymous = await request(server).get('/api/variant/TP53%3Ap.R175H');
+    expect(anonymous.headers['cache-control']).toContain('public');
+  });
+
+  it('refuses a job that would exceed the daily quota', async () => {
+    const { secret } = await issue({ name: 'batch', dailyQuota: 2 });
+
+    const response = await request(server)
+      .post('/api/jobs')
+      .set('x-api-key', secret)
+      .send({ variants: ['TP53:p.R175H', 'TP53:p.R248Q', 'KRAS:p.G12D'] });
+
+    expect(response.status).toBe(429);
+    expect(response.body.message).toContain('Daily quota of 2');
+    expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('stops the old secret on rotation and every secret on revocation', async () => {
+    const { key, secret } = await issue({ name: 'rotating' });
+    const send = (value: string) => request(server).post('/api/variant').set('x-api-key', value).send({ hgvs: 'invalid' });
+
+    const rotated = await request(server).post(`/api/admin/keys/${key.id}/rotate`).set(ADMIN);
+    expect(rotated.status).toBe(200);
+    expect((await send(secret)).status).toBe(401);
+    expect((await send(rotated.body.secret)).status).toBe(400);
+
+    const revoked = await request(server).delete(`/api/admin/keys/${key.id}`).set(ADMIN);
+    expect(revoked.body.revokedAt).toBeDefined();
+    const refused = await send(rotated.body.secret);
+    expect(refused.status).toBe(401);
+    expect(refused.body.message).toBe('API key has been revoked');
+
+    const rotateRevoked = await request(server).post(`/api/admin/keys/${key.id}/rotate`).set(ADMIN);
+    expect(rotateRevoked.status).toBe(409);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, jest, beforeAll, beforeEach, afterEach, afterAll } from '@jest/globals';
+import request from 'supertest';
+import JSZip from 'jszip';
+import { createServer } from './test-server';
+import { batchRateLimiter } from '../../../lib/rate-limit';
+import * as jobQueue from '../../../lib/job-queue';
+
+import { mockFetch } from '../../../lib/__tests__/mocks/external-apis';
+
+async function waitForCompletion(server: any, statusUrl: string) {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const response = await request(server).get(statusUrl);
+    if (response.body.status === 'completed') return response;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  throw new Error(`Job ${statusUrl} did not complete`);
+}
+
+function binary(res: any, callback: (error: Error | null, body: Buffer) => void) {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+}
+
+describe('/api/jobs', () => {
+  let server: any;
+
+  beforeAll(() => {
+    mockFetch();
+    server = createServer();
+  });
+
+  beforeEach(async () => {
+    await batchRateLimiter.reset();
+  });
+
+  afterEach(() => {
+    delete process.env.TRUST_PROXY;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('deduplicates normalized inputs and reports per-row results', async () => {
+    const started = await request(server)
+      .post('/api/jobs')
+      .send({ variants: ['TP53:p.R175H', 'TP53:p.Arg175His', 'TP53p.R175H', 'BRCA1:p.Cys61Gly'] });
+
+    expect(started.status).toBe(202);
+    expect(started.headers.location).toBe(started.body.statusUrl);
+    expect(started.body.statusUrl).toBe(`/api/jobs/${started.body.jobId}`);
+    expect(started.body.summary).toMatchObject({ total: 4, unique: 2, duplicates: 1, invalid: 1 });
+
+    const finished = await waitForCompletion(server, started.body.statusUrl);
+    expect(finished.body.summary).toMatchObject({ completed: 2, succeeded: 2, failed: 0 });
+    expect(finished.body.completedAt).toBeDefined();
+
+    const [first, duplicate, invalid, brca1] = finished.body.items;
+    expect(first).toMatchObject({ index: 0, key: 'TP53:p.R175H', status: 'success' });
+    expect(first.response.variant.normalizedHgvs).toBe('TP53:p.R175H');
+    expect(duplicate).toMatchObject({ status: 'success', duplicateOf: 0 });
+    expect(duplicate.response).toBeUndefined();
+    expect(invalid.status).toBe('invalid');
+    expect(invalid.error.diagnostics.suggestions[0].hgvs).toBe('TP53:p.R175H');
+    expect(brca1.status).toBe('success');
+
+    const page = await request(server).get(`${started.body.statusUrl}?offset=1&limit=2`);
+    expect(page.body.page).toEqual({ offset: 1, limit: 2 });
+    expect(page.body.items.map((item: any) => item.index)).toEqual([1, 2]);
+  });
+
+  it('starts a job from the batch alias', async () => {
+    const started = await request(server)
+      .post('/api/variant/batch')
+      .send({ variants: ['TP53:p.R175H', 'TP53:p.Arg175His'], format: 'md' });
+
+    expect(started.status).toBe(202);
+    expect(started.body.batchId).toBeUndefined();
+    expect(started.body.statusUrl).toBe(`/api/jobs/${started.body.jobId}`);
+    expect(started.headers.location).toBe(started.body.statusUrl);
+    expect(started.body.summary).toMatchObject({ total: 2, unique: 1, duplicates: 1 });
+
+    const finished = await waitForCompletion(server, started.body.statusUrl);
+    expect(finished.body.items[0].markdown).toBeUndefined();
+  });
+
+  it('serves the Markdown reports of a finished job as a zip', async () => {
+    const started = await request(server)
+      .post('/api/variant/batch')
+      .send({ variants: ['TP53:p.R175H', 'TP53:p.Arg175His', 'not a variant'] });
+    await waitForCompletion(server, started.body.statusUrl);
+
+    const download = await request(server)
+      .get(`/api/jobs/${started.body.jobId}/download`)
+      .buffer(true)
+      .parse(binary);
+    expect(download.status).toBe(200);
+    expect(download.headers['content-type']).toBe('application/zip');
+    expect(download.headers['content-disposition']).toMatch(/filename="variant-lens-results-\d{4}-\d{2}-\d{2}\.zip"/);
+
+    const zip = await JSZip.loadAsync(download.body);
+    expect(Object.keys(zip.files).filter((name) => !zip.files[name].dir).sort()).toEqual([
+      'variant-lens-reports/TP53_p.Arg175His.md',
+      'variant-lens-reports/TP53_p.R175H.md',
+    ]);
+    expect(await zip.file('variant-lens-reports/TP53_p.Arg175His.md')!.async('string')).toContain('TP53');
+  });
+
+  it('leaves a finished job unchanged on DELETE', async () => {
+    const started = await request(server).post('/api/jobs').send({ variants: ['TP53:p.R175H'] });
+    await waitForCompletion(server, started.body.statusUrl);
+
+    const response = await request(server).delete(started.body.statusUrl);
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ status: 'completed', summary: { succeeded: 1, cancelled: 0 } });
+  });
+
+  it('hides a job from anyone but its submitter', async () => {
+    // The test server stands in for one proxy that records the client address
+    process.env.TRUST_PROXY = '1';
+    const started = await request(server)
+      .post('/api/jobs')
+      .set('x-forwarded-for', '10.0.0.1')
+      .send({ variants: ['TP53:p.R175H'] });
+    const other = '10.0.0.2';
+
+    expect((await request(server).get(started.body.statusUrl).set('x-forwarded-for', other)).status).toBe(404);
+    expect((await request(server).get(`${started.body.statusUrl}/download`).set('x-forwarded-for', other)).status).toBe(404);
+    expect((await request(server).delete(started.body.statusUrl).set('x-forwarded-for', other)).status).toBe(404);
+
+    const own = await request(server).get(started.body.statusUrl).set('x-forwarded-for', '10.0.0.1');
+    expect(own.status).toBe(200);
+    expect(own.body.jobId).toBe(started.body.jobId);
+  });
+
+  it('rejects empty and oversized jobs', async () => {
+    const empty = await request(server).post('/api/jobs').send({ variants: [] });
+    expect(empty.status).toBe(400);
+
+    const oversized = await request(server)
+      .post('/api/jobs')
+      .send({ variants: Array.from({ length: 5001 }, (_, i) => `TP53:p.R${i + 1}H`) });
+    expect(oversized.status).toBe(400);
+    expect(oversized.body.message).toContain('maximum 5000');
+  });
+
+  it('checks the API key before reading the body', async () => {
+    const response = await request(server).post('/api/jobs').set('x-api-key', 'vl_unknown').send({ variants: [] });
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('UNAUTHORIZED');
+  });
+
+  it('reports a job that could not be stored as MISCONFIGURED', async () => {
+    const createJob = jest.spyOn(jobQueue, 'createJob').mockResolvedValueOnce(null);
+
+    const response = await request(server).post('/api/jobs').send({ variants: ['TP53:p.R175H'] });
+    createJob.mockRestore();
+
+    expect(response.status).toBe(503);
+    expect(response.body).toMatchObject({ code: 'MISCONFIGURED', message: 'Job storage is unavailable' });
+  });
+
+  it('returns 404 for unknown job IDs', async () => {
+    expect((await request(server).get('/api/jobs/does-not-exist')).status).toBe(404);
+    expect((await request(server).delete('/api/jobs/does-not-exist')).status).toBe(404);
+    expect((await request(server).get('/api/jobs/does-not-exist/download')).status).toBe(404);
+  });
+});
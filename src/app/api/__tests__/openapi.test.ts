@@ -0,0 +1,26 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import request from 'supertest';
+import { createServer } from './test-server';
+
+describe('GET /api/openapi.json', () => {
+  let server: any;
+
+  beforeAll(() => {
+    server = createServer();
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('serves the OpenAPI 3.1 document', async () => {
+    const response = await request(server).get('/api/openapi.json');
+
+    expect(response.status).toBe(200);
+    expect(response.body.openapi).toBe('3.1.0');
+    expect(Object.keys(response.body.paths)).toEqual(
+      expect.arrayContaining(['/api/variant', '/api/variant/{hgvs}', '/api/jobs', '/api/jobs/{jobId}'])
+    );
+    expect(response.headers['cache-control']).toBe('public, max-age=3600');
+  });
+});
@@ -1,8 +1,17 @@
 import { createServer as createHttpServer } from 'http';
 import { NextApiRequest, NextApiResponse } from 'next';
 import { POST as variantPost } from '../variant/route';
+import { GET as variantPermalink } from '../variant/[hgvs]/route';
+import { POST as batchPost } from '../variant/batch/route';
+import { POST as jobsPost } from '../jobs/route';
+import { GET as jobGet, DELETE as jobDelete } from '../jobs/[id]/route';
+import { GET as jobDownload } from '../jobs/[id]/download/route';
 import { GET as healthGet } from '../health/route';
 import { GET as readyGet } from '../ready/route';
+import { GET as openApiGet } from '../openapi.json/route';
+import { GET as keysGet, POST as keysPost } from '../admin/keys/route';
+import { GET as keyGet, DELETE as keyDelete } from '../admin/keys/[id]/route';
+import { POST as keyRotate } from '../admin/keys/[id]/rotate/route';
 
 // Mock NextRequest/NextResponse if the routes use them (App Router usually uses standard Request/Response)
 // However, implementation in `src/app/api/...` usually returns NextResponse.
@@ -28,18 +37,74 @@ export const createServer = () => {
         }) as any;
         response = await variantPost(request) as Response;
       }
+      else if (path === '/api/variant/batch' && method === 'POST') {
+        const body = await parseBody(req);
+        const request = new Request(url.toString(), {
+            method: 'POST',
+            body: JSON.stringify(body),
+            headers: req.headers as HeadersInit
+        }) as any;
+        response = await batchPost(request) as Response;
+      }
+      else if (path.startsWith('/api/variant/') && method === 'GET') {
+        // Next.js passes the segment as it appears in the path
+        const hgvs = path.slice('/api/variant/'.length);
+        const request = new Request(url.toString(), { headers: req.headers as HeadersInit }) as any;
+        response = await variantPermalink(request, { params: { hgvs } }) as Response;
+      }
+      else if (path === '/api/jobs' && method === 'POST') {
+        const body = await parseBody(req);
+        const request = new Request(url.toString(), {
+            method: 'POST',
+            body: JSON.stringify(body),
+            headers: req.headers as HeadersInit
+        }) as any;
+        response = await jobsPost(request) as Response;
+      }
+      else if (/^\/api\/jobs\/[^/]+\/download$/.test(path) && method === 'GET') {
+        const id = path.split('/')[3];
+        response = await jobDownload(new Request(url.toString(), { headers: req.headers as HeadersInit }) as any, { params: { id } }) as Response;
+      }
+      else if (path.startsWith('/api/jobs/') && (method === 'GET' || method === 'DELETE')) {
+        const id = path.slice('/api/jobs/'.length);
+        const handler = method === 'GET' ? jobGet : jobDelete;
+        response = await handler(new Request(url.toString(), { method, headers: req.headers as HeadersInit }) as any, { params: { id } }) as Response;
+      }
+      else if (path === '/api/admin/keys' && (method === 'GET' || method === 'POST')) {
+        const request = method === 'POST'
+          ? new Request(url.toString(), { method, body: JSON.stringify(await parseBody(req)), headers: req.headers as HeadersInit })
+          : new Request(url.toString(), { headers: req.headers as HeadersInit });
+        response = await (method === 'POST' ? keysPost : keysGet)(request as any) as Response;
+      }
+      else if (/^\/api\/admin\/keys\/[^/]+\/rotate$/.test(path) && method === 'POST') {
+        const id = path.split('/')[4];
+        const request = new Request(url.toString(), { method, headers: req.headers as HeadersInit });
+        response = await keyRotate(request as any, { params: { id } }) as Response;
+      }
+      else if (path.startsWith('/api/admin/keys/') && (method === 'GET' || method === 'DELETE')) {
+        const id = path.slice('/api/admin/keys/'.length);
+        const request = new Request(url.toString(), { method, headers: req.headers as HeadersInit });
+        response = await (method === 'GET' ? keyGet : keyDelete)(request as any, { params: { id } }) as Response;
+      }
       else if (path === '/api/health' && method === 'GET') {
           response = await healthGet() as Response;
       }
       else if (path === '/api/ready' && method === 'GET') {
           response = await readyGet() as Response;
       }
+      else if (path === '/api/openapi.json' && method === 'GET') {
+          response = await openApiGet() as Response;
+      }
 
       if (response) {
         res.statusCode = response.status;
         response.headers.forEach((v, k) => res.setHeader(k, v));
-        const json = await response.json(); // Assuming JSON response
-        res.end(JSON.stringify(json));
+        if (response.headers.get('content-type')?.includes('application/json')) {
+          const json = await response.json();
+          res.end(JSON.stringify(json));
+        } else {
+          res.end(Buffer.from(await response.arrayBuffer()));
+        }
       } else {
         res.statusCode = 404;
         res.end('Not Found');
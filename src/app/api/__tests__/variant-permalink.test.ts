@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import request from 'supertest';
+import { createServer } from './test-server';
+
+import { mockFetch } from '../../../lib/__tests__/mocks/external-apis';
+
+describe('GET /api/variant/{hgvs}', () => {
+  let server: any;
+
+  beforeAll(() => {
+    mockFetch();
+    server = createServer();
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('serves the report with cache validators', async () => {
+    const response = await request(server).get('/api/variant/BRCA1%3Ap.Cys61Gly');
+
+    expect(response.status).toBe(200);
+    expect(response.body.variant.normalizedHgvs).toMatch(/BRCA1:p\.(C61G|Cys61Gly)/);
+    // Weak: responses sharing it differ in their timestamps
+    expect(response.headers['etag']).toMatch(/^W\/"[\w-]+"$/);
+    expect(new Date(response.headers['last-modified']).getTime()).not.toBeNaN();
+    expect(response.headers['cache-control']).toContain('max-age=300');
+  });
+
+  it('keeps the same ETag when only per-request fields change', async () => {
+    const first = await request(server).get('/api/variant/BRCA1%3Ap.Cys61Gly');
+    const second = await request(server).get('/api/variant/BRCA1%3Ap.Cys61Gly');
+
+    expect(second.headers['etag']).toBe(first.headers['etag']);
+    expect(second.headers['last-modified']).toBe(first.headers['last-modified']);
+  });
+
+  it('returns 304 for a matching If-None-Match', async () => {
+    const first = await request(server).get('/api/variant/BRCA1%3Ap.Cys61Gly');
+    const response = await request(server)
+      .get('/api/variant/BRCA1%3Ap.Cys61Gly')
+      .set('If-None-Match', first.headers['etag']);
+
+    expect(response.status).toBe(304);
+    expect(response.headers['etag']).toBe(first.headers['etag']);
+
+    // Weak comparison also matches the tag without its W/ prefix
+    const strong = await request(server)
+      .get('/api/variant/BRCA1%3Ap.Cys61Gly')
+      .set('If-None-Match', first.headers['etag'].slice(2));
+    expect(strong.status).toBe(304);
+  });
+
+  it('returns 304 for an If-Modified-Since at or after Last-Modified', async () => {
+    const first = await request(server).get('/api/variant/BRCA1%3Ap.Cys61Gly');
+    const response = await request(server)
+      .get('/api/variant/BRCA1%3Ap.Cys61Gly')
+      .set('If-Modified-Since', first.headers['last-modified']);
+
+    expect(response.status).toBe(304);
+  });
+
+  it('lets a stale If-None-Match win over If-Modified-Since', async () => {
+    const first = await request(server).get('/api/variant/BRCA1%3Ap.Cys61Gly');
+    const response = await request(server)
+      .get('/api/variant/BRCA1%3Ap.Cys61Gly')
+      .set('If-None-Match', '"stale"')
+      .set('If-Modified-Since', first.headers['last-modified']);
+
+    expect(response.status).toBe(200);
+  });
+
+  it('uses a separate ETag for the markdown rendering', async () => {
+    const json = await request(server).get('/api/variant/BRCA1%3Ap.Cys61Gly');
+    const md = await request(server).get('/api/variant/BRCA1%3Ap.Cys61Gly?format=md');
+
+    expect(md.status).toBe(200);
+    expect(md.headers['content-type']).toContain('text/markdown');
+    expect(md.headers['etag']).not.toBe(json.headers['etag']);
+  });
+
+  it('returns 400 with diagnostics for an invalid segment, uncached', async () => {
+    const response = await request(server).get('/api/variant/not-a-variant');
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('PARSE_ERROR');
+    expect(response.headers['cache-control']).toBe('no-store');
+  });
+});
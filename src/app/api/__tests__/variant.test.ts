@@ -4,6 +4,13 @@ import { createServer } from './test-server';
 
 import { mockFetch } from '../../../lib/__tests__/mocks/external-apis';
 
+function text(res: any, callback: (error: Error | null, body: string) => void) {
+  let body = '';
+  res.setEncoding('utf8');
+  res.on('data', (chunk: string) => (body += chunk));
+  res.on('end', () => callback(null, body));
+}
+
 describe('POST /api/variant', () => {
   let server: any;
 
@@ -45,16 +52,152 @@ describe('POST /api/variant', () => {
       .send({ hgvs: 'invalid' });
 
     expect(response.status).toBe(400);
-    expect(response.body.error).toContain('Invalid HGVS');
+    expect(response.body.message).toContain('Invalid HGVS');
+  });
+
+  it('returns 400 listing schema issues for a malformed body', async () => {
+    const response = await request(server)
+      .post('/api/variant')
+      .send({ hgvs: 42 });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ error: true, code: 'INVALID_REQUEST' });
+    expect(response.body.details.issues).toEqual([expect.objectContaining({ path: 'hgvs' })]);
+  });
+
+  it('returns diagnostics with corrections for malformed HGVS', async () => {
+    const response = await request(server)
+      .post('/api/variant')
+      .send({ hgvs: 'TP53p.R175H' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('PARSE_ERROR');
+    expect(response.body.diagnostics.issues[0]).toMatchObject({ code: 'MISSING_COLON', span: { start: 4, end: 4 } });
+    expect(response.body.diagnostics.suggestions[0].hgvs).toBe('TP53:p.R175H');
+  });
+
+  it('lists each protein consequence for genomic input', async () => {
+    const response = await request(server)
+      .post('/api/variant')
+      .send({ hgvs: '12-25245350-C-T' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.input).toMatchObject({
+      genomicHgvs: 'NC_000012.12:g.25245350C>T',
+      assembly: 'GRCh38',
+    });
+    expect(response.body.consequences).toHaveLength(1);
+    expect(response.body.consequences[0].variant).toMatchObject({
+      normalizedHgvs: 'KRAS:p.G12D',
+      codingHgvs: 'NM_004985.5:c.35G>A',
+      genomicHgvs: 'NC_000012.12:g.25245350C>T',
+    });
+  });
+
+  it('records the isoform and offset used for transcript-qualified input', async () => {
+    const response = await request(server)
+      .post('/api/variant')
+      .send({ hgvs: 'NM_001126115.2(TP53):p.Arg43His' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.variant.residue).toBe(43);
+    expect(response.body.variant.isoform).toMatchObject({
+      isoform: 'P04637-7',
+      strategy: 'renumbered',
+      uniprotId: 'P04637',
+      offset: 132,
+    });
+    expect(response.body.curatedInfo.variantPosition).toBe(175);
+  });
+
+  it('returns per-component evidence and shared context for bracketed alleles', async () => {
+    const response = await request(server)
+      .post('/api/variant')
+      .send({ hgvs: 'TP53:p.[Arg175His;Arg248Gln]' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.input).toEqual({
+      originalHgvs: 'TP53:p.[Arg175His;Arg248Gln]',
+      alleleHgvs: 'TP53:p.[R175H;R248Q]',
+      phase: 'cis',
+    });
+    expect(response.body.components.map((c: any) => c.variant.normalizedHgvs)).toEqual(['TP53:p.R175H', 'TP53:p.R248Q']);
+    expect(response.body.shared).toMatchObject({ analyzedComponents: 2, sameDomain: true });
+    expect(response.body.shared.structure).toHaveProperty('status');
+  });
+
+  it('accepts a UniProt accession in place of the gene symbol', async () => {
+    const response = await request(server)
+      .post('/api/variant')
+      .send({ hgvs: 'P04637:p.Arg175His' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.variant.normalizedHgvs).toBe('TP53:p.R175H');
+    expect(response.body.variant.proteinId).toMatchObject({ source: 'uniprot', uniprotId: 'P04637', gene: 'TP53' });
+  });
+
+  it('streams each evidence section as NDJSON before the final report', async () => {
+    const response = await request(server)
+      .post('/api/variant?format=ndjson')
+      .send({ hgvs: 'TP53:p.R175H' })
+      .buffer(true)
+      .parse(text);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('application/x-ndjson');
+    const events = (response.body as string).trim().split('\n').map((line) => JSON.parse(line));
+    const types = events.map((e) => e.type);
+    // Evidence providers run concurrently, so their events arrive in completion order
+    expect(types.slice(0, 2)).toEqual(['variant', 'protein']);
+    expect(types.slice(2, 8).sort()).toEqual(['clinical', 'literature', 'nearby', 'population', 'predictors', 'structure']);
+    expect(types.slice(8)).toEqual(['unknowns', 'report']);
+    expect(events[0].variant).toMatchObject({ normalizedHgvs: 'TP53:p.R175H', residue: 175 });
+    expect(events[1].curatedInfo.gene).toBe('TP53');
+
+    const report = events[9];
+    expect(report.status).toBe(200);
+    expect(report.body.coverage.clinical).toEqual(events.find((e) => e.type === 'clinical').clinical);
+    expect(report.body.unknowns).toEqual(events[8].unknowns);
+  });
+
+  it('reports a timing for every evidence stage', async () => {
+    const response = await request(server)
+      .post('/api/variant')
+      .send({ hgvs: 'TP53:p.R175H' });
+
+    expect(response.status).toBe(200);
+    const { timings } = response.body;
+    expect(timings.deadlineMs).toBeGreaterThan(0);
+    expect(Object.keys(timings.stages).sort()).toEqual(['clinvar', 'clinvar-nearby', 'population', 'predictors', 'pubmed', 'structure', 'uniprot']);
+    expect(timings.stages.uniprot.outcome).toBe('ok');
+    // Evidence stages start only once UniProt has answered
+    expect(timings.stages.clinvar.startedMs).toBeGreaterThanOrEqual(timings.stages.uniprot.startedMs + timings.stages.uniprot.durationMs);
+  });
+
+  it('streams Server-Sent Events when the client accepts them', async () => {
+    const response = await request(server)
+      .post('/api/variant')
+      .set('Accept', 'text/event-stream')
+      .send({ hgvs: 'TP53:p.R999H' })
+      .buffer(true)
+      .parse(text);
+
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    const events = (response.body as string).trim().split('\n\n');
+    expect(events[0]).toMatch(/^event: variant\ndata: \{/);
+    // Position beyond the protein: the consequence fails, then the usual 400 body closes the stream
+    expect(events.map((e) => e.split('\n')[0])).toEqual(['event: variant', 'event: error', 'event: report']);
+    const report = JSON.parse(events[2].split('\ndata: ')[1]);
+    expect(report).toMatchObject({ status: 400, body: { code: 'INVALID_POSITION' } });
   });
 
-  it('returns 404 or 500 for unknown variant', async () => {
+  it('returns 404 UNKNOWN_GENE for an unknown gene', async () => {
     const response = await request(server)
       .post('/api/variant')
       .send({ hgvs: 'FAKEGENE:p.Ala1Val' });
 
-    // Accept either 404 (structure not found) or 500 (error during processing)
-    expect([404, 500]).toContain(response.status);
+    expect(response.status).toBe(404);
+    expect(response.body).toMatchObject({ error: true, code: 'UNKNOWN_GENE', details: { gene: 'FAKEGENE' } });
   });
 
   it('returns 429 when rate limited', async () => {
@@ -0,0 +1,22 @@
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { getApiKey, rotateApiKey } from '@/lib/api-keys';
+import { requireAdmin } from '@/lib/api-access';
+import { ApiKeyIssuedSchema } from '@/lib/types/api-schemas';
+import { contractJson, errorResponse } from '@/lib/api-contract';
+import { ApiError } from '@/lib/errors';
+
+// New secret for the same key (limits and usage kept); the old secret stops working immediately
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const rotated = rotateApiKey(params.id);
+  if (!rotated) {
+    return getApiKey(params.id)
+      ? errorResponse(new ApiError('CONFLICT', 'Revoked keys cannot be rotated; issue a new key'))
+      : errorResponse(new ApiError('NOT_FOUND', 'Unknown API key ID'));
+  }
+  return contractJson(ApiKeyIssuedSchema, rotated, { headers: { 'Cache-Control': 'no-store' } }, 'POST /api/admin/keys/{keyId}/rotate');
+}
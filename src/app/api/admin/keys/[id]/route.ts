@@ -0,0 +1,29 @@
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { getApiKey, revokeApiKey } from '@/lib/api-keys';
+import { requireAdmin } from '@/lib/api-access';
+import { ApiKeySchema } from '@/lib/types/api-schemas';
+import { contractJson, errorResponse } from '@/lib/api-contract';
+import { ApiError } from '@/lib/errors';
+
+function notFound() {
+  return errorResponse(new ApiError('NOT_FOUND', 'Unknown API key ID'));
+}
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const key = getApiKey(params.id);
+  return key ? contractJson(ApiKeySchema, key, {}, 'GET /api/admin/keys/{keyId}') : notFound();
+}
+
+// Revoked at once; the key stays listed so its audit entries still resolve
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const key = revokeApiKey(params.id);
+  return key ? contractJson(ApiKeySchema, key, {}, 'DELETE /api/admin/keys/{keyId}') : notFound();
+}
@@ -0,0 +1,37 @@
+/**
+ * API KEYS ADMIN ROUTE
+ *
+ * GET  /api/admin/keys → Every issued key with today's usage (never the key itself)
+ * POST /api/admin/keys → Issue a key; the response is the only time it is shown
+ *
+ * Both require x-admin-api-key.
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { createApiKey, listApiKeys } from '@/lib/api-keys';
+import { requireAdmin } from '@/lib/api-access';
+import { ApiKeyCreateRequestSchema, ApiKeyIssuedSchema, ApiKeyListSchema } from '@/lib/types/api-schemas';
+import { parseRequestBody, contractJson } from '@/lib/api-contract';
+
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  return contractJson(ApiKeyListSchema, { keys: listApiKeys() }, {}, 'GET /api/admin/keys');
+}
+
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const body = await parseRequestBody(request, ApiKeyCreateRequestSchema);
+  if (!body.ok) return body.response;
+
+  const issued = createApiKey(body.data);
+  return contractJson(ApiKeyIssuedSchema, issued, {
+    status: 201,
+    headers: { Location: `/api/admin/keys/${issued.key.id}`, 'Cache-Control': 'no-store' },
+  }, 'POST /api/admin/keys');
+}
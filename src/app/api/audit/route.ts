@@ -9,22 +9,16 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getRecentAuditEntries, getAuditSummary, exportAuditCSV } from '@/lib/audit-logger';
+import { AuditEntriesSchema, AuditSummarySchema } from '@/lib/types/api-schemas';
+import { contractJson } from '@/lib/api-contract';
+import { requireAdmin } from '@/lib/api-access';
 
 export const runtime = 'nodejs';
 
 export async function GET(request: NextRequest) {
   // Strict Security Check
-  const expectedKey = process.env.ADMIN_API_KEY;
-  if (!expectedKey) {
-    // Fail closed if server is misconfigured
-    console.error('[Config] CRITICAL: ADMIN_API_KEY is not set. Refusing to serve audit traffic.');
-    return new NextResponse('Service Misconfigured', { status: 503 });
-  }
-
-  const authHeader = request.headers.get('x-admin-api-key');
-  if (!authHeader || authHeader !== expectedKey) {
-    return new NextResponse('Unauthorized', { status: 401 });
-  }
+  const denied = requireAdmin(request);
+  if (denied) return denied;
 
   const format = request.nextUrl.searchParams.get('format') || 'summary';
   const limitParam = request.nextUrl.searchParams.get('limit');
@@ -44,7 +38,7 @@ export async function GET(request: NextRequest) {
 
     case 'json': {
       const entries = getRecentAuditEntries(limit);
-      return NextResponse.json({
+      return contractJson(AuditEntriesSchema, {
         count: entries.length,
         entries,
       });
@@ -53,7 +47,7 @@ export async function GET(request: NextRequest) {
     default: {
       // Summary view
       const summary = getAuditSummary();
-      return NextResponse.json({
+      return contractJson(AuditSummarySchema, {
         ...summary,
         exportFormats: {
           csv: '/api/audit?format=csv',
@@ -1,4 +1,5 @@
-import { NextResponse } from 'next/server';
+import { HealthSchema } from '@/lib/types/api-schemas';
+import { contractJson } from '@/lib/api-contract';
 
 export async function GET() {
   const health = {
@@ -15,7 +16,7 @@ export async function GET() {
 
   const allUp = Object.values(health.services).every(s => s === 'up' || s === 'configured');
   
-  return NextResponse.json(health, {
+  return contractJson(HealthSchema, health, {
     status: allUp ? 200 : 503,
   });
 }
@@ -0,0 +1,34 @@
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, buildJobArchive } from '@/lib/job-queue';
+import { archiveFilename } from '@/lib/report-archive';
+import { errorResponse } from '@/lib/api-contract';
+import { ApiError } from '@/lib/errors';
+import { identifyClient } from '@/lib/api-access';
+
+// Zip of the Markdown reports of every successful row, same layout as the batch page download
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const caller = identifyClient(request);
+  if (!caller.ok) return caller.response;
+  const job = getJob(params.id, { limit: 1 }, { ip: caller.client.ip, apiKeyId: caller.client.apiKey?.id });
+  if (!job) {
+    return errorResponse(new ApiError('NOT_FOUND', 'Unknown job ID, or the job finished more than 7 days ago'));
+  }
+  if (job.status === 'running') {
+    return errorResponse(new ApiError(
+      'CONFLICT',
+      `Job still running: ${job.summary.completed} of ${job.summary.unique} variants analyzed`
+    ));
+  }
+
+  const archive = (await buildJobArchive(params.id)) as Buffer;
+  return new NextResponse(new Uint8Array(archive), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${archiveFilename(new Date(job.completedAt ?? job.updatedAt))}"`,
+      'Content-Length': String(archive.length),
+    },
+  });
+}
@@ -0,0 +1,42 @@
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { getJob, cancelJob } from '@/lib/job-queue';
+import { JobAPIResponseSchema } from '@/lib/types/api-schemas';
+import { contractJson, errorResponse } from '@/lib/api-contract';
+import { ApiError } from '@/lib/errors';
+import { identifyClient, ApiClient } from '@/lib/api-access';
+
+function notFound() {
+  return errorResponse(new ApiError('NOT_FOUND', 'Unknown job ID, or the job finished more than 7 days ago'));
+}
+
+// Jobs are visible only to their submitter; anyone else sees NOT_FOUND
+function requesterOf(client: ApiClient) {
+  return { ip: client.ip, apiKeyId: client.apiKey?.id };
+}
+
+function pageParam(value: string | null): number | undefined {
+  const n = value === null ? NaN : parseInt(value, 10);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Progress, summary and one page of row results (?offset=&limit=)
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const caller = identifyClient(request);
+  if (!caller.ok) return caller.response;
+  const { searchParams } = new URL(request.url);
+  const job = getJob(params.id, {
+    offset: pageParam(searchParams.get('offset')),
+    limit: pageParam(searchParams.get('limit')),
+  }, requesterOf(caller.client));
+  return job ? contractJson(JobAPIResponseSchema, job, {}, 'GET /api/jobs/{jobId}') : notFound();
+}
+
+// Cancels rows that have not started; rows already running still finish
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const caller = identifyClient(request);
+  if (!caller.ok) return caller.response;
+  const job = cancelJob(params.id, requesterOf(caller.client));
+  return job ? contractJson(JobAPIResponseSchema, job, {}, 'DELETE /api/jobs/{jobId}') : notFound();
+}
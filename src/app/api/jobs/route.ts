@@ -0,0 +1,38 @@
+// Force Node.js runtime: jobs are stored in SQLite and run in this process
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { batchRateLimiter } from '@/lib/rate-limit';
+import { createJob } from '@/lib/job-queue';
+import { JobRequestSchema, JobCreatedSchema } from '@/lib/types/api-schemas';
+import { parseRequestBody, contractJson, errorResponse } from '@/lib/api-contract';
+import { ApiError, toApiError } from '@/lib/errors';
+import { checkAccess, claimAnalyses, withHeaders } from '@/lib/api-access';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Key and rate limit come first; the quota is claimed once the rows are counted
+    const access = await checkAccess(request, batchRateLimiter, 0);
+    if (!access.ok) return access.response;
+
+    const body = await parseRequestBody(request, JobRequestSchema);
+    if (!body.ok) return withHeaders(body.response, access.headers);
+    const { variants } = body.data;
+
+    // Every submitted row counts against an API key's daily quota
+    const claimed = claimAnalyses(access, variants.length);
+    if (!claimed.ok) return claimed.response;
+
+    const job = await createJob(variants, { ip: access.client.ip, apiKeyId: access.client.apiKey?.id });
+    if (!job) throw new ApiError('MISCONFIGURED', 'Job storage is unavailable');
+    const statusUrl = `/api/jobs/${job.jobId}`;
+    return contractJson(
+      JobCreatedSchema,
+      { jobId: job.jobId, status: job.status, statusUrl, downloadUrl: job.downloadUrl, summary: job.summary },
+      { status: 202, headers: { ...claimed.headers, Location: statusUrl } }
+    );
+  } catch (error) {
+    console.error('[JobsAPI] Error:', error);
+    return errorResponse(toApiError(error));
+  }
+}
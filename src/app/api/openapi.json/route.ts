@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+// Generated from src/lib/types/api-schemas.ts; changes only with a deploy
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument(), {
+    headers: { 'Cache-Control': 'public, max-age=3600' },
+  });
+}
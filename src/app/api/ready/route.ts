@@ -1,7 +1,8 @@
-import { NextResponse } from 'next/server';
+import { ReadinessSchema } from '@/lib/types/api-schemas';
+import { contractJson } from '@/lib/api-contract';
 
 export async function GET() {
-  return NextResponse.json({
+  return contractJson(ReadinessSchema, {
     status: 'ready',
     services: {
       pdb: 'up',
@@ -0,0 +1,69 @@
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeVariant, renderReportMarkdown } from '@/lib/analyze-variant';
+import { evidenceEtag, lastModifiedFor, isNotModified } from '@/lib/report-etag';
+import { variantRateLimiter } from '@/lib/rate-limit';
+import { logAuditEntry } from '@/lib/audit-logger';
+import { decodeHgvsSegment } from '@/lib/permalink';
+import { VariantReportSchema } from '@/lib/types/api-schemas';
+import { contractJson, errorResponse } from '@/lib/api-contract';
+import { checkAccess } from '@/lib/api-access';
+
+// Shared caches may keep a report for 5 minutes and serve it stale while revalidating
+const CACHE_CONTROL = 'public, max-age=300, stale-while-revalidate=3600';
+// Keyed responses carry that key's rate limit and quota, so only the caller may keep them
+const KEYED_CACHE_CONTROL = 'private, max-age=300';
+
+// Permalink: the report POST /api/variant returns, addressable and cacheable by URL
+export async function GET(request: NextRequest, { params }: { params: { hgvs: string } }) {
+  const startTime = Date.now();
+  const hgvs = decodeHgvsSegment(params.hgvs);
+
+  const access = await checkAccess(request, variantRateLimiter);
+  if (!access.ok) return access.response;
+  const { ip } = access.client;
+
+  const result = await analyzeVariant(hgvs);
+  if (!result.ok) {
+    // Same envelope as POST /api/variant, never cached
+    return errorResponse(result.error, { ...access.headers, 'Cache-Control': 'no-store' });
+  }
+
+  result.outcomes.forEach((outcome) => {
+    if (!outcome.ok) return;
+    logAuditEntry({
+      hgvs: outcome.response.variant.normalizedHgvs ?? outcome.response.variant.hgvs,
+      gene: outcome.response.variant.gene,
+      residue: outcome.response.variant.residue,
+      ip,
+      status: 'success',
+      processingMs: Date.now() - startTime,
+      evidenceSources: outcome.evidenceSources,
+      route: '/api/variant/[hgvs]',
+      apiKeyId: access.client.apiKey?.id,
+    });
+  });
+
+  const wantsMarkdown = ['md', 'markdown'].includes(new URL(request.url).searchParams.get('format') ?? '');
+  const etag = evidenceEtag(result.report, wantsMarkdown ? 'md' : '');
+  const lastModified = lastModifiedFor(hgvs, etag);
+  const headers = {
+    ...access.headers,
+    ETag: etag,
+    'Last-Modified': lastModified.toUTCString(),
+    'Cache-Control': access.client.apiKey ? KEYED_CACHE_CONTROL : CACHE_CONTROL,
+    Vary: 'Accept-Encoding, Authorization, X-API-Key',
+  };
+
+  if (isNotModified(request.headers, etag, lastModified)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  if (wantsMarkdown) {
+    return new NextResponse(renderReportMarkdown(result.report, result.outcomes), {
+      status: 200,
+      headers: { ...headers, 'Content-Type': 'text/markdown' },
+    });
+  }
+  return contractJson(VariantReportSchema, result.report, { status: 200, headers }, 'GET /api/variant/{hgvs}');
+}
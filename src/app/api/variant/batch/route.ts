@@ -0,0 +1,4 @@
+// Alias of POST /api/jobs kept for existing batch clients
+export const runtime = 'nodejs';
+
+export { POST } from '../../jobs/route';
@@ -2,372 +2,150 @@
 export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { parseHGVS, normalizeVariant } from '@/lib/variant';
-import { resolveStructure } from '@/lib/structure';
+import {
+  analyzeVariant,
+  prepareVariantInput,
+  describeParseError,
+  renderReportMarkdown,
+  AnalyzeVariantResult,
+  PreparedVariantInput,
+} from '@/lib/analyze-variant';
+import { PIPELINE_DEADLINE_MS } from '@/lib/variant-pipeline';
 import { variantRateLimiter } from '@/lib/rate-limit';
-import { 
-  curateUniprotData, 
-  validateVariantPosition,
-  buildEvidenceCoverage,
-  generateUnknowns,
-  UniProtUnavailableError
-} from '@/lib/uniprot-curator';
-import { HonestAPIResponse, RESEARCH_DISCLAIMER } from '@/lib/types/honest-response';
-import { getClinVarData, getClinVarUrl, getReviewStars } from '@/lib/clinvar-client';
-import { searchPubMed } from '@/lib/pubmed-client';
-import { getSiftsMapping } from '@/lib/sifts-client';
-import { generateMarkdown } from '@/lib/report-utils';
+import { resolveStreamFormat, createEventStream } from '@/lib/variant-stream';
+import { RESEARCH_DISCLAIMER } from '@/lib/types/honest-response';
+import {
+  VariantRequestSchema,
+  VariantReportSchema,
+  VariantStreamEventSchema,
+  ApiInfoSchema,
+} from '@/lib/types/api-schemas';
+import { parseRequestBody, contractJson, checkContract, errorResponse } from '@/lib/api-contract';
+import { toApiError } from '@/lib/errors';
+import { checkAccess, withHeaders, ApiClient } from '@/lib/api-access';
 import { logAuditEntry } from '@/lib/audit-logger';
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
-  let gene = 'unknown';
-  let residueNumber = 0;
-  let normalizedInput = '';
-  const ip = request.headers.get('x-forwarded-for') || 'unknown';
 
-  try {
-    // Rate limiting
-    const allowed = await variantRateLimiter.check(ip);
-    
-    if (!allowed) {
-      const retryAfter = variantRateLimiter.getRetryAfter(ip);
+  // API key or IP: rate limit, daily quota and X-RateLimit-* headers
+  const access = await checkAccess(request, variantRateLimiter);
+  if (!access.ok) {
+    if (access.response.status === 429) {
       logAuditEntry({
-        hgvs: 'unknown', gene: 'unknown', residue: 0, ip,
+        hgvs: 'unknown', gene: 'unknown', residue: 0, ip: access.client.ip,
         status: 'rate_limited', processingMs: Date.now() - startTime,
         evidenceSources: { clinvar: false, structure: false, literature: false },
+        apiKeyId: access.client.apiKey?.id,
       });
-      return NextResponse.json(
-        { error: 'Rate limit exceeded', retryAfter },
-        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
-      );
-    }
-
-    // Parse request
-    const body = await request.json();
-    const { hgvs } = body;
-
-    if (!hgvs) {
-      return NextResponse.json(
-        { error: 'Missing required field: hgvs' },
-        { status: 400 }
-      );
-    }
-
-    // Validate HGVS format
-    let normalizedVariant;
-    try {
-      normalizedVariant = normalizeVariant(hgvs);
-      normalizedInput = normalizedVariant.normalized;
-      gene = normalizedVariant.parsed.gene;
-      residueNumber = normalizedVariant.parsed.pos;
-    } catch (error) {
-      return NextResponse.json(
-        { error: `Invalid HGVS: ${(error as Error).message}` },
-        { status: 400 }
-      );
     }
+    return access.response;
+  }
+  return withHeaders(await analyzeRequest(request, access.client, startTime), access.headers);
+}
 
-    // ==========================================
-    // STEP 1: CURATE UNIPROT DATA (CORE)
-    // ==========================================
-    let curatedInfo;
-    try {
-      curatedInfo = await curateUniprotData(gene, residueNumber);
-    } catch (error) {
-      const message = (error as Error).message;
-      
-      // Position validation failed
-      if (message.includes('exceeds') || message.includes('invalid')) {
-        return NextResponse.json({
-          error: true,
-          code: 'INVALID_POSITION',
-          message,
-          details: { gene, providedPosition: residueNumber },
-        }, { status: 400 });
-      }
-      
-      // Gene not found / UniProt Unavailable
-      if (error instanceof UniProtUnavailableError) {
-          console.error(`[HonestAPI] Core data unavailable: ${gene}`);
-           // Graceful degradation for CORE failure
-           // We explicitly return a 200 OK with specific error shape as requested
-           return NextResponse.json({
-               variant: { hgvs: normalizedInput, gene, residue: residueNumber, isValidPosition: true },
-               coreData: { 
-                   unavailable: true, 
-                   reason: 'Core protein data service (UniProt) is unavailable.', 
-                   service: 'uniprot' 
-               },
-               coverage: {
-                   structure: { status: 'unavailable', reason: 'Core data missing' },
-                   clinical: { status: 'unavailable', reason: 'Core data missing' },
-                   domain: { inAnnotatedDomain: false },
-                   literature: { variantSpecificCount: 0, unavailable: true, reason: 'Core data missing' }
-               },
-               unknowns: { items: ['Core data unavailable (UniProt)'], severity: 'critical' },
-               timestamp: new Date().toISOString(),
-               processingMs: Date.now() - startTime,
-           });
-      }
+async function analyzeRequest(request: NextRequest, client: ApiClient, startTime: number): Promise<Response> {
+  let gene = 'unknown';
+  let residueNumber = 0;
+  const { ip } = client;
+  const apiKeyId = client.apiKey?.id;
 
-      if (message.includes('resolve') || message.includes('Could not fetch')) {
-        return NextResponse.json({
-          error: true,
-          code: 'UNKNOWN_GENE',
-          message: `Could not resolve gene "${gene}" to UniProt`,
-        }, { status: 404 });
-      }
-      
-      throw error;
-    }
+  try {
+    // Parse request
+    const body = await parseRequestBody(request, VariantRequestSchema);
+    if (!body.ok) return body.response;
+    const { hgvs } = body.data;
 
-    // ==========================================
-    // STEP 2: RESOLVE STRUCTURE
-    // ==========================================
-    let structureData = null;
-    let enrichedAvailableStructures: any[] = [];
-    let availableStructures: any[] = [];
-    
-    // Explicitly handle type for structure result to check for availability
-    // Note: resolveStructure currently returns specific object, not FetchResult.
-    // Ideally resolveStructure should also be robust, but it uses fetch locally or internal logic?
-    // Looking at imports: resolveStructure is from '@/lib/structure'.
-    // We assume resolveStructure logic might fail gracefully or return null.
-    // For P1, if we didn't refactor resolveStructure to use fetchWithRetry yet, we wrap it.
-    
+    // Validate HGVS format (genomic input may yield several consequences,
+    // bracketed alleles several components)
+    let prepared: PreparedVariantInput;
     try {
-      const result = await resolveStructure(gene, residueNumber);
-      structureData = result.best;
-      availableStructures = result.available || [];
-
-      // Enrich structures with SIFTS (now resilient)
-      if (curatedInfo.uniprotId && availableStructures.length > 0) {
-           enrichedAvailableStructures = await Promise.all(
-              availableStructures.map(async (s) => {
-                  let chain = 'A';
-                  let mapped = s.mapped ?? false;
-                  let pdbResidue: string | undefined = undefined;
-
-                  if (s.source === 'PDB') {
-                      const sifts = await getSiftsMapping(curatedInfo.uniprotId, residueNumber, s.id);
-                      
-                      // Handle Resilient SIFTS Response
-                      if (sifts && 'unavailable' in sifts) {
-                          // partial failure of SIFTS for this structure
-                          // Treat as unmapped/unknown
-                          console.warn(`[HonestAPI] SIFTS unavailable for ${s.id}`);
-                          mapped = false; 
-                      } else if (sifts) {
-                          chain = sifts.chain;
-                          mapped = sifts.mapped;
-                          pdbResidue = sifts.pdbResidue;
-                      } else {
-                          mapped = false;
-                      }
-                  } else if (s.source === 'AlphaFold') {
-                      chain = 'A';
-                      mapped = true;
-                      pdbResidue = String(residueNumber);
-                  }
-
-                  return {
-                      id: s.id,
-                      source: s.source,
-                      url: s.url,
-                      resolution: s.resolution,
-                      paeUrl: s.paeUrl,
-                      chain,
-                      mapped,
-                      pdbResidue
-                  };
-              })
-           );
-      }
+      prepared = await prepareVariantInput(hgvs);
     } catch (error) {
-       console.log(`[HonestAPI] Structure resolution failed:`, (error as Error).message);
+      return errorResponse(describeParseError(hgvs, error as Error));
     }
+    gene = prepared.candidates[0].parsed.gene;
+    residueNumber = prepared.candidates[0].parsed.pos;
 
-    // ==========================================
-    // STEP 3: FETCH CLINVAR (Resilient)
-    // ==========================================
-    const proteinChange = `p.${normalizedVariant.parsed.ref}${normalizedVariant.parsed.pos}${normalizedVariant.parsed.alt}`;
-    let clinvarData = null;
-    
-    // getClinVarData now returns FetchResult<ClinVarResult>
-    const clinvarResult = await getClinVarData(gene, proteinChange);
-    
-    // Prepare data for coverage builder (handling unavailable state)
-    // If unavailable, pass the failure object directly (buildEvidenceCoverage handles it)
-    // If null, pass null.
-    // If success, pass success.
-    
-    const clinvarForBuilder = clinvarResult; 
-    
-    if (clinvarResult && !('unavailable' in clinvarResult)) {
-        // Success case - log it
-        console.log(`[HonestAPI] ClinVar found: ${clinvarResult.clinicalSignificance}`);
-        clinvarData = clinvarResult;
-    } else if (clinvarResult && 'unavailable' in clinvarResult) {
-        console.log(`[HonestAPI] ClinVar unavailable: ${clinvarResult.reason}`);
-    } else {
-        console.log(`[HonestAPI] No ClinVar entry for ${gene}:${proteinChange}`);
-    }
-
-    // ==========================================
-    // STEP 4: FETCH LITERATURE (Resilient)
-    // ==========================================
-    let pubmedData = null;
-    const pubmedResult = await searchPubMed(gene, proteinChange);
-    const pubmedForBuilder = pubmedResult;
-
-    if (pubmedResult && !('unavailable' in pubmedResult)) {
-         if (pubmedResult.count > 0) {
-             console.log(`[HonestAPI] PubMed found: ${pubmedResult.count} papers`);
-         }
-         pubmedData = pubmedResult;
-    } else if (pubmedResult && 'unavailable' in pubmedResult) {
-         const reason =
-           'reason' in pubmedResult ? String(pubmedResult.reason) : 'unknown';
-         console.log(`[HonestAPI] PubMed unavailable: ${reason}`);
-    }
-
-    // ==========================================
-    // STEP 5: BUILD EVIDENCE COVERAGE
-    // ==========================================
-    
-    // Refine structure data for builder:
-    // We already enriched it. If `resolveStructure` failed entirely it's null.
-    // We didn't add "Unavailable" state to `resolveStructure` yet (it wasn't in list of clients to refactor in P1, explicitly).
-    // So we assume structure is "none" if it failed, unless we want to manually wrap it.
-    // For now, passing `structureData` (enriched) is fine.
-    
-    // We need to re-assemble structure object for builder with enriched structures
-    // structureData comes from resolveStructure().best, which does NOT have availableStructures.
-    // We must inject it here.
-    let structureForBuilder = structureData ? {
-        ...structureData,
-        sifts: (() => {
-          const matched = (enrichedAvailableStructures.length > 0 ? enrichedAvailableStructures : availableStructures)
-            .find((s: any) => s.id === structureData?.id && s.source === structureData?.source);
-          if (!matched) return null;
-          return {
-            mapped: !!matched.mapped && !!matched.pdbResidue,
-            pdbId: matched.id,
-            chain: matched.chain || 'A',
-            pdbResidue: matched.pdbResidue || '?',
-            source: matched.source === 'PDB' ? 'PDBe-KB' : 'AlphaFold sequence index'
-          };
-        })(),
-        availableStructures: enrichedAvailableStructures.length > 0 ? enrichedAvailableStructures : availableStructures
-    } : null;
-
-    // Prepare ClinVar data for builder
-    let clinvarBuilderData = null;
-    if (clinvarData) {
-        clinvarBuilderData = {
-           significance: clinvarData.clinicalSignificance,
-           reviewStatus: clinvarData.reviewStatus,
-           stars: getReviewStars(clinvarData.reviewStatus),
-           clinvarId: clinvarData.clinvarId,
-           url: getClinVarUrl(clinvarData.clinvarId),
-           conditions: clinvarData.conditions
-        };
-    } else if (clinvarResult && 'unavailable' in clinvarResult) {
-        clinvarBuilderData = { unavailable: true as const, reason: clinvarResult.reason };
-    }
-
-    const coverage = await buildEvidenceCoverage(
-      curatedInfo,
-      structureForBuilder,
-      clinvarBuilderData,
-      pubmedForBuilder   // Can be success | failure | null
-    );
-
-    // ==========================================
-    // STEP 6: GENERATE EXPLICIT UNKNOWNS
-    // ==========================================
-    const unknowns = generateUnknowns(curatedInfo, coverage);
-
-    // ==========================================
-    // STEP 7: BUILD RESPONSE
-    // ==========================================
-    const response: HonestAPIResponse = {
-      variant: {
-        hgvs: normalizedInput,
-        originalHgvs: hgvs,
-        normalizedHgvs: normalizedInput,
-        transcript: normalizedVariant.parsed.transcript,
-        variantType: normalizedVariant.parsed.type === 'nonsense'
-          ? 'stop-gain'
-          : normalizedVariant.parsed.type,
-        significance: normalizedVariant.parsed.type === 'nonsense'
-          ? 'Pathogenic (nonsense)'
-          : undefined,
-        gene: curatedInfo.gene,
-        residue: residueNumber,
-        isValidPosition: true,
-      },
-      coverage,
-      unknowns,
-      curatedInfo,
-      timestamp: new Date().toISOString(),
-      processingMs: Date.now() - startTime,
-    };
-
-    // Audit log
-    logAuditEntry({
-      hgvs: normalizedInput,
-      gene,
-      residue: residueNumber,
-      ip,
-      status: 'success', // It is a success 200, even if data is partial
-      processingMs: Date.now() - startTime,
-      evidenceSources: {
-        clinvar: !!clinvarData,
-        structure: !!structureData,
-        literature: !!(pubmedData && pubmedData.count > 0),
-      },
-    });
-
-    // Handle Markdown Format
+    // Handle Markdown Format / streaming
     let format = 'json';
     try {
         const url = new URL(request.url);
         format = url.searchParams.get('format') || 'json';
     } catch {}
+    const wantsMarkdown = format === 'md' || format === 'markdown';
+    const streamFormat = resolveStreamFormat(format, request.headers.get('accept'));
+
+    // Audit log: one entry per analyzed consequence
+    const audit = (result: AnalyzeVariantResult) => {
+      result.outcomes.forEach((outcome, index) => {
+        if (!outcome.ok) return;
+        const { normalized, parsed } = prepared.candidates[index];
+        logAuditEntry({
+          hgvs: normalized,
+          gene: parsed.gene,
+          residue: parsed.pos,
+          ip,
+          status: 'success', // It is a success 200, even if data is partial
+          processingMs: Date.now() - startTime,
+          evidenceSources: outcome.evidenceSources,
+          apiKeyId,
+        });
+      });
+    };
 
-    if (format === 'md' || format === 'markdown') {
-       const md = generateMarkdown(response);
-       return new NextResponse(md, {
-         status: 200,
-         headers: { 'Content-Type': 'text/markdown' }
-       });
+    // Streaming: every section as it resolves, then the same report as below
+    if (streamFormat) {
+      // A client that disconnects stops the analysis instead of leaving it to the deadline
+      return createEventStream(streamFormat, async (send, signal) => {
+        const emit: typeof send = (event) => {
+          checkContract(VariantStreamEventSchema, event, `POST /api/variant ${event.type} event`);
+          send(event);
+        };
+        const result = await analyzeVariant(prepared, { emit, signal });
+        audit(result);
+        emit({ type: 'report', status: result.status, body: result.ok ? result.report : result.error });
+      }, request.signal);
     }
 
-    return NextResponse.json(response);
+    const result = await analyzeVariant(prepared);
+    audit(result);
+
+    // A single consequence that failed stays JSON so the error code is kept
+    if (wantsMarkdown && result.ok) {
+      return new NextResponse(renderReportMarkdown(result.report, result.outcomes), {
+        status: 200,
+        headers: { 'Content-Type': 'text/markdown' }
+      });
+    }
+    return result.ok
+      ? contractJson(VariantReportSchema, result.report, { status: 200 }, 'POST /api/variant')
+      : errorResponse(result.error);
 
   } catch (error) {
     console.error('[HonestAPI] Error:', error);
+    const apiError = toApiError(error);
     logAuditEntry({
       hgvs: 'unknown', gene, residue: residueNumber, ip: ip,
       status: 'error', processingMs: Date.now() - startTime,
       evidenceSources: { clinvar: false, structure: false, literature: false },
-      errorCode: (error as Error).message,
+      errorCode: apiError.code,
+      apiKeyId,
     });
-    return NextResponse.json(
-      { error: 'Internal server error', message: (error as Error).message },
-      { status: 500 }
-    );
+    return errorResponse(apiError);
   }
 }
 
 // Keep old endpoint for backward compatibility
 export async function GET(request: NextRequest) {
-  return NextResponse.json({
+  return contractJson(ApiInfoSchema, {
     message: 'VariantLens API - Honest MVP',
     version: '2.0.0-pivot',
     disclaimer: RESEARCH_DISCLAIMER,
-    usage: 'POST /api/variant with { "hgvs": "GENE:p.XnnnY" }',
+    usage: 'POST /api/variant with { "hgvs": "GENE:p.XnnnY" }, { "hgvs": "NM_004985.5:c.35G>A" }, { "hgvs": "12-25245350-C-T" } or { "hgvs": "TP53:p.[Arg175His;Arg248Gln]" }',
+    streaming: 'POST /api/variant?format=ndjson (or format=sse) emits variant, protein, structure, clinical, literature, evidence (additional providers) and unknowns events as each source resolves, then a final report event',
+    timings: `Evidence stages share a ${PIPELINE_DEADLINE_MS / 1000}s budget; each report lists per-stage timings, and stages still pending at the deadline are reported unavailable (timeout)`,
+    batch: 'POST /api/jobs with { "variants": ["TP53:p.R175H", ...] } (up to 5000), then poll GET /api/jobs/{jobId}',
+    openapi: 'GET /api/openapi.json (OpenAPI 3.1), rendered at /docs',
   });
 }
@@ -0,0 +1,165 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+export const metadata: Metadata = {
+  title: 'API reference',
+  description: 'VariantLens HTTP API, generated from the same schemas the routes validate against.',
+};
+
+type Schema = Record<string, any>;
+
+const METHOD_COLORS: Record<string, string> = {
+  get: 'bg-sky-500/20 text-sky-300',
+  post: 'bg-emerald-500/20 text-emerald-300',
+  delete: 'bg-red-500/20 text-red-300',
+};
+
+function refName(ref: string): string {
+  return ref.split('/').pop() ?? ref;
+}
+
+// Compact type notation: TypeName, string[], 'a' | 'b', Record<string, T>
+function TypeLabel({ schema }: { schema: Schema }) {
+  if (schema.$ref) {
+    const name = refName(schema.$ref);
+    return <a href={`#schema-${name}`} className="text-cyan-300 hover:underline">{name}</a>;
+  }
+  const union = schema.anyOf ?? schema.oneOf ?? schema.allOf;
+  if (union) {
+    const separator = schema.allOf ? ' & ' : ' | ';
+    return (
+      <>
+        {union.map((member: Schema, i: number) => (
+          <span key={i}>{i > 0 && separator}<TypeLabel schema={member} /></span>
+        ))}
+      </>
+    );
+  }
+  if ('const' in schema) return <span>{JSON.stringify(schema.const)}</span>;
+  if (schema.enum) return <span>{schema.enum.map((v: string) => `'${v}'`).join(' | ')}</span>;
+  if (schema.type === 'array') return <span><TypeLabel schema={schema.items} />[]</span>;
+  if (schema.type === 'object' && schema.additionalProperties) {
+    return <span>Record&lt;string, <TypeLabel schema={schema.additionalProperties} />&gt;</span>;
+  }
+  return <span>{schema.type ?? 'any'}</span>;
+}
+
+function ContentTypes({ content }: { content?: Record<string, { schema: Schema }> }) {
+  if (!content) return null;
+  return (
+    <ul className="space-y-1">
+      {Object.entries(content).map(([type, { schema }]) => (
+        <li key={type} className="font-mono text-xs">
+          <span className="text-gray-500">{type}</span> <TypeLabel schema={schema} />
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function SchemaTable({ schema }: { schema: Schema }) {
+  if (schema.type !== 'object' || !schema.properties) {
+    return <p className="font-mono text-xs"><TypeLabel schema={schema} /></p>;
+  }
+  const required = new Set<string>(schema.required ?? []);
+  return (
+    <table className="w-full text-xs">
+      <tbody>
+        {Object.entries(schema.properties as Record<string, Schema>).map(([name, property]) => (
+          <tr key={name} className="border-t border-white/5 align-top">
+            <td className="py-1 pr-3 font-mono text-white whitespace-nowrap">
+              {name}{required.has(name) ? '' : '?'}
+            </td>
+            <td className="py-1 pr-3 font-mono text-gray-300"><TypeLabel schema={property} /></td>
+            <td className="py-1 text-gray-500">{property.description}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function ApiDocsPage() {
+  const doc = buildOpenApiDocument() as Schema;
+  const schemas = doc.components.schemas as Record<string, Schema>;
+
+  return (
+    <main className="min-h-screen relative">
+      <div className="mesh-bg" />
+
+      <div className="relative z-10 max-w-4xl mx-auto p-4 md:p-8 space-y-10">
+        <header className="space-y-2">
+          <Link href="/" className="text-sm text-gray-400 hover:text-white underline">VariantLens</Link>
+          <h1 className="text-3xl font-bold text-white">{doc.info.title}</h1>
+          <p className="text-gray-400 text-sm">{doc.info.description}</p>
+          <p className="text-sm">
+            <a href="/api/openapi.json" className="text-cyan-300 hover:underline">openapi.json</a>
+            <span className="text-gray-500"> · OpenAPI {doc.openapi} · version {doc.info.version}</span>
+          </p>
+        </header>
+
+        <section className="space-y-6">
+          <h2 className="text-xl font-semibold text-white">Endpoints</h2>
+          {Object.entries(doc.paths as Record<string, Record<string, Schema>>).flatMap(([path, operations]) =>
+            Object.entries(operations).map(([method, op]) => (
+              <article key={`${method} ${path}`} id={op.operationId} className="glass rounded-xl p-4 space-y-3">
+                <div className="flex items-center gap-3">
+                  <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase ${METHOD_COLORS[method] ?? ''}`}>{method}</span>
+                  <code className="text-white">{path}</code>
+                </div>
+                <p className="text-sm text-gray-300">{op.summary}</p>
+                {op.description && <p className="text-xs text-gray-500">{op.description}</p>}
+
+                {op.parameters?.length > 0 && (
+                  <div className="space-y-1">
+                    <h3 className="text-xs uppercase tracking-wide text-gray-500">Parameters</h3>
+                    <ul className="space-y-1">
+                      {op.parameters.map((param: Schema) => (
+                        <li key={`${param.in}:${param.name}`} className="font-mono text-xs text-gray-300">
+                          {param.name}{param.required ? '' : '?'} <span className="text-gray-500">({param.in})</span>{' '}
+                          <TypeLabel schema={param.schema} />
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {op.requestBody && (
+                  <div className="space-y-1">
+                    <h3 className="text-xs uppercase tracking-wide text-gray-500">Request body</h3>
+                    <ContentTypes content={op.requestBody.content} />
+                  </div>
+                )}
+
+                <div className="space-y-1">
+                  <h3 className="text-xs uppercase tracking-wide text-gray-500">Responses</h3>
+                  <ul className="space-y-2">
+                    {Object.entries(op.responses as Record<string, Schema>).map(([status, res]) => (
+                      <li key={status} className="text-xs">
+                        <span className="font-mono text-white">{status}</span>{' '}
+                        <span className="text-gray-400">{res.description}</span>
+                        <ContentTypes content={res.content} />
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </article>
+            ))
+          )}
+        </section>
+
+        <section className="space-y-4">
+          <h2 className="text-xl font-semibold text-white">Schemas</h2>
+          {Object.entries(schemas).map(([name, schema]) => (
+            <article key={name} id={`schema-${name}`} className="glass rounded-xl p-4 space-y-2">
+              <h3 className="font-mono text-white">{name}</h3>
+              {schema.description && <p className="text-xs text-gray-500">{schema.description}</p>}
+              <SchemaTable schema={schema} />
+            </article>
+          ))}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -1,54 +1,138 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Hero from "@/components/Hero";
 import SearchInput from "@/components/SearchInput";
 import ReportView from "@/components/ReportView";
 import BatchUpload from "@/components/BatchUpload";
 import { motion, AnimatePresence } from "framer-motion";
 
-import { HonestReportData } from '@/lib/types/honest-response';
+import {
+  HonestReportData,
+  AlleleAPIResponse,
+  AlleleSharedContext,
+  InputDiagnostics,
+  StreamedReportData,
+  VariantStreamEvent,
+} from '@/lib/types/honest-response';
+import { readVariantStream, applyStreamEvent, STREAM_CONTENT_TYPES } from '@/lib/variant-stream';
+import { variantPagePath } from '@/lib/permalink';
+
+// Suggest where the stated reference residue does occur
+function refMismatchHint(details?: { nearbyPositions?: number[]; matchingIsoforms?: string[] }): string {
+  const hints: string[] = [];
+  if (details?.nearbyPositions?.length) {
+    hints.push(`nearby positions ${details.nearbyPositions.slice(0, 3).join(', ')}`);
+  }
+  if (details?.matchingIsoforms?.length) {
+    hints.push(`isoform ${details.matchingIsoforms.join(', ')}`);
+  }
+  return hints.length ? `. Stated residue found at ${hints.join(' and ')}.` : '';
+}
+
+// One-line summary of what the components of an allele share
+function describeAlleleContext(input: AlleleAPIResponse['input'], shared: AlleleSharedContext): string {
+  const domains = shared.sameDomain ? `same domain (${shared.sharedDomains.join(', ')})` : 'no shared domain';
+  const structure = shared.structure.status === 'measured'
+    ? `${shared.structure.sameNeighborhood ? 'same' : 'different'} 3D neighborhood (${shared.structure.pairs.map((p) => `${p.distanceAngstrom} Å`).join(', ')})`
+    : '3D distance unavailable';
+  return `${input.alleleHgvs} (${input.phase}): ${domains}; ${structure}`;
+}
 
 export default function Home() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [data, setData] = useState<HonestReportData | null>(null);
+  const [data, setData] = useState<HonestReportData[] | null>(null);
+  const [consequenceNotes, setConsequenceNotes] = useState<string[]>([]);
+  const [alleleSummary, setAlleleSummary] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<InputDiagnostics | null>(null);
+  // Sections received so far, shown until the final report replaces them
+  const [streamed, setStreamed] = useState<StreamedReportData[]>([]);
+  // Mirrors ?q= so reloads, shared links and the back button restore the search
+  const [query, setQuery] = useState('');
 
-  const handleSearch = async (hgvs: string) => {
+  const reset = () => {
+    setQuery('');
+    setError(null);
+    setData(null);
+    setConsequenceNotes([]);
+    setAlleleSummary(null);
+    setDiagnostics(null);
+  };
+
+  const runSearch = async (hgvs: string) => {
+    setQuery(hgvs);
     setLoading(true);
     setError(null);
     setData(null); // Clear previous results
+    setConsequenceNotes([]);
+    setAlleleSummary(null);
+    setDiagnostics(null);
+    setStreamed([]);
 
     try {
-      const res = await fetch('/api/variant', {
+      const res = await fetch('/api/variant?format=ndjson', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ hgvs }),
       });
 
-      const responseText = await res.text();
+      let status = res.status;
       let json: any = null;
-      if (responseText) {
-        try {
-          json = JSON.parse(responseText);
-        } catch {
-          throw new Error(
-            res.ok
-              ? 'Server returned a non-JSON response.'
-              : `Request failed (${res.status}): ${responseText.slice(0, 200)}`
-          );
+      if (res.ok && res.body && res.headers.get('Content-Type')?.includes(STREAM_CONTENT_TYPES.ndjson)) {
+        // Sections render as they arrive; the final report event carries the usual response
+        let report: Extract<VariantStreamEvent, { type: 'report' }> | null = null;
+        await readVariantStream(res.body, (event) => {
+          if (event.type === 'report') report = event;
+          else setStreamed((prev) => applyStreamEvent(prev, event));
+        });
+        if (!report) throw new Error('Analysis stream ended before the report was complete.');
+        ({ status, body: json } = report);
+      } else {
+        const responseText = await res.text();
+        if (responseText) {
+          try {
+            json = JSON.parse(responseText);
+          } catch {
+            throw new Error(
+              res.ok
+                ? 'Server returned a non-JSON response.'
+                : `Request failed (${res.status}): ${responseText.slice(0, 200)}`
+            );
+          }
         }
       }
 
-      if (!res.ok) {
-        throw new Error(json?.error || json?.message || `Failed to analyze variant (${res.status})`);
+      if (status >= 400) {
+        const reason = json?.message;
+        const hint = json?.code === 'REF_MISMATCH' ? refMismatchHint(json.details) : '';
+        setDiagnostics(json?.diagnostics ?? null);
+        throw new Error(`${reason || `Failed to analyze variant (${status})`}${hint}`);
       }
 
       if (!json) {
         throw new Error('Server returned an empty response.');
       }
 
-      setData(json);
+      // Genomic input returns one entry per overlapping transcript, allele input one per component
+      const entries = json.consequences ?? json.components;
+      if (Array.isArray(entries)) {
+        const reports = entries.filter((c: any) => c.variant && c.curatedInfo);
+        setConsequenceNotes(
+          entries
+            .filter((c: any) => !(c.variant && c.curatedInfo))
+            .map((c: any) => c.message || 'Consequence could not be analyzed')
+        );
+        if (reports.length === 0) {
+          throw new Error(`No protein consequence of ${json.input?.genomicHgvs || json.input?.alleleHgvs || hgvs} could be analyzed.`);
+        }
+        if (json.shared) {
+          setAlleleSummary(describeAlleleContext(json.input, json.shared));
+        }
+        setData(reports);
+      } else {
+        setData([json]);
+      }
       // Smooth scroll to results
       setTimeout(() => {
         window.scrollTo({ top: 500, behavior: 'smooth' });
@@ -57,10 +141,29 @@ export default function Home() {
     } catch (err) {
       setError((err as Error).message);
     } finally {
+      setStreamed([]);
       setLoading(false);
     }
   };
 
+  const handleSearch = (hgvs: string) => {
+    if (hgvs !== new URLSearchParams(window.location.search).get('q')) {
+      window.history.pushState(null, '', `/?q=${encodeURIComponent(hgvs)}`);
+    }
+    runSearch(hgvs);
+  };
+
+  useEffect(() => {
+    const restore = () => {
+      const q = new URLSearchParams(window.location.search).get('q');
+      if (q) runSearch(q);
+      else reset();
+    };
+    restore();
+    window.addEventListener('popstate', restore);
+    return () => window.removeEventListener('popstate', restore);
+  }, []);
+
   return (
     <main className="min-h-screen relative">
        {/* Animated Mesh Gradient Background */}
@@ -69,7 +172,7 @@ export default function Home() {
        <div className="relative z-10 p-3 sm:p-4 md:p-8">
          <Hero />
 
-         <SearchInput onSearch={handleSearch} loading={loading} />
+         <SearchInput onSearch={handleSearch} loading={loading} diagnostics={diagnostics} query={query} />
          
          <div className="mt-8 max-w-2xl mx-auto">
             <BatchUpload />
@@ -90,10 +193,32 @@ export default function Home() {
            ) : null}
          </AnimatePresence>
 
+         {/* Streamed sections while the analysis runs */}
+         {!data && streamed.length > 0 && (
+           <div className="space-y-8">
+             {streamed.filter((report) => report && !report.failed).map((report, index) => (
+               <ReportView key={index} data={report} />
+             ))}
+           </div>
+         )}
+
          {/* Results */}
          <AnimatePresence mode="wait">
             {data ? (
-              <ReportView key={data.variant.hgvs} data={data} />
+              <div key={data.map((d) => d.variant.hgvs).join('|')} className="space-y-8">
+                <p className="text-center text-xs">
+                  <a href={variantPagePath(query)} className="text-gray-500 hover:text-white underline">Permalink</a>
+                </p>
+                {alleleSummary && (
+                  <p className="max-w-xl mx-auto text-center text-sm text-gray-400 font-mono">{alleleSummary}</p>
+                )}
+                {consequenceNotes.map((note) => (
+                  <p key={note} className="max-w-md mx-auto text-center text-sm text-amber-400/80">{note}</p>
+                ))}
+                {data.map((report) => (
+                  <ReportView key={report.variant.hgvs} data={report} />
+                ))}
+              </div>
             ) : null}
          </AnimatePresence>
        </div>
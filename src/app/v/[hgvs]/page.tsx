@@ -0,0 +1,72 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { headers } from 'next/headers';
+import { NextRequest } from 'next/server';
+import ReportView from '@/components/ReportView';
+import { GET as getVariantReport } from '@/app/api/variant/[hgvs]/route';
+import { decodeHgvsSegment, variantApiPath } from '@/lib/permalink';
+import { ApiErrorBody, HonestReportData } from '@/lib/types/honest-response';
+import type { VariantReport } from '@/lib/analyze-variant';
+
+// Rendered per request through GET /api/variant/{hgvs}, so a page view is keyed, rate limited and audited like an API call
+export const dynamic = 'force-dynamic';
+
+export function generateMetadata({ params }: { params: { hgvs: string } }): Metadata {
+  const hgvs = decodeHgvsSegment(params.hgvs);
+  return {
+    title: hgvs,
+    description: `Evidence briefing for ${hgvs}: structure, ClinVar, literature and explicit unknowns.`,
+  };
+}
+
+export default async function VariantPermalinkPage({ params }: { params: { hgvs: string } }) {
+  const hgvs = decodeHgvsSegment(params.hgvs);
+  const forwarded = new Headers(headers());
+  // The page always needs a body, never the API's 304
+  forwarded.delete('if-none-match');
+  forwarded.delete('if-modified-since');
+  const url = new URL(variantApiPath(hgvs), `http://${forwarded.get('host') ?? 'localhost'}`);
+  const response = await getVariantReport(new NextRequest(url, { headers: forwarded }), { params: { hgvs } });
+  const body = await response.json();
+  const error = response.ok ? null : (body as ApiErrorBody);
+
+  let reports: HonestReportData[] = [];
+  let notes: string[] = [];
+  if (!error) {
+    // Genomic input has one entry per consequence, allele input one per component
+    const report = body as VariantReport;
+    const entries = ('consequences' in report ? report.consequences : 'components' in report ? report.components : [report]) as
+      Array<HonestReportData | ApiErrorBody>;
+    reports = entries.filter((entry): entry is HonestReportData => 'curatedInfo' in entry);
+    notes = entries.flatMap((entry) => ('curatedInfo' in entry ? [] : [entry.message]));
+  }
+
+  return (
+    <main className="min-h-screen relative">
+      <div className="mesh-bg" />
+
+      <div className="relative z-10 p-3 sm:p-4 md:p-8 space-y-8">
+        <div className="max-w-2xl mx-auto flex items-center justify-between gap-3 text-sm">
+          <Link href={`/?q=${encodeURIComponent(hgvs)}`} className="text-gray-400 hover:text-white underline">
+            New search
+          </Link>
+          <span className="font-mono text-gray-500 truncate">{hgvs}</span>
+        </div>
+
+        {error && (
+          <div className="max-w-md mx-auto glass border-red-500/30 text-red-400 p-4 rounded-xl text-center">
+            <p className="font-medium">Analysis Failed</p>
+            <p className="text-sm opacity-80 mt-1">{error.message}</p>
+          </div>
+        )}
+
+        {notes.map((note) => (
+          <p key={note} className="max-w-md mx-auto text-center text-sm text-amber-400/80">{note}</p>
+        ))}
+        {reports.map((report) => (
+          <ReportView key={report.variant.hgvs} data={report} />
+        ))}
+      </div>
+    </main>
+  );
+}
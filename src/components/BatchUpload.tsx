@@ -1,15 +1,44 @@
 "use client";
 
-import { useState } from "react";
-import JSZip from "jszip";
+import { useEffect, useState } from "react";
 import { Upload, FileText, Download, AlertCircle, X, Check, Loader2 } from "lucide-react";
 import { clsx } from "clsx";
+import { JobAPIResponse, JobItemResult } from "../lib/types/honest-response";
+
+const JOB_POLL_MS = 2000;
+const JOB_PAGE_SIZE = 1000;
+const JOB_STORAGE_KEY = "variant-lens-batch";
 
 interface BatchResult {
   hgvs: string;
-  status: 'pending' | 'success' | 'error';
+  status: 'pending' | 'success' | 'error' | 'cancelled';
   error?: string;
-  md?: string;
+}
+
+// Duplicate rows show the error of the row they repeat
+function toBatchResults(items: JobItemResult[]): BatchResult[] {
+  return items.map((item) => {
+    const source = item.duplicateOf !== undefined ? items[item.duplicateOf] : item;
+    return {
+      hgvs: item.input,
+      status: item.status === 'invalid' ? 'error' : item.status === 'running' ? 'pending' : item.status,
+      error: source.error?.message,
+    };
+  });
+}
+
+// The status endpoint is paged; large jobs take a few requests per poll
+async function fetchJob(jobId: string): Promise<{ job: JobAPIResponse; items: JobItemResult[] }> {
+  const items: JobItemResult[] = [];
+  for (;;) {
+    const res = await fetch(`/api/jobs/${jobId}?offset=${items.length}&limit=${JOB_PAGE_SIZE}`);
+    if (!res.ok) {
+      throw new Error(res.status === 404 ? "Job expired or not found." : `API Error: ${res.status}`);
+    }
+    const job: JobAPIResponse = await res.json();
+    items.push(...job.items);
+    if (job.items.length < JOB_PAGE_SIZE || items.length >= job.summary.total) return { job, items };
+  }
 }
 
 type SavePickerHandle = {
@@ -35,6 +64,44 @@ export default function BatchUpload() {
   const [processing, setProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [downloadMessage, setDownloadMessage] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+
+  // Progress comes from the server-side job; the browser only polls it
+  const pollJob = async (id: string) => {
+    for (;;) {
+      const { job, items } = await fetchJob(id);
+      setResults(toBatchResults(items));
+      const { completed, unique } = job.summary;
+      setProgress(unique === 0 ? 100 : Math.round((completed / unique) * 100));
+      if (job.status !== "running") return;
+      await new Promise(r => setTimeout(r, JOB_POLL_MS));
+    }
+  };
+
+  const followJob = async (id: string) => {
+    setJobId(id);
+    setProcessing(true);
+    try {
+      await pollJob(id);
+    } catch (e) {
+      console.error("Batch processing failed:", e);
+      setJobId(null);
+    } finally {
+      localStorage.removeItem(JOB_STORAGE_KEY);
+      setProcessing(false);
+    }
+  };
+
+  // A job started before a reload keeps running on the server: pick it up again
+  useEffect(() => {
+    const id = localStorage.getItem(JOB_STORAGE_KEY);
+    if (id) followJob(id);
+  }, []);
+
+  const cancelJob = async () => {
+    if (!jobId) return;
+    await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' }).catch((e) => console.error("Cancel failed:", e));
+  };
 
   const processBatch = async () => {
     if (!file) return;
@@ -51,68 +118,39 @@ export default function BatchUpload() {
       const startIndex = (first.includes('hgvs') || first.includes('variant')) ? 1 : 0;
       
       const variants = lines.slice(startIndex).map(l => l.split(',')[0].trim());
-      
-      const queue: BatchResult[] = variants.map(v => ({ hgvs: v, status: 'pending' }));
-      setResults([...queue]);
-
-      // Sequential Processing
-      for (let i = 0; i < queue.length; i++) {
-        const item = queue[i];
-        
-        try {
-          // Throttling: Wait 1s between requests to be nice to public APIs
-          if (i > 0) await new Promise(r => setTimeout(r, 1000));
+      setResults(variants.map(v => ({ hgvs: v, status: 'pending' })));
 
-          const res = await fetch(`/api/variant?format=md`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ hgvs: item.hgvs }),
-          });
-
-          if (!res.ok) {
-            throw new Error(`API Error: ${res.status}`);
-          }
-          
-          const md = await res.text();
-          queue[i] = { ...item, status: 'success', md };
-        } catch (e) {
-          queue[i] = { ...item, status: 'error', error: (e as Error).message };
-        }
-        
-        setResults([...queue]); // Force re-render
-        setProgress(Math.round(((i + 1) / queue.length) * 100));
+      const res = await fetch(`/api/jobs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ variants }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        throw new Error(json?.message || `API Error: ${res.status}`);
       }
 
+      localStorage.setItem(JOB_STORAGE_KEY, json.jobId);
+      await followJob(json.jobId);
     } catch (e) {
       console.error("Batch processing failed:", e);
-    } finally {
+      setResults(prev => prev.map(r => ({ ...r, status: 'error', error: (e as Error).message })));
       setProcessing(false);
     }
   };
 
+  // The zip is built on the server from the stored reports
   const handleDownload = async () => {
-    const zip = new JSZip();
-    const folder = zip.folder("variant-lens-reports");
-    
-    let count = 0;
-    results.forEach(r => {
-      if (r.status === 'success' && r.md) {
-        // Safe filename
-        const filename = r.hgvs.replace(/[^a-zA-Z0-9_\-\.]/g, '_') + '.md';
-        folder?.file(filename, r.md);
-        count++;
-      }
-    });
-
-    if (count === 0) return;
-
-    const zipBuffer = await zip.generateAsync({
-      type: "arraybuffer",
-      compression: "DEFLATE",
-      compressionOptions: { level: 6 },
-    });
-    const blob = new Blob([zipBuffer], { type: "application/zip" });
-    const filename = `variant-lens-results-${new Date().toISOString().slice(0, 10)}.zip`;
+    if (!jobId) return;
+    const res = await fetch(`/api/jobs/${jobId}/download`);
+    if (!res.ok) {
+      setDownloadMessage(res.status === 404 ? "Job expired or not found." : "Failed to build zip file. Please try again.");
+      return;
+    }
+    const blob = await res.blob();
+    const filename =
+      res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ??
+      `variant-lens-results-${new Date().toISOString().slice(0, 10)}.zip`;
     const pickerWindow = window as SavePickerWindow;
 
     try {
@@ -190,11 +228,11 @@ export default function BatchUpload() {
              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 bg-black/20 p-3 rounded-lg border border-white/5">
                 <div className="flex items-center gap-2 text-sm text-white min-w-0">
                     <FileText className="w-4 h-4 text-gray-400" />
-                    <span className="truncate">{file?.name}</span>
+                    <span className="truncate">{file?.name ?? "Resumed batch"}</span>
                 </div>
                 {!processing && (
                     <button 
-                        onClick={() => { setFile(null); setResults([]); setProgress(0); }}
+                        onClick={() => { setFile(null); setJobId(null); setResults([]); setProgress(0); }}
                         className="p-1 hover:bg-white/10 rounded"
                     >
                         <X className="w-4 h-4 text-gray-400" />
@@ -215,6 +253,14 @@ export default function BatchUpload() {
                           style={{ width: `${progress}%` }}
                         />
                     </div>
+                    {jobId && (
+                      <button
+                        onClick={cancelJob}
+                        className="text-xs text-gray-400 hover:text-white underline"
+                      >
+                        Cancel remaining
+                      </button>
+                    )}
                  </div>
              ) : results.length === 0 ? (
                  <button 
@@ -240,7 +286,7 @@ export default function BatchUpload() {
 
                     <button 
                         onClick={handleDownload}
-                        disabled={results.filter(r => r.status === 'success').length === 0}
+                        disabled={!jobId || results.filter(r => r.status === 'success').length === 0}
                         className="w-full py-2 bg-green-500 hover:bg-green-400 text-black font-semibold rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         <Download className="w-4 h-4" />
@@ -262,6 +308,7 @@ export default function BatchUpload() {
                     {r.status === 'pending' && <Loader2 className="w-3 h-3 animate-spin text-gray-500" />}
                     {r.status === 'success' && <Check className="w-3 h-3 text-green-500" />}
                     {r.status === 'error' && <AlertCircle className="w-3 h-3 text-red-500" />}
+                    {r.status === 'cancelled' && <X className="w-3 h-3 text-gray-500" />}
                     <span className={clsx(
                         "break-all",
                         r.status === 'success' ? "text-gray-300" : 
@@ -2,13 +2,13 @@
 
 import React from "react";
 import { motion } from "framer-motion";
-import { FileText, AlertTriangle, Hexagon, AlertCircle, Info, Beaker, HelpCircle, ExternalLink, Copy } from "lucide-react";
+import { FileText, AlertTriangle, Hexagon, AlertCircle, Info, Beaker, HelpCircle, ExternalLink, Copy, Loader2 } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import { clsx } from "clsx";
 import StructureViewer from "./StructureViewer";
 import PAEViewer from "./PAEViewer";
-import { HonestReportData } from '../lib/types/honest-response';
-import { generateMarkdown } from '../lib/report-utils';
+import { HonestReportData, StreamedReportData } from '../lib/types/honest-response';
+import { CLASSIFICATION_LABELS, describePopulation, describePredictorScore, describeTally, formatAlleleFrequency, generateMarkdown } from '../lib/report-utils';
 // ==========================================
 // TYPES FOR HONEST RESPONSE
 // ==========================================
@@ -16,7 +16,13 @@ import { generateMarkdown } from '../lib/report-utils';
 
 
 interface ReportViewProps {
-  data: HonestReportData;
+  // Streamed reports render each section once it arrives
+  data: HonestReportData | StreamedReportData;
+}
+
+function isComplete(data: HonestReportData | StreamedReportData): data is HonestReportData {
+  const { coverage } = data;
+  return !!(data.curatedInfo && data.unknowns && coverage.structure && coverage.clinical && coverage.domain && coverage.literature);
 }
 
 // ==========================================
@@ -55,22 +61,37 @@ function StatusBadge({ status, label, tooltip }: { status: 'good' | 'warn' | 'no
   return tooltip ? <Tooltip text={tooltip}>{content}</Tooltip> : content;
 }
 
+// Placeholder for a section whose source has not resolved yet
+function SectionLoading({ label }: { label: string }) {
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-500">
+      <Loader2 className="w-3 h-3 animate-spin flex-shrink-0" />
+      <span>{label}</span>
+    </div>
+  );
+}
+
 function buildQuickContext(data: HonestReportData): string {
   const { variant, coverage, curatedInfo } = data;
   const parts: string[] = [];
+  const residueLabel = variant.residueEnd
+    ? `Residues ${variant.residue}-${variant.residueEnd}`
+    : `Residue ${variant.residue}`;
 
   if (coverage.domain.inAnnotatedDomain && coverage.domain.domainName) {
-    parts.push(`Residue ${variant.residue} sits in ${coverage.domain.domainName}.`);
+    parts.push(`${residueLabel} ${variant.residueEnd ? 'overlap' : 'sits in'} ${coverage.domain.domainName}.`);
   } else if (curatedInfo.domains.length === 0) {
     parts.push(`Domain annotations are currently sparse for ${variant.gene} in UniProt/Pfam/Gene3D.`);
   } else {
-    parts.push(`Residue ${variant.residue} is outside current UniProt/Pfam/Gene3D domain annotations.`);
+    parts.push(`${residueLabel} ${variant.residueEnd ? 'are' : 'is'} outside current UniProt/Pfam/Gene3D domain annotations.`);
   }
 
   if (coverage.clinical.status !== 'none') {
     const significance = coverage.clinical.significance || coverage.clinical.status.replace(/_/g, ' ');
     const stars = typeof coverage.clinical.stars === 'number' ? ` (${coverage.clinical.stars}/4 stars)` : '';
     parts.push(`ClinVar: ${significance}${stars}.`);
+  } else if (coverage.clinical.classifications?.length) {
+    parts.push('No germline ClinVar classification for this exact variant.');
   } else {
     parts.push('No ClinVar classification found for this exact variant.');
   }
@@ -85,6 +106,10 @@ function buildQuickContext(data: HonestReportData): string {
 
   parts.push(`Direct PubMed matches: ${coverage.literature.variantSpecificCount}.`);
 
+  if (coverage.population && coverage.population.status !== 'unavailable') {
+    parts.push(`${describePopulation(coverage.population)}.`);
+  }
+
   if (!curatedInfo.nearFunctionalSite && typeof curatedInfo.distanceToNearestSite === 'number') {
     const distanceText = curatedInfo.distanceToNearestSite > 500
       ? '>500 residues (functionally remote)'
@@ -142,29 +167,35 @@ function buildWhyItMatters(data: HonestReportData): string | null {
 
 export default function ReportView({ data }: ReportViewProps) {
   const { variant, coverage, unknowns, curatedInfo } = data;
+  const complete = isComplete(data);
   const canonicalHgvs = variant.normalizedHgvs || variant.hgvs;
   const reportDate = new Intl.DateTimeFormat('en-US', {
     year: 'numeric',
     month: 'short',
     day: '2-digit',
   }).format(new Date(data.timestamp || Date.now()));
-  const quickContext = buildQuickContext(data);
+  const quickContext = complete ? buildQuickContext(data) : null;
   
   const [copyStatus, setCopyStatus] = React.useState<'idle' | 'copied' | 'error'>('idle');
 
   // Phase-4: Multi-Structure Selection State
   const [selectedStructureId, setSelectedStructureId] = React.useState<string | null>(
-     coverage.structure.id || null
+     coverage.structure?.id || null
   );
 
+  // The structure section may arrive after the first render
+  React.useEffect(() => {
+    if (coverage.structure?.id) setSelectedStructureId((current) => current ?? coverage.structure?.id ?? null);
+  }, [coverage.structure?.id]);
+
   // Derived Structure Data
-  const availableStructures = coverage.structure.availableStructures || [];
+  const availableStructures = coverage.structure?.availableStructures || [];
   
   // Find currently selected structure data
   // Logic: 
   // 1. If matches primary (best) structure, use full primary object (contains sifts)
   // 2. Else find in availableStructures list and construct pseudo-object
-  const isPrimary = selectedStructureId === coverage.structure.id;
+  const isPrimary = selectedStructureId === coverage.structure?.id;
   
   const foundStructure = availableStructures.find(s => s.id === selectedStructureId);
   const normalizedStructure = foundStructure ? {
@@ -185,9 +216,10 @@ export default function ReportView({ data }: ReportViewProps) {
   const currentStructure = isPrimary 
     ? coverage.structure 
     : (normalizedStructure || coverage.structure);
+  const structure = coverage.structure;
 
     // Cast currentStructure to any to avoid strict type checks on union for now, or ensure types align
-    const displayStructure = currentStructure as any;
+    const displayStructure = (currentStructure ?? {}) as any;
 
   // Construct SIFTS object for viewer
   // Since we normalized both paths to have a 'sifts' property (or not), we can just use it.
@@ -209,7 +241,9 @@ export default function ReportView({ data }: ReportViewProps) {
       {/* HEADER ACTIONS (Export) */}
       <div className="flex flex-wrap justify-start md:justify-end gap-2 mb-4 print:hidden">
         <button 
+            disabled={!complete}
             onClick={async () => {
+                if (!complete) return;
                 const md = generateMarkdown(data);
                 try {
                     if (navigator?.clipboard?.writeText) {
@@ -234,14 +268,16 @@ export default function ReportView({ data }: ReportViewProps) {
                     window.setTimeout(() => setCopyStatus('idle'), 2000);
                 }
             }}
-            className="flex-1 sm:flex-none min-w-[7.5rem] flex items-center justify-center gap-2 px-3 py-2 bg-white/5 hover:bg-white/10 rounded-lg text-[11px] sm:text-xs font-mono text-gray-300 transition-colors border border-white/10"
+            className="flex-1 sm:flex-none min-w-[7.5rem] flex items-center justify-center gap-2 px-3 py-2 bg-white/5 hover:bg-white/10 rounded-lg text-[11px] sm:text-xs font-mono text-gray-300 transition-colors border border-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
             title={copyStatus === 'error' ? 'Copy failed' : 'Copy markdown to clipboard'}
         >
             <Copy className="w-3 h-3" />
             {copyStatus === 'copied' ? 'COPIED' : copyStatus === 'error' ? 'FAILED' : 'COPY MD'}
         </button>
         <button 
+            disabled={!complete}
             onClick={() => {
+                if (!complete) return;
                 const md = generateMarkdown(data);
                 const blob = new Blob([md], { type: 'text/markdown' });
                 const url = URL.createObjectURL(blob);
@@ -253,7 +289,7 @@ export default function ReportView({ data }: ReportViewProps) {
                 document.body.removeChild(a);
                 URL.revokeObjectURL(url);
             }}
-            className="flex-1 sm:flex-none min-w-[7.5rem] flex items-center justify-center gap-2 px-3 py-2 bg-white/5 hover:bg-white/10 rounded-lg text-[11px] sm:text-xs font-mono text-gray-300 transition-colors border border-white/10"
+            className="flex-1 sm:flex-none min-w-[7.5rem] flex items-center justify-center gap-2 px-3 py-2 bg-white/5 hover:bg-white/10 rounded-lg text-[11px] sm:text-xs font-mono text-gray-300 transition-colors border border-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
         >
             <FileText className="w-3 h-3" />
             MARKDOWN
@@ -287,7 +323,51 @@ export default function ReportView({ data }: ReportViewProps) {
                     </div>
                  )}
                  
-                 {/* 2. Original Input (if different) */}
+                 {/* 2. Coding change the protein consequence was derived from */}
+                 {variant.codingHgvs && (
+                    <div className="flex items-center gap-2">
+                        <span className="font-mono text-xs text-gray-500 uppercase tracking-widest">Coding</span>
+                        <span className="font-mono text-xs text-gray-400 break-all">
+                            {variant.codingHgvs} → {variant.proteinHgvs}
+                        </span>
+                    </div>
+                 )}
+                 {variant.genomicHgvs && (
+                    <div className="flex items-center gap-2">
+                        <span className="font-mono text-xs text-gray-500 uppercase tracking-widest">Genomic</span>
+                        <span className="font-mono text-xs text-gray-400 break-all">{variant.genomicHgvs} (GRCh38)</span>
+                    </div>
+                 )}
+                 {variant.isoform && variant.isoform.strategy !== 'canonical' && (
+                    <div className="flex items-center gap-2">
+                        <span className="font-mono text-xs text-gray-500 uppercase tracking-widest">Isoform</span>
+                        <span className="font-mono text-xs text-gray-400 break-all">
+                            {variant.isoform.isoform}
+                            {variant.isoform.strategy === 'renumbered'
+                                ? ` → ${variant.isoform.uniprotId} residue ${variant.isoform.start} (offset ${variant.isoform.offset >= 0 ? '+' : ''}${variant.isoform.offset})`
+                                : ' (evaluated on isoform numbering)'}
+                        </span>
+                    </div>
+                 )}
+
+                 {variant.proteinId && (
+                    <div className="flex items-center gap-2">
+                        <span className="font-mono text-xs text-gray-500 uppercase tracking-widest">Protein ID</span>
+                        <span className="font-mono text-xs text-gray-400 break-all">
+                            {variant.proteinId.input}
+                            {variant.proteinId.input !== variant.proteinId.uniprotId ? ` → ${variant.proteinId.uniprotId}` : ''}
+                            {` (${variant.proteinId.source === 'ensembl' ? 'Ensembl' : 'UniProt'})`}
+                        </span>
+                    </div>
+                 )}
+                 {variant.geneResolution && (
+                    <div className="font-mono text-xs text-gray-500">
+                        Gene symbol {variant.geneResolution.submitted} ({variant.geneResolution.matchedBy === 'previous' ? 'withdrawn HGNC symbol' : 'alias'}) resolved to{' '}
+                        <span className="text-gray-400">{variant.geneResolution.approved}</span>
+                    </div>
+                 )}
+
+                 {/* 3. Original Input (if different) */}
                  {variant.originalHgvs && variant.originalHgvs !== canonicalHgvs && (
                     <div className="font-mono text-xs text-gray-500">
                         Submitted: <span className="text-gray-400 border-b border-gray-700 border-dashed">{variant.originalHgvs}</span>
@@ -303,7 +383,12 @@ export default function ReportView({ data }: ReportViewProps) {
       </div>
 
       {/* ⚠️ UNKNOWNS FIRST (Critical Trust Element) */}
-      {unknowns.items.length > 0 && (
+      {!unknowns && (
+        <div className="mb-8 p-4 sm:p-6 rounded-xl border border-white/10 bg-white/5">
+          <SectionLoading label="Evidence limitations are listed once every source has answered" />
+        </div>
+      )}
+      {unknowns && unknowns.items.length > 0 && (
         <motion.div 
           initial={{ opacity: 0, y: -10 }}
           animate={{ opacity: 1, y: 0 }}
@@ -338,7 +423,11 @@ export default function ReportView({ data }: ReportViewProps) {
 
       <div className="mb-8 p-4 sm:p-6 rounded-xl border border-white/10 bg-white/5">
         <h3 className="font-mono text-xs text-muted uppercase tracking-widest mb-2">Quick Context</h3>
-        <p className="text-sm text-gray-300 break-words leading-relaxed">{quickContext}</p>
+        {quickContext ? (
+          <p className="text-sm text-gray-300 break-words leading-relaxed">{quickContext}</p>
+        ) : (
+          <SectionLoading label="Waiting for evidence sources" />
+        )}
       </div>
 
       {/* BENTO GRID */}
@@ -350,27 +439,37 @@ export default function ReportView({ data }: ReportViewProps) {
             Evidence Coverage
           </h4>
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
-            <StatusBadge 
-              status={coverage.structure.status === 'experimental' ? 'good' : coverage.structure.status === 'predicted' ? 'warn' : 'none'}
-              label={
-                coverage.structure.status === 'none' 
-                  ? 'No structure' 
-                  : coverage.structure.sifts?.mapped
-                    ? `${coverage.structure.source} ${coverage.structure.id} (Chain ${coverage.structure.sifts.chain}:${coverage.structure.sifts.pdbResidue})`
-                    : `${coverage.structure.source} ${coverage.structure.id || ''}`
-              }
-              tooltip={
-                coverage.structure.sifts?.mapped 
-                  ? `Mapped via SIFTS (Source: ${coverage.structure.sifts.source}). Visualizes residue ${coverage.structure.sifts.pdbResidue} on Chain ${coverage.structure.sifts.chain}.`
-                  : coverage.structure.status !== 'none' && coverage.structure.source === 'PDB'
-                    ? "Residue mapping not available via SIFTS. Structure may be truncated or disordered in this region."
-                    : coverage.structure.status === 'predicted'
-                      ? 'Predicted structure only. Use the PAE view to assess local confidence.'
-                      : undefined
-              }
-            />
+            {!structure ? (
+              <SectionLoading label="Resolving structures" />
+            ) : structure.status === 'unavailable' ? (
+              <StatusBadge status={'warn'} label={'Structure service unavailable'} tooltip={structure.reason} />
+            ) : (
+              <StatusBadge 
+                status={structure.status === 'experimental' ? 'good' : structure.status === 'predicted' ? 'warn' : 'none'}
+                label={
+                  structure.status === 'none' 
+                    ? 'No structure' 
+                    : structure.sifts?.mapped
+                      ? `${structure.source} ${structure.id} (Chain ${structure.sifts.chain}:${structure.sifts.pdbResidue})`
+                      : `${structure.source} ${structure.id || ''}`
+                }
+                tooltip={
+                  structure.sifts?.mapped 
+                    ? `Mapped via SIFTS (Source: ${structure.sifts.source}). Visualizes residue ${structure.sifts.pdbResidue} on Chain ${structure.sifts.chain}.`
+                    : structure.status !== 'none' && structure.source === 'PDB'
+                      ? "Residue mapping not available via SIFTS. Structure may be truncated or disordered in this region."
+                      : structure.status === 'predicted'
+                        ? 'Predicted structure only. Use the PAE view to assess local confidence.'
+                        : undefined
+                }
+              />
+            )}
             {/* ClinVar Status - Phase-2 */}
-            {coverage.clinical.status !== 'none' && coverage.clinical.url ? (
+            {!coverage.clinical ? (
+              <SectionLoading label="Querying ClinVar" />
+            ) : coverage.clinical.status === 'unavailable' ? (
+              <StatusBadge status={'warn'} label={'ClinVar unavailable'} tooltip={coverage.clinical.reason} />
+            ) : (coverage.clinical.status !== 'none' || !!coverage.clinical.classifications?.length) && coverage.clinical.url ? (
               <a 
                 href={coverage.clinical.url} 
                 target="_blank" 
@@ -392,20 +491,42 @@ export default function ReportView({ data }: ReportViewProps) {
                 label={'No ClinVar data'}
               />
             )}
-            <StatusBadge 
-              status={coverage.domain.inAnnotatedDomain ? 'good' : curatedInfo.domains.length === 0 ? 'warn' : 'none'}
-              label={coverage.domain.domainName 
-                ? `Domain annotation: ${coverage.domain.domainName}` 
-                : curatedInfo.domains.length === 0
-                  ? 'No domain annotations'
-                  : 'Outside domains'}
-              tooltip={coverage.domain.domainName 
-                ? "Domain presence alone does not imply functional or clinical impact." 
-                : curatedInfo.domains.length === 0
-                  ? 'No domain range annotations are currently available from UniProt/Pfam/Gene3D for this protein.'
-                  : undefined}
-            />
-            {coverage.literature.variantSpecificCount > 0 ? (
+            {/* Somatic impact and oncogenicity are classified apart from germline pathogenicity */}
+            {coverage.clinical?.classifications?.some((c) => c.type !== 'germline') && (
+              <div className="pl-4 space-y-1">
+                {coverage.clinical.classifications.map((c) => (
+                  <p key={c.type} className="text-xs text-gray-400 break-words">
+                    <span className="text-gray-500">{CLASSIFICATION_LABELS[c.type]}:</span> {c.description}
+                    <span className="text-yellow-400 ml-1">[{c.stars}/4 stars]</span>
+                  </p>
+                ))}
+              </div>
+            )}
+            {coverage.clinical?.tally && (
+              <p className="text-xs text-gray-400 pl-4">Germline submitters: {describeTally(coverage.clinical.tally)}</p>
+            )}
+            {!coverage.domain || !curatedInfo ? (
+              <SectionLoading label="Curating UniProt annotations" />
+            ) : (
+              <StatusBadge 
+                status={coverage.domain.inAnnotatedDomain ? 'good' : curatedInfo.domains.length === 0 ? 'warn' : 'none'}
+                label={coverage.domain.domainName 
+                  ? `Domain annotation: ${coverage.domain.domainName}` 
+                  : curatedInfo.domains.length === 0
+                    ? 'No domain annotations'
+                    : 'Outside domains'}
+                tooltip={coverage.domain.domainName 
+                  ? "Domain presence alone does not imply functional or clinical impact." 
+                  : curatedInfo.domains.length === 0
+                    ? 'No domain range annotations are currently available from UniProt/Pfam/Gene3D for this protein.'
+                    : undefined}
+              />
+            )}
+            {!coverage.literature ? (
+              <SectionLoading label="Searching PubMed" />
+            ) : coverage.literature.unavailable ? (
+              <StatusBadge status={'warn'} label={'PubMed unavailable'} tooltip={coverage.literature.reason} />
+            ) : coverage.literature.variantSpecificCount > 0 ? (
               <a 
                 href={`https://pubmed.ncbi.nlm.nih.gov/?term=${encodeURIComponent(coverage.literature.query || '')}`}
                 target="_blank" 
@@ -426,10 +547,60 @@ export default function ReportView({ data }: ReportViewProps) {
                 tooltip={`Search Query: ${coverage.literature.query || 'None'}\n\nCount reflects PubMed Title/Abstract matches.`}
               />
             )}
+            {/* gnomAD: absent from reports made before it, pending until unknowns arrive */}
+            {!coverage.population ? (
+              data.unknowns ? null : <SectionLoading label="Looking up gnomAD" />
+            ) : coverage.population.status === 'unavailable' ? (
+              <StatusBadge status={'warn'} label={'gnomAD unavailable'} tooltip={coverage.population.reason} />
+            ) : coverage.population.status === 'found' && coverage.population.url ? (
+              <a
+                href={coverage.population.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-start gap-2 hover:bg-white/5 rounded-lg p-1 -m-1 transition-colors"
+                title={(coverage.population.ancestries ?? [])
+                  .map((group) => `${group.label}: AF ${formatAlleleFrequency(group.alleleFrequency)} (${group.alleleCount}/${group.alleleNumber})`)
+                  .join('\n')}
+              >
+                <div className="w-2 h-2 rounded-full bg-green-400 flex-shrink-0" />
+                <span className="text-sm text-gray-300 break-words leading-snug">
+                  {describePopulation(coverage.population)}
+                </span>
+                <ExternalLink className="w-3 h-3 text-gray-500" />
+              </a>
+            ) : (
+              <StatusBadge status={'none'} label={describePopulation(coverage.population)} tooltip={coverage.population.note} />
+            )}
+            {/* Missense predictors: the named tools' calls, never shown as our own */}
+            {!coverage.predictors ? (
+              data.unknowns ? null : <SectionLoading label="Looking up predictor scores" />
+            ) : coverage.predictors.status === 'unavailable' ? (
+              <StatusBadge status={'warn'} label={'Predictor scores unavailable'} tooltip={coverage.predictors.reason} />
+            ) : coverage.predictors.status === 'none' ? (
+              <StatusBadge status={'none'} label={'No precomputed predictor scores'} tooltip={coverage.predictors.note} />
+            ) : (
+              (coverage.predictors.scores ?? []).map((score) => (
+                <StatusBadge
+                  key={score.id}
+                  status={'none'}
+                  label={`Predicted: ${describePredictorScore(score)}`}
+                  tooltip={`${score.calibration}\n\n${coverage.predictors?.note ?? ''}`}
+                />
+              ))
+            )}
+            {/* Sections from configured non-core providers */}
+            {Object.entries(coverage.additional ?? {}).map(([id, section]) => (
+              <StatusBadge
+                key={id}
+                status={section.status === 'found' ? 'good' : section.status === 'unavailable' ? 'warn' : 'none'}
+                label={section.status === 'unavailable' ? `${section.label} unavailable` : section.summary || `${section.label}: no data`}
+                tooltip={section.reason}
+              />
+            ))}
           </div>
-          {coverage.structure.note && (
+          {structure?.note && (
             <p className="text-xs text-yellow-400/70 mt-4 italic">
-              Note: {coverage.structure.note}
+              Note: {structure.note}
             </p>
           )}
         </div>
@@ -482,11 +653,21 @@ export default function ReportView({ data }: ReportViewProps) {
                <div className="absolute inset-0 bg-gradient-to-br from-surface to-black z-0" />
                
                <div className="relative z-10 h-full flex flex-col justify-between p-5 sm:p-8">
-                   {coverage.structure.status !== 'none' ? (
+                   {!structure ? (
+                     <div className="flex flex-col items-center justify-center h-full">
+                        <SectionLoading label="Resolving structures" />
+                     </div>
+                   ) : structure.status === 'unavailable' ? (
+                     <div className="flex flex-col items-center justify-center h-full text-foreground-muted opacity-50">
+                        <Hexagon className="w-12 h-12 mb-4 stroke-1"/>
+                        <p>Structure service unavailable</p>
+                        {structure.reason && <p className="text-xs mt-1">{structure.reason}</p>}
+                     </div>
+                   ) : structure.status !== 'none' ? (
                      <>
                        <div className="flex justify-between items-start">
                           <span className="glass-light px-3 py-1 text-xs font-mono uppercase text-white rounded-full border border-white/10">
-                              {coverage.structure.source} ({coverage.structure.status})
+                              {structure.source} ({structure.status})
                           </span>
                           <Hexagon className="text-primary w-6 h-6 animate-pulse opacity-50"/>
                        </div>
@@ -494,12 +675,12 @@ export default function ReportView({ data }: ReportViewProps) {
                        <div>
                           <h3 className="text-2xl font-light text-white mb-2">Structure Exists</h3>
                           <p className="text-foreground-muted text-sm max-w-xs">
-                            {coverage.structure.status === 'experimental' 
+                            {structure.status === 'experimental' 
                               ? `Experimental structure exists for this protein region.`
                               : `Predicted structure (AlphaFold) available.`}
                           </p>
-                          {coverage.structure.resolution && (
-                            <p className="text-xs text-gray-400 mt-1">Resolution: {coverage.structure.resolution}Å</p>
+                          {structure.resolution && (
+                            <p className="text-xs text-gray-400 mt-1">Resolution: {structure.resolution}Å</p>
                           )}
                           <p className="text-xs text-yellow-400/60 mt-2 italic">
                             ⚠️ Interactive view not available for this source.
@@ -524,30 +705,45 @@ export default function ReportView({ data }: ReportViewProps) {
             <Beaker className="w-4 h-4 text-primary" />
             <h4 className="font-mono text-xs text-muted uppercase tracking-widest">Curated Context (UniProt)</h4>
           </div>
-          <div className="space-y-2 text-sm">
-            <div className="flex items-start justify-between gap-3">
-              <span className="text-gray-500">Protein</span>
-              <span className="text-white text-right break-words">{curatedInfo.proteinName}</span>
-            </div>
-            <div className="flex items-start justify-between gap-3">
-              <span className="text-gray-500">Length</span>
-              <span className="text-white text-right">{curatedInfo.proteinLength} aa</span>
-            </div>
-            <div className="flex items-start justify-between gap-3">
-              <span className="text-gray-500">Variant Position</span>
-              <span className="text-white text-right">{curatedInfo.variantPosition}</span>
-            </div>
-            {curatedInfo.variantInDomain && (
+          {!curatedInfo ? (
+            <SectionLoading label="Curating UniProt annotations" />
+          ) : (
+            <div className="space-y-2 text-sm">
               <div className="flex items-start justify-between gap-3">
-                <span className="text-gray-500">Annotated Domain (UniProt)</span>
-                <span className="text-primary text-right break-words">{curatedInfo.variantInDomain}</span>
+                <span className="text-gray-500">Protein</span>
+                <span className="text-white text-right break-words">{curatedInfo.proteinName}</span>
+              </div>
+              <div className="flex items-start justify-between gap-3">
+                <span className="text-gray-500">Length</span>
+                <span className="text-white text-right">{curatedInfo.proteinLength} aa</span>
+              </div>
+              <div className="flex items-start justify-between gap-3">
+                <span className="text-gray-500">Variant Position</span>
+                <span className="text-white text-right">
+                  {curatedInfo.variantPosition}
+                  {curatedInfo.variantEndPosition ? `–${curatedInfo.variantEndPosition}` : ''}
+                </span>
+              </div>
+              {curatedInfo.variantInDomain && (
+                <div className="flex items-start justify-between gap-3">
+                  <span className="text-gray-500">Annotated Domain (UniProt)</span>
+                  <span className="text-primary text-right break-words">{curatedInfo.variantInDomain}</span>
+                </div>
+              )}
+              {(curatedInfo.affectedDomains?.length ?? 0) > 1 && (
+                <div className="flex items-start justify-between gap-3">
+                  <span className="text-gray-500">Also Overlaps</span>
+                  <span className="text-gray-300 text-right break-words">
+                    {curatedInfo.affectedDomains!.filter((name) => name !== curatedInfo.variantInDomain).join(', ')}
+                  </span>
+                </div>
+              )}
+              <div className="flex items-start justify-between gap-3 pt-2 border-t border-white/5 mt-2">
+                <span className="text-gray-600 text-xs">Isoform</span>
+                <span className="text-gray-500 text-xs text-right">Canonical UniProt isoform used</span>
               </div>
-            )}
-            <div className="flex items-start justify-between gap-3 pt-2 border-t border-white/5 mt-2">
-              <span className="text-gray-600 text-xs">Isoform</span>
-              <span className="text-gray-500 text-xs text-right">Canonical UniProt isoform used</span>
             </div>
-          </div>
+          )}
         </div>
 
         {/* 4. Domains List (Moved up since Summary Removed) */}
@@ -555,7 +751,9 @@ export default function ReportView({ data }: ReportViewProps) {
           <h4 className="font-mono text-xs text-muted uppercase tracking-widest mb-4">
             Annotated Domains (UniProt)
           </h4>
-          {curatedInfo.domains && curatedInfo.domains.length > 0 ? (
+          {!curatedInfo ? (
+            <SectionLoading label="Curating UniProt annotations" />
+          ) : curatedInfo.domains && curatedInfo.domains.length > 0 ? (
             <div className="space-y-2">
               {curatedInfo.domains.slice(0, 5).map((domain: any, i: number) => (
                 <div key={i} className="text-xs p-2 bg-surface-light/20 rounded break-words">
@@ -569,6 +767,88 @@ export default function ReportView({ data }: ReportViewProps) {
           )}
         </div>
 
+        {/* 5. Other ClinVar variants at and around the residue (absent from older reports) */}
+        {(coverage.nearby || !data.unknowns) && (
+          <div className="md:col-span-2 glass-panel p-4 sm:p-6 rounded-2xl">
+            <h4 className="font-mono text-xs text-muted uppercase tracking-widest mb-4">
+              Nearby ClinVar Variants
+              {coverage.nearby?.from !== undefined && ` (residues ${coverage.nearby.from}-${coverage.nearby.to})`}
+            </h4>
+            {!coverage.nearby ? (
+              <SectionLoading label="Searching ClinVar around this residue" />
+            ) : coverage.nearby.status === 'unavailable' ? (
+              <StatusBadge status={'warn'} label={'Nearby ClinVar search unavailable'} tooltip={coverage.nearby.reason} />
+            ) : coverage.nearby.status === 'none' ? (
+              <p className="text-xs text-gray-500 italic">No other ClinVar variants in this window</p>
+            ) : (
+              <div className="space-y-2">
+                {(coverage.nearby.residues ?? []).map((group) => (
+                  <div key={group.residue} className="text-xs p-2 bg-surface-light/20 rounded break-words">
+                    <span className={group.residue === coverage.nearby?.residue ? 'text-primary' : 'text-gray-500'}>
+                      {group.residue === coverage.nearby?.residue ? `Residue ${group.residue} (this residue)` : `Residue ${group.residue}`}
+                    </span>
+                    {group.variants.map((v) => (
+                      <a
+                        key={v.clinvarId}
+                        href={v.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-2 mt-1 hover:bg-white/5 rounded"
+                      >
+                        <span className="text-white font-mono">{v.proteinChange}</span>
+                        <span className="text-gray-300">{v.significance}</span>
+                        <span className="text-yellow-400">[{v.stars}/4 stars]</span>
+                        <ExternalLink className="w-3 h-3 text-gray-500" />
+                      </a>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+            {coverage.nearby?.note && (
+              <p className="text-xs text-yellow-400/70 mt-4 italic">Note: {coverage.nearby.note}</p>
+            )}
+          </div>
+        )}
+
+        {/* 6. Per-submitter ClinVar assertions (absent from older reports) */}
+        {(coverage.clinical?.submissions || coverage.clinical?.submissionsReason) && (
+          <div className="md:col-span-2 glass-panel p-4 sm:p-6 rounded-2xl">
+            <h4 className="font-mono text-xs text-muted uppercase tracking-widest mb-4">
+              ClinVar Submissions
+              {coverage.clinical.vcv && ` (${coverage.clinical.vcv})`}
+            </h4>
+            {!coverage.clinical.submissions ? (
+              <StatusBadge status={'warn'} label={'Submissions unavailable'} tooltip={coverage.clinical.submissionsReason} />
+            ) : (
+              <div className="space-y-2">
+                {coverage.clinical.tally && (
+                  <p className="text-sm text-gray-300">{describeTally(coverage.clinical.tally)}</p>
+                )}
+                {(coverage.clinical.rcvs ?? []).length > 0 && (
+                  <p className="text-xs text-gray-500 font-mono break-words">{coverage.clinical.rcvs!.join(', ')}</p>
+                )}
+                {coverage.clinical.submissions.map((s) => (
+                  <div key={s.scv} className="text-xs p-2 bg-surface-light/20 rounded break-words">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-white">{s.submitter}</span>
+                      <span className="text-gray-300">{s.classification}</span>
+                      {s.type !== 'germline' && <span className="text-gray-500">({CLASSIFICATION_LABELS[s.type]})</span>}
+                      {s.dateLastEvaluated && <span className="text-gray-500">{s.dateLastEvaluated}</span>}
+                      <span className="text-gray-500 font-mono">{s.scv}</span>
+                    </div>
+                    {(s.method || s.conditions.length > 0) && (
+                      <div className="text-gray-500 mt-1">
+                        {[s.method, s.conditions.join(', ')].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
       </div>
 
       {/* RESEARCH DISCLAIMER (always shown, prominent) */}
@@ -2,19 +2,48 @@
 
 import { motion, AnimatePresence } from "framer-motion";
 import { Search, Loader2, ArrowRight, AlertCircle, Terminal } from "lucide-react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { clsx } from "clsx";
+import { diagnoseVariantInput } from "../lib/hgvs-diagnostics";
+import { InputDiagnostics } from "../lib/types/honest-response";
 
 interface SearchInputProps {
   onSearch: (hgvs: string) => void;
   loading: boolean;
+  diagnostics?: InputDiagnostics | null; // Returned by the API for the last failed search
+  query?: string;                        // Search restored from the URL (reload, back button)
 }
 
-export default function SearchInput({ onSearch, loading }: SearchInputProps) {
+// Input with the offending span marked; empty spans mark where something is missing
+function MarkedInput({ diagnostics }: { diagnostics: InputDiagnostics }) {
+  const span = diagnostics.issues.find((issue) => issue.span)?.span;
+  if (!span) return <span>{diagnostics.input}</span>;
+  const { input } = diagnostics;
+  return (
+    <span>
+      {input.slice(0, span.start)}
+      <mark className="bg-red-500/30 text-red-200 rounded-sm">
+        {span.end > span.start ? input.slice(span.start, span.end) : "‸"}
+      </mark>
+      {input.slice(span.end)}
+    </span>
+  );
+}
+
+export default function SearchInput({ onSearch, loading, diagnostics, query }: SearchInputProps) {
   const examples = ["BRAF:p.V600E", "TP53:p.R175H", "KRAS:p.G12D"];
   const [value, setValue] = useState("");
   const [isValid, setIsValid] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
+  const [localDiagnostics, setLocalDiagnostics] = useState<InputDiagnostics | null>(null);
+  const shownDiagnostics = localDiagnostics ?? diagnostics ?? null;
+
+  useEffect(() => {
+    if (query === undefined) return;
+    setValue(query);
+    setIsValid(query.length > 3);
+    setLocalDiagnostics(null);
+  }, [query]);
 
   const validateHGVS = (input: string) => {
     // Permissive regex: allow optional transcript/gene prefix, optional p. prefix
@@ -29,19 +58,34 @@ export default function SearchInput({ onSearch, loading }: SearchInputProps) {
     const val = e.target.value;
     setValue(val);
     validateHGVS(val);
+    setLocalDiagnostics(null);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (isValid && !loading) {
-      onSearch(value.trim());
-    }
+    if (!isValid || loading) return;
+
+    const query = value.trim();
+    const checked = diagnoseVariantInput(query);
+    setLocalDiagnostics(checked.issues.length > 0 ? checked : null);
+    // A known correction waits for the user to pick it; anything else goes to the API, which has the final word
+    if (!checked.valid && checked.suggestions.length > 0) return;
+    onSearch(query);
+  };
+
+  const handleSuggestionClick = (hgvs: string) => {
+    if (loading) return;
+    setValue(hgvs);
+    setIsValid(true);
+    setLocalDiagnostics(null);
+    onSearch(hgvs);
   };
 
   const handleExampleClick = (example: string) => {
     if (loading) return;
     setValue(example);
     setIsValid(true);
+    setLocalDiagnostics(null);
   };
 
   return (
@@ -109,6 +153,42 @@ export default function SearchInput({ onSearch, loading }: SearchInputProps) {
 
       </form>
 
+      {/* Input Diagnostics: what is wrong and clickable corrections */}
+      {shownDiagnostics && !loading && (shownDiagnostics.issues.length > 0 || shownDiagnostics.suggestions.length > 0) ? (
+        <div className="mt-3 rounded-lg border border-white/10 bg-surface p-3 text-sm">
+          <p className="font-mono text-xs text-gray-400 mb-2 break-all">
+            <MarkedInput diagnostics={shownDiagnostics} />
+          </p>
+          {shownDiagnostics.issues.map((issue, index) => (
+            <p
+              key={`${issue.code}-${index}`}
+              className={clsx(
+                "flex items-start gap-2",
+                issue.severity === "error" ? "text-red-400" : "text-amber-300"
+              )}
+            >
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{issue.message}</span>
+            </p>
+          ))}
+          {shownDiagnostics.suggestions.length > 0 ? (
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <span className="text-muted w-full sm:w-auto">Did you mean:</span>
+              {shownDiagnostics.suggestions.map((suggestion) => (
+                <button
+                  key={suggestion.hgvs}
+                  type="button"
+                  onClick={() => handleSuggestionClick(suggestion.hgvs)}
+                  className="rounded-md border border-primary/40 bg-surface px-3 py-1 font-mono text-xs text-primary transition-colors hover:border-primary hover:bg-primary/10"
+                >
+                  {suggestion.hgvs}
+                </button>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
       {/* Try Examples */}
       <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
         <span className="text-muted w-full sm:w-auto">Try examples:</span>
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the Next.js server starts.
+ */
+export async function register() {
+  // Jobs need SQLite, which only exists in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { resumeInterruptedJobs } = await import('./lib/job-queue');
+    resumeInterruptedJobs();
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import { buildAlleleContext } from '../allele-context';
+import { HonestAPIResponse } from '../types/honest-response';
+
+function caAtom(residue: number, [x, y, z]: [number, number, number]): string {
+  const coord = (v: number) => v.toFixed(3).padStart(8);
+  return `ATOM  ${String(residue).padStart(5)}  CA  ALA A${String(residue).padStart(4)}    ${coord(x)}${coord(y)}${coord(z)}  1.00 90.00           C`;
+}
+
+const MODEL = [
+  caAtom(175, [0, 0, 0]),
+  caAtom(176, [3.8, 0, 0]),
+  caAtom(248, [6, 8, 0]),
+  caAtom(273, [30, 40, 0]),
+].join('\n');
+
+function component(hgvs: string, pos: number, domains: string[]): HonestAPIResponse {
+  return {
+    variant: { hgvs, normalizedHgvs: hgvs, gene: 'TP53', residue: pos, isValidPosition: true },
+    curatedInfo: {
+      gene: 'TP53',
+      uniprotId: 'P04637',
+      proteinName: 'Cellular tumor antigen p53',
+      proteinLength: 393,
+      domains: [],
+      functionalSites: [],
+      variantPosition: pos,
+      variantInDomain: domains[0] ?? null,
+      affectedDomains: domains,
+      nearFunctionalSite: false,
+      distanceToNearestSite: null,
+    },
+  } as unknown as HonestAPIResponse;
+}
+
+describe('Allele shared context', () => {
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    global.fetch = jest.fn(async (input: RequestInfo | URL) => {
+      const url = input.toString();
+      if (url.endsWith('.pdb')) {
+        // The P15056 model is slow to download
+        if (url.includes('P15056')) await new Promise((resolve) => setTimeout(resolve, 200));
+        return { ok: true, status: 200, text: async () => MODEL } as Response;
+      }
+      const id = url.split('/').pop();
+      return {
+        ok: true,
+        status: 200,
+        json: async () => [{ entryId: `AF-${id}-F1`, pdbUrl: `https://alphafold.ebi.ac.uk/files/AF-${id}-F1-model_v4.pdb` }],
+      } as Response;
+    }) as typeof fetch;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('reports shared domains and C-alpha distances between components', async () => {
+    const shared = await buildAlleleContext([
+      component('TP53:p.R175H', 175, ['DNA-binding domain']),
+      component('TP53:p.R248Q', 248, ['DNA-binding domain', 'Interaction with DNA']),
+    ]);
+
+    expect(shared).toMatchObject({
+      analyzedComponents: 2,
+      sameDomain: true,
+      sharedDomains: ['DNA-binding domain'],
+      sequenceSpan: 73,
+    });
+    expect(shared.structure).toEqual({
+      status: 'measured',
+      source: 'AlphaFold',
+      id: 'AF-P04637-F1',
+      pairs: [{ a: 'TP53:p.R175H', b: 'TP53:p.R248Q', distanceAngstrom: 10 }],
+      sameNeighborhood: true,
+    });
+  });
+
+  it('flags distant components and residues missing from the model', async () => {
+    const distant = await buildAlleleContext([
+      component('TP53:p.R175H', 175, ['DNA-binding domain']),
+      component('TP53:p.R273H', 273, []),
+    ]);
+    expect(distant.sameDomain).toBe(false);
+    expect(distant.structure.sameNeighborhood).toBe(false);
+
+    const missing = await buildAlleleContext([
+      component('TP53:p.R175H', 175, []),
+      component('TP53:p.P72R', 72, []),
+    ]);
+    expect(missing.structure).toMatchObject({ status: 'unavailable', reason: 'Residue 72 is not in the AlphaFold model' });
+  });
+
+  it('reports the structure context unavailable when the model misses the deadline', async () => {
+    const onOtherEntry = (c: HonestAPIResponse) => ({ ...c, curatedInfo: { ...c.curatedInfo, uniprotId: 'P15056' } });
+    const shared = await buildAlleleContext(
+      [component('TP53:p.R175H', 175, []), component('TP53:p.R248Q', 248, [])].map(onOtherEntry),
+      { deadline: Date.now() + 20 }
+    );
+
+    expect(shared.analyzedComponents).toBe(2);
+    expect(shared.structure).toEqual({ status: 'unavailable', reason: 'AlphaFold model unavailable (timeout)', pairs: [] });
+  });
+});
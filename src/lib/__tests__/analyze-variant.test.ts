@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import { analyzeVariant, renderReportMarkdown, VariantClients } from '../analyze-variant';
+import { addReferenceTranscript } from '../coding-variant';
+import { mockFetch } from './mocks/external-apis';
+
+const FIXED_NOW = Date.parse('2026-01-01T00:00:00.000Z');
+
+// UniProt still comes from the fetch mock; the evidence clients are replaced outright
+const clients: Partial<VariantClients> = {
+  resolveStructure: async () => ({ best: null, available: [] }),
+  getClinVarData: async () => ({
+    clinicalSignificance: 'Pathogenic',
+    reviewStatus: 'reviewed by expert panel',
+    clinvarId: '12345',
+    conditions: ['Li-Fraumeni syndrome'],
+    lastUpdated: '2025-06-01',
+    submitterCount: 3,
+    title: 'NM_000546.6(TP53):c.524G>A (p.Arg175His)',
+    matchType: 'exact',
+  }),
+  searchPubMed: async () => ({ count: 0, query: 'TP53 R175H', papers: [] }),
+};
+
+describe('analyzeVariant', () => {
+  beforeAll(() => {
+    mockFetch();
+  });
+
+  it('returns the report built from the injected clients and clock', async () => {
+    const result = await analyzeVariant('TP53:p.Arg175His', { clients, now: () => FIXED_NOW });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok || !('coverage' in result.report)) throw new Error('Expected a single-variant report');
+    const { report } = result;
+    expect(report.variant.normalizedHgvs).toBe('TP53:p.R175H');
+    expect(report.coverage.clinical).toMatchObject({ status: 'pathogenic', clinvarId: '12345' });
+    expect(report.coverage.structure.status).toBe('none');
+    expect(report.coverage.literature.variantSpecificCount).toBe(0);
+    expect(report.timestamp).toBe('2026-01-01T00:00:00.000Z');
+    expect(report.processingMs).toBe(0);
+    expect(renderReportMarkdown(report, result.outcomes)).toContain('TP53');
+  });
+
+  it('returns a typed PARSE_ERROR instead of throwing', async () => {
+    const result = await analyzeVariant('TP53 R175H', { clients });
+
+    expect(result).toMatchObject({ ok: false, status: 400, error: { error: true, code: 'PARSE_ERROR' } });
+    if (result.ok) return;
+    expect(result.error).toHaveProperty('diagnostics');
+    expect(result.outcomes).toEqual([]);
+  });
+
+  it('returns GENE_NOT_IN_REGISTRY (404) for coding input naming a gene the registry lacks', async () => {
+    const result = await analyzeVariant('SMAD4:c.1081C>T', { clients });
+
+    expect(result).toMatchObject({ ok: false, status: 404, error: { code: 'GENE_NOT_IN_REGISTRY', details: { gene: 'SMAD4' } } });
+  });
+
+  it('keeps REF_MISMATCH for a coding change whose stated base is wrong', async () => {
+    const result = await analyzeVariant('NM_004985.5:c.35T>A', { clients });
+
+    expect(result).toMatchObject({ ok: false, status: 400, error: { code: 'REF_MISMATCH', details: { statedRef: 'T', actualRef: 'G' } } });
+  });
+
+  it('returns UPSTREAM_UNAVAILABLE (503) instead of a partial report when UniProt is down', async () => {
+    const mocked = global.fetch;
+    global.fetch = (async (input: RequestInfo | URL, init?: RequestInit) =>
+      String(input).includes('uniprot.org')
+        ? ({ ok: false, status: 429, statusText: 'Too Many Requests' } as Response)
+        : mocked(input, init)) as typeof fetch;
+    const result = await analyzeVariant('KRAS:p.Gly12Asp', { clients });
+    global.fetch = mocked;
+
+    expect(result).toMatchObject({
+      ok: false,
+      status: 503,
+      error: { error: true, code: 'UPSTREAM_UNAVAILABLE', details: { service: 'uniprot', reason: 'rate_limited' } },
+    });
+  });
+
+  it('reads coding input against references from the injected loader, without NCBI', async () => {
+    const mocked = global.fetch;
+    const requested: string[] = [];
+    global.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      requested.push(String(input));
+      return mocked(input, init);
+    }) as typeof fetch;
+
+    const loaded: string[] = [];
+    // TP53 NM_000546.6 filler with codon 175 CGC (Arg), as a local reference store would supply it
+    const loadReferenceData = async (input: string) => {
+      loaded.push(input);
+      addReferenceTranscript({ accession: 'NM_000546.6', gene: 'TP53', cds: 'ATG' + 'GCT'.repeat(173) + 'CGC' + 'GCT'.repeat(218) + 'TGA' });
+    };
+    const result = await analyzeVariant('NM_000546.6:c.524G>A', { clients, loadReferenceData });
+    global.fetch = mocked;
+
+    expect(loaded).toEqual(['NM_000546.6:c.524G>A']);
+    expect(requested.filter((url) => url.includes('eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi?db=nuccore'))).toEqual([]);
+    if (!result.ok || !('coverage' in result.report)) throw new Error('Expected a single-variant report');
+    expect(result.report.variant.normalizedHgvs).toBe('TP53:p.R175H');
+  });
+
+  it('leaves an unbundled transcript unreadable when the loader supplies nothing', async () => {
+    const result = await analyzeVariant('NM_004333.6:c.1799T>A', { clients, loadReferenceData: async () => {} });
+
+    expect(result).toMatchObject({ ok: false, status: 400, error: { code: 'PARSE_ERROR' } });
+  });
+
+  it('stops at once when the caller aborts, without waiting for the deadline', async () => {
+    const caller = new AbortController();
+    caller.abort();
+    const result = await analyzeVariant('TP53:p.R175H', { clients, signal: caller.signal });
+
+    expect(result).toMatchObject({ ok: false, status: 503, error: { code: 'UPSTREAM_UNAVAILABLE', details: { reason: 'timeout' } } });
+    expect(result.outcomes).toHaveLength(1);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { clientIp } from '../api-access';
+
+function requestFrom(forwardedFor?: string, ip?: string): Request {
+  const request = new Request('http://localhost/api/variant', {
+    headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {},
+  });
+  return Object.assign(request, ip ? { ip } : {});
+}
+
+describe('clientIp', () => {
+  afterEach(() => {
+    delete process.env.TRUST_PROXY;
+  });
+
+  it('ignores X-Forwarded-For unless a proxy is trusted', () => {
+    expect(clientIp(requestFrom('203.0.113.9'))).toBe('unknown');
+    expect(clientIp(requestFrom('203.0.113.9', '198.51.100.4'))).toBe('198.51.100.4');
+  });
+
+  it('reads the entry the outermost trusted proxy added, not what the client sent', () => {
+    process.env.TRUST_PROXY = '1';
+    expect(clientIp(requestFrom('203.0.113.9'))).toBe('203.0.113.9');
+    expect(clientIp(requestFrom('10.9.9.9, 203.0.113.9'))).toBe('203.0.113.9');
+
+    process.env.TRUST_PROXY = '2';
+    expect(clientIp(requestFrom('10.9.9.9, 203.0.113.9, 192.0.2.1'))).toBe('203.0.113.9');
+  });
+
+  it('falls back to the platform address when the proxies left too few entries', () => {
+    process.env.TRUST_PROXY = '2';
+    expect(clientIp(requestFrom('203.0.113.9', '198.51.100.4'))).toBe('198.51.100.4');
+    expect(clientIp(requestFrom(undefined, '198.51.100.4'))).toBe('198.51.100.4');
+  });
+});
@@ -0,0 +1,173 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import {
+  ClinVarResult,
+  getClinVarData,
+  parseInputToAllele,
+  parseProteinHGVS,
+  parseVariantFromTitle,
+  pickBestClinVarEntry,
+} from '../clinvar-client';
+
+function candidate(id: string, variationName: string, reviewStatus = 'criteria provided, single submitter'): ClinVarResult {
+  return {
+    clinicalSignificance: 'Pathogenic',
+    reviewStatus,
+    clinvarId: id,
+    conditions: [],
+    lastUpdated: 'Unknown',
+    submitterCount: 1,
+    title: variationName,
+    matchType: 'none',
+    _raw: { variation_set: [{ variation_name: variationName }] },
+  };
+}
+
+describe('ClinVar allele matching', () => {
+  it('parses range alleles from structured names and titles', () => {
+    expect(parseProteinHGVS('NM_005228.5(EGFR):c.2235_2249del (p.Glu746_Ala750del)')).toMatchObject({
+      gene: 'EGFR', ref: 'Glu', pos: 746, end: 750, alt: 'del',
+    });
+    expect(parseVariantFromTitle('NM_005228.5(EGFR):c.2573_2574delinsGT (p.Leu858_Thr859delinsArgSer)')).toMatchObject({
+      pos: 858, end: 859, alt: 'delinsArgSer', transcript: 'NM_005228.5',
+    });
+  });
+
+  it('builds the same allele from one-letter input', () => {
+    expect(parseInputToAllele('EGFR', 'p.E746_A750del')).toMatchObject({ ref: 'Glu', pos: 746, end: 750, alt: 'del' });
+    expect(parseInputToAllele('TP53', 'p.*394Wext*?')).toMatchObject({ ref: 'Ter', pos: 394, alt: 'extTrp*?' });
+  });
+
+  it('matches a deletion range exactly and ranks overlapping changes as partial', () => {
+    const best = pickBestClinVarEntry(
+      [
+        candidate('1', 'NM_005228.5(EGFR):c.2236_2250del (p.Glu746_Ala750del)'),
+        candidate('2', 'NM_005228.5(EGFR):c.2239_2240delinsCC (p.Leu747Pro)', 'reviewed by expert panel'),
+      ],
+      'EGFR',
+      'p.E746_A750del'
+    );
+    expect(best?.clinvarId).toBe('1');
+    expect(best?.matchType).toBe('exact');
+
+    const overlapOnly = pickBestClinVarEntry(
+      [candidate('2', 'NM_005228.5(EGFR):c.2239_2240delinsCC (p.Leu747Pro)')],
+      'EGFR',
+      'p.E746_A750del'
+    );
+    expect(overlapOnly?.matchType).toBe('partial');
+  });
+
+  it('does not treat a shorter deletion at the same start as exact', () => {
+    const best = pickBestClinVarEntry(
+      [candidate('3', 'NM_005228.5(EGFR):c.2236_2244del (p.Glu746_Glu749del)')],
+      'EGFR',
+      'p.E746_A750del'
+    );
+    expect(best?.matchType).toBe('partial');
+  });
+});
+
+describe('ClinVar classification types', () => {
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    // KRAS G12D as esummary returns it since germline, somatic and oncogenicity were split
+    const item = {
+      title: 'NM_004985.5(KRAS):c.35G>A (p.Gly12Asp)',
+      variation_set: [{ variation_name: 'NM_004985.5(KRAS):c.35G>A (p.Gly12Asp)' }],
+      germline_classification: {
+        description: 'Pathogenic',
+        review_status: 'criteria provided, multiple submitters, no conflicts',
+        last_evaluated: '2023/08/14 00:00',
+        trait_set: [{ trait_name: 'Noonan syndrome 3' }],
+      },
+      clinical_impact_classification: {
+        description: 'Tier I - Strong',
+        review_status: 'criteria provided, single submitter',
+        last_evaluated: '2024/01/02 00:00',
+        trait_set: [{ trait_name: 'Pancreatic adenocarcinoma' }],
+      },
+      oncogenicity_classification: {
+        description: 'Oncogenic',
+        review_status: 'reviewed by expert panel',
+        last_evaluated: '',
+        trait_set: [],
+      },
+    };
+    global.fetch = jest.fn(async (input: RequestInfo | URL) => {
+      const url = input.toString();
+      const body = url.includes('esearch.fcgi')
+        ? { esearchresult: { idlist: ['376'] } }
+        : { result: { 376: item } };
+      return { ok: true, status: 200, json: async () => body } as Response;
+    }) as typeof fetch;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('reads each aggregate classification with its own review status', async () => {
+    const result = await getClinVarData('KRAS', 'p.G12D');
+    if (!result || 'unavailable' in result) throw new Error('Expected a ClinVar record');
+
+    expect(result.clinicalSignificance).toBe('Pathogenic');
+    expect(result.classifications).toEqual([
+      {
+        type: 'germline',
+        description: 'Pathogenic',
+        reviewStatus: 'criteria provided, multiple submitters, no conflicts',
+        lastEvaluated: '2023-08-14',
+        conditions: ['Noonan syndrome 3'],
+      },
+      {
+        type: 'somatic_clinical_impact',
+        description: 'Tier I - Strong',
+        reviewStatus: 'criteria provided, single submitter',
+        lastEvaluated: '2024-01-02',
+        conditions: ['Pancreatic adenocarcinoma'],
+      },
+      { type: 'oncogenicity', description: 'Oncogenic', reviewStatus: 'reviewed by expert panel', conditions: [] },
+    ]);
+  });
+});
+
+describe('ClinVar records without a germline classification', () => {
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    // BRAF V600E classified for oncogenicity and somatic impact only
+    const item = {
+      title: 'NM_004333.6(BRAF):c.1799T>A (p.Val600Glu)',
+      variation_set: [{ variation_name: 'NM_004333.6(BRAF):c.1799T>A (p.Val600Glu)' }],
+      clinical_impact_classification: {
+        description: 'Tier I - Strong',
+        review_status: 'criteria provided, single submitter',
+        trait_set: [{ trait_name: 'Melanoma' }],
+      },
+      oncogenicity_classification: {
+        description: 'Oncogenic',
+        review_status: 'reviewed by expert panel',
+        trait_set: [],
+      },
+    };
+    global.fetch = jest.fn(async (input: RequestInfo | URL) => {
+      const body = input.toString().includes('esearch.fcgi')
+        ? { esearchresult: { idlist: ['13961'] } }
+        : { result: { 13961: item } };
+      return { ok: true, status: 200, json: async () => body } as Response;
+    }) as typeof fetch;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('reads as the somatic and oncogenicity calls, each named by category', async () => {
+    const result = await getClinVarData('BRAF', 'p.V600E');
+    if (!result || 'unavailable' in result) throw new Error('Expected a ClinVar record');
+
+    expect(result.clinicalSignificance).toBe('Somatic clinical impact: Tier I - Strong; Oncogenicity: Oncogenic');
+    expect(result.classifications?.map((c) => c.type)).toEqual(['somatic_clinical_impact', 'oncogenicity']);
+  });
+});
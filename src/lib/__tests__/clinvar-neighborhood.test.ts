@@ -0,0 +1,85 @@
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import { getClinVarNeighborhood } from '../clinvar-client';
+
+// esummary items as ClinVar returns them (trimmed to the fields the client reads)
+function item(title: string, description: string, reviewStatus: string) {
+  return {
+    title,
+    variation_set: [{ variation_name: title }],
+    germline_classification: { description, review_status: reviewStatus },
+  };
+}
+
+const SUMMARY: Record<string, unknown> = {
+  '12347': item('NM_000546.6(TP53):c.524G>A (p.Arg175His)', 'Pathogenic', 'reviewed by expert panel'),
+  '12348': item('NM_000546.6(TP53):c.523C>T (p.Arg175Cys)', 'Pathogenic/Likely pathogenic', 'criteria provided, multiple submitters, no conflicts'),
+  '12349': item('NM_000546.6(TP53):c.524G>T (p.Arg175Leu)', 'Uncertain significance', 'criteria provided, single submitter'),
+  '12350': item('NM_000546.6(TP53):c.535C>T (p.His179Tyr)', 'Pathogenic', 'criteria provided, multiple submitters, no conflicts'),
+  '12351': item('NM_000546.6(TP53):c.517G>A (p.Val173Met)', 'Likely pathogenic', 'criteria provided, single submitter'),
+  // Another gene's record the text search can reach
+  '12352': item('NM_001126112.3(WRAP53):c.524G>A (p.Arg175His)', 'Benign', 'criteria provided, single submitter'),
+  // Numbered on another transcript: residue 175 is not an Arg there
+  '12353': item('NM_001126118.2(TP53):c.406C>T (p.Gln136Ter)', 'Pathogenic', 'criteria provided, single submitter'),
+};
+
+describe('getClinVarNeighborhood', () => {
+  const originalFetch = global.fetch;
+  const terms: string[] = [];
+
+  beforeAll(() => {
+    global.fetch = jest.fn(async (input: RequestInfo | URL) => {
+      const url = new URL(input.toString());
+      if (url.pathname.endsWith('esearch.fcgi')) {
+        terms.push(url.searchParams.get('term') || '');
+        return { ok: true, status: 200, json: async () => ({ esearchresult: { idlist: Object.keys(SUMMARY) } }) } as Response;
+      }
+      const ids = (url.searchParams.get('id') || '').split(',');
+      return {
+        ok: true,
+        status: 200,
+        json: async () => ({ result: Object.fromEntries(ids.map((id) => [id, SUMMARY[id]])) }),
+      } as Response;
+    }) as typeof fetch;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('groups other variants by residue, best-reviewed first, leaving out the queried allele', async () => {
+    const residues = [
+      { position: 173, ref: 'V' },
+      { position: 174, ref: 'R' },
+      { position: 175, ref: 'R' },
+      { position: 176, ref: 'C' },
+      { position: 179, ref: 'H' },
+    ];
+    const neighborhood = await getClinVarNeighborhood('TP53', 'p.R175H', residues);
+
+    expect(terms[0]).toContain('p.Val173*[variant name] OR p.Arg174*[variant name] OR p.Arg175*[variant name]');
+    expect(neighborhood).toEqual([
+      {
+        residue: 173,
+        variants: [expect.objectContaining({ clinvarId: '12351', proteinChange: 'p.Val173Met', significance: 'Likely pathogenic', stars: 2 })],
+      },
+      {
+        residue: 175,
+        variants: [
+          {
+            clinvarId: '12348',
+            proteinChange: 'p.Arg175Cys',
+            significance: 'Pathogenic/Likely pathogenic',
+            reviewStatus: 'criteria provided, multiple submitters, no conflicts',
+            stars: 3,
+            url: 'https://www.ncbi.nlm.nih.gov/clinvar/variation/12348/',
+          },
+          expect.objectContaining({ clinvarId: '12349', proteinChange: 'p.Arg175Leu', stars: 2 }),
+        ],
+      },
+      {
+        residue: 179,
+        variants: [expect.objectContaining({ clinvarId: '12350', proteinChange: 'p.His179Tyr' })],
+      },
+    ]);
+  });
+});
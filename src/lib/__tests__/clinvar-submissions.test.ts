@@ -0,0 +1,148 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { getClinVarSubmissions, parseVariationArchive, tallyClassifications } from '../clinvar-submissions';
+
+// VCV XML as efetch rettype=vcv returns it (trimmed to the elements the parser reads)
+function assertion(scv: string, submitter: string, classification: string, extra = '', tag = 'GermlineClassification') {
+  return `
+    <ClinicalAssertion>
+      <ClinVarAccession Accession="${scv}" Version="1" Type="SCV" SubmitterName="${submitter}"/>
+      <RecordStatus>current</RecordStatus>
+      <Classification DateLastEvaluated="2021-03-04">
+        <ReviewStatus>criteria provided, single submitter</ReviewStatus>
+        <${tag}>${classification}</${tag}>
+      </Classification>
+      ${extra}
+    </ClinicalAssertion>`;
+}
+
+const VCV_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<ClinVarResult-Set>
+  <VariationArchive VariationID="12347" Accession="VCV000012347" Version="96">
+    <ClassifiedRecord>
+      <RCVList>
+        <RCVAccession Accession="RCV000013144" Version="30"/>
+        <RCVAccession Accession="RCV000115733" Version="12"/>
+      </RCVList>
+      <ClinicalAssertionList>
+        ${assertion('SCV000033680', 'OMIM', 'Pathogenic', `
+          <AttributeSet><Attribute Type="AssertionMethod">ACMG Guidelines, 2015</Attribute></AttributeSet>
+          <TraitSet Type="Disease"><Trait><Name><ElementValue Type="Preferred">Li-Fraumeni syndrome</ElementValue></Name></Trait></TraitSet>`)}
+        ${assertion('SCV000150001', 'Invitae', 'Likely pathogenic')}
+        ${assertion('SCV000150002', 'Ambry Genetics', 'Pathogenic')}
+        ${assertion('SCV000150003', 'GeneDx &amp; Partners', 'Uncertain significance')}
+        ${assertion('SCV000150004', 'Lab X', 'Benign')}
+        ${assertion('SCV000150005', 'Tumor Lab', 'Oncogenic', '', 'OncogenicityClassification')}
+        <ClinicalAssertion>
+          <ClinVarAccession Accession="SCV000099999" Version="2" Type="SCV" SubmitterName="Old Lab"/>
+          <RecordStatus>replaced</RecordStatus>
+          <Classification><GermlineClassification>Benign</GermlineClassification></Classification>
+        </ClinicalAssertion>
+      </ClinicalAssertionList>
+    </ClassifiedRecord>
+  </VariationArchive>
+</ClinVarResult-Set>`;
+
+describe('parseVariationArchive', () => {
+  it('reads each current submission with its accessions and tallies the calls', () => {
+    const parsed = parseVariationArchive(VCV_XML)!;
+
+    expect(parsed.vcv).toBe('VCV000012347.96');
+    expect(parsed.rcvs).toEqual(['RCV000013144.30', 'RCV000115733.12']);
+    expect(parsed.submissions).toHaveLength(6);
+    expect(parsed.submissions[0]).toEqual({
+      scv: 'SCV000033680.1',
+      submitter: 'OMIM',
+      type: 'germline',
+      classification: 'Pathogenic',
+      dateLastEvaluated: '2021-03-04',
+      reviewStatus: 'criteria provided, single submitter',
+      method: 'ACMG Guidelines, 2015',
+      conditions: ['Li-Fraumeni syndrome'],
+    });
+    expect(parsed.submissions[3].submitter).toBe('GeneDx & Partners');
+    expect(parsed.submissions.map((s) => s.scv)).not.toContain('SCV000099999.2');
+    expect(parsed.submissions[5]).toMatchObject({ submitter: 'Tumor Lab', type: 'oncogenicity', classification: 'Oncogenic' });
+    expect(parsed.tally).toEqual({
+      pathogenic: 2,
+      pathogenicLikelyPathogenic: 0,
+      likelyPathogenic: 1,
+      uncertain: 1,
+      likelyBenign: 0,
+      benignLikelyBenign: 0,
+      benign: 1,
+      other: 0,
+    });
+  });
+
+  it('returns null for a result set without an archive', () => {
+    expect(parseVariationArchive('<ClinVarResult-Set></ClinVarResult-Set>')).toBeNull();
+  });
+});
+
+describe('tallyClassifications', () => {
+  it('counts germline calls outside the five-tier scale as other and leaves somatic calls out', () => {
+    expect(tallyClassifications([
+      { scv: 'SCV1', submitter: 'A', type: 'germline', classification: 'risk factor', conditions: [] },
+      { scv: 'SCV2', submitter: 'B', type: 'germline', classification: 'Likely benign', conditions: [] },
+      { scv: 'SCV3', submitter: 'C', type: 'somatic_clinical_impact', classification: 'Tier I - Strong', conditions: [] },
+    ])).toEqual({
+      pathogenic: 0,
+      pathogenicLikelyPathogenic: 0,
+      likelyPathogenic: 0,
+      uncertain: 0,
+      likelyBenign: 1,
+      benignLikelyBenign: 0,
+      benign: 0,
+      other: 1,
+    });
+  });
+
+  it('counts combined Pathogenic/Likely pathogenic and Benign/Likely benign calls in their own buckets', () => {
+    expect(tallyClassifications([
+      { scv: 'SCV1', submitter: 'A', type: 'germline', classification: 'Pathogenic/Likely pathogenic', conditions: [] },
+      { scv: 'SCV2', submitter: 'B', type: 'germline', classification: 'Likely pathogenic', conditions: [] },
+      { scv: 'SCV3', submitter: 'C', type: 'germline', classification: 'Benign/Likely benign', conditions: [] },
+    ])).toEqual({
+      pathogenic: 0,
+      pathogenicLikelyPathogenic: 1,
+      likelyPathogenic: 1,
+      uncertain: 0,
+      likelyBenign: 0,
+      benignLikelyBenign: 1,
+      benign: 0,
+      other: 0,
+    });
+  });
+});
+
+describe('getClinVarSubmissions', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('fetches the VCV XML for a variation id', async () => {
+    const urls: string[] = [];
+    global.fetch = jest.fn(async (input: RequestInfo | URL) => {
+      urls.push(input.toString());
+      return { ok: true, status: 200, text: async () => VCV_XML } as Response;
+    }) as typeof fetch;
+
+    const result = await getClinVarSubmissions('12347');
+    expect(urls[0]).toContain('db=clinvar&rettype=vcv&is_variationid&id=12347');
+    expect(result).toMatchObject({ vcv: 'VCV000012347.96', tally: { pathogenic: 2, benign: 1 } });
+  });
+
+  it('is unavailable when the response is not VCV XML', async () => {
+    global.fetch = jest.fn(async () => (
+      { ok: true, status: 200, text: async () => '<html>Service temporarily down</html>' } as Response
+    )) as typeof fetch;
+
+    expect(await getClinVarSubmissions('99999')).toMatchObject({
+      unavailable: true,
+      reason: 'bad_response',
+      service: 'clinvar',
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseCodingHGVS,
+  parseCodingChange,
+  getReferenceTranscript,
+  translateCds,
+} from '../coding-variant';
+import { formatProteinChange } from '../variant';
+import { GeneNotInRegistryError, ParseError, ReferenceMismatchError } from '../errors';
+
+describe('Coding HGVS translation', () => {
+  describe('reference data', () => {
+    it('translates bundled transcripts through a single stop codon', () => {
+      const kras = getReferenceTranscript('NM_004985.5');
+      expect(kras?.gene).toBe('KRAS');
+      const protein = translateCds(kras!.cds);
+      expect(protein.startsWith('MTEYKLVVVGAGGVGKSAL')).toBe(true);
+      expect(protein.endsWith('*')).toBe(true);
+      expect(protein.indexOf('*')).toBe(protein.length - 1);
+    });
+
+    it('resolves unversioned accessions to the bundled version', () => {
+      expect(getReferenceTranscript('NM_000518')?.accession).toBe('NM_000518.5');
+      expect(getReferenceTranscript('NM_000518.4')).toBeNull();
+    });
+  });
+
+  describe('parseCodingChange', () => {
+    it('parses substitutions, deletions, duplications, insertions and delins', () => {
+      expect(parseCodingChange('c.35G>A')).toEqual({ start: 35, end: 35, kind: 'substitution', refBases: 'G', altBases: 'A' });
+      expect(parseCodingChange('c.10_12delCTT').kind).toBe('deletion');
+      expect(parseCodingChange('c.10dup').kind).toBe('duplication');
+      expect(parseCodingChange('c.10_11insA').kind).toBe('insertion');
+      expect(parseCodingChange('c.10_11delinsAT').kind).toBe('delins');
+    });
+
+    it('rejects intronic and UTR positions', () => {
+      expect(() => parseCodingChange('c.-14G>A')).toThrow('Intronic and UTR positions');
+      expect(() => parseCodingChange('c.111+1G>A')).toThrow('Intronic and UTR positions');
+      expect(() => parseCodingChange('c.*5del')).toThrow('Intronic and UTR positions');
+    });
+
+    it('rejects insertions between non-adjacent positions', () => {
+      expect(() => parseCodingChange('c.10_12insA')).toThrow('adjacent positions');
+    });
+  });
+
+  describe('parseCodingHGVS', () => {
+    it('derives the HbS missense change', () => {
+      const result = parseCodingHGVS('NM_000518.5:c.20A>T');
+      expect(result).toMatchObject({ gene: 'HBB', ref: 'E', pos: 7, alt: 'V', type: 'missense' });
+      expect(formatProteinChange(result)).toBe('p.Glu7Val');
+    });
+
+    it('resolves a gene-prefixed change through its bundled transcript', () => {
+      const result = parseCodingHGVS('KRAS:c.35G>A', 'KRAS');
+      expect(result.transcript).toBe('NM_004985.5');
+      expect(result.codingHgvs).toBe('NM_004985.5:c.35G>A');
+    });
+
+    it('rejects a reference base that disagrees with the transcript as REF_MISMATCH', () => {
+      expect(() => parseCodingHGVS('NM_004985.5:c.35T>A')).toThrow('Reference mismatch at c.35');
+      expect(() => parseCodingHGVS('NM_004985.5:c.35T>A')).toThrow(ReferenceMismatchError);
+      try {
+        parseCodingHGVS('NM_004985.5:c.35T>A');
+      } catch (error) {
+        expect(error).toMatchObject({ code: 'REF_MISMATCH', details: { statedRef: 'T', actualRef: 'G' } });
+      }
+    });
+
+    it('rejects a transcript that belongs to another gene', () => {
+      expect(() => parseCodingHGVS('NM_004985.5(BRAF):c.35G>A', 'BRAF')).toThrow('encodes KRAS, not BRAF');
+    });
+
+    it('classifies synonymous, nonsense and frameshift changes', () => {
+      // KRAS codon 12 GGT -> GGC keeps glycine
+      expect(parseCodingHGVS('NM_004985.5:c.36T>C')).toMatchObject({ pos: 12, ref: 'G', alt: 'G', type: 'silent' });
+      // HBB codon 40 CAG -> TAG (p.Gln40Ter, beta-zero thalassemia)
+      expect(parseCodingHGVS('NM_000518.5:c.118C>T')).toMatchObject({ pos: 40, ref: 'Q', alt: '*', type: 'nonsense' });
+      expect(parseCodingHGVS('NM_000518.5:c.20del')).toMatchObject({ pos: 7, alt: 'fs', type: 'frameshift' });
+    });
+
+    it('shifts single-residue in-frame deletions to the 3\' most position', () => {
+      // HBB codons 7-8 are both GAG (Glu); deleting either shifts to residue 8
+      const result = parseCodingHGVS('NM_000518.5:c.19_21del');
+      expect(result).toMatchObject({ ref: 'E', pos: 8, alt: 'del', type: 'deletion' });
+    });
+
+    it('reports in-frame duplications of a single residue', () => {
+      const result = parseCodingHGVS('NM_000518.5:c.19_21dup');
+      expect(result).toMatchObject({ ref: 'E', pos: 8, alt: 'dup', type: 'duplication' });
+    });
+
+    it('reports start-loss and stop-loss consequences', () => {
+      expect(parseCodingHGVS('NM_004985.5:c.1A>G')).toMatchObject({ ref: 'M', pos: 1, alt: '?', type: 'start_loss' });
+      // KRAS stop TAA -> CAA reads past the bundled CDS, so the new stop is unknown
+      const extension = parseCodingHGVS('NM_004985.5:c.565T>C');
+      expect(extension).toMatchObject({ ref: '*', pos: 189, alt: 'ext', inserted: 'Q', extension: '*?', type: 'extension' });
+      expect(formatProteinChange(extension)).toBe('p.Ter189GlnextTer?');
+    });
+
+    it('reports multi-residue in-frame changes as ranges', () => {
+      // KRAS codons 12-13 are GGT GGC (Gly-Gly)
+      expect(parseCodingHGVS('NM_004985.5:c.34_39del')).toMatchObject({
+        ref: 'G', pos: 12, endRef: 'G', end: 13, alt: 'del', type: 'deletion',
+      });
+      expect(parseCodingHGVS('NM_004985.5:c.34_39dup')).toMatchObject({
+        ref: 'G', pos: 12, end: 13, alt: 'dup', type: 'duplication',
+      });
+      expect(formatProteinChange(parseCodingHGVS('NM_004985.5:c.34_39delinsAAAAAA'))).toBe('p.Gly12_Gly13delinsLysLys');
+      expect(parseCodingHGVS('NM_004985.5:c.36_37insAAA')).toMatchObject({
+        ref: 'G', pos: 12, endRef: 'G', end: 13, alt: 'ins', inserted: 'K', type: 'insertion',
+      });
+    });
+
+    it('rejects a transcript whose sequence is neither bundled nor loaded', () => {
+      // Loading from NCBI happens before parsing (refseq-client.test.ts)
+      expect(() => parseCodingHGVS('NM_000059.4:c.8167G>C')).toThrow('NM_000059.4 is not available as a reference sequence');
+    });
+
+    it('tells a gene outside the bundled registry apart from a registry gene without a loaded transcript', () => {
+      // SMAD4 is a real gene, but not one of the registry's curated subset
+      expect(() => parseCodingHGVS('SMAD4:c.1081C>T', 'SMAD4')).toThrow(GeneNotInRegistryError);
+      expect(() => parseCodingHGVS('SMAD4:c.1081C>T', 'SMAD4')).toThrow('SMAD4 is not in the bundled gene registry');
+      expect(() => parseCodingHGVS('BRCA1:c.61C>G', 'BRCA1')).toThrow(ParseError);
+    });
+  });
+});
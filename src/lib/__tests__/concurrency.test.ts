@@ -0,0 +1,59 @@
+import { describe, it, expect } from '@jest/globals';
+import { ConcurrencyLimiter } from '../concurrency';
+
+describe('ConcurrencyLimiter', () => {
+  it('never runs more tasks than its limit and keeps FIFO order', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let running = 0;
+    let peak = 0;
+    const started: number[] = [];
+
+    await Promise.all([0, 1, 2, 3, 4].map((id) => limiter.run(async () => {
+      started.push(id);
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+    })));
+
+    expect(peak).toBe(2);
+    expect(started).toEqual([0, 1, 2, 3, 4]);
+    expect(limiter.inFlight).toBe(0);
+  });
+
+  it('releases the slot when a task throws', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    await expect(limiter.run(async () => { throw new Error('upstream down'); })).rejects.toThrow('upstream down');
+    await expect(limiter.run(async () => 'next')).resolves.toBe('next');
+    expect(limiter.queued).toBe(0);
+  });
+
+  it('drops a waiter whose signal aborts and never runs its task', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    let release: () => void = () => {};
+    const first = limiter.run(() => new Promise<void>((resolve) => (release = resolve)));
+    const controller = new AbortController();
+    let ran = false;
+    const abandoned = limiter.run(async () => { ran = true; }, controller.signal);
+
+    expect(limiter.queued).toBe(1);
+    controller.abort(new Error('deadline'));
+    await expect(abandoned).rejects.toThrow('deadline');
+    expect(limiter.queued).toBe(0);
+
+    release();
+    await first;
+    expect(ran).toBe(false);
+    expect(limiter.inFlight).toBe(0);
+  });
+
+  it('passes the signal to the task and refuses one already aborted', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const controller = new AbortController();
+    await expect(limiter.run(async (signal) => signal, controller.signal)).resolves.toBe(controller.signal);
+
+    controller.abort(new Error('deadline'));
+    await expect(limiter.run(async () => 'late', controller.signal)).rejects.toThrow('deadline');
+    expect(limiter.inFlight).toBe(0);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  ApiError,
+  ERROR_STATUS,
+  ReferenceMismatchError,
+  UpstreamUnavailableError,
+  RateLimitedError,
+  toApiError,
+} from '../errors';
+import { ServiceUnavailableError } from '../fetch-utils';
+import { ApiErrorSchema } from '../types/api-schemas';
+import { parseHGVS } from '../variant';
+
+describe('Error taxonomy', () => {
+  it('derives the status from the code', () => {
+    expect(new ReferenceMismatchError('mismatch').status).toBe(400);
+    expect(new UpstreamUnavailableError('ensembl', 'timeout').status).toBe(503);
+    expect(new RateLimitedError(30).status).toBe(429);
+    expect(ERROR_STATUS.UNKNOWN_GENE).toBe(404);
+  });
+
+  it('serializes to the published envelope', () => {
+    const body = new RateLimitedError(30).toBody();
+
+    expect(body).toEqual({
+      error: true,
+      code: 'RATE_LIMITED',
+      message: 'Rate limit exceeded; retry in 30s',
+      details: { retryAfter: 30 },
+    });
+    expect(ApiErrorSchema.safeParse(body).success).toBe(true);
+  });
+
+  it('keeps typed errors and wraps everything else as INTERNAL_ERROR', () => {
+    const upstream = new ServiceUnavailableError('pdb', 'upstream_5xx');
+
+    expect(toApiError(upstream)).toBe(upstream);
+    expect(toApiError(upstream).code).toBe('UPSTREAM_UNAVAILABLE');
+    expect(toApiError(new TypeError('boom')).toBody()).toEqual({ error: true, code: 'INTERNAL_ERROR', message: 'boom' });
+  });
+
+  it('is what the parsers throw for bad input', () => {
+    let thrown: unknown;
+    try {
+      parseHGVS('TP53:p.=');
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(ApiError);
+    expect((thrown as ApiError).code).toBe('PARSE_ERROR');
+  });
+});
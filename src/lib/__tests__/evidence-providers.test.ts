@@ -0,0 +1,333 @@
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import {
+  EvidenceProvider,
+  EvidenceContext,
+  resolveEnabledProviders,
+  listEvidenceProviders,
+  structureProvider,
+  pubmedProvider,
+  populationProvider,
+  predictorsProvider,
+  nearbyClinvarProvider,
+  clinvarProvider,
+} from '../evidence-providers';
+import { UNKNOWN_MESSAGES } from '../types/honest-response';
+import { analyzeVariant } from '../analyze-variant';
+import { withUpstream, UPSTREAM_CONCURRENCY } from '../concurrency';
+import { mockFetch } from './mocks/external-apis';
+
+function provider(id: string, dependsOn?: string[]): EvidenceProvider<null, 'additional'> {
+  return {
+    id,
+    label: id,
+    section: 'additional',
+    dependsOn,
+    fetch: async () => null,
+    coverage: () => ({ label: id, status: 'none' }),
+  };
+}
+
+describe('Evidence provider registry', () => {
+  it('registers the built-in sources and enables all of them by default', () => {
+    expect(listEvidenceProviders().map((p) => p.id)).toEqual(['structure', 'clinvar', 'clinvar-nearby', 'pubmed', 'population', 'predictors']);
+    expect(resolveEnabledProviders(undefined).map((p) => p.id)).toEqual(['structure', 'clinvar', 'clinvar-nearby', 'pubmed', 'population', 'predictors']);
+  });
+
+  it('enables only the configured ids and ignores unknown ones', () => {
+    expect(resolveEnabledProviders(' pubmed, nosuch ').map((p) => p.id)).toEqual(['pubmed']);
+  });
+
+  it('orders providers after their dependencies and drops those missing one', () => {
+    const providers = [provider('summary', ['gnomad']), provider('gnomad'), provider('orphan', ['absent'])];
+    expect(resolveEnabledProviders(undefined, providers).map((p) => p.id)).toEqual(['gnomad', 'summary']);
+    expect(resolveEnabledProviders('summary', providers)).toEqual([]);
+  });
+
+  it('rejects dependency cycles', () => {
+    expect(() => resolveEnabledProviders(undefined, [provider('a', ['b']), provider('b', ['a'])])).toThrow(/cycle/);
+  });
+});
+
+describe('Evidence providers in the pipeline', () => {
+  beforeAll(() => {
+    mockFetch();
+  });
+
+  it('adds sections from custom providers and marks disabled built-ins unavailable', async () => {
+    const seen: unknown[] = [];
+    const frequency: EvidenceProvider<{ af: number }, 'additional'> = {
+      id: 'inhouse-frequency',
+      label: 'In-house cohort',
+      section: 'additional',
+      dependsOn: ['pubmed'],
+      fetch: async (context, dependencies) => {
+        seen.push(context.proteinChange, dependencies.pubmed !== undefined);
+        return { af: 0.002 };
+      },
+      coverage: (result) => (result && 'af' in result
+        ? { label: 'In-house cohort', status: 'found', summary: `AF ${result.af}`, data: { af: result.af } }
+        : { label: 'In-house cohort', status: 'unavailable', reason: 'No result' }),
+      unknowns: (section) => (section.status === 'found' ? ['Cohort frequency is not population-representative'] : []),
+    };
+
+    const result = await analyzeVariant('TP53:p.R175H', {
+      providers: [structureProvider, pubmedProvider, frequency],
+      clients: {
+        resolveStructure: async () => ({ best: null, available: [] }),
+        searchPubMed: async () => ({ count: 0, query: 'TP53 R175H', papers: [] }),
+      },
+    });
+
+    if (!result.ok || !('coverage' in result.report)) throw new Error('Expected a single-variant report');
+    const { coverage, unknowns, timings } = result.report;
+    expect(seen).toEqual(['p.R175H', true]);
+    expect(coverage.additional?.['inhouse-frequency']).toMatchObject({ status: 'found', summary: 'AF 0.002' });
+    expect(coverage.clinical).toEqual({ status: 'unavailable', reason: 'Source not enabled' });
+    expect(unknowns.items).toContain('Cohort frequency is not population-representative');
+    expect(Object.keys(timings?.stages ?? {}).sort()).toEqual(['inhouse-frequency', 'pubmed', 'structure', 'uniprot']);
+  });
+
+  it('reports a provider that throws as unavailable with its reason, not as empty', async () => {
+    const cohort: EvidenceProvider<{ af: number }, 'additional'> = {
+      id: 'inhouse-frequency',
+      label: 'In-house cohort',
+      section: 'additional',
+      fetch: async () => { throw new Error('cohort database offline'); },
+      coverage: (result) => (result && 'unavailable' in result
+        ? { label: 'In-house cohort', status: 'unavailable', reason: result.details }
+        : { label: 'In-house cohort', status: 'none' }),
+    };
+
+    const result = await analyzeVariant('TP53:p.R175H', {
+      providers: [structureProvider, cohort],
+      clients: { resolveStructure: async () => { throw new Error('PDB unavailable'); } },
+    });
+
+    if (!result.ok || !('coverage' in result.report)) throw new Error('Expected a single-variant report');
+    const { coverage, unknowns, timings } = result.report;
+    expect(coverage.additional?.['inhouse-frequency']).toEqual({
+      label: 'In-house cohort',
+      status: 'unavailable',
+      reason: 'In-house cohort failed: cohort database offline',
+    });
+    expect(coverage.structure.status).toBe('unavailable');
+    expect(unknowns.items).not.toContain(UNKNOWN_MESSAGES.NO_STRUCTURE);
+    expect(timings?.stages.structure?.outcome).toBe('error');
+  });
+
+  it('looks up population frequency for the genomic allele', async () => {
+    const looked: string[] = [];
+    const result = await analyzeVariant('12-25245350-C-T', {
+      providers: [populationProvider],
+      clients: {
+        getPopulationFrequency: async (allele) => {
+          looked.push(allele.hgvs);
+          return {
+            variantId: '12-25245350-C-T',
+            alleleCount: 3,
+            alleleNumber: 152000,
+            alleleFrequency: 1.97e-05,
+            homozygoteCount: 0,
+            filters: [],
+            ancestries: [],
+            source: 'gnomad.genomes.v4.1.sites.chr12.vcf.bgz',
+          };
+        },
+      },
+    });
+
+    if (!result.ok || !('consequences' in result.report)) throw new Error('Expected a genomic report');
+    const [consequence] = result.report.consequences;
+    if (!('coverage' in consequence)) throw new Error('Expected an analysis');
+    expect(looked).toEqual(['NC_000012.12:g.25245350C>T']);
+    expect(consequence.coverage.population).toMatchObject({
+      status: 'found',
+      variantId: '12-25245350-C-T',
+      url: 'https://gnomad.broadinstitute.org/variant/12-25245350-C-T',
+      alleleFrequency: 1.97e-05,
+    });
+    expect(consequence.unknowns.items).not.toContain(UNKNOWN_MESSAGES.NOT_IN_POPULATION);
+  });
+
+  it('lists an allele absent from gnomAD as an explicit unknown', async () => {
+    const result = await analyzeVariant('NM_004985.5:c.35G>T', {
+      providers: [populationProvider],
+      clients: { getPopulationFrequency: async () => null },
+    });
+
+    if (!result.ok || !('coverage' in result.report)) throw new Error('Expected a single-variant report');
+    expect(result.report.coverage.population).toEqual({ status: 'none', query: 'NC_000012.12:g.25245350C>A' });
+    expect(result.report.unknowns.items).toContain(UNKNOWN_MESSAGES.NOT_IN_POPULATION);
+  });
+
+  it('marks population frequency unavailable for protein input', async () => {
+    const result = await analyzeVariant('TP53:p.R175H', { providers: [populationProvider] });
+
+    if (!result.ok || !('coverage' in result.report)) throw new Error('Expected a single-variant report');
+    expect(result.report.coverage.population?.status).toBe('unavailable');
+    expect(result.report.unknowns.items).not.toContain(UNKNOWN_MESSAGES.NOT_IN_POPULATION);
+  });
+
+  it('reports predictor scores with their calibrated category and lists missing tools as unknowns', async () => {
+    const looked: string[] = [];
+    const result = await analyzeVariant('TP53:p.R175H', {
+      providers: [predictorsProvider],
+      clients: {
+        getPredictorScores: async (accession, position, variant) => {
+          looked.push(`${accession} ${position} ${variant}`);
+          return {
+            scores: [{
+              id: 'revel',
+              tool: 'REVEL',
+              version: 'v1.3',
+              score: 0.957,
+              category: 'PP3_strong',
+              calibration: 'ClinGen SVI PP3/BP4 calibration (Pejaver et al. 2022)',
+            }],
+            missing: ['AlphaMissense'],
+            unreadable: [],
+          };
+        },
+      },
+    });
+
+    if (!result.ok || !('coverage' in result.report)) throw new Error('Expected a single-variant report');
+    expect(looked).toEqual(['P04637 175 R175H']);
+    expect(result.report.coverage.predictors).toMatchObject({
+      status: 'found',
+      query: 'P04637:R175H',
+      scores: [{ tool: 'REVEL', score: 0.957, category: 'PP3_strong' }],
+      missing: ['AlphaMissense'],
+      note: expect.stringContaining('not a VariantLens classification'),
+    });
+    expect(result.report.unknowns.items).toContain('No precomputed AlphaMissense score for this substitution');
+  });
+
+  it('marks predictor scores unavailable for changes other than a missense substitution', async () => {
+    let called = false;
+    const result = await analyzeVariant('TP53:p.R175*', {
+      providers: [predictorsProvider],
+      clients: { getPredictorScores: async () => { called = true; return null; } },
+    });
+
+    if (!result.ok || !('coverage' in result.report)) throw new Error('Expected a single-variant report');
+    expect(called).toBe(false);
+    expect(result.report.coverage.predictors?.status).toBe('unavailable');
+  });
+
+  it('keeps somatic and oncogenicity classifications apart from the germline one', async () => {
+    const result = await analyzeVariant('TP53:p.R175H', {
+      providers: [clinvarProvider],
+      clients: {
+        getClinVarData: async () => ({
+          clinicalSignificance: 'Somatic clinical impact: Tier IV - Benign/Likely benign; Oncogenicity: Oncogenic',
+          reviewStatus: 'no assertion provided',
+          clinvarId: '12347',
+          conditions: [],
+          lastUpdated: 'Unknown',
+          submitterCount: 1,
+          title: 'NM_000546.6(TP53):c.524G>A (p.Arg175His)',
+          matchType: 'exact',
+          classifications: [
+            { type: 'somatic_clinical_impact', description: 'Tier IV - Benign/Likely benign', reviewStatus: 'criteria provided, single submitter', conditions: [] },
+            { type: 'oncogenicity', description: 'Oncogenic', reviewStatus: 'reviewed by expert panel', conditions: [] },
+          ],
+        }),
+        getClinVarSubmissions: async () => null,
+      },
+    });
+
+    if (!result.ok || !('coverage' in result.report)) throw new Error('Expected a single-variant report');
+    expect(result.report.coverage.clinical).toMatchObject({
+      status: 'none',
+      significance: 'Somatic clinical impact: Tier IV - Benign/Likely benign; Oncogenicity: Oncogenic',
+      classifications: [
+        { type: 'somatic_clinical_impact', description: 'Tier IV - Benign/Likely benign' },
+        { type: 'oncogenicity', description: 'Oncogenic', stars: 4 },
+      ],
+    });
+    expect(result.report.unknowns.items).toContain(UNKNOWN_MESSAGES.NO_GERMLINE_CLASSIFICATION);
+    expect(result.report.unknowns.items).not.toContain(UNKNOWN_MESSAGES.NO_CLINICAL);
+  });
+
+  it('searches ClinVar across the residue window using the canonical sequence', async () => {
+    const searched: string[] = [];
+    const result = await analyzeVariant('TP53:p.R175H', {
+      providers: [nearbyClinvarProvider],
+      clients: {
+        // Residues 170-180 of P04637
+        getCanonicalSequence: async () => 'X'.repeat(169) + 'TEVVRRCPHHE' + 'X'.repeat(213),
+        getClinVarNeighborhood: async (_gene, _change, residues) => {
+          searched.push(...residues.map((r) => `${r.ref}${r.position}`));
+          return [{
+            residue: 175,
+            variants: [{
+              clinvarId: '12348',
+              proteinChange: 'p.Arg175Cys',
+              significance: 'Pathogenic',
+              reviewStatus: 'criteria provided, multiple submitters, no conflicts',
+              stars: 3,
+              url: 'https://www.ncbi.nlm.nih.gov/clinvar/variation/12348/',
+            }],
+          }];
+        },
+      },
+    });
+
+    if (!result.ok || !('coverage' in result.report)) throw new Error('Expected a single-variant report');
+    expect(searched).toEqual(['T170', 'E171', 'V172', 'V173', 'R174', 'R175', 'C176', 'P177', 'H178', 'H179', 'E180']);
+    expect(result.report.coverage.nearby).toMatchObject({
+      status: 'found',
+      residue: 175,
+      window: 5,
+      from: 170,
+      to: 180,
+      residues: [{ residue: 175, variants: [{ proteinChange: 'p.Arg175Cys', stars: 3 }] }],
+    });
+  });
+
+  it('searches only the variant residue when the sequence disagrees with the input numbering', async () => {
+    const searched: string[] = [];
+    const result = await analyzeVariant('TP53:p.R175H', {
+      providers: [nearbyClinvarProvider],
+      clients: {
+        getCanonicalSequence: async () => null,
+        getClinVarNeighborhood: async (_gene, _change, residues) => {
+          searched.push(...residues.map((r) => `${r.ref}${r.position}`));
+          return [];
+        },
+      },
+    });
+
+    if (!result.ok || !('coverage' in result.report)) throw new Error('Expected a single-variant report');
+    expect(searched).toEqual(['R175']);
+    expect(result.report.coverage.nearby).toMatchObject({ status: 'none', window: 0, from: 175, to: 175 });
+    expect(result.report.coverage.nearby?.note).toMatch(/only the variant's own residue/);
+  });
+
+  it('waits for a UniProt slot before fetching the canonical sequence', async () => {
+    let releaseUniprot: () => void = () => {};
+    const busy = new Promise<void>((resolve) => { releaseUniprot = resolve; });
+    const holders = Array.from({ length: UPSTREAM_CONCURRENCY.uniprot }, () => withUpstream('uniprot', () => busy));
+
+    let sequenceFetched = false;
+    const context = {
+      gene: 'TP53',
+      proteinChange: 'p.R175H',
+      curatedInfo: { uniprotId: 'P04637' },
+      clients: {
+        getCanonicalSequence: async () => { sequenceFetched = true; return null; },
+        getClinVarNeighborhood: async () => [],
+      },
+    } as unknown as EvidenceContext;
+    const lookup = nearbyClinvarProvider.fetch(context, {});
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(sequenceFetched).toBe(false);
+
+    releaseUniprot();
+    await Promise.all(holders);
+    expect(await lookup).toMatchObject({ residue: 175, window: 0 });
+    expect(sequenceFetched).toBe(true);
+  });
+});
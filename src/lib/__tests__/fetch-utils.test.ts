@@ -0,0 +1,61 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { fetchWithRetry, withDeadline } from '../fetch-utils';
+
+describe('withDeadline', () => {
+  it('aborts the signal it gave the task once the deadline passes', async () => {
+    let given: AbortSignal | undefined;
+    const result = await withDeadline((signal) => {
+      given = signal;
+      return new Promise<string>(() => {});
+    }, Date.now() + 20, 'clinvar');
+
+    expect(result).toMatchObject({ unavailable: true, reason: 'timeout', service: 'clinvar' });
+    expect(given?.aborted).toBe(true);
+  });
+
+  it('leaves the signal alone when the task finishes in time', async () => {
+    let given: AbortSignal | undefined;
+    const result = await withDeadline(async (signal) => {
+      given = signal;
+      return 'done';
+    }, Date.now() + 1000, 'clinvar');
+
+    expect(result).toBe('done');
+    expect(given?.aborted).toBe(false);
+  });
+
+  it('gives up before the deadline when the caller aborts', async () => {
+    const caller = new AbortController();
+    let given: AbortSignal | undefined;
+    const pending = withDeadline((signal) => {
+      given = signal;
+      return new Promise<string>(() => {});
+    }, Date.now() + 60_000, 'clinvar', Date.now, caller.signal);
+
+    caller.abort();
+    expect(await pending).toMatchObject({ unavailable: true, reason: 'timeout', details: 'Cancelled by the caller' });
+    expect(given?.aborted).toBe(true);
+  });
+});
+
+describe('fetchWithRetry', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('aborts the fetch in flight and does not retry once the caller cancels', async () => {
+    const fetchMock = jest.fn((_input: RequestInfo | URL, init?: RequestInit) => new Promise<Response>((_, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    }));
+    global.fetch = fetchMock as typeof fetch;
+    const controller = new AbortController();
+
+    const pending = fetchWithRetry('https://example.org/slow', { circuitBreakerKey: 'cancel-test', signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    expect(await pending).toMatchObject({ unavailable: true, reason: 'timeout', details: 'Cancelled by the caller' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
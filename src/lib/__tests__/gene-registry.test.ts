@@ -0,0 +1,35 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  resolveGeneSymbol,
+  normalizeGeneSymbol,
+  getUniprotAccession,
+  getSymbolVariants,
+  genesEquivalent,
+} from '../gene-registry';
+
+describe('Gene registry', () => {
+  it('resolves approved, withdrawn and alias symbols', () => {
+    expect(resolveGeneSymbol('tp53')).toMatchObject({ symbol: 'TP53', matchedBy: 'approved' });
+    expect(resolveGeneSymbol('GBA')).toMatchObject({ input: 'GBA', symbol: 'GBA1', matchedBy: 'previous' });
+    expect(resolveGeneSymbol('HER2')).toMatchObject({ symbol: 'ERBB2', matchedBy: 'alias' });
+    expect(resolveGeneSymbol('ABCC7').record?.hgncId).toBe('HGNC:1884');
+  });
+
+  it('passes unknown symbols through upper-cased', () => {
+    expect(resolveGeneSymbol('newgene')).toEqual({ input: 'NEWGENE', symbol: 'NEWGENE', matchedBy: 'unknown', record: null });
+    expect(normalizeGeneSymbol('newgene')).toBe('NEWGENE');
+  });
+
+  it('looks up identifiers by any known symbol', () => {
+    expect(getUniprotAccession('KRAS2')).toBe('P01116');
+    expect(getUniprotAccession('GBA1')).toBe('P04062');
+    expect(getUniprotAccession('NEWGENE')).toBeNull();
+  });
+
+  it('lists previous symbols for sources indexed under old names', () => {
+    expect(getSymbolVariants('GBA1')).toEqual(['GBA1', 'GBA']);
+    expect(getSymbolVariants('TP53')).toEqual(['TP53']);
+    expect(genesEquivalent('GBA', 'GBA1')).toBe(true);
+    expect(genesEquivalent('GBA1', 'TP53')).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  isGenomicInput,
+  parseGenomicVariant,
+  mapGenomicVariant,
+  parseGenomicHGVS,
+  genomicAlleleOf,
+  TranscriptAnnotation,
+} from '../genomic-variant';
+import { normalizeVariantInput, parseHGVS } from '../variant';
+import { parseCodingHGVS } from '../coding-variant';
+import { ReferenceMismatchError } from '../errors';
+
+const KRAS_ANNOTATION: TranscriptAnnotation = {
+  accession: 'NM_004985.5',
+  gene: 'KRAS',
+  chrom: '12',
+  strand: '-',
+  cds: [[25245274, 25245384], [25227234, 25227412], [25225614, 25225773], [25209795, 25209911]],
+};
+
+describe('Genomic variant input', () => {
+  describe('parseGenomicVariant', () => {
+    it('accepts VCF-style and g. notations for the same variant', () => {
+      const forms = [
+        '12-25245350-C-T',
+        'chr12:25245350:C:T',
+        '12:25245350:C>T',
+        'NC_000012.12:g.25245350C>T',
+        'chr12:g.25245350C>T',
+      ];
+      for (const form of forms) {
+        expect(isGenomicInput(form)).toBe(true);
+        expect(parseGenomicVariant(form)).toEqual({
+          chrom: '12',
+          start: 25245350,
+          end: 25245350,
+          kind: 'substitution',
+          refBases: 'C',
+          altBases: 'T',
+          hgvs: 'NC_000012.12:g.25245350C>T',
+        });
+      }
+    });
+
+    it('trims VCF anchor bases from indels', () => {
+      const deletion = parseGenomicVariant('11-5227000-CCTC-C');
+      expect(deletion).toMatchObject({ start: 5227001, end: 5227003, kind: 'deletion', refBases: 'CTC' });
+      expect(deletion.hgvs).toBe('NC_000011.10:g.5227001_5227003del');
+
+      const insertion = parseGenomicVariant('12-25245350-C-CA');
+      expect(insertion).toMatchObject({ start: 25245350, end: 25245351, kind: 'insertion', altBases: 'A' });
+    });
+
+    it('rejects GRCh37 accessions and unknown sequences', () => {
+      expect(() => parseGenomicVariant('NC_000017.10:g.7577120C>T')).toThrow('use NC_000017.11');
+      expect(() => parseGenomicVariant('NC_000099.1:g.100A>G')).toThrow('Unrecognized chromosome');
+      expect(() => parseGenomicVariant('12-25245350-C-C')).toThrow('identical');
+    });
+
+    it('does not treat protein or coding HGVS as genomic', () => {
+      expect(isGenomicInput('KRAS:p.G12D')).toBe(false);
+      expect(isGenomicInput('NM_004985.5:c.35G>A')).toBe(false);
+    });
+  });
+
+  describe('mapGenomicVariant', () => {
+    it('maps a minus-strand substitution to the coding and protein change', () => {
+      const [consequence] = parseGenomicHGVS('12-25245350-C-T');
+      expect(consequence).toEqual({
+        gene: 'KRAS',
+        ref: 'G',
+        pos: 12,
+        alt: 'D',
+        transcript: 'NM_004985.5',
+        type: 'missense',
+        codingHgvs: 'NM_004985.5:c.35G>A',
+        genomicHgvs: 'NC_000012.12:g.25245350C>T',
+      });
+    });
+
+    it('maps HbS from genomic coordinates', () => {
+      const [consequence] = parseGenomicHGVS('NC_000011.10:g.5227002T>A');
+      expect(consequence.codingHgvs).toBe('NM_000518.5:c.20A>T');
+      expect(consequence).toMatchObject({ gene: 'HBB', ref: 'E', pos: 7, alt: 'V' });
+    });
+
+    it('maps in-frame deletions through the reverse strand', () => {
+      const [consequence] = parseGenomicHGVS('11-5227000-CCTC-C');
+      expect(consequence.codingHgvs).toBe('NM_000518.5:c.19_21del');
+      expect(consequence).toMatchObject({ ref: 'E', pos: 8, alt: 'del', type: 'deletion' });
+    });
+
+    it('returns one consequence per overlapping transcript', () => {
+      const variant = parseGenomicVariant('12-25245350-C-T');
+      const consequences = mapGenomicVariant(variant, [
+        KRAS_ANNOTATION,
+        { ...KRAS_ANNOTATION, accession: 'NM_004985' },
+      ]);
+      expect(consequences).toHaveLength(2);
+      expect(consequences.map((c) => c.pos)).toEqual([12, 12]);
+    });
+
+    it('rejects reference mismatches in genomic terms', () => {
+      expect(() => parseGenomicHGVS('12-25245350-G-T')).toThrow(ReferenceMismatchError);
+      expect(() => parseGenomicHGVS('12-25245350-G-T')).toThrow(
+        'Reference mismatch at chr12:25245350: GRCh38 has C, input states G'
+      );
+    });
+
+    it('rejects an annotation whose CDS length disagrees with the reference sequence', () => {
+      const variant = parseGenomicVariant('12-25245350-C-T');
+      const truncated = { ...KRAS_ANNOTATION, cds: KRAS_ANNOTATION.cds.slice(0, 3) };
+      expect(() => mapGenomicVariant(variant, [truncated])).toThrow('does not match its reference sequence');
+    });
+
+    it('rejects positions outside the annotated CDS', () => {
+      // Chromosome 17 has no annotation until refseq-client loads it
+      expect(() => parseGenomicHGVS('17-7675088-C-T')).toThrow('does not overlap the coding sequence');
+      // First intronic base after KRAS exon 2 (c.111)
+      expect(() => parseGenomicHGVS('12-25245273-C-T')).toThrow('does not overlap the coding sequence');
+    });
+
+    it('rejects deletions spanning an exon boundary', () => {
+      expect(() => parseGenomicHGVS('NC_000012.12:g.25245272_25245275del')).toThrow('crosses an exon boundary');
+    });
+  });
+
+  describe('genomicAlleleOf', () => {
+    it('maps coding input back to the GRCh38 allele on the minus strand', () => {
+      expect(genomicAlleleOf(parseCodingHGVS('NM_004985.5:c.35G>A'), [KRAS_ANNOTATION])).toEqual({
+        chrom: '12',
+        start: 25245350,
+        end: 25245350,
+        kind: 'substitution',
+        refBases: 'C',
+        altBases: 'T',
+        hgvs: 'NC_000012.12:g.25245350C>T',
+      });
+      expect(genomicAlleleOf(parseCodingHGVS('NM_004985.5:c.34_35del'), [KRAS_ANNOTATION])).toMatchObject({
+        start: 25245350,
+        end: 25245351,
+        kind: 'deletion',
+      });
+    });
+
+    it('returns the submitted allele for genomic input and null for protein input', () => {
+      const [entry] = normalizeVariantInput('12-25245350-C-T');
+      expect(genomicAlleleOf(entry.parsed)?.hgvs).toBe('NC_000012.12:g.25245350C>T');
+      expect(genomicAlleleOf(parseHGVS('KRAS:p.G12D'))).toBeNull();
+    });
+  });
+
+  describe('variant.ts integration', () => {
+    it('normalizes genomic input into protein-level entries', () => {
+      const [entry] = normalizeVariantInput('chr12-25245350-C-T');
+      expect(entry.normalized).toBe('KRAS:p.G12D');
+      expect(entry.parsed.genomicHgvs).toBe('NC_000012.12:g.25245350C>T');
+    });
+
+    it('keeps parseHGVS single-consequence only', () => {
+      expect(() => parseHGVS('12-25245350-C-T')).toThrow('normalizeVariantInput');
+    });
+  });
+});
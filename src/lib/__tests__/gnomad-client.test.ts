@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { getPopulationFrequency } from '../gnomad-client';
+import { parseGenomicVariant } from '../genomic-variant';
+import { TabixFile } from '../tabix';
+import { writeTabixVcf } from './helpers/tabix-fixture';
+
+const SITES = [
+  '##fileformat=VCFv4.2',
+  '##INFO=<ID=AF,Number=A,Type=Float,Description="Alternate allele frequency">',
+  '#CHROM\tPOS\tID\tREF\tALT\tQUAL\tFILTER\tINFO',
+  'chr12\t25227341\t.\tT\tG\t.\tPASS\tAC=1;AN=150000;AF=6.67e-06;nhomalt=0',
+  'chr12\t25245349\t.\tGC\tG\t.\tPASS\tAC=2;AN=150000;AF=1.33e-05;nhomalt=0',
+  'chr12\t25245350\t.\tC\tT,A\t.\tPASS\tAC=3,0;AN=152000;AF=1.97e-05,0;nhomalt=0,0;AC_afr=0,0;AN_afr=41000;AF_afr=0,0;nhomalt_afr=0,0;AC_nfe=3,0;AN_nfe=68000;AF_nfe=4.41e-05,0;nhomalt_nfe=0,0',
+  'chr12\t25245351\t.\tC\tG\t.\tAC0;RF\tAC=0;AN=140000;AF=0;nhomalt=0',
+  'chr12\t40000000\t.\tA\tG\t.\tPASS\tAC=75000;AN=150000;AF=0.5;nhomalt=20000',
+  'chr17\t7675088\t.\tC\tT\t.\tPASS\tAC=1;AN=152000;AF=6.58e-06;nhomalt=0',
+];
+
+let sitesPath: string;
+
+beforeAll(() => {
+  sitesPath = writeTabixVcf(SITES, { name: 'sites.chr12.vcf.bgz' });
+});
+
+afterAll(() => {
+  fs.rmSync(path.dirname(sitesPath), { recursive: true, force: true });
+});
+
+describe('TabixFile', () => {
+  it('reads only the records overlapping a region, across BGZF blocks', async () => {
+    const file = new TabixFile(sitesPath);
+    const positions = async (sequence: string, start: number, end: number) =>
+      (await file.query(sequence, start, end)).map((fields) => `${fields[0]}:${fields[1]}`);
+
+    expect(await positions('chr12', 25245350, 25245351)).toEqual(['chr12:25245349', 'chr12:25245350', 'chr12:25245351']);
+    expect(await positions('chr12', 39999000, 40001000)).toEqual(['chr12:40000000']);
+    expect(await positions('chr12', 1, 1000)).toEqual([]);
+    expect(await positions('chr3', 1, 1000)).toEqual([]);
+  });
+});
+
+describe('getPopulationFrequency', () => {
+  it('reports overall and per-ancestry frequencies for the matching ALT', async () => {
+    const record = await getPopulationFrequency(parseGenomicVariant('12-25245350-C-T'), sitesPath);
+    expect(record).toEqual({
+      variantId: '12-25245350-C-T',
+      alleleCount: 3,
+      alleleNumber: 152000,
+      alleleFrequency: 1.97e-05,
+      homozygoteCount: 0,
+      filters: [],
+      ancestries: [
+        { id: 'afr', label: 'African/African American', alleleCount: 0, alleleNumber: 41000, alleleFrequency: 0, homozygoteCount: 0 },
+        { id: 'nfe', label: 'European (non-Finnish)', alleleCount: 3, alleleNumber: 68000, alleleFrequency: 4.41e-05, homozygoteCount: 0 },
+      ],
+      source: 'sites.chr12.vcf.bgz',
+    });
+  });
+
+  it('reports failed site filters', async () => {
+    const record = await getPopulationFrequency(parseGenomicVariant('12-25245351-C-G'), sitesPath);
+    expect(record).toMatchObject({ alleleCount: 0, filters: ['AC0', 'RF'] });
+  });
+
+  it('matches indels regardless of the VCF padding base', async () => {
+    for (const input of ['12-25245349-GC-G', 'NC_000012.12:g.25245350del']) {
+      expect(await getPopulationFrequency(parseGenomicVariant(input), sitesPath)).toMatchObject({
+        variantId: '12-25245349-GC-G',
+        alleleCount: 2,
+      });
+    }
+  });
+
+  it('returns null for a site the file does not carry', async () => {
+    expect(await getPopulationFrequency(parseGenomicVariant('12-25245350-C-G'), sitesPath)).toBeNull();
+    expect(await getPopulationFrequency(parseGenomicVariant('12-25245352-C-T'), sitesPath)).toBeNull();
+  });
+
+  it('picks a per-chromosome file from {chrom}', async () => {
+    const perChromosome = sitesPath.replace('chr12', 'chr{chrom}');
+    expect(await getPopulationFrequency(parseGenomicVariant('12-25245350-C-T'), perChromosome)).toMatchObject({ alleleCount: 3 });
+  });
+
+  it('is unavailable without a readable sites file', async () => {
+    expect(await getPopulationFrequency(parseGenomicVariant('12-25245350-C-T'), undefined)).toMatchObject({
+      unavailable: true,
+      service: 'gnomad',
+    });
+
+    const error = console.error;
+    console.error = () => {};
+    try {
+      expect(await getPopulationFrequency(parseGenomicVariant('12-25245350-C-T'), '/nonexistent/sites.vcf.bgz')).toMatchObject({
+        unavailable: true,
+        reason: 'bad_response',
+      });
+    } finally {
+      console.error = error;
+    }
+  });
+});
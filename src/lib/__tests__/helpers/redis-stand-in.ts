@@ -0,0 +1,163 @@
+// Local stand-in for Redis: a RESP server over TCP holding sorted sets in memory.
+// Implements only the commands the rate-limit store sends, so the Redis store
+// can be tested over a real socket without a Redis server. EVAL runs the
+// store's hit script only, as the equivalent commands.
+
+import net from 'net';
+import { RespValue, parseReply } from '../../redis-client';
+import { HIT_SCRIPT } from '../../rate-limit-store';
+
+// Keys per SCAN reply, small so callers must follow the cursor
+const SCAN_PAGE = 2;
+
+type Reply = string | number | null | Reply[] | { error: string };
+
+function encodeReply(reply: Reply): string {
+  if (reply === null) return '$-1\r\n';
+  if (typeof reply === 'number') return `:${reply}\r\n`;
+  if (Array.isArray(reply)) return `*${reply.length}\r\n${reply.map(encodeReply).join('')}`;
+  if (typeof reply === 'object') return `-${reply.error}\r\n`;
+  return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+}
+
+function score(value: string): number {
+  if (value === '-inf') return -Infinity;
+  if (value === '+inf' || value === 'inf') return Infinity;
+  return Number(value);
+}
+
+export interface RedisStandIn {
+  url: string;
+  commands: string[][]; // Every command received, for assertions
+  close: () => Promise<void>;
+}
+
+export async function startRedisStandIn(): Promise<RedisStandIn> {
+  const sets = new Map<string, Map<string, number>>();
+  const expiries = new Map<string, number>();
+  const commands: string[][] = [];
+  const sockets = new Set<net.Socket>();
+
+  const live = (key: string) => {
+    const expiry = expiries.get(key);
+    if (expiry !== undefined && expiry <= Date.now()) {
+      sets.delete(key);
+      expiries.delete(key);
+    }
+    return sets.get(key);
+  };
+
+  const execute = ([name, ...args]: string[]): Reply => {
+    switch (name.toUpperCase()) {
+      case 'PING':
+        return 'PONG';
+      case 'AUTH':
+      case 'SELECT':
+        return 'OK';
+      case 'ZADD': {
+        const set = live(args[0]) ?? new Map<string, number>();
+        sets.set(args[0], set);
+        const added = set.has(args[2]) ? 0 : 1;
+        set.set(args[2], Number(args[1]));
+        return added;
+      }
+      case 'ZREM':
+        return live(args[0])?.delete(args[1]) ? 1 : 0;
+      case 'ZCARD':
+        return live(args[0])?.size ?? 0;
+      case 'ZREMRANGEBYSCORE': {
+        const set = live(args[0]);
+        let removed = 0;
+        for (const [member, value] of set ?? []) {
+          if (value >= score(args[1]) && value <= score(args[2])) {
+            set!.delete(member);
+            removed++;
+          }
+        }
+        return removed;
+      }
+      case 'ZRANGE': {
+        const sorted = [...(live(args[0]) ?? [])].sort((a, b) => a[1] - b[1]);
+        const stop = Number(args[2]) < 0 ? sorted.length + Number(args[2]) : Number(args[2]);
+        const range = sorted.slice(Number(args[1]), stop + 1);
+        return args[3]?.toUpperCase() === 'WITHSCORES'
+          ? range.flatMap(([member, value]) => [member, String(value)])
+          : range.map(([member]) => member);
+      }
+      case 'PEXPIRE':
+        if (!live(args[0])) return 0;
+        expiries.set(args[0], Date.now() + Number(args[1]));
+        return 1;
+      case 'EVAL': {
+        if (args[0] !== HIT_SCRIPT) return { error: 'ERR stand-in only runs the rate-limit hit script' };
+        const [key, now, windowMs, limit, member] = args.slice(2);
+        execute(['ZREMRANGEBYSCORE', key, '-inf', String(Number(now) - Number(windowMs))]);
+        let count = execute(['ZCARD', key]) as number;
+        const allowed = count < Number(limit) ? 1 : 0;
+        if (allowed) {
+          execute(['ZADD', key, now, member]);
+          execute(['PEXPIRE', key, windowMs]);
+          count++;
+        }
+        return [allowed, count, execute(['ZRANGE', key, '0', '0', 'WITHSCORES'])];
+      }
+      case 'SCAN': {
+        // The cursor is the last key returned, so deleting between pages skips nothing
+        const match = args.findIndex((arg) => arg.toUpperCase() === 'MATCH');
+        const prefix = (match >= 0 ? args[match + 1] : '*').replace(/\*$/, '').replace(/\\(.)/g, '$1');
+        const remaining = [...sets.keys()].sort().filter((key) => args[0] === '0' || key > args[0]);
+        const page = remaining.slice(0, SCAN_PAGE);
+        const next = remaining.length > SCAN_PAGE ? page[page.length - 1] : '0';
+        return [next, page.filter((key) => key.startsWith(prefix) && live(key))];
+      }
+      case 'DEL':
+        return args.filter((key) => sets.delete(key)).length;
+      default:
+        return { error: `ERR unknown command '${name}'` };
+    }
+  };
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    let buffer = Buffer.alloc(0);
+    let queued: string[][] | null = null;
+
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed: ReturnType<typeof parseReply>;
+      while (buffer.length > 0 && (parsed = parseReply(buffer))) {
+        buffer = buffer.subarray(parsed.next);
+        const command = (parsed.value as RespValue[]).map(String);
+        commands.push(command);
+        const name = command[0].toUpperCase();
+
+        if (name === 'MULTI') {
+          queued = [];
+          socket.write(encodeReply('OK'));
+        } else if (name === 'EXEC') {
+          const replies = (queued ?? []).map(execute);
+          queued = null;
+          socket.write(encodeReply(replies));
+        } else if (queued) {
+          queued.push(command);
+          socket.write(encodeReply('QUEUED'));
+        } else {
+          socket.write(encodeReply(execute(command)));
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    commands,
+    close: () => new Promise<void>((resolve) => {
+      sockets.forEach((socket) => socket.destroy());
+      server.close(() => resolve());
+    }),
+  };
+}
@@ -0,0 +1,125 @@
+// Writes small bgzip-compressed, tabix-indexed files for tests (VCFs, and
+// generic tables indexed as `tabix -s1 -b2 -e2`), in the layout bgzip/tabix
+// produce, so the reader is exercised on real BGZF blocks and bins.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function bgzfBlock(data: Buffer): Buffer {
+  const compressed = zlib.deflateRawSync(data);
+  const header = Buffer.from([31, 139, 8, 4, 0, 0, 0, 0, 0, 255, 6, 0, 66, 67, 2, 0, 0, 0]);
+  const trailer = Buffer.alloc(8);
+  trailer.writeUInt32LE(crc32(data), 0);
+  trailer.writeUInt32LE(data.length, 4);
+  header.writeUInt16LE(header.length + compressed.length + trailer.length - 1, 16);
+  return Buffer.concat([header, compressed, trailer]);
+}
+
+function regionToBin(begin: number, end: number): number {
+  const last = end - 1;
+  if (begin >> 14 === last >> 14) return 4681 + (begin >> 14);
+  if (begin >> 17 === last >> 17) return 585 + (begin >> 17);
+  if (begin >> 20 === last >> 20) return 73 + (begin >> 20);
+  if (begin >> 23 === last >> 23) return 9 + (begin >> 23);
+  if (begin >> 26 === last >> 26) return 1 + (begin >> 26);
+  return 0;
+}
+
+const VCF = { format: 2, endColumn: 0, extent: (fields: string[]) => [Number(fields[1]) - 1, Number(fields[1]) - 1 + fields[3].length] };
+const TABLE = { format: 0, endColumn: 2, extent: (fields: string[]) => [Number(fields[1]) - 1, Number(fields[1])] };
+
+/**
+ * Write `lines` (headers first, records sorted) as <dir>/<name> plus .tbi,
+ * `recordsPerBlock` records to a BGZF block. Returns the file path.
+ */
+export function writeTabixVcf(lines: string[], { name = 'sites.vcf.bgz', recordsPerBlock = 2 } = {}): string {
+  return writeTabix(lines, name, recordsPerBlock, VCF);
+}
+
+/**
+ * Same for a table whose first column is the sequence and second the position.
+ */
+export function writeTabixTable(lines: string[], { name = 'table.tsv.bgz', recordsPerBlock = 2 } = {}): string {
+  return writeTabix(lines, name, recordsPerBlock, TABLE);
+}
+
+function writeTabix(lines: string[], name: string, recordsPerBlock: number, layout: typeof VCF): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tabix-'));
+  const headers = lines.filter((line) => line.startsWith('#'));
+  const records = lines.filter((line) => !line.startsWith('#'));
+
+  const blocks: Buffer[] = [bgzfBlock(Buffer.from(headers.map((line) => `${line}\n`).join('')))];
+  let compressedOffset = blocks[0].length;
+  const names: string[] = [];
+  const sequences = new Map<string, { bins: Map<number, Array<[bigint, bigint]>>; linear: bigint[] }>();
+
+  for (let i = 0; i < records.length; i += recordsPerBlock) {
+    let uncompressed = 0;
+    const text = records.slice(i, i + recordsPerBlock).map((line) => {
+      const fields = line.split('\t');
+      const chrom = fields[0];
+      const [begin, end] = layout.extent(fields);
+      const virtualBegin = (BigInt(compressedOffset) << 16n) | BigInt(uncompressed);
+      uncompressed += Buffer.byteLength(line) + 1;
+      const virtualEnd = (BigInt(compressedOffset) << 16n) | BigInt(uncompressed);
+
+      if (!sequences.has(chrom)) {
+        names.push(chrom);
+        sequences.set(chrom, { bins: new Map(), linear: [] });
+      }
+      const sequence = sequences.get(chrom)!;
+      const bin = regionToBin(begin, end);
+      const chunks = sequence.bins.get(bin) ?? [];
+      const previous = chunks[chunks.length - 1];
+      if (previous && previous[1] === virtualBegin) previous[1] = virtualEnd;
+      else chunks.push([virtualBegin, virtualEnd]);
+      sequence.bins.set(bin, chunks);
+      for (let window = begin >> 14; window <= (end - 1) >> 14; window++) {
+        if (sequence.linear[window] === undefined) sequence.linear[window] = virtualBegin;
+      }
+      return `${line}\n`;
+    }).join('');
+    const block = bgzfBlock(Buffer.from(text));
+    blocks.push(block);
+    compressedOffset += block.length;
+  }
+  blocks.push(bgzfBlock(Buffer.alloc(0))); // End-of-file marker
+
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, Buffer.concat(blocks));
+
+  const int32 = (value: number) => { const b = Buffer.alloc(4); b.writeInt32LE(value); return b; };
+  const uint64 = (value: bigint) => { const b = Buffer.alloc(8); b.writeBigUInt64LE(value); return b; };
+  const nameBytes = Buffer.from(names.map((n) => `${n}\0`).join(''), 'latin1');
+  const index: Buffer[] = [
+    Buffer.from('TBI\u0001', 'latin1'),
+    int32(names.length), int32(layout.format), int32(1), int32(2), int32(layout.endColumn), int32('#'.charCodeAt(0)), int32(0),
+    int32(nameBytes.length), nameBytes,
+  ];
+  for (const chrom of names) {
+    const { bins, linear } = sequences.get(chrom)!;
+    index.push(int32(bins.size));
+    for (const [bin, chunks] of bins) {
+      index.push(int32(bin), int32(chunks.length), ...chunks.flatMap(([b, e]) => [uint64(b), uint64(e)]));
+    }
+    // Windows without records take the offset before them
+    const filled = Array.from(linear, (offset, w) => offset ?? linear.slice(0, w).reverse().find((o) => o !== undefined) ?? 0n);
+    index.push(int32(filled.length), ...filled.map(uint64));
+  }
+  fs.writeFileSync(`${filePath}.tbi`, Buffer.concat([bgzfBlock(Buffer.concat(index)), bgzfBlock(Buffer.alloc(0))]));
+  return filePath;
+}
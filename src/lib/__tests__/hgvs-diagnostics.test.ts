@@ -0,0 +1,79 @@
+import { describe, it, expect } from '@jest/globals';
+import { diagnoseVariantInput, diagnoseReferenceMismatch, editDistance } from '../hgvs-diagnostics';
+import { parseHGVS } from '../variant';
+
+describe('HGVS input diagnostics', () => {
+  it('counts adjacent transpositions as one edit', () => {
+    expect(editDistance('TP35', 'TP53')).toBe(1);
+    expect(editDistance('BRAF', 'BRCA1')).toBe(2);
+  });
+
+  it.each([
+    ['TP53p.R175H', 'MISSING_COLON', { start: 4, end: 4 }],
+    ['TP53 p.R175H', 'MISSING_COLON', { start: 4, end: 5 }],
+    ['TP53:pR175H', 'MISSING_P_DOT', { start: 5, end: 6 }],
+    ['TP53:p.Arg175>His', 'NUCLEOTIDE_ARROW', { start: 13, end: 14 }],
+    ['TP53:p.175R>H', 'POSITION_FIRST', { start: 7, end: 13 }],
+  ])('diagnoses %s as %s and suggests TP53:p.R175H', (input, code, span) => {
+    const diagnostics = diagnoseVariantInput(input);
+    expect(diagnostics.valid).toBe(false);
+    expect(diagnostics.issues[0]).toMatchObject({ code, severity: 'error', span });
+    expect(diagnostics.suggestions[0]).toMatchObject({ hgvs: 'TP53:p.R175H', fixes: [code] });
+  });
+
+  it('ranks amino acid corrections sharing the first letter higher', () => {
+    const diagnostics = diagnoseVariantInput('TP53:p.Arg175Hys');
+    expect(diagnostics.issues[0]).toMatchObject({ code: 'INVALID_AMINO_ACID', span: { start: 13, end: 16 } });
+    expect(diagnostics.suggestions.map((s) => s.hgvs)).toEqual(['TP53:p.R175H', 'TP53:p.R175C', 'TP53:p.R175K']);
+  });
+
+  it('chains fixes and keeps transcript-prefixed input as rewritten', () => {
+    expect(diagnoseVariantInput('tp35p.r175h', { geneUnresolved: true }).suggestions.map((s) => s.hgvs)).toContain(
+      'TP53:p.R175H'
+    );
+    expect(diagnoseVariantInput('NM_000546.6(TP53)p.R175H').suggestions[0].hgvs).toBe('NM_000546.6(TP53):p.R175H');
+  });
+
+  it('suggests registry genes for an unresolved symbol', () => {
+    const diagnostics = diagnoseVariantInput('TP35:p.R175H', { geneUnresolved: true });
+    expect(diagnostics.issues).toEqual([
+      {
+        code: 'UNKNOWN_GENE',
+        severity: 'error',
+        message: 'TP35 is not a known gene symbol; did you mean TP53?',
+        span: { start: 0, end: 4 },
+      },
+    ]);
+    expect(diagnostics.suggestions).toEqual([{ hgvs: 'TP53:p.R175H', fixes: ['UNKNOWN_GENE'], score: 0.9 }]);
+    // Without confirmation from UniProt an unregistered symbol is not second-guessed
+    expect(diagnoseVariantInput('TP35:p.R175H').issues).toEqual([]);
+  });
+
+  it('warns about X and lowercase codes on input that parses', () => {
+    const stop = diagnoseVariantInput('TP53:p.G542X');
+    expect(stop.valid).toBe(true);
+    expect(stop.issues).toMatchObject([{ code: 'AMBIGUOUS_X', severity: 'warning', span: { start: 11, end: 12 } }]);
+    expect(stop.suggestions[0].hgvs).toBe('TP53:p.G542Ter');
+
+    expect(diagnoseVariantInput('TP53:p.r175h').issues).toMatchObject([{ code: 'LOWERCASE_CODES' }]);
+    expect(diagnoseVariantInput('TP53:p.R175H')).toMatchObject({ valid: true, issues: [], suggestions: [] });
+  });
+
+  it('reports missing pieces without guessing', () => {
+    expect(diagnoseVariantInput('TP53:p.R175')).toMatchObject({ issues: [{ code: 'MISSING_ALT' }], suggestions: [] });
+    expect(diagnoseVariantInput('p.R175H')).toMatchObject({ valid: true, issues: [{ code: 'MISSING_GENE' }], suggestions: [] });
+    expect(diagnoseVariantInput('garbage').issues).toMatchObject([{ code: 'UNPARSEABLE', span: null }]);
+  });
+
+  it('turns a reference mismatch into swapped, nearby and isoform suggestions', () => {
+    const diagnostics = diagnoseReferenceMismatch('TP53:p.H175R', parseHGVS('TP53:p.H175R'), {
+      error: true,
+      code: 'REF_MISMATCH',
+      message: 'Reference mismatch at residue 175 of TP53: canonical sequence has Arg (R), input states His (H)',
+      details: { providedPosition: 175, statedRef: 'H', actualRef: 'R', nearbyPositions: [179], matchingIsoforms: ['P04637-2'] },
+    });
+    expect(diagnostics.issues.map((i) => i.code)).toEqual(['SWAPPED_REF_ALT', 'REF_ELSEWHERE']);
+    expect(diagnostics.issues[0].span).toEqual({ start: 7, end: 12 });
+    expect(diagnostics.suggestions.map((s) => s.hgvs)).toEqual(['TP53:p.R175H', 'TP53:p.H179R', 'P04637-2:p.H175R']);
+  });
+});
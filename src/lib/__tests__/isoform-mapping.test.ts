@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import { findIsoformMapping, resolveIsoformPosition } from '../isoform-mapping';
+
+describe('Transcript isoform mapping', () => {
+  it('finds transcripts with or without a matching version', () => {
+    expect(findIsoformMapping('NM_001126115.2')?.isoform).toBe('P04637-7');
+    expect(findIsoformMapping('nm_001126115.1')?.isoform).toBe('P04637-7');
+    expect(findIsoformMapping('NM_999999.1')).toBeNull();
+  });
+
+  it('keeps canonical transcripts on canonical numbering', () => {
+    expect(resolveIsoformPosition('NM_000546.6', 175)).toEqual({
+      transcript: 'NM_000546.6',
+      isoform: 'P04637-1',
+      strategy: 'canonical',
+      uniprotId: 'P04637',
+      offset: 0,
+      start: 175,
+      end: 175,
+    });
+  });
+
+  it('renumbers N-terminally truncated isoforms onto the canonical sequence', () => {
+    // Delta133p53 starts at canonical Met133
+    expect(resolveIsoformPosition('NM_001126115.2', 43, 44)).toMatchObject({
+      strategy: 'renumbered',
+      uniprotId: 'P04637',
+      offset: 132,
+      start: 175,
+      end: 176,
+    });
+  });
+
+  it('evaluates isoform-specific residues on the isoform entry', () => {
+    // p53beta diverges from the canonical sequence after residue 331
+    expect(resolveIsoformPosition('NM_001126114.3', 335)).toMatchObject({
+      strategy: 'isoform',
+      uniprotId: 'P04637-2',
+      offset: 0,
+      start: 335,
+    });
+    // p14ARF is a separate UniProt entry read from an alternate frame
+    expect(resolveIsoformPosition('NM_058195.4', 50)).toMatchObject({
+      strategy: 'isoform',
+      uniprotId: 'Q8N726',
+    });
+  });
+
+  it('ignores missing or unknown transcripts', () => {
+    expect(resolveIsoformPosition(undefined, 12)).toBeNull();
+    expect(resolveIsoformPosition('NM_999999.1', 12)).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, jest, beforeAll } from '@jest/globals';
+import { insertJob, markItemRunning, getJobRecord, listJobItems } from '../job-store';
+import { createJob, cancelJob, resumeInterruptedJobs, waitForJob, JOB_ITEM_CONCURRENCY } from '../job-queue';
+import { getRecentAuditEntries } from '../audit-logger';
+import { mockFetch } from './mocks/external-apis';
+
+// BRAF NM_004333.6 with only codon 600 (GTG, Val) real; not in the bundled snapshot
+const BRAF_CDS = 'ATG' + 'GCT'.repeat(598) + 'GTG' + 'GCT'.repeat(166) + 'TGA';
+const BRAF_FASTA = `>lcl|NM_004333.6_cds_NP_004324.2_1 [gene=BRAF] [protein_id=NP_004324.2]\n${BRAF_CDS}`;
+
+describe('Job queue', () => {
+  beforeAll(() => {
+    mockFetch();
+  });
+
+  it('resumes rows a stopped process left running', async () => {
+    insertJob('interrupted', [
+      { index: 0, input: 'TP53:p.R175H', key: 'TP53:p.R175H', status: 'pending' },
+      { index: 1, input: 'TP53:p.Arg175His', key: 'TP53:p.R175H', status: 'pending', duplicateOf: 0 },
+      { index: 2, input: 'BRCA1:p.C61G', key: 'BRCA1:p.C61G', status: 'pending' },
+    ], { ip: '10.0.0.7', apiKeyId: 'key-7' });
+    // Simulates a crash after row 0 started
+    markItemRunning('interrupted', 0);
+
+    expect(resumeInterruptedJobs()).toContain('interrupted');
+    await waitForJob('interrupted');
+
+    expect(getJobRecord('interrupted')?.status).toBe('completed');
+    expect(listJobItems('interrupted', 0, 10).map((item) => item.status)).toEqual(['success', 'success', 'success']);
+    // Resumed rows are still attributed to the job's submitter
+    const resumed = getRecentAuditEntries(2);
+    expect(resumed.map((entry) => [entry.ip, entry.apiKeyId])).toEqual([['10.0.0.7', 'key-7'], ['10.0.0.7', 'key-7']]);
+  });
+
+  it('cancels rows that have not started and lets running rows finish', async () => {
+    const variants = Array.from({ length: JOB_ITEM_CONCURRENCY + 4 }, (_, i) => `TP53:p.R${170 + i}H`);
+    const { jobId } = (await createJob(variants))!;
+
+    // The first JOB_ITEM_CONCURRENCY rows started synchronously
+    const cancelled = cancelJob(jobId);
+    expect(cancelled?.status).toBe('cancelled');
+    expect(cancelled?.summary.cancelled).toBe(4);
+
+    await waitForJob(jobId);
+    const job = getJobRecord(jobId);
+    expect(job?.status).toBe('cancelled');
+    expect(listJobItems(jobId, 0, 20).filter((item) => item.status === 'running')).toEqual([]);
+  });
+
+  it('leaves reference sequences to the worker instead of fetching them before returning', async () => {
+    const mockedFetch = global.fetch;
+    let releaseNcbi: () => void = () => {};
+    const ncbiAnswered = new Promise<void>((resolve) => { releaseNcbi = resolve; });
+    const ncbiUrls: string[] = [];
+    global.fetch = jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = input.toString();
+      if (!url.includes('db=nuccore')) return mockedFetch(input, init);
+      ncbiUrls.push(url);
+      await ncbiAnswered;
+      return { ok: true, status: 200, text: async () => BRAF_FASTA } as Response;
+    }) as typeof fetch;
+
+    try {
+      const started = (await createJob(['NM_004333.6:c.1799T>A', 'NM_004333.6:c.1799T>A', 'TP53:p.R175H']))!;
+      // Returned while NCBI is still pending; identical text is the only deduplication possible yet
+      expect(started.status).toBe('running');
+      expect(started.summary).toMatchObject({ unique: 2, duplicates: 1, invalid: 0 });
+      expect(started.items.map((item) => [item.key, item.duplicateOf])).toEqual([
+        [undefined, undefined],
+        [undefined, 0],
+        ['TP53:p.R175H', undefined],
+      ]);
+
+      releaseNcbi();
+      await waitForJob(started.jobId);
+      const [braf, duplicate] = listJobItems(started.jobId, 0, 3);
+      expect(ncbiUrls).toHaveLength(1);
+      // The worker translated the row once its reference arrived (the mocked UniProt entry is TP53's)
+      expect(braf.key).toBe('NM_004333.6 BRAF:p.V600E');
+      expect(braf.error?.code).not.toBe('UPSTREAM_UNAVAILABLE');
+      expect(duplicate.status).toBe(braf.status);
+    } finally {
+      global.fetch = mockedFetch;
+    }
+  });
+});
@@ -66,6 +66,13 @@ export const mockFetch = () => {
             json: async () => FIXTURES.PUBMED.SUMMARY
         } as Response;
     }
+    // ClinVar VCV XML: no archived record
+    if (url.includes('efetch.fcgi') && url.includes('db=clinvar')) {
+        return {
+            ok: true,
+            text: async () => '<ClinVarResult-Set></ClinVarResult-Set>'
+        } as Response;
+    }
 
     // EBI SIFTS API
     if (url.includes('pdbe/api/mappings/')) {
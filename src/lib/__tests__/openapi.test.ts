@@ -0,0 +1,102 @@
+import { describe, it, expect } from '@jest/globals';
+import { z } from 'zod';
+import { buildOpenApiDocument, toJsonSchema } from '../openapi';
+import { checkContract } from '../api-contract';
+import {
+  HonestAPIResponseSchema,
+  VariantStreamEventSchema,
+  JobRequestSchema,
+} from '../types/api-schemas';
+
+function collectRefs(value: unknown, refs: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) value.forEach((item) => collectRefs(item, refs));
+  else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === '$ref' && typeof child === 'string') refs.add(child);
+      else collectRefs(child, refs);
+    }
+  }
+  return refs;
+}
+
+describe('OpenAPI document', () => {
+  const doc = buildOpenApiDocument() as any;
+
+  it('resolves every $ref to a component schema', () => {
+    const names = new Set(Object.keys(doc.components.schemas));
+    const missing = [...collectRefs(doc)]
+      .map((ref) => ref.replace('#/components/schemas/', ''))
+      .filter((name) => !names.has(name));
+
+    expect(missing).toEqual([]);
+  });
+
+  it('emits named schemas as components and references them elsewhere', () => {
+    const report = doc.components.schemas.HonestAPIResponse;
+
+    expect(report.required).toEqual(expect.arrayContaining(['variant', 'coverage', 'unknowns', 'curatedInfo']));
+    expect(report.required).not.toContain('timings');
+    expect(report.properties.curatedInfo).toEqual({ $ref: '#/components/schemas/CuratedProteinInfo' });
+  });
+
+  it('documents the error shapes of POST /api/variant', () => {
+    const responses = doc.paths['/api/variant'].post.responses;
+
+    expect(Object.keys(responses)).toEqual(expect.arrayContaining(['200', '400', '404', '429', '500', '503']));
+    for (const status of ['400', '404', '429', '500', '503']) {
+      expect(collectRefs(responses[status])).toEqual(new Set(['#/components/schemas/ApiError']));
+    }
+    expect(responses[400].description).toContain('REF_MISMATCH');
+  });
+});
+
+describe('toJsonSchema', () => {
+  it('converts nullable, optional, integer and literal fields', () => {
+    const schema = z.object({
+      id: z.number().int().min(0),
+      note: z.string().nullable(),
+      kind: z.literal('x'),
+      extra: z.boolean().optional(),
+    });
+
+    expect(toJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'integer', minimum: 0 },
+        note: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+        kind: { const: 'x' },
+        extra: { type: 'boolean' },
+      },
+      required: ['id', 'note', 'kind'],
+    });
+  });
+
+  it('refuses constructs it cannot represent', () => {
+    expect(() => toJsonSchema(z.date())).toThrow('ZodDate');
+  });
+});
+
+describe('API contract', () => {
+  it('reports where a payload breaks its schema', () => {
+    const original = console.error;
+    console.error = () => {};
+    const issues = checkContract(HonestAPIResponseSchema, { variant: { hgvs: 'TP53:p.R175H' } }, 'test');
+    console.error = original;
+
+    expect(issues.map((issue) => issue.path)).toEqual(expect.arrayContaining(['variant.gene', 'coverage', 'curatedInfo']));
+  });
+
+  it('accepts stream events by type', () => {
+    const event = { type: 'unknowns', index: 0, unknowns: { items: [], severity: 'minor' } };
+
+    expect(VariantStreamEventSchema.safeParse(event).success).toBe(true);
+    expect(VariantStreamEventSchema.safeParse({ ...event, type: 'clinical' }).success).toBe(false);
+  });
+
+  it('limits job size in the request schema', () => {
+    const result = JobRequestSchema.safeParse({ variants: Array(5001).fill('TP53:p.R175H') });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toContain('maximum 5000');
+  });
+});
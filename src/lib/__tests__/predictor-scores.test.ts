@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { configuredPredictorTables, getPredictorScores, PREDICTOR_TOOLS } from '../predictor-scores';
+import { writeTabixTable } from './helpers/tabix-fixture';
+
+const HEADER = ['##tool=REVEL', '##version=v1.3', '#uniprot_id\tposition\tprotein_variant\tscore'];
+
+let revelPath: string;
+let alphaMissensePath: string;
+
+beforeAll(() => {
+  revelPath = writeTabixTable([
+    ...HEADER,
+    'P04637\t72\tP72R\t0.002',
+    'P04637\t175\tR175C\t0.912',
+    'P04637\t175\tR175H\t0.957',
+    'P04637\t248\tR248Q\t0.93',
+    'P38398\t1699\tR1699W\t0.95',
+  ], { name: 'revel.tsv.bgz' });
+
+  alphaMissensePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'predictors-')), 'alphamissense.tsv');
+  fs.writeFileSync(alphaMissensePath, [
+    '##tool=AlphaMissense',
+    '##version=2023-09 (hg38)',
+    '#uniprot_id\tposition\tprotein_variant\tscore',
+    'P04637\t175\tR175H\t0.9887',
+    'P04637\t72\tP72R\t0.0823',
+  ].join('\n'));
+});
+
+afterAll(() => {
+  fs.rmSync(path.dirname(revelPath), { recursive: true, force: true });
+  fs.rmSync(path.dirname(alphaMissensePath), { recursive: true, force: true });
+});
+
+describe('Predictor calibrations', () => {
+  it('places scores in each tool\'s published categories', () => {
+    expect([0.2, 0.34, 0.564, 0.9].map(PREDICTOR_TOOLS.alphamissense.categorize))
+      .toEqual(['likely_benign', 'ambiguous', 'ambiguous', 'likely_pathogenic']);
+    expect([0.95, 0.8, 0.65, 0.5, 0.29, 0.1, 0.01, 0.001].map(PREDICTOR_TOOLS.revel.categorize))
+      .toEqual(['PP3_strong', 'PP3_moderate', 'PP3_supporting', 'indeterminate', 'BP4_supporting', 'BP4_moderate', 'BP4_strong', 'BP4_very_strong']);
+    expect([30, 26, 24, 20, 10].map(PREDICTOR_TOOLS.cadd.categorize))
+      .toEqual(['PP3_moderate', 'PP3_supporting', 'indeterminate', 'BP4_supporting', 'BP4_moderate']);
+  });
+});
+
+describe('configuredPredictorTables', () => {
+  it('reads tool=path pairs and ignores unknown tools', () => {
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      expect(configuredPredictorTables('revel=/data/revel.tsv.bgz, SIFT=/data/sift.tsv,AlphaMissense=/data/am.tsv').map(
+        ({ tool, path: tablePath }) => `${tool.id}:${tablePath}`
+      )).toEqual(['revel:/data/revel.tsv.bgz', 'alphamissense:/data/am.tsv']);
+    } finally {
+      console.warn = warn;
+    }
+    expect(configuredPredictorTables(undefined)).toEqual([]);
+  });
+});
+
+describe('getPredictorScores', () => {
+  const tables = () => configuredPredictorTables(`alphamissense=${alphaMissensePath},revel=${revelPath}`);
+
+  it('reads tabix-indexed and plain tables, with each table\'s version', async () => {
+    expect(await getPredictorScores('P04637', 175, 'R175H', tables())).toEqual({
+      scores: [
+        {
+          id: 'alphamissense',
+          tool: 'AlphaMissense',
+          version: '2023-09 (hg38)',
+          score: 0.9887,
+          category: 'likely_pathogenic',
+          calibration: 'AlphaMissense classes (Cheng et al. 2023)',
+        },
+        {
+          id: 'revel',
+          tool: 'REVEL',
+          version: 'v1.3',
+          score: 0.957,
+          category: 'PP3_strong',
+          calibration: 'ClinGen SVI PP3/BP4 calibration (Pejaver et al. 2022)',
+        },
+      ],
+      missing: [],
+      unreadable: [],
+    });
+  });
+
+  it('lists tools without a score for the substitution as missing', async () => {
+    expect(await getPredictorScores('P04637', 248, 'R248Q', tables())).toMatchObject({
+      scores: [{ tool: 'REVEL', score: 0.93 }],
+      missing: ['AlphaMissense'],
+    });
+    expect(await getPredictorScores('Q00000', 1, 'M1V', tables())).toMatchObject({
+      scores: [],
+      missing: ['AlphaMissense', 'REVEL'],
+    });
+  });
+
+  it('keeps an unreadable table apart from a missing score', async () => {
+    const error = console.error;
+    console.error = () => {};
+    try {
+      const result = await getPredictorScores('P04637', 175, 'R175H',
+        configuredPredictorTables(`revel=${revelPath},cadd=/nonexistent/cadd.tsv.bgz`));
+      expect(result).toMatchObject({ scores: [{ tool: 'REVEL' }], missing: [], unreadable: ['CADD'] });
+    } finally {
+      console.error = error;
+    }
+  });
+
+  it('is unavailable when no table is configured', async () => {
+    expect(await getPredictorScores('P04637', 175, 'R175H', [])).toMatchObject({
+      unavailable: true,
+      service: 'predictors',
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import {
+  MemoryRateLimitStore,
+  RateLimitStore,
+  RedisRateLimitStore,
+  SqliteRateLimitStore,
+  createRateLimitStore,
+  HIT_SCRIPT,
+} from '../rate-limit-store';
+import { RedisClient } from '../redis-client';
+import { startRedisStandIn, RedisStandIn } from './helpers/redis-stand-in';
+
+let standIn: RedisStandIn;
+let client: RedisClient;
+
+beforeAll(async () => {
+  standIn = await startRedisStandIn();
+  client = new RedisClient(standIn.url);
+});
+
+afterAll(async () => {
+  client.close();
+  await standIn.close();
+});
+
+const stores: Array<[string, () => RateLimitStore]> = [
+  ['memory', () => new MemoryRateLimitStore()],
+  ['sqlite', () => new SqliteRateLimitStore()],
+  ['redis', () => new RedisRateLimitStore(client)],
+];
+
+describe.each(stores)('%s rate-limit store', (name, create) => {
+  const WINDOW = 60000;
+  const T = 1_700_000_000_000;
+  let store: RateLimitStore;
+
+  beforeAll(() => {
+    store = create();
+  });
+
+  it('admits up to the limit within a window', async () => {
+    const key = `${name}:limit`;
+    expect(await store.hit(key, T, WINDOW, 2)).toEqual({ allowed: true, count: 1, oldest: T });
+    expect(await store.hit(key, T + 1000, WINDOW, 2)).toEqual({ allowed: true, count: 2, oldest: T });
+    expect(await store.hit(key, T + 2000, WINDOW, 2)).toEqual({ allowed: false, count: 2, oldest: T });
+    expect(await store.peek(key, T + 2000, WINDOW)).toEqual({ count: 2, oldest: T });
+  });
+
+  it('frees a slot as each hit leaves the window', async () => {
+    const key = `${name}:slide`;
+    await store.hit(key, T, WINDOW, 2);
+    await store.hit(key, T + 30000, WINDOW, 2);
+
+    expect((await store.hit(key, T + WINDOW - 1, WINDOW, 2)).allowed).toBe(false);
+    expect(await store.hit(key, T + WINDOW, WINDOW, 2)).toEqual({ allowed: true, count: 2, oldest: T + 30000 });
+  });
+
+  it('keeps keys apart and resets by prefix', async () => {
+    await store.hit(`${name}:a:1`, T, WINDOW, 5);
+    await store.hit(`${name}:b:1`, T, WINDOW, 5);
+
+    await store.reset(`${name}:a:`);
+    expect(await store.peek(`${name}:a:1`, T, WINDOW)).toEqual({ count: 0, oldest: null });
+    expect(await store.peek(`${name}:b:1`, T, WINDOW)).toEqual({ count: 1, oldest: T });
+  });
+
+  it('drops expired hits on cleanup', async () => {
+    const key = `${name}:cleanup`;
+    await store.hit(key, T, WINDOW, 5);
+    await store.cleanup(T + WINDOW + 1);
+    expect(await store.peek(key, T + WINDOW + 1, WINDOW)).toEqual({ count: 0, oldest: null });
+  });
+});
+
+describe('Redis rate-limit store', () => {
+  it('counts and logs a hit in one script call', async () => {
+    const store = new RedisRateLimitStore(client, 'test:');
+    standIn.commands.length = 0;
+    await store.hit('tx', 1000, 60000, 5);
+
+    expect(standIn.commands).toEqual([['EVAL', HIT_SCRIPT, '1', 'test:tx', '1000', '60000', '5', expect.any(String)]]);
+  });
+
+  it('admits exactly the limit when hits arrive together', async () => {
+    const store = new RedisRateLimitStore(client, 'test:');
+    const decisions = await Promise.all(Array.from({ length: 6 }, () => store.hit('burst', 1000, 60000, 4)));
+
+    expect(decisions.filter((d) => d.allowed)).toHaveLength(4);
+    expect(await store.peek('burst', 1000, 60000)).toEqual({ count: 4, oldest: 1000 });
+  });
+
+  it('resets by walking SCAN pages rather than KEYS', async () => {
+    const store = new RedisRateLimitStore(client, 'scan:');
+    for (const key of ['a:1', 'a:2', 'a:3', 'a:4', 'a:5', 'b:1']) await store.hit(key, 1000, 60000, 5);
+    standIn.commands.length = 0;
+
+    await store.reset('a:');
+
+    const names = standIn.commands.map(([command]) => command);
+    expect(names).not.toContain('KEYS');
+    expect(names.filter((name) => name === 'SCAN').length).toBeGreaterThan(1);
+    expect((await store.peek('a:5', 1000, 60000)).count).toBe(0);
+    expect((await store.peek('b:1', 1000, 60000)).count).toBe(1);
+  });
+
+  it('rejects when the server is unreachable', async () => {
+    const unreachable = new RedisClient('redis://127.0.0.1:1', { timeoutMs: 500 });
+    const store = new RedisRateLimitStore(unreachable);
+    await expect(store.hit('down', 1000, 60000, 5)).rejects.toThrow();
+    unreachable.close();
+  });
+});
+
+describe('createRateLimitStore', () => {
+  it('picks the store RATE_LIMIT_STORE names', () => {
+    expect(createRateLimitStore({})).toBeInstanceOf(MemoryRateLimitStore);
+    expect(createRateLimitStore({ RATE_LIMIT_STORE: 'sqlite' })).toBeInstanceOf(SqliteRateLimitStore);
+
+    const redis = createRateLimitStore({ RATE_LIMIT_STORE: 'redis', REDIS_URL: standIn.url });
+    expect(redis).toBeInstanceOf(RedisRateLimitStore);
+  });
+
+  it('falls back to memory when Redis is chosen without REDIS_URL', () => {
+    const error = console.error;
+    console.error = () => {};
+    try {
+      expect(createRateLimitStore({ RATE_LIMIT_STORE: 'redis' })).toBeInstanceOf(MemoryRateLimitStore);
+    } finally {
+      console.error = error;
+    }
+  });
+});
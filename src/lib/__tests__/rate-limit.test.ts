@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach, beforeAll, afterAll } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from '@jest/globals';
 import { RateLimiter } from '../rate-limit';
+import { RateLimitStore } from '../rate-limit-store';
 
 // Use fake timers for predictable time advancement
 beforeAll(() => {
@@ -17,6 +18,10 @@ describe('Rate Limiting', () => {
     limiter = new RateLimiter({ windowMs: 60000, maxRequests: 10 });
   });
 
+  afterEach(() => {
+    limiter.stop();
+  });
+
   it('allows requests under limit', async () => {
     for (let i = 0; i < 10; i++) {
       expect(await limiter.check('ip1')).toBe(true);
@@ -44,4 +49,67 @@ describe('Rate Limiting', () => {
     for (let i = 0; i < 10; i++) await limiter.check('ip1');
     expect(await limiter.check('ip2')).toBe(true);
   });
+
+  it('applies a per-identifier limit and reports what is left', async () => {
+    await limiter.check('key:a', 3);
+    await limiter.check('key:a', 3);
+
+    expect(await limiter.getState('key:a', 3)).toEqual({ limit: 3, remaining: 1, resetSeconds: 60 });
+    await limiter.check('key:a', 3);
+    expect(await limiter.check('key:a', 3)).toBe(false);
+    expect(await limiter.getState('ip9')).toEqual({ limit: 10, remaining: 10, resetSeconds: 60 });
+  });
+
+  it('slides the window instead of resetting it all at once', async () => {
+    for (let i = 0; i < 5; i++) await limiter.check('ip1');
+    jest.advanceTimersByTime(30000);
+    for (let i = 0; i < 5; i++) await limiter.check('ip1');
+
+    // The first five leave the window 60s after they were made, not at a fixed boundary
+    jest.advanceTimersByTime(20000);
+    expect(await limiter.consume('ip1')).toEqual({ allowed: false, limit: 10, remaining: 0, resetSeconds: 10, retryAfter: 10 });
+    jest.advanceTimersByTime(10001);
+    expect(await limiter.consume('ip1')).toMatchObject({ allowed: true, remaining: 4 });
+  });
+
+  it('does not count refused requests against the window', async () => {
+    for (let i = 0; i < 10; i++) await limiter.check('ip1');
+    for (let i = 0; i < 5; i++) expect(await limiter.check('ip1')).toBe(false);
+    jest.advanceTimersByTime(60001);
+    expect(await limiter.getState('ip1')).toEqual({ limit: 10, remaining: 10, resetSeconds: 60 });
+  });
+
+  it('lets requests through when the store fails', async () => {
+    const broken: RateLimitStore = {
+      hit: async () => { throw new Error('connection refused'); },
+      peek: async () => ({ count: 0, oldest: null }),
+      cleanup: async () => {},
+      reset: async () => {},
+    };
+    const failOpen = new RateLimiter({ windowMs: 60000, maxRequests: 1, store: broken });
+    const error = console.error;
+    console.error = () => {};
+    try {
+      expect(await failOpen.check('ip1')).toBe(true);
+      expect(await failOpen.check('ip1')).toBe(true);
+    } finally {
+      console.error = error;
+      failOpen.stop();
+    }
+  });
+
+  it('prunes idle keys on a schedule', async () => {
+    let cleanups = 0;
+    const store: RateLimitStore = {
+      hit: async () => ({ allowed: true, count: 1, oldest: Date.now() }),
+      peek: async () => ({ count: 0, oldest: null }),
+      cleanup: async () => { cleanups++; },
+      reset: async () => {},
+    };
+    const scheduled = new RateLimiter({ windowMs: 60000, maxRequests: 10, store });
+    jest.advanceTimersByTime(180000);
+    scheduled.stop();
+    jest.advanceTimersByTime(180000);
+    expect(cleanups).toBe(3);
+  });
 });
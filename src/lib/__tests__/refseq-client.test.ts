@@ -0,0 +1,171 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { loadReferenceData, parseCdsFasta, parseGeneTable } from '../refseq-client';
+import { parseHGVS, formatProteinChange, normalizeVariantInput } from '../variant';
+import { analyzeVariant } from '../analyze-variant';
+
+// BRAF NM_004333.6: 766 codons and a stop. Only codon 600 (GTG, Val) is the real
+// sequence; the rest is filler that keeps the reading frame and length.
+const BRAF_CDS = 'ATG' + 'GCT'.repeat(598) + 'GTG' + 'GCT'.repeat(166) + 'TGA';
+const BRAF_FASTA = [
+  '>lcl|NM_004333.6_cds_NP_004324.2_1 [gene=BRAF] [db_xref=CCDS:CCDS5863.1,GeneID:673] [protein=serine/threonine-protein kinase B-raf isoform 1] [protein_id=NP_004324.2] [location=227..2530] [gbkey=CDS]',
+  ...(BRAF_CDS.match(/.{1,70}/g) ?? []),
+].join('\n');
+
+// TP53 NM_000546.6 (minus strand): 393 codons and a stop, codon 175 CGC (Arg)
+const TP53_CDS = 'ATG' + 'GCT'.repeat(173) + 'CGC' + 'GCT'.repeat(218) + 'TGA';
+const TP53_FASTA = [
+  '>lcl|NM_000546.6_cds_NP_000537.3_1 [gene=TP53] [db_xref=CCDS:CCDS11118.1,GeneID:7157] [protein=cellular tumor antigen p53 isoform a] [protein_id=NP_000537.3] [location=143..1324] [gbkey=CDS]',
+  ...(TP53_CDS.match(/.{1,70}/g) ?? []),
+].join('\n');
+const TP53_CODING_EXONS = [
+  '7676622-7676521\t7676594-7676521\t1131-1232\t1159-1232\t102\t74\t',
+  '7676403-7676382\t7676403-7676382\t1351-1372\t1351-1372\t22\t22\t',
+  '7676272-7675994\t7676272-7675994\t1503-1781\t1503-1781\t279\t279\t',
+  '7675236-7675053\t7675236-7675053\t12255-12438\t12255-12438\t184\t184\t',
+  '7674971-7674859\t7674971-7674859\t12520-12632\t12520-12632\t113\t113\t',
+  '7674290-7674181\t7674290-7674181\t13201-13310\t13201-13310\t110\t110\t',
+  '7673837-7673701\t7673837-7673701\t13654-13790\t13654-13790\t137\t137\t',
+  '7673608-7673535\t7673608-7673535\t13883-13956\t13883-13956\t74\t74\t',
+  '7670715-7670609\t7670715-7670609\t16776-16882\t16776-16882\t107\t107\t',
+  '7669690-7668421\t7669690-7669609\t17801-19070\t17801-17882\t1270\t82\t',
+];
+const TP53_GENE_TABLE = [
+  'TP53 tumor protein p53 [Homo sapiens]',
+  'Gene ID: 7157, updated on 12-Oct-2026',
+  '',
+  'Reference GRCh38.p14 Primary Assembly  NC_000017.11 ',
+  '  from: 7668421  to: 7687490',
+  '  (complement)',
+  'mRNA: NM_001126112.3',
+  'Exon table for  mRNA  NM_001126112.3 and protein NP_001119584.1',
+  'Genomic Interval Exon\tGenomic Interval Coding\tGene Interval Exon\tGene Interval Coding\tExon Length\tCoding Length\tIntron Length',
+  '7676594-7676521\t7676594-7676521\t1159-1232\t1159-1232\t74\t74\t',
+  '',
+  'mRNA: NM_000546.6',
+  'Exon table for  mRNA  NM_000546.6 and protein NP_000537.3',
+  'Genomic Interval Exon\tGenomic Interval Coding\tGene Interval Exon\tGene Interval Coding\tExon Length\tCoding Length\tIntron Length',
+  '7687490-7687377\t\t1-114\t\t114\t\t10754',
+  ...TP53_CODING_EXONS,
+  '',
+  'Reference T2T-CHM13v2.0  NC_060941.1 ',
+  'Exon table for  mRNA  NM_000546.6 and protein NP_000537.3',
+  '7565097-7565024\t7565097-7565024\t1159-1232\t1159-1232\t74\t74\t',
+].join('\n');
+
+function stubNcbi(respond: (url: string) => Response) {
+  const urls: string[] = [];
+  global.fetch = jest.fn(async (input: RequestInfo | URL) => {
+    urls.push(input.toString());
+    return respond(input.toString());
+  }) as typeof fetch;
+  return urls;
+}
+
+describe('parseCdsFasta', () => {
+  it('reads accession, gene and sequence from the first CDS record', () => {
+    expect(parseCdsFasta(BRAF_FASTA)).toEqual({ accession: 'NM_004333.6', gene: 'BRAF', cds: BRAF_CDS });
+  });
+
+  it('returns null for a body without a CDS record', () => {
+    expect(parseCdsFasta('Error: F a i l e d  to retrieve sequence')).toBeNull();
+  });
+});
+
+describe('parseGeneTable', () => {
+  it('reads GRCh38 coding segments in transcript order and skips other assemblies', () => {
+    const transcripts = parseGeneTable(TP53_GENE_TABLE);
+
+    expect(transcripts.map((t) => t.accession)).toEqual(['NM_001126112.3', 'NM_000546.6']);
+    expect(transcripts[1]).toMatchObject({ gene: 'TP53', chrom: '17', strand: '-' });
+    expect(transcripts[1].cds).toHaveLength(10);
+    expect(transcripts[1].cds[0]).toEqual([7676521, 7676594]);
+    expect(transcripts[1].cds.reduce((total, [start, end]) => total + end - start + 1, 0)).toBe(TP53_CDS.length);
+  });
+});
+
+describe('loadReferenceData', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('fetches an unbundled transcript so NM_004333.6:c.1799T>A reads as BRAF p.V600E', async () => {
+    const urls = stubNcbi(() => ({ ok: true, status: 200, text: async () => BRAF_FASTA }) as Response);
+
+    await loadReferenceData('NM_004333.6:c.1799T>A');
+    const parsed = parseHGVS('NM_004333.6:c.1799T>A');
+
+    expect(urls[0]).toContain('db=nuccore&id=NM_004333.6&rettype=fasta_cds_na');
+    expect(parsed).toMatchObject({ gene: 'BRAF', ref: 'V', pos: 600, alt: 'E', type: 'missense' });
+    expect(formatProteinChange(parsed)).toBe('p.Val600Glu');
+    expect(parseHGVS('BRAF:c.1799T>A').codingHgvs).toBe('NM_004333.6:c.1799T>A');
+  });
+
+  it('does not ask NCBI for bundled transcripts or protein input', async () => {
+    const urls = stubNcbi(() => { throw new Error('unexpected NCBI call'); });
+
+    await loadReferenceData('NM_004985.5:c.35G>A');
+    await loadReferenceData('KRAS:c.35G>A');
+    await loadReferenceData('TP53:p.R175H');
+    expect(urls).toEqual([]);
+  });
+
+  it('fetches the MANE annotation so 17-7675088-C-T reads as TP53 p.R175H', async () => {
+    const urls = stubNcbi((url) => {
+      if (url.includes('esearch.fcgi')) {
+        return { ok: true, status: 200, json: async () => ({ esearchresult: { idlist: ['7157'] } }) } as Response;
+      }
+      const body = url.includes('db=gene') ? TP53_GENE_TABLE : TP53_FASTA;
+      return { ok: true, status: 200, text: async () => body } as Response;
+    });
+
+    await loadReferenceData('17-7675088-C-T');
+    const [consequence] = normalizeVariantInput('17-7675088-C-T').map((entry) => entry.parsed);
+
+    expect(decodeURIComponent(urls[0])).toContain('TP53[sym]');
+    expect(decodeURIComponent(urls[0])).toContain('AND 17[chr]');
+    expect(urls.filter((url) => url.includes('db=nuccore&id=NM_000546.6'))).toHaveLength(1);
+    expect(consequence).toMatchObject({
+      gene: 'TP53',
+      ref: 'R',
+      pos: 175,
+      alt: 'H',
+      codingHgvs: 'NM_000546.6:c.524G>A',
+      genomicHgvs: 'NC_000017.11:g.7675088C>T',
+    });
+    expect(formatProteinChange(consequence)).toBe('p.Arg175His');
+
+    // The chromosome is now annotated; a second variant needs no new lookup
+    urls.length = 0;
+    await loadReferenceData('17-7675089-G-A');
+    expect(urls).toEqual([]);
+  });
+
+  it('reports an NCBI outage as UPSTREAM_UNAVAILABLE, not as bad input', async () => {
+    stubNcbi(() => ({ ok: false, status: 429, statusText: 'Too Many Requests' }) as Response);
+
+    const result = await analyzeVariant('NM_000059.4:c.8167G>C');
+    expect(result).toMatchObject({
+      ok: false,
+      status: 503,
+      error: { code: 'UPSTREAM_UNAVAILABLE', details: { service: 'refseq', reason: 'rate_limited' } },
+    });
+  });
+
+  it('needs NCBI for registry genes outside the snapshot, so their c. input fails offline', async () => {
+    stubNcbi(() => { throw new TypeError('fetch failed'); });
+
+    // EGFR's MANE transcript NM_005228.5 is neither bundled nor fetched earlier in this file
+    const result = await analyzeVariant('EGFR:c.2573T>G');
+    expect(result).toMatchObject({
+      ok: false,
+      status: 503,
+      error: { code: 'UPSTREAM_UNAVAILABLE', details: { service: 'refseq' } },
+    });
+    if (!result.ok) expect(result.error.message).toContain('provide protein HGVS');
+
+    // Protein input is read without NCBI
+    expect(parseHGVS('EGFR:p.L858R')).toMatchObject({ gene: 'EGFR', pos: 858 });
+  });
+});
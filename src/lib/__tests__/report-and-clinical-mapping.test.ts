@@ -79,6 +79,139 @@ describe('Clinical mapping and markdown safety', () => {
     expect(md).not.toContain('PATHOGENIC (');
   });
 
+  it('shows the submitter tally and each submission behind a conflicting record', async () => {
+    const coverage = await buildEvidenceCoverage(
+      BASE_CURATED,
+      null,
+      {
+        significance: 'Conflicting classifications of pathogenicity',
+        reviewStatus: 'criteria provided, conflicting classifications',
+        stars: 1,
+        clinvarId: '123456',
+        url: 'https://example.org',
+        conditions: [],
+        submissions: {
+          vcv: 'VCV000123456.3',
+          rcvs: ['RCV000200001.2'],
+          submissions: [
+            { scv: 'SCV000300001.1', submitter: 'Lab A', type: 'germline', classification: 'Pathogenic', dateLastEvaluated: '2022-01-10', method: 'ACMG Guidelines, 2015', conditions: ['Mitochondrial complex I deficiency'] },
+            { scv: 'SCV000300002.1', submitter: 'Lab B', type: 'germline', classification: 'Benign', conditions: [] },
+          ],
+          tally: { pathogenic: 4, pathogenicLikelyPathogenic: 1, likelyPathogenic: 0, uncertain: 0, likelyBenign: 0, benignLikelyBenign: 0, benign: 1, other: 0 },
+        },
+      },
+      { count: 0, query: 'NDUFAF6 A178P', papers: [] }
+    );
+
+    expect(coverage.clinical).toMatchObject({ status: 'uncertain', vcv: 'VCV000123456.3', tally: { pathogenic: 4, pathogenicLikelyPathogenic: 1, benign: 1 } });
+
+    const md = generateMarkdown({
+      variant: { hgvs: 'NDUFAF6:p.A178P', gene: 'NDUFAF6', residue: 178 },
+      coverage,
+      unknowns: { items: [], severity: 'minor' },
+      curatedInfo: BASE_CURATED,
+    });
+    expect(md).toContain('Accessions: VCV000123456.3, RCV000200001.2');
+    expect(md).toContain('Germline submitters: 5 pathogenic/likely pathogenic vs 1 benign/likely benign');
+    expect(md).toContain('Lab A (SCV000300001.1): Pathogenic; evaluated 2022-01-10; ACMG Guidelines, 2015; Mitochondrial complex I deficiency');
+  });
+
+  it('lists somatic impact and oncogenicity classifications separately in markdown output', async () => {
+    const coverage = await buildEvidenceCoverage(
+      BASE_CURATED,
+      null,
+      {
+        significance: 'Pathogenic',
+        reviewStatus: 'criteria provided, multiple submitters, no conflicts',
+        stars: 3,
+        clinvarId: '376',
+        url: 'https://www.ncbi.nlm.nih.gov/clinvar/variation/376/',
+        conditions: [],
+        classifications: [
+          { type: 'germline', description: 'Pathogenic', reviewStatus: 'criteria provided, multiple submitters, no conflicts', stars: 3, conditions: ['Noonan syndrome 3'] },
+          { type: 'somatic_clinical_impact', description: 'Tier I - Strong', reviewStatus: 'criteria provided, single submitter', stars: 2, conditions: ['Pancreatic adenocarcinoma'] },
+          { type: 'oncogenicity', description: 'Oncogenic', reviewStatus: 'reviewed by expert panel', stars: 4, conditions: [] },
+        ],
+      },
+      { count: 0, query: 'KRAS G12D', papers: [] }
+    );
+
+    const md = generateMarkdown({
+      variant: { hgvs: 'KRAS:p.G12D', gene: 'KRAS', residue: 12 },
+      coverage,
+      unknowns: { items: [], severity: 'minor' },
+      curatedInfo: BASE_CURATED,
+    });
+    expect(md).toContain('Germline: Pathogenic (3/4 stars, criteria provided, multiple submitters, no conflicts) for Noonan syndrome 3');
+    expect(md).toContain('Somatic clinical impact: Tier I - Strong (2/4 stars, criteria provided, single submitter) for Pancreatic adenocarcinoma');
+    expect(md).toContain('Oncogenicity: Oncogenic (4/4 stars, reviewed by expert panel)');
+  });
+
+  it('says why submissions are missing when they could not be fetched', async () => {
+    const coverage = await buildEvidenceCoverage(
+      BASE_CURATED,
+      null,
+      {
+        significance: 'Pathogenic',
+        reviewStatus: 'criteria provided, single submitter',
+        stars: 1,
+        clinvarId: '123456',
+        url: 'https://example.org',
+        conditions: [],
+        submissions: { unavailable: true, reason: 'timeout' },
+      },
+      { count: 0, query: 'NDUFAF6 A178P', papers: [] }
+    );
+
+    expect(coverage.clinical.submissions).toBeUndefined();
+    expect(coverage.clinical.submissionsReason).toBe('ClinVar submissions unavailable (timeout)');
+  });
+
+  it('lists nearby ClinVar variants by residue in markdown output', async () => {
+    const coverage = await buildEvidenceCoverage(BASE_CURATED, null, null, { count: 0, query: 'NDUFAF6 A178P', papers: [] });
+    coverage.nearby = {
+      status: 'found',
+      residue: 178,
+      window: 5,
+      from: 173,
+      to: 183,
+      residues: [
+        {
+          residue: 178,
+          variants: [{
+            clinvarId: '1001',
+            proteinChange: 'p.Ala178Val',
+            significance: 'Likely pathogenic',
+            reviewStatus: 'criteria provided, single submitter',
+            stars: 2,
+            url: 'https://www.ncbi.nlm.nih.gov/clinvar/variation/1001/',
+          }],
+        },
+        {
+          residue: 181,
+          variants: [{
+            clinvarId: '1002',
+            proteinChange: 'p.Gly181Arg',
+            significance: 'Uncertain significance',
+            reviewStatus: 'criteria provided, single submitter',
+            stars: 2,
+            url: 'https://www.ncbi.nlm.nih.gov/clinvar/variation/1002/',
+          }],
+        },
+      ],
+    };
+
+    const md = generateMarkdown({
+      variant: { hgvs: 'NDUFAF6:p.A178P', gene: 'NDUFAF6', residue: 178 },
+      coverage,
+      unknowns: { items: [], severity: 'minor' },
+      curatedInfo: BASE_CURATED,
+    });
+    expect(md).toContain('**Nearby ClinVar Variants**');
+    expect(md).toContain('Residue 178 (this residue): [p.Ala178Val](https://www.ncbi.nlm.nih.gov/clinvar/variation/1001/) Likely pathogenic');
+    expect(md).toContain('Residue 181 (+3): [p.Gly181Arg]');
+  });
+
   it('builds smart summary from nearby functional site context', () => {
     const summary = buildSmartSummary({
       nearFunctionalSite: true,
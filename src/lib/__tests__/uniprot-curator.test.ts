@@ -0,0 +1,123 @@
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import {
+  curateUniprotData,
+  validateReferenceResidue,
+  ReferenceMismatchError,
+  resolveProteinId,
+} from '../uniprot-curator';
+
+function sequenceWith(length: number, residues: Record<number, string>): string {
+  const chars = Array.from({ length }, () => 'A');
+  for (const [pos, aa] of Object.entries(residues)) chars[Number(pos) - 1] = aa;
+  return chars.join('');
+}
+
+const CANONICAL = sequenceWith(393, { 171: 'G', 175: 'R', 176: 'C', 179: 'H' });
+const ISOFORM_2 = sequenceWith(341, { 175: 'G' });
+
+const ENTRIES: Record<string, unknown> = {
+  'P04637': {
+    primaryAccession: 'P04637',
+    genes: [{ geneName: { value: 'TP53' } }],
+    sequence: { length: CANONICAL.length, value: CANONICAL },
+    comments: [
+      {
+        commentType: 'ALTERNATIVE PRODUCTS',
+        isoforms: [
+          { isoformIds: ['P04637-1'], isoformSequenceStatus: 'Displayed' },
+          { isoformIds: ['P04637-2'], isoformSequenceStatus: 'Described' },
+        ],
+      },
+    ],
+    features: [],
+  },
+  'P04637-2': {
+    primaryAccession: 'P04637-2',
+    sequence: { length: ISOFORM_2.length, value: ISOFORM_2 },
+  },
+};
+
+describe('UniProt curator', () => {
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    global.fetch = jest.fn(async (input: RequestInfo | URL) => {
+      const url = input.toString();
+      if (url.includes('rest.ensembl.org/xrefs/id/ENSP00000269305')) {
+        return {
+          ok: true,
+          status: 200,
+          json: async () => [
+            { dbname: 'Uniprot/SPTREMBL', primary_id: 'K7PPA8' },
+            { dbname: 'Uniprot_isoform', primary_id: 'P04637-1' },
+          ],
+        } as Response;
+      }
+      const accession = url.match(/uniprotkb\/([A-Z0-9-]+)\.json/)?.[1] || '';
+      const entry = ENTRIES[accession];
+      return (entry
+        ? { ok: true, status: 200, json: async () => entry }
+        : { ok: false, status: 404, json: async () => ({}) }) as Response;
+    }) as typeof fetch;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('passes when the stated residue matches the canonical sequence', () => {
+    expect(validateReferenceResidue(CANONICAL, 175, 'R')).toBeNull();
+  });
+
+  it('names the actual residue and nearby positions carrying the stated one', () => {
+    const error = validateReferenceResidue(CANONICAL, 175, 'G', 'TP53');
+    expect(error?.code).toBe('REF_MISMATCH');
+    expect(error?.message).toBe(
+      'Reference mismatch at residue 175 of TP53: canonical sequence has Arg (R), input states Gly (G)'
+    );
+    expect(error?.details).toMatchObject({ actualRef: 'R', statedRef: 'G', nearbyPositions: [171] });
+  });
+
+  it('rejects TP53:p.G175H and suggests isoforms that carry Gly175', async () => {
+    const failure = await curateUniprotData('P04637', 175, 175, { ref: 'G' }).catch((e) => e);
+    expect(failure).toBeInstanceOf(ReferenceMismatchError);
+    expect((failure as ReferenceMismatchError).details).toMatchObject({
+      uniprotId: 'P04637',
+      actualRef: 'R',
+      matchingIsoforms: ['P04637-2'],
+    });
+  });
+
+  it('checks the end residue of a range', async () => {
+    await expect(curateUniprotData('P04637', 175, 179, { ref: 'R', endRef: 'H' })).resolves.toMatchObject({
+      variantPosition: 175,
+      variantEndPosition: 179,
+    });
+    await expect(curateUniprotData('P04637', 175, 176, { ref: 'R', endRef: 'H' })).rejects.toThrow(
+      'residue 176 of TP53: canonical sequence has Cys (C)'
+    );
+  });
+
+  describe('resolveProteinId', () => {
+    it('resolves UniProt isoform accessions without a gene search', async () => {
+      await expect(resolveProteinId('P04637-2')).resolves.toEqual({
+        input: 'P04637-2',
+        source: 'uniprot',
+        uniprotId: 'P04637-2',
+        canonicalId: 'P04637',
+        gene: 'TP53',
+      });
+      // The displayed isoform is the canonical entry
+      await expect(resolveProteinId('P04637-1')).resolves.toMatchObject({ uniprotId: 'P04637' });
+    });
+
+    it('maps Ensembl protein IDs through their UniProt cross-reference', async () => {
+      await expect(resolveProteinId('ENSP00000269305.4')).resolves.toMatchObject({
+        source: 'ensembl',
+        uniprotId: 'P04637',
+        gene: 'TP53',
+      });
+      await expect(resolveProteinId('ENSP00000999999')).rejects.toThrow('Could not resolve ENSP00000999999');
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { analyzeNormalizedVariant } from '../variant-pipeline';
+import { normalizeVariantInput } from '../variant';
+import { mockFetch } from './mocks/external-apis';
+
+describe('Variant pipeline deadline', () => {
+  let releaseClinVar: () => void = () => {};
+  const clinvarSignals: AbortSignal[] = [];
+
+  beforeAll(() => {
+    mockFetch();
+    const mocked = global.fetch;
+    // ClinVar answers only once the test releases it
+    const held = new Promise<void>((resolve) => (releaseClinVar = resolve));
+    global.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input).includes('db=clinvar')) {
+        if (init?.signal) clinvarSignals.push(init.signal);
+        await held;
+      }
+      return mocked(input, init);
+    }) as typeof fetch;
+  });
+
+  afterAll(() => {
+    releaseClinVar();
+  });
+
+  it('reports a stage still pending at the deadline as a timeout', async () => {
+    const [candidate] = normalizeVariantInput('TP53:p.R273H');
+    const startTime = Date.now();
+    const outcome = await analyzeNormalizedVariant(candidate, 'TP53:p.R273H', startTime, { deadline: startTime + 1000 });
+
+    expect(outcome.ok).toBe(true);
+    if (!outcome.ok) return;
+    const { coverage, timings } = outcome.response;
+    expect(coverage.clinical).toMatchObject({ status: 'unavailable', reason: 'timeout' });
+    expect(coverage.literature.unavailable).toBeFalsy();
+    expect(outcome.evidenceSources.clinvar).toBe(false);
+
+    expect(timings?.deadlineMs).toBe(1000);
+    expect(timings?.stages.clinvar?.outcome).toBe('timeout');
+    expect(timings?.stages.pubmed?.outcome).toBe('ok');
+    expect(timings?.stages.uniprot?.outcome).toBe('ok');
+
+    // The abandoned ClinVar search is cancelled, not left running
+    expect(clinvarSignals.length).toBeGreaterThan(0);
+    expect(clinvarSignals.every((signal) => signal.aborted)).toBe(true);
+  });
+});
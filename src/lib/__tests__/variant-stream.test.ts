@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyStreamEvent, createEventStream, encodeStreamEvent, readVariantStream } from '../variant-stream';
+import { VariantStreamEvent } from '../types/honest-response';
+
+const variant = { hgvs: 'TP53:p.R175H', gene: 'TP53', residue: 175, isValidPosition: true };
+
+describe('Variant stream', () => {
+  it('reassembles NDJSON events split across chunks', async () => {
+    const payload = [
+      encodeStreamEvent({ type: 'variant', index: 0, variant }, 'ndjson'),
+      encodeStreamEvent({ type: 'report', status: 500, body: { error: true, code: 'INTERNAL_ERROR', message: 'x' } }, 'ndjson'),
+    ].join('');
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // Split mid-line to exercise buffering
+        controller.enqueue(encoder.encode(payload.slice(0, 17)));
+        controller.enqueue(encoder.encode(payload.slice(17)));
+        controller.close();
+      },
+    });
+
+    const events: VariantStreamEvent[] = [];
+    await readVariantStream(body, (event) => events.push(event));
+    expect(events.map((e) => e.type)).toEqual(['variant', 'report']);
+  });
+
+  it('fills sections into the report for their consequence', () => {
+    let reports = applyStreamEvent([], { type: 'variant', index: 1, variant });
+    reports = applyStreamEvent(reports, { type: 'clinical', index: 1, clinical: { status: 'unavailable', reason: 'timeout' } });
+    reports = applyStreamEvent(reports, { type: 'literature', index: 0, literature: { variantSpecificCount: 0 } });
+
+    expect(reports[0]).toBeUndefined();
+    expect(reports[1]).toEqual({ variant, coverage: { clinical: { status: 'unavailable', reason: 'timeout' } } });
+
+    const failed = applyStreamEvent(reports, {
+      type: 'error',
+      index: 1,
+      status: 400,
+      body: { error: true, code: 'INVALID_POSITION', message: 'Position 999 exceeds protein length' },
+    });
+    expect(failed[1].failed).toBe('Position 999 exceeds protein length');
+  });
+
+  it('closes the stream and aborts the run when the request is aborted', async () => {
+    const request = new AbortController();
+    let runSignal: AbortSignal | undefined;
+    const response = createEventStream('ndjson', async (emit, signal) => {
+      runSignal = signal;
+      emit({ type: 'variant', index: 0, variant });
+      await new Promise((resolve) => signal.addEventListener('abort', resolve));
+      emit({ type: 'report', status: 200, body: { error: true, code: 'INTERNAL_ERROR', message: 'dropped' } });
+    }, request.signal);
+
+    const events: VariantStreamEvent[] = [];
+    const reading = readVariantStream(response.body!, (event) => events.push(event));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    request.abort();
+    await reading;
+
+    expect(events.map((e) => e.type)).toEqual(['variant']);
+    expect(runSignal?.aborted).toBe(true);
+  });
+
+  it('aborts the run when the reader cancels', async () => {
+    let runSignal: AbortSignal | undefined;
+    const response = createEventStream('sse', async (_emit, signal) => {
+      runSignal = signal;
+      await new Promise((resolve) => signal.addEventListener('abort', resolve));
+    });
+
+    await response.body!.cancel();
+    expect(runSignal?.aborted).toBe(true);
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, it, expect } from '@jest/globals';
-import { parseHGVS, normalizeVariant, validateHGVS } from '../variant';
+import {
+  parseHGVS,
+  normalizeVariant,
+  validateHGVS,
+  formatProteinChange,
+  isAlleleInput,
+  parseVariantAllele,
+} from '../variant';
 
 describe('Variant Normalization', () => {
   describe('parseHGVS', () => {
@@ -27,8 +34,21 @@ describe('Variant Normalization', () => {
       expect(() => parseHGVS('BRCA1:123')).toThrow('Invalid HGVS format');
     });
 
-    it('rejects nucleotide HGVS', () => {
-      expect(() => parseHGVS('BRCA1:c.61C>G')).toThrow('Protein HGVS required');
+    it('rejects coding HGVS when no reference transcript is bundled', () => {
+      expect(() => parseHGVS('BRCA1:c.61C>G')).toThrow('No reference transcript available for BRCA1');
+    });
+
+    it('translates coding HGVS to the protein consequence', () => {
+      const result = parseHGVS('NM_004985.5:c.35G>A');
+      expect(result).toEqual({
+        gene: 'KRAS',
+        ref: 'G',
+        pos: 12,
+        alt: 'D',
+        transcript: 'NM_004985.5',
+        codingHgvs: 'NM_004985.5:c.35G>A',
+        type: 'missense',
+      });
     });
 
     it('handles stop codons', () => {
@@ -67,6 +87,22 @@ describe('Variant Normalization', () => {
       expect(result.alt).toBe('del');
     });
 
+    it('accepts UniProt accessions and Ensembl protein IDs in place of a gene', () => {
+      expect(parseHGVS('P04637:p.R175H')).toMatchObject({ gene: 'TP53', proteinId: 'P04637', pos: 175 });
+      expect(parseHGVS('p04637-2:p.Arg175His')).toMatchObject({ gene: 'TP53', proteinId: 'P04637-2' });
+      // Resolved to a gene by the route, not the parser
+      expect(parseHGVS('ENSP00000269305.4:p.R175H')).toMatchObject({
+        gene: 'ENSP00000269305.4',
+        proteinId: 'ENSP00000269305.4',
+      });
+      expect(parseHGVS('TP53:p.R175H').proteinId).toBeUndefined();
+    });
+
+    it('resolves withdrawn symbols and keeps the submitted one', () => {
+      expect(parseHGVS('GBA:p.N409S')).toMatchObject({ gene: 'GBA1', submittedGene: 'GBA' });
+      expect(parseHGVS('TP53:p.R175H').submittedGene).toBeUndefined();
+    });
+
     it('returns a clear format error when ":" is missing', () => {
       expect(() => parseHGVS('NDUFAF6p.Ala178Pro')).toThrow('Missing ":" between gene and protein change');
     });
@@ -104,12 +140,55 @@ describe('Variant Normalization', () => {
       expect(result.type).toBe('nonsense');
     });
 
+    it('parses deletion ranges', () => {
+      expect(parseHGVS('EGFR:p.Glu746_Ala750del')).toEqual({
+        gene: 'EGFR',
+        ref: 'E',
+        pos: 746,
+        endRef: 'A',
+        end: 750,
+        alt: 'del',
+        type: 'deletion',
+      });
+    });
+
+    it('parses delins with the inserted residues', () => {
+      const result = parseHGVS('EGFR:p.Leu858_Thr859delinsArgSer');
+      expect(result).toMatchObject({ pos: 858, end: 859, alt: 'delins', inserted: 'RS', type: 'delins' });
+      expect(parseHGVS('EGFR:p.L858delinsRS')).toMatchObject({ pos: 858, inserted: 'RS', type: 'delins' });
+    });
+
+    it('parses insertions and duplications with their extent', () => {
+      expect(parseHGVS('ERBB2:p.Ala775_Gly776insTyrValMetAla')).toMatchObject({
+        ref: 'A', pos: 775, endRef: 'G', end: 776, alt: 'ins', inserted: 'YVMA', type: 'insertion',
+      });
+      expect(parseHGVS('ERBB2:p.A767_V769dup')).toMatchObject({ pos: 767, end: 769, type: 'duplication' });
+    });
+
+    it('rejects insertions whose flanks are not adjacent', () => {
+      expect(() => parseHGVS('EGFR:p.Lys745_Ala750insIle')).toThrow('adjacent flanking residues');
+    });
+
+    it('parses stop-loss extensions and start-loss', () => {
+      expect(parseHGVS('TP53:p.*394Trpext*?')).toMatchObject({
+        ref: '*', pos: 394, alt: 'ext', inserted: 'W', extension: '*?', type: 'extension',
+      });
+      expect(parseHGVS('TP53:p.Ter394TrpextTer12').extension).toBe('*12');
+      expect(parseHGVS('BRCA1:p.Met1?')).toMatchObject({ ref: 'M', pos: 1, alt: '?', type: 'start_loss' });
+      expect(parseHGVS('BRCA1:p.(Met1?)').type).toBe('start_loss');
+    });
+
+    it('rejects extensions and start-loss at the wrong residue', () => {
+      expect(() => parseHGVS('TP53:p.Arg175Trpext*?')).toThrow('Extensions start at the stop codon');
+      expect(() => parseHGVS('TP53:p.Arg175?')).toThrow('Invalid HGVS format');
+    });
+
     it('rejects mitochondrial nucleotide HGVS', () => {
-      expect(() => parseHGVS('MT-TL1:m.3243A>G')).toThrow('Protein HGVS required');
+      expect(() => parseHGVS('MT-TL1:m.3243A>G')).toThrow('Protein, coding or genomic HGVS required');
     });
 
-    it('rejects c. notation', () => {
-      expect(() => parseHGVS('CFTR:c.1521_1523delCTT')).toThrow('Protein HGVS required');
+    it('rejects c. notation for genes without a bundled transcript', () => {
+      expect(() => parseHGVS('CFTR:c.1521_1523delCTT')).toThrow('No reference transcript available for CFTR');
     });
 
     it('rejects p.= as unsupported no-change notation', () => {
@@ -152,6 +231,24 @@ describe('Variant Normalization', () => {
       expect(result.parsed.transcript).toBe('NM_000492.4');
     });
 
+    it('normalizes coding HGVS to the derived protein change', () => {
+      const result = normalizeVariant('NM_000518.5(HBB):c.20A>T');
+      expect(result.normalized).toBe('HBB:p.E7V');
+      expect(result.parsed.codingHgvs).toBe('NM_000518.5:c.20A>T');
+    });
+
+    it('normalizes ranges, delins, extensions and start-loss', () => {
+      expect(normalizeVariant('EGFR:p.Glu746_Ala750del').normalized).toBe('EGFR:p.E746_A750del');
+      expect(normalizeVariant('EGFR:p.Leu858_Thr859delinsArgSer').normalized).toBe('EGFR:p.L858_T859delinsRS');
+      expect(normalizeVariant('TP53:p.*394Trpext*?').normalized).toBe('TP53:p.*394Wext*?');
+      expect(normalizeVariant('BRCA1:p.Met1?').normalized).toBe('BRCA1:p.M1?');
+    });
+
+    it('formats ranges back to 3-letter HGVS', () => {
+      expect(formatProteinChange(parseHGVS('EGFR:p.E746_A750del'))).toBe('p.Glu746_Ala750del');
+      expect(formatProteinChange(parseHGVS('EGFR:p.K745_E746insIPVAIK'))).toBe('p.Lys745_Glu746insIleProValAlaIleLys');
+    });
+
     it('normalizes stop-gain variants to Ter form', () => {
       expect(normalizeVariant('CFTR:p.G542*').normalized).toBe('CFTR:p.G542Ter');
       expect(normalizeVariant('CFTR:p.G542X').normalized).toBe('CFTR:p.G542Ter');
@@ -159,4 +256,34 @@ describe('Variant Normalization', () => {
       expect(normalizeVariant('DMD:p.Q1*').normalized).toBe('DMD:p.Q1Ter');
     });
   });
+
+  describe('parseVariantAllele', () => {
+    it('parses cis alleles into normalized components', () => {
+      const allele = parseVariantAllele('TP53:p.[Arg175His;Arg248Gln]');
+      expect(allele.phase).toBe('cis');
+      expect(allele.hgvs).toBe('TP53:p.[R175H;R248Q]');
+      expect(allele.components.map((c) => [c.normalized, c.allele])).toEqual([
+        ['TP53:p.R175H', 1],
+        ['TP53:p.R248Q', 1],
+      ]);
+    });
+
+    it('parses trans and phase-unknown alleles', () => {
+      const trans = parseVariantAllele('CFTR:p.[Phe508del];[Gly542*]');
+      expect(trans.phase).toBe('trans');
+      expect(trans.hgvs).toBe('CFTR:p.[F508del];[G542Ter]');
+      expect(trans.components.map((c) => c.allele)).toEqual([1, 2]);
+
+      const unknown = parseVariantAllele('TP53:p.[R175H(;)R248Q]');
+      expect(unknown.phase).toBe('unknown');
+      expect(unknown.hgvs).toBe('TP53:p.[R175H(;)R248Q]');
+    });
+
+    it('rejects single-change brackets and routes parseHGVS callers to the allele parser', () => {
+      expect(isAlleleInput('TP53:p.[R175H;R248Q]')).toBe(true);
+      expect(isAlleleInput('TP53:p.R175H')).toBe(false);
+      expect(() => parseVariantAllele('TP53:p.[R175H]')).toThrow('at least two changes');
+      expect(() => parseHGVS('TP53:p.[R175H;R248Q]')).toThrow('parseVariantAllele');
+    });
+  });
 });
@@ -0,0 +1,129 @@
+/**
+ * ALLELE CONTEXT
+ *
+ * Context shared by the components of a multi-change allele: common domains,
+ * sequence span and C-alpha distances in the AlphaFold model (UniProt
+ * numbering). A missing model or residue leaves the structure context
+ * unavailable rather than estimated.
+ */
+
+import { AlphaFoldResolver, fetchCAlphaCoordinates } from './structure';
+import { withUpstream } from './concurrency';
+import { isFetchFailure, withDeadline } from './fetch-utils';
+import { AlleleSharedContext, HonestAPIResponse } from './types/honest-response';
+
+// C-alpha distance within which two changes count as one 3D neighborhood
+export const ALLELE_NEIGHBORHOOD_ANGSTROMS = 10;
+
+function affectedResidues(component: HonestAPIResponse): number[] {
+  const start = component.curatedInfo.variantPosition;
+  const end = component.curatedInfo.variantEndPosition ?? start;
+  return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+}
+
+function componentLabel(component: HonestAPIResponse): string {
+  return component.variant.normalizedHgvs || component.variant.hgvs;
+}
+
+function componentDomains(component: HonestAPIResponse): string[] {
+  const { affectedDomains, variantInDomain } = component.curatedInfo;
+  if (affectedDomains && affectedDomains.length > 0) return affectedDomains;
+  return variantInDomain ? [variantInDomain] : [];
+}
+
+function distance(a: [number, number, number], b: [number, number, number]): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+async function measureNeighborhood(components: HonestAPIResponse[], signal?: AbortSignal): Promise<AlleleSharedContext['structure']> {
+  const unavailable = (reason: string): AlleleSharedContext['structure'] => ({ status: 'unavailable', reason, pairs: [] });
+
+  if (components.length < 2) {
+    return unavailable('Fewer than two components could be analyzed');
+  }
+  const uniprotIds = new Set(components.map((c) => c.curatedInfo.uniprotId));
+  if (uniprotIds.size > 1) {
+    return unavailable('Components were evaluated on different UniProt entries');
+  }
+
+  let model;
+  let atoms;
+  try {
+    const uniprotId = components[0].curatedInfo.uniprotId;
+    model = await withUpstream('structure', () => new AlphaFoldResolver().resolve(uniprotId, signal), signal);
+    const coordinates = model.coordinates;
+    if (!coordinates) return unavailable('AlphaFold model has no coordinate file');
+    atoms = await withUpstream('structure', () => fetchCAlphaCoordinates(coordinates, signal), signal);
+  } catch (error) {
+    console.warn('[AlleleContext] AlphaFold model unavailable:', (error as Error).message);
+    return unavailable('AlphaFold model unavailable');
+  }
+
+  const pairs: AlleleSharedContext['structure']['pairs'] = [];
+  for (let i = 0; i < components.length; i++) {
+    for (let j = i + 1; j < components.length; j++) {
+      let closest = Infinity;
+      for (const a of affectedResidues(components[i])) {
+        for (const b of affectedResidues(components[j])) {
+          const atomA = atoms.get(a);
+          const atomB = atoms.get(b);
+          if (!atomA || !atomB) {
+            return unavailable(`Residue ${atomA ? b : a} is not in the AlphaFold model`);
+          }
+          closest = Math.min(closest, distance(atomA, atomB));
+        }
+      }
+      pairs.push({
+        a: componentLabel(components[i]),
+        b: componentLabel(components[j]),
+        distanceAngstrom: Math.round(closest * 10) / 10,
+      });
+    }
+  }
+
+  return {
+    status: 'measured',
+    source: 'AlphaFold',
+    id: model.id,
+    pairs,
+    sameNeighborhood: pairs.every((pair) => pair.distanceAngstrom <= ALLELE_NEIGHBORHOOD_ANGSTROMS),
+  };
+}
+
+async function measureBeforeDeadline(
+  components: HonestAPIResponse[],
+  deadline?: number,
+  now?: () => number
+): Promise<AlleleSharedContext['structure']> {
+  if (deadline === undefined) return measureNeighborhood(components);
+  const measured = await withDeadline((signal) => measureNeighborhood(components, signal), deadline, 'structure', now);
+  return isFetchFailure(measured)
+    ? { status: 'unavailable', reason: 'AlphaFold model unavailable (timeout)', pairs: [] }
+    : measured;
+}
+
+/**
+ * Compare the analyzed components of one allele. With a `deadline` (epoch ms
+ * on the `now` clock) a structure lookup still pending then is reported
+ * unavailable rather than awaited.
+ */
+export async function buildAlleleContext(
+  components: HonestAPIResponse[],
+  options: { deadline?: number; now?: () => number } = {}
+): Promise<AlleleSharedContext> {
+  const domainSets = components.map(componentDomains);
+  const sharedDomains = domainSets.length > 0
+    ? domainSets[0].filter((domain) => domainSets.every((set) => set.includes(domain)))
+    : [];
+
+  const residues = components.flatMap(affectedResidues);
+  const sequenceSpan = residues.length > 0 ? Math.max(...residues) - Math.min(...residues) : null;
+
+  return {
+    analyzedComponents: components.length,
+    sameDomain: components.length > 1 && sharedDomains.length > 0,
+    sharedDomains,
+    sequenceSpan,
+    structure: await measureBeforeDeadline(components, options.deadline, options.now),
+  };
+}
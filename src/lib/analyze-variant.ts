@@ -0,0 +1,202 @@
+/**
+ * ANALYZE VARIANT
+ *
+ * Framework-independent entry point: one submitted input (protein, coding,
+ * genomic or allele HGVS) in, the report the API would return out. Bad input
+ * comes back as a typed PARSE_ERROR body, never a throw; HTTP, rate limiting
+ * and audit logging are left to callers.
+ */
+
+import {
+  normalizeVariantInput,
+  isAlleleInput,
+  parseVariantAllele,
+  VariantAllele,
+  ParsedVariant,
+} from './variant';
+import { GENOMIC_ASSEMBLY } from './genomic-variant';
+import { loadReferenceData } from './refseq-client';
+import { buildAlleleContext } from './allele-context';
+import { diagnoseVariantInput } from './hgvs-diagnostics';
+import {
+  analyzeNormalizedVariant,
+  VariantOutcome,
+  VariantClients,
+  PIPELINE_DEADLINE_MS,
+} from './variant-pipeline';
+import { EvidenceProvider } from './evidence-providers';
+import { generateMarkdown } from './report-utils';
+import {
+  HonestAPIResponse,
+  GenomicAPIResponse,
+  AlleleAPIResponse,
+  ApiErrorBody,
+  VariantStreamEvent,
+} from './types/honest-response';
+import { ApiError, ERROR_STATUS, ParseError } from './errors';
+
+export type { VariantClients, VariantOutcome } from './variant-pipeline';
+
+export interface PreparedVariantInput {
+  input: string;
+  key: string;                 // Normalized form used to deduplicate batch rows
+  allele: VariantAllele | null;
+  candidates: Array<{ normalized: string; parsed: ParsedVariant }>;
+}
+
+// Makes the reference sequences an input is read against available to the parser
+export type ReferenceLoader = (input: string) => Promise<void>;
+
+export interface AnalyzeVariantOptions {
+  clients?: Partial<VariantClients>;
+  loadReferenceData?: ReferenceLoader;        // Defaults to fetching what the bundled snapshot lacks from NCBI
+  providers?: EvidenceProvider[];             // Defaults to the providers enabled by EVIDENCE_PROVIDERS
+  now?: () => number;
+  deadlineMs?: number;                        // Budget from the start of the call; defaults to PIPELINE_DEADLINE_MS
+  emit?: (event: VariantStreamEvent) => void; // Receives each section as it resolves
+  signal?: AbortSignal;                       // Stops pending stages early, as the deadline would
+}
+
+export type VariantReport = HonestAPIResponse | GenomicAPIResponse | AlleleAPIResponse;
+
+export type AnalyzeVariantResult =
+  | { ok: true; status: 200; report: VariantReport; outcomes: VariantOutcome[] }
+  | { ok: false; status: number; error: ApiErrorBody; outcomes: VariantOutcome[] };
+
+// ==========================================
+// PREPARATION
+// ==========================================
+
+/**
+ * Parse and normalize `input` against the reference data already loaded.
+ * Throws the parser's error for input that does not parse; coding and
+ * genomic input whose reference is missing fails as if it were unknown.
+ */
+export function parseVariantInput(input: string): PreparedVariantInput {
+  const allele = isAlleleInput(input) ? parseVariantAllele(input) : null;
+  const candidates = allele ? allele.components : normalizeVariantInput(input);
+  const first = candidates[0].parsed;
+
+  // Transcript and protein-ID numbering differ from the gene form, so they stay part of the key
+  const key = allele
+    ? allele.hgvs
+    : first.genomicHgvs ?? [first.transcript, first.proteinId, candidates[0].normalized].filter(Boolean).join(' ');
+  return { input, key, allele, candidates };
+}
+
+/**
+ * Load the reference sequences `input` needs, then parse and normalize it.
+ * Throws as parseVariantInput does, and UpstreamUnavailableError when NCBI
+ * cannot supply a reference sequence.
+ */
+export async function prepareVariantInput(
+  input: string,
+  options: Pick<AnalyzeVariantOptions, 'loadReferenceData'> = {}
+): Promise<PreparedVariantInput> {
+  await (options.loadReferenceData ?? loadReferenceData)(input);
+  return parseVariantInput(input);
+}
+
+/**
+ * The error body for input `prepareVariantInput` rejected: PARSE_ERROR, or
+ * the typed error it raised (REF_MISMATCH for a wrong stated base,
+ * UPSTREAM_UNAVAILABLE when a reference sequence could not be fetched).
+ */
+export function describeParseError(input: string, error: Error): ApiErrorBody {
+  if (error instanceof ApiError && !(error instanceof ParseError)) {
+    // Suggestions fix the input; an outage is not the input's fault
+    const diagnostics = error.code === 'REF_MISMATCH' ? diagnoseVariantInput(input) : undefined;
+    return new ApiError(error.code, error.message, error.details, diagnostics).toBody();
+  }
+  return new ParseError(`Invalid HGVS: ${error.message}`, diagnoseVariantInput(input)).toBody();
+}
+
+// ==========================================
+// ANALYSIS
+// ==========================================
+
+/**
+ * Analyze one input. Allele input yields per-component evidence plus shared
+ * context, genomic input one entry per consequence; both are a 200 even when
+ * some entries failed. A single consequence that failed keeps its own status.
+ */
+export async function analyzeVariant(
+  input: string | PreparedVariantInput,
+  options: AnalyzeVariantOptions = {}
+): Promise<AnalyzeVariantResult> {
+  const now = options.now ?? Date.now;
+  const startTime = now();
+
+  let prepared: PreparedVariantInput;
+  try {
+    prepared = typeof input === 'string' ? await prepareVariantInput(input, options) : input;
+  } catch (error) {
+    const body = describeParseError(input as string, error as Error);
+    return { ok: false, status: ERROR_STATUS[body.code], error: body, outcomes: [] };
+  }
+
+  // Consequences are independent: they run concurrently under the one deadline
+  const deadline = startTime + (options.deadlineMs ?? PIPELINE_DEADLINE_MS);
+  const { emit, clients, providers, signal } = options;
+  const outcomes = await Promise.all(prepared.candidates.map(async (candidate, index) => {
+    const outcome = await analyzeNormalizedVariant(candidate, prepared.input, startTime, {
+      index, emit, deadline, clients, providers, now, signal,
+    });
+    if (!outcome.ok) emit?.({ type: 'error', index, status: outcome.status, body: outcome.body });
+    return outcome;
+  }));
+
+  const entries = outcomes.map((o) => (o.ok ? o.response : o.body));
+  const { allele } = prepared;
+  if (allele) {
+    const analyzed = outcomes.flatMap((o) => (o.ok ? [o.response] : []));
+    const report: AlleleAPIResponse = {
+      input: { originalHgvs: prepared.input, alleleHgvs: allele.hgvs, phase: allele.phase },
+      components: entries.map((entry, index) => ({ ...entry, allele: allele.components[index].allele })),
+      shared: await buildAlleleContext(analyzed, { deadline, now }),
+      timestamp: new Date(now()).toISOString(),
+      processingMs: now() - startTime,
+    };
+    return { ok: true, status: 200, report, outcomes };
+  }
+
+  const genomicHgvs = prepared.candidates[0].parsed.genomicHgvs;
+  if (genomicHgvs) {
+    const report: GenomicAPIResponse = {
+      input: { originalHgvs: prepared.input, genomicHgvs, assembly: GENOMIC_ASSEMBLY },
+      consequences: entries,
+      timestamp: new Date(now()).toISOString(),
+      processingMs: now() - startTime,
+    };
+    return { ok: true, status: 200, report, outcomes };
+  }
+
+  const outcome = outcomes[0];
+  return outcome.ok
+    ? { ok: true, status: 200, report: outcome.response, outcomes }
+    : { ok: false, status: outcome.status, error: outcome.body, outcomes };
+}
+
+// ==========================================
+// MARKDOWN
+// ==========================================
+
+/**
+ * Markdown for an analyzed report: one section per consequence or component,
+ * with the shared context first for alleles.
+ */
+export function renderReportMarkdown(report: VariantReport, outcomes: VariantOutcome[]): string {
+  // Failed entries keep their place in the document as a one-line note
+  const sections = outcomes.map((o) => (o.ok ? generateMarkdown(o.response) : `> ${o.body.message}`));
+  if ('shared' in report) {
+    const { input, shared } = report;
+    const neighborhood = shared.structure.status === 'measured'
+      ? shared.structure.pairs.map((p) => `${p.a} / ${p.b}: ${p.distanceAngstrom} Å`).join('; ')
+      : `Unavailable (${shared.structure.reason})`;
+    const header = `**Allele ${input.alleleHgvs}** (${input.phase})  \n` +
+      `Shared domains: ${shared.sharedDomains.length > 0 ? shared.sharedDomains.join(', ') : 'None'}  \n` +
+      `C-alpha distances: ${neighborhood}`;
+    sections.unshift(header);
+  }
+  return sections.join('\n\n---\n\n');
+}
@@ -0,0 +1,175 @@
+/**
+ * API ACCESS
+ *
+ * API keys, per-client rate limits, daily quotas and the admin key check.
+ * An unknown or revoked key is UNAUTHORIZED, never treated as anonymous.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { RateLimiter, RateLimitState, apiKeyRateLimiter } from './rate-limit';
+import { ApiKey, claimApiKeyUsage, findApiKeyBySecret } from './api-keys';
+import { ApiError, RateLimitedError } from './errors';
+import { errorResponse } from './api-contract';
+
+export interface ApiClient {
+  ip: string;
+  apiKey?: ApiKey; // Absent for anonymous requests
+}
+
+export type AccessResult =
+  | { ok: true; client: ApiClient; headers: Record<string, string> }
+  | { ok: false; client: ApiClient; response: NextResponse };
+
+/**
+ * The caller's address. X-Forwarded-For is only read when TRUST_PROXY says
+ * how many proxies in front of us append to it; the entry the outermost of
+ * them added is the client, anything to its left came from the client itself.
+ * Otherwise the platform's address (NextRequest.ip) is used.
+ */
+export function clientIp(request: Request): string {
+  const hops = Number.parseInt(process.env.TRUST_PROXY ?? '', 10);
+  if (hops > 0) {
+    const forwarded = (request.headers.get('x-forwarded-for') ?? '').split(',').map((entry) => entry.trim()).filter(Boolean);
+    // Fewer entries than proxies: the request did not come through them all
+    const client = forwarded[forwarded.length - hops];
+    if (client) return client;
+  }
+  return (request as Request & { ip?: string }).ip || 'unknown';
+}
+
+function presentedKey(headers: Headers): string | null {
+  const header = headers.get('x-api-key')?.trim();
+  if (header) return header;
+  const bearer = headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i);
+  return bearer ? bearer[1] : null;
+}
+
+function secondsUntilUtcMidnight(now = Date.now()): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+}
+
+function quotaHeaders(quota: { limit: number; remaining: number }): Record<string, string> {
+  return {
+    'X-RateLimit-Quota-Limit': String(quota.limit),
+    'X-RateLimit-Quota-Remaining': String(Math.max(0, quota.remaining)),
+    'X-RateLimit-Quota-Reset': String(secondsUntilUtcMidnight()),
+  };
+}
+
+function rateLimitHeaders(state: RateLimitState, quota?: { limit: number; remaining: number }): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(state.limit),
+    'X-RateLimit-Remaining': String(state.remaining),
+    'X-RateLimit-Reset': String(state.resetSeconds), // Seconds until the oldest request leaves the window
+    ...(quota ? quotaHeaders(quota) : {}),
+  };
+}
+
+/**
+ * Who is calling, with nothing charged: for reading back what the caller
+ * already submitted (e.g. their jobs).
+ */
+export function identifyClient(request: Request): AccessResult {
+  const ip = clientIp(request);
+  const secret = presentedKey(request.headers);
+  if (!secret) return { ok: true, client: { ip }, headers: {} };
+
+  const apiKey = findApiKeyBySecret(secret);
+  if (!apiKey || apiKey.revokedAt) {
+    const message = apiKey ? 'API key has been revoked' : 'Unknown API key';
+    return { ok: false, client: { ip }, response: errorResponse(new ApiError('UNAUTHORIZED', message)) };
+  }
+  return { ok: true, client: { ip, apiKey }, headers: {} };
+}
+
+/**
+ * Identify the caller and apply its rate limit and, for keys, its daily
+ * quota. `analyses` is what the request costs against the quota; it is only
+ * counted when the request is let through. Routes that learn their cost from
+ * the body pass 0 and call claimAnalyses once it is validated.
+ */
+export async function checkAccess(request: Request, limiter: RateLimiter, analyses = 1): Promise<AccessResult> {
+  const identified = identifyClient(request);
+  if (!identified.ok) return identified;
+  const { client } = identified;
+  const { ip, apiKey } = client;
+
+  if (!apiKey) {
+    const decision = await limiter.consume(ip);
+    const headers = rateLimitHeaders(decision);
+    return decision.allowed
+      ? { ok: true, client, headers }
+      : { ok: false, client, response: errorResponse(new RateLimitedError(decision.retryAfter), headers) };
+  }
+
+  const state = await apiKeyRateLimiter.consume(`key:${apiKey.id}`, apiKey.rateLimitPerMinute);
+  const { dailyQuota } = apiKey;
+  if (!state.allowed) {
+    const used = apiKey.usageToday.analyses;
+    const headers = rateLimitHeaders(state, dailyQuota === null ? undefined : { limit: dailyQuota, remaining: dailyQuota - used });
+    return { ok: false, client, response: errorResponse(new RateLimitedError(state.retryAfter), headers) };
+  }
+  return claimAnalyses({ ok: true, client, headers: rateLimitHeaders(state) }, analyses);
+}
+
+/**
+ * Count `analyses` more against the daily quota of a caller checkAccess let
+ * through. Anonymous callers have no quota and pass unchanged.
+ */
+export function claimAnalyses(access: Extract<AccessResult, { ok: true }>, analyses: number): AccessResult {
+  const { client } = access;
+  if (!client.apiKey) return access;
+
+  const { id, dailyQuota } = client.apiKey;
+  const { allowed, usage } = claimApiKeyUsage(id, analyses, dailyQuota);
+  const headers = dailyQuota === null
+    ? access.headers
+    : { ...access.headers, ...quotaHeaders({ limit: dailyQuota, remaining: dailyQuota - usage.analyses }) };
+  if (!allowed) {
+    const error = new RateLimitedError(
+      secondsUntilUtcMidnight(),
+      `Daily quota of ${dailyQuota} analyses reached (${usage.analyses} used, ${analyses} requested); resets at 00:00 UTC`
+    );
+    return { ok: false, client, response: errorResponse(error, headers) };
+  }
+  return { ok: true, client, headers };
+}
+
+/**
+ * `response` with `headers` added; works for JSON, Markdown and streams alike.
+ */
+export function withHeaders<R extends Response>(response: R, headers: Record<string, string>): R {
+  for (const [name, value] of Object.entries(headers)) response.headers.set(name, value);
+  return response;
+}
+
+// ==========================================
+// ADMIN
+// ==========================================
+
+function sameSecret(a: string, b: string): boolean {
+  // Hashing first gives equal lengths, which timingSafeEqual requires
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/**
+ * The error response for a request without the admin key, or null when it
+ * may proceed. Fails closed when ADMIN_API_KEY is not set.
+ */
+export function requireAdmin(request: Request): NextResponse | null {
+  const expectedKey = process.env.ADMIN_API_KEY;
+  if (!expectedKey) {
+    console.error('[Config] CRITICAL: ADMIN_API_KEY is not set. Refusing to serve admin traffic.');
+    return errorResponse(new ApiError('MISCONFIGURED', 'Service misconfigured'));
+  }
+
+  const provided = request.headers.get('x-admin-api-key');
+  if (!provided || !sameSecret(provided, expectedKey)) {
+    return errorResponse(new ApiError('UNAUTHORIZED', 'Missing or invalid x-admin-api-key'));
+  }
+  return null;
+}
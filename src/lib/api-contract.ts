@@ -0,0 +1,89 @@
+/**
+ * API CONTRACT
+ *
+ * Route-side enforcement of src/lib/types/api-schemas.ts: bodies that fail
+ * their schema are INVALID_REQUEST, responses that fail theirs are a 500.
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ApiErrorSchema } from './types/api-schemas';
+import { ApiError, ApiErrorDetails, ERROR_STATUS } from './errors';
+import { ApiErrorBody } from './types/honest-response';
+
+export type ContractIssue = NonNullable<ApiErrorDetails['issues']>[number];
+
+export type ParsedBody<T> =
+  | { ok: true; data: T }
+  | { ok: false; response: NextResponse };
+
+function describeIssues(error: z.ZodError): ContractIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join('.') || '(body)',
+    message: issue.message,
+  }));
+}
+
+/**
+ * Read and validate a JSON request body. On failure the 400 response to
+ * return is ready in `response`.
+ */
+export async function parseRequestBody<S extends z.ZodTypeAny>(
+  request: Request,
+  schema: S
+): Promise<ParsedBody<z.infer<S>>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    const issues = [{ path: '(body)', message: 'Expected a JSON object' }];
+    return { ok: false, response: errorResponse(new ApiError('INVALID_REQUEST', 'Request body is not valid JSON', { issues })) };
+  }
+
+  const parsed = schema.safeParse(body ?? {});
+  if (!parsed.success) {
+    const issues = describeIssues(parsed.error);
+    return { ok: false, response: errorResponse(new ApiError('INVALID_REQUEST', issues[0].message, { issues })) };
+  }
+  return { ok: true, data: parsed.data };
+}
+
+/**
+ * Issues `value` has against `schema`, logged under `context`; empty when it conforms.
+ */
+export function checkContract(schema: z.ZodTypeAny, value: unknown, context: string): ContractIssue[] {
+  const parsed = schema.safeParse(value);
+  if (parsed.success) return [];
+  const issues = describeIssues(parsed.error);
+  console.error(`[Contract] ${context} does not match its schema:`, JSON.stringify(issues.slice(0, 10)));
+  return issues;
+}
+
+/**
+ * `NextResponse.json` for a body that must match `schema`. The body is sent
+ * as given (not the parsed copy), so validation never reshapes a response.
+ */
+export function contractJson(
+  schema: z.ZodTypeAny,
+  body: unknown,
+  init: ResponseInit = {},
+  context = 'Response'
+): NextResponse {
+  if (checkContract(schema, body, context).length > 0) {
+    return errorResponse(new ApiError('INTERNAL_ERROR', 'Response did not match the published API schema'));
+  }
+  return NextResponse.json(body, init);
+}
+
+/**
+ * The envelope for `error` with the status its code maps to. RATE_LIMITED
+ * also carries Retry-After.
+ */
+export function errorResponse(error: ApiError | ApiErrorBody, headers: Record<string, string> = {}): NextResponse {
+  const body = error instanceof ApiError ? error.toBody() : error;
+  const retryAfter = body.details?.retryAfter;
+  return contractJson(ApiErrorSchema, body, {
+    status: ERROR_STATUS[body.code],
+    headers: retryAfter === undefined ? headers : { ...headers, 'Retry-After': String(retryAfter) },
+  });
+}
@@ -0,0 +1,148 @@
+/**
+ * API KEYS
+ *
+ * Issued keys and their daily usage, in SQLite. Only the SHA-256 of a key is
+ * stored; the key itself is returned once, at issue or rotation.
+ */
+
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import type { z } from 'zod';
+import db from './db';
+import type { ApiKeySchema, ApiKeyCreateRequestSchema, ApiKeyUsageSchema } from './types/api-schemas';
+
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+export type ApiKeyUsage = z.infer<typeof ApiKeyUsageSchema>;
+export type ApiKeyOptions = z.infer<typeof ApiKeyCreateRequestSchema>;
+
+export const API_KEY_PREFIX = 'vl_';
+export const DEFAULT_KEY_RATE_LIMIT = 100; // Requests per minute
+export const DEFAULT_KEY_DAILY_QUOTA = 1000; // Analyses per UTC day
+const VISIBLE_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+
+export function hashApiKey(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function generateSecret(): string {
+  return API_KEY_PREFIX + randomBytes(24).toString('base64url');
+}
+
+export function usageDay(now = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function toApiKey(row: Record<string, unknown>): ApiKey {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    prefix: row.prefix as string,
+    rateLimitPerMinute: row.rateLimitPerMinute as number,
+    dailyQuota: (row.dailyQuota as number | null) ?? null,
+    createdAt: row.createdAt as string,
+    ...(row.rotatedAt ? { rotatedAt: row.rotatedAt as string } : {}),
+    ...(row.revokedAt ? { revokedAt: row.revokedAt as string } : {}),
+    ...(row.lastUsedAt ? { lastUsedAt: row.lastUsedAt as string } : {}),
+    usageToday: getApiKeyUsage(row.id as string),
+  };
+}
+
+// ==========================================
+// KEYS
+// ==========================================
+
+/**
+ * Issue a key. The returned secret is the only copy.
+ */
+export function createApiKey(options: ApiKeyOptions): { key: ApiKey; secret: string } {
+  const id = randomUUID();
+  const secret = generateSecret();
+  db.prepare(`
+    INSERT INTO api_keys (id, name, prefix, keyHash, rateLimitPerMinute, dailyQuota, createdAt)
+    VALUES (@id, @name, @prefix, @keyHash, @rateLimitPerMinute, @dailyQuota, @createdAt)
+  `).run({
+    id,
+    name: options.name,
+    prefix: secret.slice(0, VISIBLE_PREFIX_LENGTH),
+    keyHash: hashApiKey(secret),
+    rateLimitPerMinute: options.rateLimitPerMinute ?? DEFAULT_KEY_RATE_LIMIT,
+    dailyQuota: options.dailyQuota === undefined ? DEFAULT_KEY_DAILY_QUOTA : options.dailyQuota,
+    createdAt: new Date().toISOString(),
+  });
+  return { key: getApiKey(id) as ApiKey, secret };
+}
+
+export function getApiKey(id: string): ApiKey | null {
+  const row = db.prepare('SELECT * FROM api_keys WHERE id = ?').get(id);
+  return row && row.id ? toApiKey(row) : null;
+}
+
+export function listApiKeys(): ApiKey[] {
+  return db.prepare('SELECT * FROM api_keys ORDER BY createdAt').all().map(toApiKey);
+}
+
+/**
+ * The key `secret` belongs to, revoked or not; null when it was never issued
+ * or has been rotated away.
+ */
+export function findApiKeyBySecret(secret: string): ApiKey | null {
+  const row = db.prepare('SELECT * FROM api_keys WHERE keyHash = ?').get(hashApiKey(secret));
+  return row && row.id ? toApiKey(row) : null;
+}
+
+/**
+ * Replace the secret of an active key. Null for an unknown key; revoked keys
+ * cannot be rotated (the caller decides how to report that).
+ */
+export function rotateApiKey(id: string): { key: ApiKey; secret: string } | null {
+  const key = getApiKey(id);
+  if (!key || key.revokedAt) return null;
+  const secret = generateSecret();
+  db.prepare(`
+    UPDATE api_keys SET prefix = @prefix, keyHash = @keyHash, rotatedAt = @now WHERE id = @id
+  `).run({ id, prefix: secret.slice(0, VISIBLE_PREFIX_LENGTH), keyHash: hashApiKey(secret), now: new Date().toISOString() });
+  return { key: getApiKey(id) as ApiKey, secret };
+}
+
+/**
+ * Revoke a key. Revoking twice keeps the first revocation time.
+ */
+export function revokeApiKey(id: string): ApiKey | null {
+  db.prepare('UPDATE api_keys SET revokedAt = COALESCE(revokedAt, @now) WHERE id = @id')
+    .run({ id, now: new Date().toISOString() });
+  return getApiKey(id);
+}
+
+// ==========================================
+// USAGE
+// ==========================================
+
+export function getApiKeyUsage(id: string, day = usageDay()): ApiKeyUsage {
+  const row = db.prepare('SELECT requests, analyses FROM api_key_usage WHERE keyId = ? AND day = ?').get(id, day);
+  return { requests: (row?.requests as number) ?? 0, analyses: (row?.analyses as number) ?? 0 };
+}
+
+/**
+ * Count one request and its `analyses` against the key for `day`, unless that
+ * would take the day past `dailyQuota` (null: unlimited). The check and the
+ * increment are one statement, so concurrent requests cannot overshoot.
+ */
+export function claimApiKeyUsage(
+  id: string,
+  analyses: number,
+  dailyQuota: number | null,
+  now = Date.now()
+): { allowed: boolean; usage: ApiKeyUsage } {
+  const day = usageDay(now);
+  const allowed = db.transaction(() => {
+    const { changes } = db.prepare(`
+      INSERT INTO api_key_usage (keyId, day, requests, analyses)
+      SELECT @id, @day, 1, @analyses WHERE @quota IS NULL OR @analyses <= @quota
+      ON CONFLICT (keyId, day) DO UPDATE SET requests = requests + 1, analyses = analyses + @analyses
+      WHERE @quota IS NULL OR api_key_usage.analyses + @analyses <= @quota
+    `).run({ id, day, analyses, quota: dailyQuota });
+    if (changes === 0) return false;
+    db.prepare('UPDATE api_keys SET lastUsedAt = @now WHERE id = @id').run({ id, now: new Date(now).toISOString() });
+    return true;
+  })();
+  return { allowed, usage: getApiKeyUsage(id, day) };
+}
@@ -8,25 +8,11 @@
  * Future: Plug in database, file system, or external service.
  */
 
+import type { z } from 'zod';
 import db from './db';
+import type { AuditEntrySchema } from './types/api-schemas';
 
-export interface AuditEntry {
-  timestamp: string;
-  requestId: string;
-  hgvs: string;
-  gene: string;
-  residue: number;
-  ip: string;
-  status: 'success' | 'error' | 'rate_limited';
-  processingMs: number;
-  evidenceSources: {
-    clinvar: boolean;
-    structure: boolean;
-    literature: boolean;
-  };
-  errorCode?: string;
-  route?: string;
-}
+export type AuditEntry = z.infer<typeof AuditEntrySchema>;
 
 /**
  * Generate a unique request ID for correlation.
@@ -69,7 +55,8 @@ export function logAuditEntry(entry: Omit<AuditEntry, 'requestId' | 'timestamp'>
         residue: fullEntry.residue,
         ip: fullEntry.ip,
         evidenceSources: fullEntry.evidenceSources,
-        errorCode: fullEntry.errorCode
+        errorCode: fullEntry.errorCode,
+        apiKeyId: fullEntry.apiKeyId,
       })
     });
   } catch (error) {
@@ -104,6 +91,7 @@ export function getRecentAuditEntries(limit = 100): AuditEntry[] {
         ip: meta.ip,
         evidenceSources: meta.evidenceSources,
         errorCode: meta.errorCode,
+        ...(meta.apiKeyId ? { apiKeyId: meta.apiKeyId } : {}),
       };
     });
   } catch (error) {
@@ -161,7 +149,7 @@ export function getAuditSummary(): {
  * Export audit log as CSV string (for download/archival).
  */
 export function exportAuditCSV(): string {
-  const header = 'timestamp,requestId,hgvs,gene,residue,ip,status,processingMs,clinvar,structure,literature,errorCode';
+  const header = 'timestamp,requestId,hgvs,gene,residue,ip,status,processingMs,clinvar,structure,literature,errorCode,apiKeyId';
   const entries = getRecentAuditEntries(10000); // Limit CSV export size for now
   
   const rows = entries.map(e => 
@@ -178,6 +166,7 @@ export function exportAuditCSV(): string {
       e.evidenceSources?.structure ?? false,
       e.evidenceSources?.literature ?? false,
       e.errorCode || '',
+      e.apiKeyId || '',
     ].join(',')
   );
   return [header, ...rows].join('\n');
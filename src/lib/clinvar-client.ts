@@ -5,8 +5,9 @@
  * Title parsing is fallback only — title-parsed alleles cap at 'partial'.
  * 
  * MATCHING RULES:
- * - 'exact': gene + ref + pos + alt match from STRUCTURED DATA only
- * - 'partial': allele matches from title, or gene+pos only, or transcript mismatch
+ * - 'exact': gene + ref + span + edit match from STRUCTURED DATA only
+ * - 'partial': allele matches from title, or gene+span only, overlapping span,
+ *   or transcript mismatch
  * - 'none': no meaningful match (stars suppressed — no tie-break inflation)
  * 
  * CONSTRAINTS:
@@ -17,14 +18,33 @@
  */
 
 import { fetchWithRetry, FetchResult, FetchFailure } from './fetch-utils';
-import { toThreeLetter, AMINO_ACIDS } from './variant';
+import {
+  toThreeLetter,
+  parseProteinChange,
+  describeProteinChange,
+  getAffectedRange,
+  ProteinChange,
+} from './variant';
+import { genesEquivalent, getSymbolVariants } from './gene-registry';
+import { CLASSIFICATION_LABELS } from './report-utils';
 
 // ==========================================
 // TYPES
 // ==========================================
 
+/** ClinVar's aggregate classification types, each reviewed on its own */
+export type ClinVarClassificationType = 'germline' | 'somatic_clinical_impact' | 'oncogenicity';
+
+export interface ClinVarClassification {
+  type: ClinVarClassificationType;
+  description: string;   // As ClinVar states it, e.g. "Tier I - Strong", "Oncogenic"
+  reviewStatus: string;
+  lastEvaluated?: string; // YYYY-MM-DD
+  conditions: string[];
+}
+
 export interface ClinVarResult {
-  clinicalSignificance: string;
+  clinicalSignificance: string; // Germline aggregate (see classifications for the others)
   reviewStatus: string;
   clinvarId: string;
   conditions: string[];
@@ -32,16 +52,34 @@ export interface ClinVarResult {
   submitterCount: number;
   title: string;
   matchType: 'exact' | 'partial' | 'none';
+  /** Every aggregate classification on the record; absent from injected results */
+  classifications?: ClinVarClassification[];
   /** Raw esummary item — used by structured parser, not serialized to API */
   _raw?: any;
 }
 
+/** Another ClinVar variant at or near the queried residue */
+export interface ClinVarNeighbor {
+  clinvarId: string;
+  proteinChange: string; // p.Arg175Cys
+  significance: string;
+  reviewStatus: string;
+  stars: number;
+  url: string;
+}
+
+export interface ResidueClinVarVariants {
+  residue: number;
+  variants: ClinVarNeighbor[];
+}
+
 /** Canonical allele representation for comparison */
 interface ParsedAllele {
   gene: string;
   ref: string;     // 3-letter (e.g. "Val")
   pos: number;
-  alt: string;     // 3-letter (e.g. "Glu")
+  end: number;     // Last affected residue (== pos for single-residue changes)
+  alt: string;     // 3-letter (e.g. "Glu") or edit (e.g. "del", "delinsArgSer", "extTrp*?")
   transcript?: string;  // NM_... if available
 }
 
@@ -49,30 +87,11 @@ interface ParsedAllele {
 // CACHE
 // ==========================================
 const clinvarCache = new Map<string, FetchResult<ClinVarResult>>();
+const neighborhoodCache = new Map<string, FetchResult<ResidueClinVarVariants[]>>();
 
-// Gene symbol aliases that matter for ClinVar indexing.
-const CLINVAR_GENE_ALIASES: Record<string, string[]> = {
-  GBA: ['GBA', 'GBA1'],
-  GBA1: ['GBA1', 'GBA'],
-};
-
-function getGeneSearchTerms(gene: string): string[] {
-  const upper = gene.toUpperCase();
-  return CLINVAR_GENE_ALIASES[upper] || [upper];
-}
-
-function genesEquivalent(a: string, b: string): boolean {
-  const aUpper = (a || '').toUpperCase();
-  const bUpper = (b || '').toUpperCase();
-  if (!aUpper || !bUpper) return false;
-  if (aUpper === bUpper) return true;
-
-  const aTerms = new Set(getGeneSearchTerms(aUpper));
-  const bTerms = new Set(getGeneSearchTerms(bUpper));
-  for (const term of aTerms) {
-    if (bTerms.has(term)) return true;
-  }
-  return false;
+// A lookup the caller cancelled says nothing about ClinVar; it is not cached
+function remember<T>(cache: Map<string, T>, key: string, value: T, signal?: AbortSignal): void {
+  if (!signal?.aborted) cache.set(key, value);
 }
 
 // ==========================================
@@ -86,7 +105,8 @@ function genesEquivalent(a: string, b: string): boolean {
  */
 export async function getClinVarData(
   gene: string,
-  proteinChange: string
+  proteinChange: string,
+  signal?: AbortSignal
 ): Promise<FetchResult<ClinVarResult>> {
   const cacheKey = `${gene}:${proteinChange}`;
   
@@ -96,16 +116,16 @@ export async function getClinVarData(
 
   try {
     // Step 1: Search for the variant in ClinVar (fetch more candidates)
-    const searchResult = await searchClinVar(gene, proteinChange);
+    const searchResult = await searchClinVar(gene, proteinChange, signal);
     
     // Handle resiliency failure in search
     if (searchResult && 'unavailable' in searchResult) {
-      clinvarCache.set(cacheKey, searchResult);
+      remember(clinvarCache, cacheKey, searchResult, signal);
       return searchResult;
     }
 
     if (!searchResult || !searchResult.esearchresult.idlist || searchResult.esearchresult.idlist.length === 0) {
-      clinvarCache.set(cacheKey, null);
+      remember(clinvarCache, cacheKey, null, signal);
       return null;
     }
 
@@ -114,13 +134,13 @@ export async function getClinVarData(
     console.log(`[ClinVar] Found ${variantIds.length} candidates for ${gene} ${proteinChange}`);
     
     // Step 3: Fetch details for ALL candidates in one go
-    const allDetails = await fetchClinVarSummaryBatch(variantIds);
+    const allDetails = await fetchClinVarSummaryBatch(variantIds, signal);
     
     // Handle resiliency failure in summary fetch
     if ((allDetails as any).unavailable) {
         // If it's an array it's success, if it's an object with 'unavailable' it's failure
         // logic check: fetchClinVarSummaryBatch returns FetchResult<ClinVarResult[]>
-        clinvarCache.set(cacheKey, allDetails as FetchFailure);
+        remember(clinvarCache, cacheKey, allDetails as FetchFailure, signal);
         return allDetails as FetchFailure;
     }
     
@@ -128,14 +148,14 @@ export async function getClinVarData(
     const candidates = allDetails as ClinVarResult[];
 
     if (candidates.length === 0) {
-      clinvarCache.set(cacheKey, null);
+      remember(clinvarCache, cacheKey, null, signal);
       return null;
     }
 
     // Step 4: Filter and Rank to find the BEST match (allele-safe)
     const bestMatch = pickBestClinVarEntry(candidates, gene, proteinChange);
 
-    clinvarCache.set(cacheKey, bestMatch);
+    remember(clinvarCache, cacheKey, bestMatch, signal);
     return bestMatch;
 
   } catch (error) {
@@ -148,11 +168,124 @@ export async function getClinVarData(
         service: 'clinvar', 
         details: (error as Error).message 
     };
-    clinvarCache.set(cacheKey, failure);
+    remember(clinvarCache, cacheKey, failure, signal);
+    return failure;
+  }
+}
+
+/**
+ * ClinVar variants starting at any of `residues` (position plus reference
+ * residue, one-letter), grouped by residue. The allele `proteinChange` names
+ * is left out: it is the clinical section's subject.
+ * Returns [] when ClinVar has none, FetchFailure if the API is unavailable.
+ */
+export async function getClinVarNeighborhood(
+  gene: string,
+  proteinChange: string,
+  residues: Array<{ position: number; ref: string }>,
+  signal?: AbortSignal
+): Promise<FetchResult<ResidueClinVarVariants[]>> {
+  const cacheKey = `${gene}:${proteinChange}:${residues.map((r) => `${r.ref}${r.position}`).join(',')}`;
+  if (neighborhoodCache.has(cacheKey)) {
+    return neighborhoodCache.get(cacheKey)!;
+  }
+
+  try {
+    const searchResult = await searchClinVarResidues(gene, residues, signal);
+    if (searchResult && 'unavailable' in searchResult) {
+      remember(neighborhoodCache, cacheKey, searchResult, signal);
+      return searchResult;
+    }
+    const variantIds: string[] = searchResult?.esearchresult?.idlist ?? [];
+    if (variantIds.length === 0) {
+      remember(neighborhoodCache, cacheKey, [], signal);
+      return [];
+    }
+
+    const details = await fetchClinVarSummaryBatch(variantIds, signal);
+    if (details && 'unavailable' in details) {
+      remember(neighborhoodCache, cacheKey, details, signal);
+      return details;
+    }
+
+    const grouped = groupByResidue(details ?? [], gene, proteinChange, residues);
+    remember(neighborhoodCache, cacheKey, grouped, signal);
+    return grouped;
+  } catch (error) {
+    console.error('[ClinVar] Unexpected error in residue neighborhood:', error);
+    const failure: FetchFailure = {
+      unavailable: true,
+      reason: 'unknown',
+      service: 'clinvar',
+      details: (error as Error).message,
+    };
+    remember(neighborhoodCache, cacheKey, failure, signal);
     return failure;
   }
 }
 
+/**
+ * Keep candidates whose change starts at one of `residues` with the same
+ * reference residue, in residue order; the queried allele is dropped.
+ */
+function groupByResidue(
+  candidates: ClinVarResult[],
+  gene: string,
+  proteinChange: string,
+  residues: Array<{ position: number; ref: string }>
+): ResidueClinVarVariants[] {
+  const input = findProteinChange(proteinChange);
+  const inputName = input ? describeProteinChange(input, 'three') : null;
+  const refs = new Map(residues.map((r) => [r.position, r.ref.toUpperCase()]));
+  const byResidue = new Map<number, ClinVarNeighbor[]>();
+
+  for (const candidate of candidates) {
+    const change = candidateProteinChange(candidate);
+    if (!change) continue;
+    // Title gene, when stated, must be the queried gene (the search may reach readthrough genes)
+    const titleGene = parseVariantFromTitle(candidate.title)?.gene;
+    if (titleGene && !genesEquivalent(titleGene, gene)) continue;
+    const { start } = getAffectedRange(change);
+    if (refs.get(start) !== change.ref.toUpperCase()) continue;
+    const name = describeProteinChange(change, 'three');
+    if (name === inputName) continue;
+
+    const variants = byResidue.get(start) ?? [];
+    if (variants.some((v) => v.clinvarId === candidate.clinvarId)) continue;
+    variants.push({
+      clinvarId: candidate.clinvarId,
+      proteinChange: `p.${name}`,
+      significance: candidate.clinicalSignificance,
+      reviewStatus: candidate.reviewStatus,
+      stars: getReviewStars(candidate.reviewStatus),
+      url: getClinVarUrl(candidate.clinvarId),
+    });
+    byResidue.set(start, variants);
+  }
+
+  return [...byResidue.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([residue, variants]) => ({
+      residue,
+      // Best-reviewed first, so the strongest classification at each residue leads
+      variants: variants.sort((a, b) => b.stars - a.stars || a.proteinChange.localeCompare(b.proteinChange)),
+    }));
+}
+
+/**
+ * Protein change of a candidate from structured fields, else its title.
+ */
+function candidateProteinChange(candidate: ClinVarResult): ProteinChange | null {
+  const raw = candidate._raw || {};
+  const variationSets = raw.variation_set ? (Array.isArray(raw.variation_set) ? raw.variation_set : [raw.variation_set]) : [];
+  const names: string[] = [...variationSets.map((vs: any) => vs.variation_name), candidate.title].filter(Boolean);
+  for (const name of names) {
+    const change = findProteinChange(name);
+    if (change) return change;
+  }
+  return null;
+}
+
 // ==========================================
 // ALLELE PARSING (structured fields + title fallback)
 // ==========================================
@@ -200,30 +333,54 @@ function parseAlleleFromStructuredFields(result: any): ParsedAllele | null {
   }
 }
 
+/**
+ * Find the first protein change in free text and parse it with the shared HGVS grammar.
+ * Handles: "p.Val600Glu", "p.V600E", "Val600Glu", "(p.Glu746_Ala750del)"
+ */
+function findProteinChange(input: string): ProteinChange | null {
+  const candidates: string[] = [];
+  const marked = input.match(/p\.\(?([^\s()]+)\)?/);
+  if (marked) candidates.push(marked[1]);
+  const loose = input.match(/([A-Z][a-z]{2}|[A-Z])(\d+)([A-Z][a-z]{2}|[A-Z]|\*)/);
+  if (loose) candidates.push(loose[0]);
+
+  for (const candidate of candidates) {
+    try {
+      const change = parseProteinChange(candidate);
+      if (change) return change;
+    } catch {
+      // Unknown amino acid codes are not alleles; try the next candidate
+    }
+  }
+  return null;
+}
+
+function toAllele(gene: string, change: ProteinChange, transcript?: string): ParsedAllele {
+  const { start, end } = getAffectedRange(change);
+  const substitution = ['missense', 'nonsense', 'silent'].includes(change.type);
+  const inserted = (change.inserted || '').split('').filter(Boolean).map(toThreeLetter).join('');
+  return {
+    gene,
+    ref: toThreeLetter(change.ref),
+    pos: start,
+    end,
+    alt: substitution ? toThreeLetter(change.alt) : `${change.alt}${inserted}${change.extension || ''}`,
+    transcript,
+  };
+}
+
 /**
  * Parse protein HGVS string into canonical allele.
- * Handles: "p.Val600Glu", "p.V600E", "Val600Glu"
+ * Handles: "p.Val600Glu", "p.V600E", "Val600Glu", "BRAF(p.Glu746_Ala750del)"
  */
 function parseProteinHGVS(input: string): ParsedAllele | null {
   if (!input) return null;
-  
-  // Match patterns like: GENE(p.Val600Glu), NM_xxx(GENE):c.xxx (p.Val600Glu), p.Val600Glu
-  const proteinPattern = /(?:([A-Z][A-Z0-9]+)\s*\()?\s*(?:p\.)?([A-Za-z]+?)(\d+)([A-Za-z]+|\*|Ter)\s*\)?/;
-  const match = input.match(proteinPattern);
-  if (!match) return null;
-
-  const [, gene, rawRef, posStr, rawAlt] = match;
-  const pos = parseInt(posStr, 10);
-  if (isNaN(pos)) return null;
 
-  // Normalize to 3-letter
-  const ref = rawRef.length === 1 ? toThreeLetter(rawRef) : rawRef;
-  const alt = rawAlt.length === 1 ? toThreeLetter(rawAlt) : rawAlt;
+  const change = findProteinChange(input);
+  if (!change) return null;
 
-  // Validate amino acids
-  if (!isValidAminoAcid(ref) || !isValidAminoAcid(alt)) return null;
-
-  return { gene: gene || '', ref, pos, alt };
+  const geneMatch = input.match(/([A-Z][A-Z0-9]+)\)?\s*[:(]/);
+  return toAllele(geneMatch ? geneMatch[1] : '', change);
 }
 
 /**
@@ -253,31 +410,11 @@ function parseVariantFromTitle(title: string): ParsedAllele | null {
     gene = geneMatch[1];
   }
 
-  // Try to extract protein change (3-letter or 1-letter)
-  // Look for p.Xxx000Xxx pattern
-  const proteinMatch = title.match(/(?:p\.)?([A-Z][a-z]{2}|[A-Z])(\d+)([A-Z][a-z]{2}|[A-Z]|\*|Ter)/);
-  if (!proteinMatch) return null;
-
-  const [, rawRef, posStr, rawAlt] = proteinMatch;
-  const pos = parseInt(posStr, 10);
-  if (isNaN(pos)) return null;
-
-  // Normalize to 3-letter
-  const ref = rawRef.length === 1 ? toThreeLetter(rawRef) : rawRef;
-  const alt = rawAlt.length === 1 ? toThreeLetter(rawAlt) : rawAlt;
+  // Try to extract protein change (3-letter or 1-letter), including ranges and delins
+  const change = findProteinChange(title);
+  if (!change) return null;
 
-  if (!isValidAminoAcid(ref) || !isValidAminoAcid(alt)) return null;
-
-  return { gene, ref, pos, alt, transcript };
-}
-
-function isValidAminoAcid(aa: string): boolean {
-  if (aa === '*' || aa === 'Ter') return true;
-  // Check 3-letter code
-  if (aa in AMINO_ACIDS) return true;
-  // Check 1-letter code
-  const allOneLetter = new Set(Object.values(AMINO_ACIDS));
-  return allOneLetter.has(aa);
+  return toAllele(gene, change, transcript);
 }
 
 // ==========================================
@@ -304,7 +441,7 @@ function pickBestClinVarEntry(
     if (!inputAllele) {
       console.warn(`[ClinVar] Could not parse input allele: ${gene} ${proteinChange}`);
       // Can't do allele matching — return best by gene match only as 'partial'
-      const geneTerms = getGeneSearchTerms(gene);
+      const geneTerms = getSymbolVariants(gene);
       const geneMatches = candidates.filter((c) => {
         const title = (c.title || '').toUpperCase();
         return geneTerms.some((term) => title.includes(term));
@@ -334,8 +471,9 @@ function pickBestClinVarEntry(
           const geneMatch = candidateAllele.gene === '' || // unknown gene in candidate is OK
             genesEquivalent(candidateAllele.gene, inputAllele.gene);
           
-          // Position check
-          const posMatch = candidateAllele.pos === inputAllele.pos;
+          // Position check (whole affected span must agree)
+          const posMatch = candidateAllele.pos === inputAllele.pos && candidateAllele.end === inputAllele.end;
+          const spanOverlaps = candidateAllele.pos <= inputAllele.end && candidateAllele.end >= inputAllele.pos;
           
           // Allele check (ref + alt)
           const refMatch = candidateAllele.ref.toLowerCase() === inputAllele.ref.toLowerCase();
@@ -365,6 +503,10 @@ function pickBestClinVarEntry(
           } else if (geneMatch && posMatch) {
             matchType = 'partial';
             score = 40;
+          } else if (geneMatch && spanOverlaps) {
+            // A different change inside (or across) the affected range
+            matchType = 'partial';
+            score = 25;
           } else if (geneMatch) {
             matchType = 'partial';
             score = 10;
@@ -373,7 +515,7 @@ function pickBestClinVarEntry(
         } else {
           // Parse failed — check title for gene at minimum
           const title = (c.title || '').toUpperCase();
-          const geneTerms = getGeneSearchTerms(gene);
+          const geneTerms = getSymbolVariants(gene);
           if (geneTerms.some((term) => title.includes(term))) {
             matchType = 'partial'; // NEVER exact from failed parse
             score = 5;
@@ -427,19 +569,6 @@ function pickBestClinVarEntry(
     return cleanBest as ClinVarResult;
 }
 
-// Helper to extract protein part from potentially transcript-prefixed string
-// e.g. "NM_004333.6:p.Val600Glu" -> "Val600Glu"
-// e.g. "p.V600E" -> "V600E" 
-function extractProteinPart(input: string): string | null {
-  // Find the first protein-like token anywhere in the string
-  // Handles: "...:p.Val600Glu", "p.V600E", "BRAF(p.Val600Glu)"
-  // Matches: p. (optional) + 1/3 letters + digits + 1/3 letters or * or Ter
-  const m = input.match(/(?:p\.)?([A-Za-z]{1,3})(\d+)([A-Za-z]{1,3}|\*|Ter)/);
-  if (!m) return null;
-  // Regex groups: 1=Ref, 2=Pos, 3=Alt
-  return `${m[1]}${m[2]}${m[3]}`; 
-}
-
 /**
  * Parse input gene + proteinChange into canonical allele.
  */
@@ -449,22 +578,10 @@ function parseInputToAllele(gene: string, proteinChange: string): ParsedAllele |
   const transcriptMatch = proteinChange.match(/(NM_\d+(?:\.\d+)?)/);
   if (transcriptMatch) transcript = transcriptMatch[1];
 
-  // Extract protein part robustly
-  const proteinPart = extractProteinPart(proteinChange);
-  if (!proteinPart) return null;
-
-  const match = proteinPart.match(/([A-Za-z]+?)(\d+)([A-Za-z]+|\*|Ter)/);
-  if (!match) return null;
-
-  const [, rawRef, posStr, rawAlt] = match;
-  const pos = parseInt(posStr, 10);
-  if (isNaN(pos)) return null;
+  const change = findProteinChange(proteinChange);
+  if (!change) return null;
 
-  // Normalize to 3-letter
-  const ref = rawRef.length === 1 ? toThreeLetter(rawRef) : rawRef;
-  const alt = rawAlt.length === 1 ? toThreeLetter(rawAlt) : rawAlt;
-
-  return { gene, ref, pos, alt, transcript };
+  return toAllele(gene, change, transcript);
 }
 
 // ==========================================
@@ -474,8 +591,9 @@ function parseInputToAllele(gene: string, proteinChange: string): ParsedAllele |
 /**
  * Search ClinVar for a variant
  */
-async function searchClinVar(gene: string, proteinChange: string): Promise<FetchResult<any>> {
-  const geneTerms = getGeneSearchTerms(gene);
+async function searchClinVar(gene: string, proteinChange: string, signal?: AbortSignal): Promise<FetchResult<any>> {
+  // ClinVar still indexes some records under withdrawn symbols (e.g. GBA for GBA1)
+  const geneTerms = getSymbolVariants(gene);
   const searchTerms = buildClinVarVariantTerms(proteinChange);
   const geneClause = geneTerms.map((g) => `${g}[gene]`).join(' OR ');
 
@@ -486,7 +604,8 @@ async function searchClinVar(gene: string, proteinChange: string): Promise<Fetch
 
   const strictResult = await fetchWithRetry<any>(strictUrl, {
     circuitBreakerKey: 'clinvar',
-    timeoutMs: 8000
+    timeoutMs: 8000,
+    signal,
   });
 
   if (strictResult && 'unavailable' in strictResult) {
@@ -502,37 +621,45 @@ async function searchClinVar(gene: string, proteinChange: string): Promise<Fetch
   const broadUrl = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi?db=clinvar&term=${encodeURIComponent(broadQuery)}&retmode=json&retmax=40`;
   const broadResult = await fetchWithRetry<any>(broadUrl, {
     circuitBreakerKey: 'clinvar',
-    timeoutMs: 8000
+    timeoutMs: 8000,
+    signal,
   });
 
   return broadResult;
 }
 
+/**
+ * Search ClinVar for every variant starting at the given residues: ClinVar
+ * names carry 3-letter codes, so "p.Arg175*" truncation finds each change there.
+ */
+async function searchClinVarResidues(
+  gene: string,
+  residues: Array<{ position: number; ref: string }>,
+  signal?: AbortSignal
+): Promise<FetchResult<any>> {
+  const geneClause = getSymbolVariants(gene).map((g) => `${g}[gene]`).join(' OR ');
+  const residueClause = residues.map((r) => `p.${toThreeLetter(r.ref.toUpperCase())}${r.position}*[variant name]`).join(' OR ');
+  const query = `(${geneClause}) AND (${residueClause})`;
+  const url = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi?db=clinvar&term=${encodeURIComponent(query)}&retmode=json&retmax=100`;
+
+  console.log(`[ClinVar] Residue neighborhood search: ${gene} residues ${residues.map((r) => r.position).join(', ')}`);
+  return fetchWithRetry<any>(url, {
+    circuitBreakerKey: 'clinvar',
+    timeoutMs: 8000,
+    signal,
+  });
+}
+
 function buildClinVarVariantTerms(proteinChange: string): string[] {
   const terms = new Set<string>();
 
-  const cleaned = extractProteinPart(proteinChange);
-  if (cleaned) {
-    const parsed = cleaned.match(/^([A-Za-z]{1,3})(\d+)([A-Za-z]{1,3}|Ter|\*|fs|del|ins|dup)/i);
-    if (parsed) {
-      const [, rawRef, posStr, rawAlt] = parsed;
-      const refOne = rawRef.length === 1 ? rawRef.toUpperCase() : AMINO_ACIDS[rawRef[0].toUpperCase() + rawRef.slice(1).toLowerCase()];
-      const altOne = rawAlt.length === 1 ? rawAlt.toUpperCase() : AMINO_ACIDS[rawAlt[0].toUpperCase() + rawAlt.slice(1).toLowerCase()];
-      const refThree = rawRef.length === 1 ? toThreeLetter(rawRef.toUpperCase()) : rawRef;
-      const altThree = rawAlt.length === 1 ? toThreeLetter(rawAlt.toUpperCase()) : rawAlt;
-      const pos = posStr;
-
-      terms.add(`p.${rawRef}${pos}${rawAlt}`);
-      terms.add(`${rawRef}${pos}${rawAlt}`);
-
-      if (refOne && altOne) {
-        terms.add(`p.${refOne}${pos}${altOne}`);
-        terms.add(`${refOne}${pos}${altOne}`);
-      }
-      if (refThree && altThree && !/(fs|del|ins|dup)/i.test(rawAlt)) {
-        terms.add(`p.${refThree}${pos}${altThree}`);
-        terms.add(`${refThree}${pos}${altThree}`);
-      }
+  const change = findProteinChange(proteinChange);
+  if (change) {
+    // ClinVar names use 3-letter codes; legacy literature forms use 1-letter
+    for (const style of ['three', 'one'] as const) {
+      const described = describeProteinChange(change, style);
+      terms.add(`p.${described}`);
+      terms.add(described);
     }
   }
 
@@ -546,13 +673,14 @@ function buildClinVarVariantTerms(proteinChange: string): string[] {
 /**
  * Fetch details for multiple ClinVar IDs in batch
  */
-async function fetchClinVarSummaryBatch(clinvarIds: string[]): Promise<FetchResult<ClinVarResult[]>> {
+async function fetchClinVarSummaryBatch(clinvarIds: string[], signal?: AbortSignal): Promise<FetchResult<ClinVarResult[]>> {
   const idsParam = clinvarIds.join(',');
   const url = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi?db=clinvar&id=${idsParam}&retmode=json`;
   
   const result = await fetchWithRetry<any>(url, {
       circuitBreakerKey: 'clinvar',
-      timeoutMs: 8000
+      timeoutMs: 8000,
+      signal,
   });
 
   if (result && 'unavailable' in result) {
@@ -585,6 +713,7 @@ function parseClinVarResult(id: string, result: any): ClinVarResult {
         submitterCount: result.supporting_submissions?.scv?.length || 0,
         title: result.title || '',
         matchType: 'none', // default — upgraded by pickBestClinVarEntry
+        classifications: extractClassifications(result),
         _raw: result,       // Pass raw esummary data for structured parsing
     };
 }
@@ -603,9 +732,43 @@ function extractClinicalSignificance(result: any): string {
   if (result.clinical_significance) {
     return String(result.clinical_significance);
   }
+  // Somatic-only or oncogenicity-only records read as their own calls, named by category
+  const classifications = extractClassifications(result);
+  if (classifications.length > 0) {
+    return classifications.map((c) => `${CLASSIFICATION_LABELS[c.type]}: ${c.description}`).join('; ');
+  }
   return 'Unknown';
 }
 
+// esummary field holding each aggregate classification type
+const CLASSIFICATION_FIELDS: Array<[ClinVarClassificationType, string]> = [
+  ['germline', 'germline_classification'],
+  ['somatic_clinical_impact', 'clinical_impact_classification'],
+  ['oncogenicity', 'oncogenicity_classification'],
+];
+
+/**
+ * Each aggregate classification the record carries, with its own review
+ * status. Records from before the split hold a single clinical_significance,
+ * which was a germline classification.
+ */
+function extractClassifications(result: any): ClinVarClassification[] {
+  const classifications: ClinVarClassification[] = [];
+  for (const [type, field] of CLASSIFICATION_FIELDS) {
+    const aggregate = type === 'germline' && !result[field]?.description ? result.clinical_significance : result[field];
+    if (!aggregate?.description) continue;
+    const lastEvaluated = String(aggregate.last_evaluated || '').slice(0, 10).replace(/\//g, '-');
+    classifications.push({
+      type,
+      description: aggregate.description,
+      reviewStatus: aggregate.review_status || 'no assertion provided',
+      ...(/^\d{4}-\d{2}-\d{2}$/.test(lastEvaluated) ? { lastEvaluated } : {}),
+      conditions: (aggregate.trait_set ?? []).map((trait: any) => trait.trait_name).filter(Boolean),
+    });
+  }
+  return classifications;
+}
+
 function extractReviewStatus(result: any): string {
   if (result.clinical_significance?.review_status) {
     return result.clinical_significance.review_status;
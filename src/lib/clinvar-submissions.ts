@@ -0,0 +1,214 @@
+/**
+ * CLINVAR SUBMISSIONS
+ *
+ * Per-submitter (SCV) assertions behind a ClinVar record, read from the VCV
+ * XML, with a tally of what submitters said. Somatic and oncogenicity
+ * submissions are listed but not tallied, and combined calls
+ * ("Pathogenic/Likely pathogenic") keep their own bucket.
+ */
+
+import { fetchWithRetry, FetchFailure, FetchResult } from './fetch-utils';
+import type { ClinVarClassificationType } from './clinvar-client';
+
+export interface ClinVarSubmission {
+  scv: string;                // SCV000033680.1
+  submitter: string;
+  type: ClinVarClassificationType;
+  classification: string;    // As submitted, e.g. "Likely pathogenic"
+  dateLastEvaluated?: string; // YYYY-MM-DD
+  reviewStatus?: string;
+  method?: string;            // Assertion method, e.g. "ACMG Guidelines, 2015"
+  conditions: string[];
+}
+
+export interface ClassificationTally {
+  pathogenic: number;
+  pathogenicLikelyPathogenic: number; // ClinVar's combined "Pathogenic/Likely pathogenic" call
+  likelyPathogenic: number;
+  uncertain: number;
+  likelyBenign: number;
+  benignLikelyBenign: number;         // "Benign/Likely benign"
+  benign: number;
+  other: number; // Risk factor, drug response, not provided, ...
+}
+
+export interface ClinVarSubmissions {
+  vcv: string;    // VCV000012347.96
+  rcvs: string[]; // One per condition the variant is classified for
+  submissions: ClinVarSubmission[];
+  tally: ClassificationTally;
+}
+
+const submissionsCache = new Map<string, FetchResult<ClinVarSubmissions>>();
+
+// ==========================================
+// XML
+// ==========================================
+
+interface XmlElement {
+  attributes: Record<string, string>;
+  body: string;
+}
+
+function decodeXml(input: string): string {
+  return input
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;|&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Every `<tag>` element in `xml` (not nested in one another), with its
+ * attributes and raw body; self-closing elements have an empty body.
+ */
+function elements(xml: string, tag: string): XmlElement[] {
+  const pattern = new RegExp(`<${tag}(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</${tag}>)`, 'g');
+  return [...xml.matchAll(pattern)].map(([, attributeText = '', body = '']) => ({
+    attributes: Object.fromEntries(
+      [...attributeText.matchAll(/([\w:]+)="([^"]*)"/g)].map(([, name, value]) => [name, decodeXml(value)])
+    ),
+    body,
+  }));
+}
+
+function text(xml: string, tag: string): string | undefined {
+  const body = elements(xml, tag)[0]?.body;
+  return body === undefined ? undefined : decodeXml(body.replace(/<[^>]+>/g, '')).trim() || undefined;
+}
+
+function accession(element: XmlElement | undefined): string | undefined {
+  const { Accession, Version } = element?.attributes ?? {};
+  return Accession ? (Version ? `${Accession}.${Version}` : Accession) : undefined;
+}
+
+// ==========================================
+// PARSING
+// ==========================================
+
+// Element carrying each classification type in a VCV XML 2.0 assertion
+const SUBMITTED_CLASSIFICATION_TAGS: Array<[ClinVarClassificationType, string]> = [
+  ['germline', 'GermlineClassification'],
+  ['somatic_clinical_impact', 'SomaticClinicalImpact'],
+  ['oncogenicity', 'OncogenicityClassification'],
+];
+
+function parseAssertion(xml: string): ClinVarSubmission | null {
+  const scv = elements(xml, 'ClinVarAccession').find((e) => e.attributes.Type === 'SCV');
+  if (!scv || text(xml, 'RecordStatus') === 'replaced') return null;
+
+  // VCV XML 2.0 nests the call in <Classification>; 1.x used <Interpretation><Description>
+  const call = elements(xml, 'Classification')[0] ?? elements(xml, 'Interpretation')[0];
+  const typed = call && SUBMITTED_CLASSIFICATION_TAGS
+    .map(([type, tag]) => ({ type, classification: text(call.body, tag) }))
+    .find((c) => c.classification);
+  const { type, classification } = typed ?? { type: 'germline' as const, classification: call && text(call.body, 'Description') };
+  if (!classification) return null;
+
+  const evaluated = call.attributes.DateLastEvaluated;
+  const reviewStatus = text(call.body, 'ReviewStatus') ?? text(xml, 'ReviewStatus');
+  const method = elements(xml, 'Attribute').find((e) => e.attributes.Type === 'AssertionMethod');
+  const conditions = elements(xml, 'TraitSet').flatMap((set) =>
+    elements(set.body, 'ElementValue').filter((e) => e.attributes.Type === 'Preferred').map((e) => decodeXml(e.body).trim())
+  );
+
+  return {
+    scv: accession(scv)!,
+    submitter: scv.attributes.SubmitterName || 'Unknown submitter',
+    type,
+    classification,
+    ...(evaluated ? { dateLastEvaluated: evaluated.slice(0, 10) } : {}),
+    ...(reviewStatus ? { reviewStatus } : {}),
+    ...(method ? { method: decodeXml(method.body.replace(/<[^>]+>/g, '')).trim() } : {}),
+    conditions: [...new Set(conditions)],
+  };
+}
+
+export function tallyClassifications(submissions: ClinVarSubmission[]): ClassificationTally {
+  const tally: ClassificationTally = {
+    pathogenic: 0,
+    pathogenicLikelyPathogenic: 0,
+    likelyPathogenic: 0,
+    uncertain: 0,
+    likelyBenign: 0,
+    benignLikelyBenign: 0,
+    benign: 0,
+    other: 0,
+  };
+  for (const { type, classification } of submissions) {
+    if (type !== 'germline') continue;
+    const lower = classification.toLowerCase();
+    if (lower.includes('pathogenic/likely pathogenic')) tally.pathogenicLikelyPathogenic++;
+    else if (lower.includes('benign/likely benign')) tally.benignLikelyBenign++;
+    else if (lower.includes('likely pathogenic')) tally.likelyPathogenic++;
+    else if (lower.includes('pathogenic')) tally.pathogenic++;
+    else if (lower.includes('uncertain')) tally.uncertain++;
+    else if (lower.includes('likely benign')) tally.likelyBenign++;
+    else if (lower.includes('benign')) tally.benign++;
+    else tally.other++;
+  }
+  return tally;
+}
+
+/**
+ * Submissions and accessions from a VCV XML document, or null when it holds
+ * no variation archive.
+ */
+export function parseVariationArchive(xml: string): ClinVarSubmissions | null {
+  const archive = elements(xml, 'VariationArchive')[0];
+  const vcv = accession(archive);
+  if (!archive || !vcv) return null;
+
+  const rcvList = elements(archive.body, 'RCVList')[0]?.body ?? '';
+  const rcvs = [...new Set(elements(rcvList, 'RCVAccession').map(accession).filter((a): a is string => !!a))];
+  const submissions = elements(archive.body, 'ClinicalAssertion')
+    .map((assertion) => parseAssertion(assertion.body))
+    .filter((submission): submission is ClinVarSubmission => submission !== null);
+
+  return { vcv, rcvs, submissions, tally: tallyClassifications(submissions) };
+}
+
+// ==========================================
+// PUBLIC API
+// ==========================================
+
+/**
+ * Every submission behind ClinVar variation `clinvarId`.
+ * Returns null if ClinVar has no such record, FetchFailure if unavailable.
+ */
+export async function getClinVarSubmissions(clinvarId: string, signal?: AbortSignal): Promise<FetchResult<ClinVarSubmissions>> {
+  if (submissionsCache.has(clinvarId)) {
+    return submissionsCache.get(clinvarId)!;
+  }
+
+  const url = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi?db=clinvar&rettype=vcv&is_variationid&id=${encodeURIComponent(clinvarId)}`;
+  const xml = await fetchWithRetry<string>(url, {
+    circuitBreakerKey: 'clinvar',
+    timeoutMs: 8000,
+    responseType: 'text',
+    signal,
+  });
+
+  let result: FetchResult<ClinVarSubmissions>;
+  if (xml && typeof xml === 'object') {
+    result = xml;
+  } else if (!xml) {
+    result = null;
+  } else {
+    result = parseVariationArchive(xml);
+    if (!result && !/<ClinVarResult-Set/.test(xml)) {
+      const failure: FetchFailure = {
+        unavailable: true,
+        reason: 'bad_response',
+        service: 'clinvar',
+        details: 'ClinVar returned no VCV XML',
+      };
+      result = failure;
+    }
+  }
+
+  // A lookup the caller cancelled says nothing about ClinVar
+  if (!signal?.aborted) submissionsCache.set(clinvarId, result);
+  return result;
+}
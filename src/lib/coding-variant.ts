@@ -0,0 +1,388 @@
+/**
+ * CODING VARIANT TRANSLATOR
+ *
+ * Translates coding-DNA HGVS (c.) into the protein consequence that the
+ * rest of the pipeline understands. Parsing never fetches: transcripts missing
+ * from the bundled snapshot are loaded by refseq-client beforehand.
+ */
+
+import type { ParsedVariant } from './variant';
+import { GeneNotInRegistryError, ParseError, ReferenceMismatchError } from './errors';
+import { Cache } from './cache';
+import { resolveGeneSymbol } from './gene-registry';
+import referenceData from './data/reference-transcripts.json';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export interface ReferenceTranscript {
+  accession: string;
+  gene: string;
+  cds: string;
+}
+
+export type CodingEditKind = 'substitution' | 'deletion' | 'duplication' | 'insertion' | 'delins';
+
+export interface CodingChange {
+  start: number;
+  end: number;
+  kind: CodingEditKind;
+  refBases?: string;   // Bases stated in the input (optional for del/dup)
+  altBases?: string;   // Substituted/inserted bases
+}
+
+// ==========================================
+// REFERENCE DATA
+// ==========================================
+
+const TRANSCRIPTS: Record<string, { gene: string; cds: string }> =
+  (referenceData as { transcripts: Record<string, { gene: string; cds: string }> }).transcripts;
+
+// Transcripts fetched from NCBI, keyed by the accession as requested and as versioned
+const fetchedTranscripts = new Cache<ReferenceTranscript>(24 * 3600);
+
+const GENETIC_CODE: Record<string, string> = {
+  TTT: 'F', TTC: 'F', TTA: 'L', TTG: 'L', CTT: 'L', CTC: 'L', CTA: 'L', CTG: 'L',
+  ATT: 'I', ATC: 'I', ATA: 'I', ATG: 'M', GTT: 'V', GTC: 'V', GTA: 'V', GTG: 'V',
+  TCT: 'S', TCC: 'S', TCA: 'S', TCG: 'S', CCT: 'P', CCC: 'P', CCA: 'P', CCG: 'P',
+  ACT: 'T', ACC: 'T', ACA: 'T', ACG: 'T', GCT: 'A', GCC: 'A', GCA: 'A', GCG: 'A',
+  TAT: 'Y', TAC: 'Y', TAA: '*', TAG: '*', CAT: 'H', CAC: 'H', CAA: 'Q', CAG: 'Q',
+  AAT: 'N', AAC: 'N', AAA: 'K', AAG: 'K', GAT: 'D', GAC: 'D', GAA: 'E', GAG: 'E',
+  TGT: 'C', TGC: 'C', TGA: '*', TGG: 'W', CGT: 'R', CGC: 'R', CGA: 'R', CGG: 'R',
+  AGT: 'S', AGC: 'S', AGA: 'R', AGG: 'R', GGT: 'G', GGC: 'G', GGA: 'G', GGG: 'G',
+};
+
+/**
+ * Look up a bundled or fetched transcript. Unversioned accessions match any
+ * bundled version, or the version NCBI returned for them.
+ */
+export function getReferenceTranscript(accession: string): ReferenceTranscript | null {
+  const upper = accession.toUpperCase();
+  if (TRANSCRIPTS[upper]) {
+    return { accession: upper, ...TRANSCRIPTS[upper] };
+  }
+  if (!upper.includes('.')) {
+    const versioned = Object.keys(TRANSCRIPTS).find((key) => key.split('.')[0] === upper);
+    if (versioned) return { accession: versioned, ...TRANSCRIPTS[versioned] };
+  }
+  return fetchedTranscripts.get(upper);
+}
+
+/**
+ * Make a transcript fetched for `requested` available to the parser.
+ */
+export function addReferenceTranscript(transcript: ReferenceTranscript, requested = transcript.accession): void {
+  fetchedTranscripts.set(transcript.accession.toUpperCase(), transcript);
+  fetchedTranscripts.set(requested.toUpperCase(), transcript);
+}
+
+/**
+ * The MANE Select transcript of a registry gene, which gene-prefixed c. input is read against.
+ */
+export function maneSelectTranscript(gene: string): string | undefined {
+  return resolveGeneSymbol(gene).record?.refseq?.[0];
+}
+
+export function findTranscriptsForGene(gene: string): ReferenceTranscript[] {
+  const upper = gene.toUpperCase();
+  return Object.entries(TRANSCRIPTS)
+    .filter(([, entry]) => entry.gene.toUpperCase() === upper)
+    .map(([accession, entry]) => ({ accession, ...entry }));
+}
+
+/**
+ * Translate a CDS until (and including) the first stop codon.
+ */
+export function translateCds(cds: string): string {
+  let protein = '';
+  for (let i = 0; i + 3 <= cds.length; i += 3) {
+    const aa = GENETIC_CODE[cds.slice(i, i + 3)] || 'X';
+    protein += aa;
+    if (aa === '*') break;
+  }
+  return protein;
+}
+
+// ==========================================
+// PARSING
+// ==========================================
+
+/**
+ * Parse the change part of a c. description, e.g. "c.35G>A" or "c.1521_1523delCTT".
+ */
+export function parseCodingChange(input: string): CodingChange {
+  const marker = input.match(/c\.(.*)$/i);
+  if (!marker) {
+    throw new ParseError('Invalid HGVS format. Expected coding change (e.g. NM_004985.5:c.35G>A)');
+  }
+  const body = marker[1].toUpperCase();
+
+  if (/^[-*]|\d[+-]\d/.test(body)) {
+    throw new ParseError('Intronic and UTR positions (c.-N, c.*N, c.N+N) are not supported. Provide an exonic coding position.');
+  }
+
+  return parseNucleotideEdit(body, 'c');
+}
+
+/**
+ * Parse a position + edit body ("35G>A", "1521_1523del") in either coding (c.)
+ * or genomic (g.) coordinates. Positions are returned as written.
+ */
+export function parseNucleotideEdit(body: string, coordinate: 'c' | 'g'): CodingChange {
+  const label = coordinate === 'c' ? 'coding' : 'genomic';
+  const example = coordinate === 'c' ? 'NM_004985.5:c.35G>A' : 'NC_000012.12:g.25245350C>T';
+  const match = body.toUpperCase().match(/^(\d+)(?:_(\d+))?(.*)$/);
+  if (!match) {
+    throw new ParseError(`Invalid HGVS format. Expected ${label} change (e.g. ${example})`);
+  }
+
+  const start = parseInt(match[1], 10);
+  const end = match[2] ? parseInt(match[2], 10) : start;
+  const edit = match[3];
+  if (end < start) {
+    throw new ParseError(`Invalid ${label} range ${coordinate}.${start}_${end}: end precedes start`);
+  }
+
+  let m: RegExpMatchArray | null;
+  if ((m = edit.match(/^([ACGT])>([ACGT])$/))) {
+    if (end !== start) throw new ParseError(`Substitutions must target a single ${label} position`);
+    return { start, end, kind: 'substitution', refBases: m[1], altBases: m[2] };
+  }
+  if ((m = edit.match(/^DEL([ACGT]*)INS([ACGT]+)$/))) {
+    return { start, end, kind: 'delins', refBases: m[1] || undefined, altBases: m[2] };
+  }
+  if ((m = edit.match(/^DEL([ACGT]*)$/))) {
+    return { start, end, kind: 'deletion', refBases: m[1] || undefined };
+  }
+  if ((m = edit.match(/^DUP([ACGT]*)$/))) {
+    return { start, end, kind: 'duplication', refBases: m[1] || undefined };
+  }
+  if ((m = edit.match(/^INS([ACGT]+)$/))) {
+    if (end !== start + 1) {
+      throw new ParseError(`Insertions must be placed between two adjacent positions (e.g. ${coordinate}.123_124insA)`);
+    }
+    return { start, end, kind: 'insertion', altBases: m[1] };
+  }
+
+  throw new ParseError(
+    `Unsupported ${label} change "${coordinate}.${body}". Supported: substitutions, del, dup, ins and delins.`
+  );
+}
+
+// ==========================================
+// CONSEQUENCE
+// ==========================================
+
+function applyCodingChange(cds: string, change: CodingChange): string {
+  const before = cds.slice(0, change.start - 1);
+  const target = cds.slice(change.start - 1, change.end);
+  const after = cds.slice(change.end);
+
+  switch (change.kind) {
+    case 'substitution':
+    case 'delins':
+      return before + (change.altBases || '') + after;
+    case 'deletion':
+      return before + after;
+    case 'duplication':
+      return before + target + target + after;
+    case 'insertion':
+      // start/end flank the insertion point: keep base `start`, insert, continue at `end`
+      return cds.slice(0, change.start) + (change.altBases || '') + cds.slice(change.start);
+  }
+}
+
+function validateAgainstReference(transcript: ReferenceTranscript, change: CodingChange): void {
+  const { cds, accession } = transcript;
+  if (change.start < 1 || change.end > cds.length) {
+    throw new ParseError(
+      `Coding position c.${change.end} exceeds CDS length ${cds.length} of ${accession}`
+    );
+  }
+
+  if (change.refBases && change.kind !== 'insertion') {
+    const actual = cds.slice(change.start - 1, change.end);
+    if (actual !== change.refBases) {
+      const span = change.start === change.end ? `c.${change.start}` : `c.${change.start}_${change.end}`;
+      throw new ReferenceMismatchError(
+        `Reference mismatch at ${span}: ${accession} has ${actual}, input states ${change.refBases}`,
+        { statedRef: change.refBases, actualRef: actual }
+      );
+    }
+  }
+}
+
+/**
+ * Derive the protein-level consequence of a coding change as a ParsedVariant.
+ */
+export function deriveProteinConsequence(
+  transcript: ReferenceTranscript,
+  change: CodingChange
+): Omit<ParsedVariant, 'codingHgvs'> {
+  validateAgainstReference(transcript, change);
+
+  const refProtein = translateCds(transcript.cds);
+  const altCds = applyCodingChange(transcript.cds, change);
+  const altProtein = translateCds(altCds);
+  const base = { gene: transcript.gene.toUpperCase(), transcript: transcript.accession };
+
+  let prefix = 0;
+  while (prefix < refProtein.length && prefix < altProtein.length && refProtein[prefix] === altProtein[prefix]) {
+    prefix++;
+  }
+
+  if (refProtein === altProtein) {
+    const codonIndex = Math.floor((change.start - 1) / 3);
+    const residue = refProtein[codonIndex];
+    return { ...base, ref: residue, pos: codonIndex + 1, alt: residue, type: 'silent' };
+  }
+
+  if (prefix === 0) {
+    return { ...base, ref: 'M', pos: 1, alt: '?', type: 'start_loss' };
+  }
+  if (refProtein[prefix] === '*') {
+    // The bundled CDS ends at the stop codon, so a new downstream stop is usually unknown
+    const newStop = altProtein.indexOf('*', prefix);
+    return {
+      ...base,
+      ref: '*',
+      pos: prefix + 1,
+      alt: 'ext',
+      inserted: altProtein[prefix],
+      extension: newStop === -1 ? '*?' : `*${newStop - prefix}`,
+      type: 'extension',
+    };
+  }
+
+  const pos = prefix + 1;
+  const refResidue = refProtein[prefix];
+
+  if (altProtein[prefix] === '*') {
+    return { ...base, ref: refResidue, pos, alt: '*', type: 'nonsense' };
+  }
+
+  const lengthDelta = altCds.length - transcript.cds.length;
+  if (lengthDelta % 3 !== 0) {
+    return { ...base, ref: refResidue, pos, alt: 'fs', type: 'frameshift' };
+  }
+  if (altProtein.length - refProtein.length !== lengthDelta / 3) {
+    throw new ParseError(
+      'In-frame changes that introduce a downstream stop codon are not supported yet. Provide the protein change directly.'
+    );
+  }
+
+  let suffix = 0;
+  while (
+    suffix < refProtein.length - prefix &&
+    suffix < altProtein.length - prefix &&
+    refProtein[refProtein.length - 1 - suffix] === altProtein[altProtein.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  const deleted = refProtein.slice(prefix, refProtein.length - suffix);
+  const inserted = altProtein.slice(prefix, altProtein.length - suffix);
+  const last = prefix + deleted.length; // 1-based position of the last deleted residue
+  const span = deleted.length > 1 ? { end: last, endRef: refProtein[last - 1] } : {};
+
+  if (deleted.length === 1 && inserted.length === 1) {
+    return { ...base, ref: refResidue, pos, alt: inserted, type: 'missense' };
+  }
+  if (inserted.length === 0) {
+    return { ...base, ref: refResidue, pos, ...span, alt: 'del', type: 'deletion' };
+  }
+  if (deleted.length === 0) {
+    const repeatStart = prefix - inserted.length;
+    if (repeatStart >= 0 && refProtein.slice(repeatStart, prefix) === inserted) {
+      const dupSpan = inserted.length > 1 ? { end: prefix, endRef: refProtein[prefix - 1] } : {};
+      return { ...base, ref: refProtein[repeatStart], pos: repeatStart + 1, ...dupSpan, alt: 'dup', type: 'duplication' };
+    }
+    return {
+      ...base,
+      ref: refProtein[prefix - 1],
+      pos: prefix,
+      end: prefix + 1,
+      endRef: refResidue,
+      alt: 'ins',
+      inserted,
+      type: 'insertion',
+    };
+  }
+
+  return { ...base, ref: refResidue, pos, ...span, alt: 'delins', inserted, type: 'delins' };
+}
+
+/**
+ * Format a coding change back into canonical HGVS (uppercase bases, transcript-prefixed).
+ */
+export function formatCodingHgvs(accession: string, change: CodingChange): string {
+  const span = change.start === change.end ? `${change.start}` : `${change.start}_${change.end}`;
+  switch (change.kind) {
+    case 'substitution':
+      return `${accession}:c.${span}${change.refBases}>${change.altBases}`;
+    case 'deletion':
+      return `${accession}:c.${span}del`;
+    case 'duplication':
+      return `${accession}:c.${span}dup`;
+    case 'insertion':
+      return `${accession}:c.${span}ins${change.altBases}`;
+    case 'delins':
+      return `${accession}:c.${span}delins${change.altBases}`;
+  }
+}
+
+/**
+ * Parse coding HGVS into a ParsedVariant carrying the derived protein change.
+ *
+ * Accepts "NM_004985.5:c.35G>A", "NM_004985.5(KRAS):c.35G>A" and "KRAS:c.35G>A"
+ * (the latter resolves to the gene's MANE Select transcript, or its only bundled one).
+ */
+export function parseCodingHGVS(input: string, geneHint?: string): ParsedVariant {
+  const transcriptMatch = input.match(/(NM_\d+(?:\.\d+)?)/i);
+  const requestedGene = geneHint && geneHint !== 'UNKNOWN' ? geneHint.toUpperCase() : undefined;
+
+  let transcript: ReferenceTranscript | null = null;
+  if (transcriptMatch) {
+    transcript = getReferenceTranscript(transcriptMatch[1]);
+    if (!transcript) {
+      throw new ParseError(
+        `Transcript ${transcriptMatch[1].toUpperCase()} is not available as a reference sequence. Provide protein HGVS instead.`
+      );
+    }
+  } else if (requestedGene) {
+    const mane = maneSelectTranscript(requestedGene);
+    const maneTranscript = mane ? getReferenceTranscript(mane) : null;
+    const candidates = maneTranscript ? [maneTranscript] : findTranscriptsForGene(requestedGene);
+    if (candidates.length === 0 && !resolveGeneSymbol(requestedGene).record) {
+      throw new GeneNotInRegistryError(
+        requestedGene,
+        `${requestedGene} is not in the bundled gene registry, so its MANE Select transcript is unknown. ` +
+          `Provide a transcript (e.g. NM_000546.6:c.524G>A) or protein HGVS (e.g. ${requestedGene}:p.Arg175His).`
+      );
+    }
+    if (candidates.length === 0) {
+      throw new ParseError(
+        `No reference transcript available for ${requestedGene}. Provide protein HGVS (e.g. ${requestedGene}:p.Arg175His).`
+      );
+    }
+    if (candidates.length > 1) {
+      throw new ParseError(
+        `Multiple reference transcripts for ${requestedGene} (${candidates.map((c) => c.accession).join(', ')}). Specify one.`
+      );
+    }
+    transcript = candidates[0];
+  } else {
+    throw new ParseError('Coding HGVS requires a transcript (e.g. NM_004985.5:c.35G>A) or gene symbol.');
+  }
+
+  if (requestedGene && transcript.gene.toUpperCase() !== requestedGene) {
+    throw new ParseError(`Transcript ${transcript.accession} encodes ${transcript.gene}, not ${requestedGene}`);
+  }
+
+  const change = parseCodingChange(input);
+  const consequence = deriveProteinConsequence(transcript, change);
+  return {
+    ...consequence,
+    codingHgvs: formatCodingHgvs(transcript.accession, change),
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * UPSTREAM CONCURRENCY
+ *
+ * Bounds how many pipeline calls hit each upstream service at once (in-flight
+ * calls, not request rate). ClinVar and PubMed share one NCBI budget.
+ */
+
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  /**
+   * Run `task` once a slot is free. Rejects with the abort reason, without
+   * running the task, if `signal` aborts first.
+   */
+  async run<T>(task: (signal?: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    signal?.throwIfAborted();
+    if (this.active < this.limit) {
+      this.active++;
+    } else {
+      await this.waitForSlot(signal);
+    }
+
+    try {
+      return await task(signal);
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next(); // Slot passes to the waiter without being released
+      else this.active--;
+    }
+  }
+
+  private waitForSlot(signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener('abort', leave);
+        resolve();
+      };
+      const leave = () => {
+        this.waiting.splice(this.waiting.indexOf(start), 1);
+        reject(signal?.reason);
+      };
+      this.waiting.push(start);
+      signal?.addEventListener('abort', leave, { once: true });
+    });
+  }
+
+  get inFlight(): number {
+    return this.active;
+  }
+
+  get queued(): number {
+    return this.waiting.length;
+  }
+}
+
+export type Upstream = 'uniprot' | 'structure' | 'ncbi';
+
+export const UPSTREAM_CONCURRENCY: Record<Upstream, number> = {
+  uniprot: 4,   // UniProt REST (and Ensembl xrefs for protein IDs)
+  structure: 4, // RCSB, PDBe/SIFTS, AlphaFold
+  ncbi: 3,      // E-utilities allow 3 requests/second without an API key
+};
+
+const limiters: Record<Upstream, ConcurrencyLimiter> = {
+  uniprot: new ConcurrencyLimiter(UPSTREAM_CONCURRENCY.uniprot),
+  structure: new ConcurrencyLimiter(UPSTREAM_CONCURRENCY.structure),
+  ncbi: new ConcurrencyLimiter(UPSTREAM_CONCURRENCY.ncbi),
+};
+
+export function withUpstream<T>(
+  upstream: Upstream,
+  task: (signal?: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  return limiters[upstream].run(task, signal);
+}
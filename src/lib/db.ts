@@ -4,7 +4,7 @@ import path from 'path';
 type AnyRow = Record<string, unknown>;
 
 type StatementLike = {
-  run: (params?: AnyRow) => void;
+  run: (params?: AnyRow) => { changes: number };
   all: (...args: unknown[]) => AnyRow[];
   get: (...args: unknown[]) => AnyRow;
 };
@@ -13,17 +13,19 @@ type DatabaseLike = {
   prepare: (sql: string) => StatementLike;
   exec: (sql: string) => void;
   pragma: (sql: string) => void;
+  transaction: <T extends (...args: any[]) => unknown>(fn: T) => T;
 };
 
 function createNoopDb(): DatabaseLike {
   return {
     prepare: () => ({
-      run: () => undefined,
+      run: () => ({ changes: 0 }),
       all: () => [],
       get: () => ({ count: 0, avgMs: 0 }),
     }),
     exec: () => undefined,
     pragma: () => undefined,
+    transaction: (fn) => fn,
   };
 }
 
@@ -40,7 +42,69 @@ function initializeSchema(db: DatabaseLike): void {
       processingMs INTEGER,
       metaJson TEXT
     );
+
+    CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      status TEXT NOT NULL,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      completedAt TEXT,
+      ip TEXT,
+      apiKeyId TEXT,
+      total INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS job_items (
+      jobId TEXT NOT NULL,
+      idx INTEGER NOT NULL,
+      input TEXT NOT NULL,
+      itemKey TEXT,
+      status TEXT NOT NULL,
+      duplicateOf INTEGER,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      responseJson TEXT,
+      errorJson TEXT,
+      markdown TEXT,
+      updatedAt TEXT NOT NULL,
+      PRIMARY KEY (jobId, idx)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_job_items_status ON job_items (jobId, status);
+
+    CREATE TABLE IF NOT EXISTS api_keys (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      prefix TEXT NOT NULL,
+      keyHash TEXT NOT NULL UNIQUE,
+      rateLimitPerMinute INTEGER NOT NULL,
+      dailyQuota INTEGER,
+      createdAt TEXT NOT NULL,
+      rotatedAt TEXT,
+      revokedAt TEXT,
+      lastUsedAt TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS api_key_usage (
+      keyId TEXT NOT NULL,
+      day TEXT NOT NULL,
+      requests INTEGER NOT NULL DEFAULT 0,
+      analyses INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (keyId, day)
+    );
+
+    CREATE TABLE IF NOT EXISTS rate_limit_hits (
+      key TEXT NOT NULL,
+      at INTEGER NOT NULL,
+      expiresAt INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_key ON rate_limit_hits (key, at);
+    CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_expiry ON rate_limit_hits (expiresAt);
   `);
+
+  // Databases created before jobs recorded the submitting API key
+  const jobColumns = db.prepare("SELECT name FROM pragma_table_info('jobs')").all().map((row) => row.name);
+  if (!jobColumns.includes('apiKeyId')) db.exec('ALTER TABLE jobs ADD COLUMN apiKeyId TEXT');
 }
 
 function resolveDbPath(): string {
@@ -1,19 +1,19 @@
-
-import { resolveStructure } from './structure';
-import { normalizeVariant } from './variant';
+import { analyzeVariant } from './analyze-variant';
 
 async function testBackend() {
   const hgvs = 'TP53:p.R175H';
   console.log(`Testing backend logic for: ${hgvs}`);
 
   try {
-    const { parsed } = normalizeVariant(hgvs);
-    console.log(`Parsed Gene: ${parsed.gene}`);
-    
-    console.log('Resolving structure...');
-    const structure = await resolveStructure(parsed.gene, parsed.pos);
-    console.log('Structure Result:', JSON.stringify(structure, null, 2));
-
+    const result = await analyzeVariant(hgvs);
+    if (!result.ok) {
+      console.error(`Analysis failed (${result.status}):`, JSON.stringify(result.error, null, 2));
+      return;
+    }
+    if ('coverage' in result.report) {
+      console.log('Structure Result:', JSON.stringify(result.report.coverage.structure, null, 2));
+      console.log('Stage timings:', JSON.stringify(result.report.timings, null, 2));
+    }
   } catch (error) {
     console.error('BACKEND FAILURE:', error);
   }
@@ -0,0 +1,121 @@
+/**
+ * ERRORS
+ *
+ * Typed errors for the library and every route. The code alone decides the
+ * HTTP status (ERROR_STATUS); anything that is not an ApiError is an
+ * INTERNAL_ERROR.
+ */
+
+import type { FetchFailureReason } from './fetch-utils';
+import type { ApiErrorBody, ApiErrorCode, InputDiagnostics } from './types/honest-response';
+
+export type ApiErrorDetails = NonNullable<ApiErrorBody['details']>;
+
+export const ERROR_STATUS: Record<ApiErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  PARSE_ERROR: 400,
+  INVALID_POSITION: 400,
+  REF_MISMATCH: 400,
+  UNAUTHORIZED: 401,
+  UNKNOWN_GENE: 404,
+  GENE_NOT_IN_REGISTRY: 404,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  RATE_LIMITED: 429,
+  INTERNAL_ERROR: 500,
+  UPSTREAM_UNAVAILABLE: 503,
+  MISCONFIGURED: 503,
+};
+
+export class ApiError extends Error {
+  constructor(
+    public code: ApiErrorCode,
+    message: string,
+    public details?: ApiErrorDetails,
+    public diagnostics?: InputDiagnostics
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+
+  toBody(): ApiErrorBody {
+    return {
+      error: true,
+      code: this.code,
+      message: this.message,
+      ...(this.details ? { details: this.details } : {}),
+      ...(this.diagnostics ? { diagnostics: this.diagnostics } : {}),
+    };
+  }
+}
+
+// ==========================================
+// INPUT
+// ==========================================
+
+export class ParseError extends ApiError {
+  constructor(message: string, diagnostics?: InputDiagnostics) {
+    super('PARSE_ERROR', message, undefined, diagnostics);
+    this.name = 'ParseError';
+  }
+}
+
+export class UnknownGeneError extends ApiError {
+  constructor(message: string, details?: ApiErrorDetails, diagnostics?: InputDiagnostics) {
+    super('UNKNOWN_GENE', message, details, diagnostics);
+    this.name = 'UnknownGeneError';
+  }
+}
+
+// The gene may well exist: the registry is a bundled subset, and protein input for it still resolves via UniProt
+export class GeneNotInRegistryError extends ApiError {
+  constructor(gene: string, message: string) {
+    super('GENE_NOT_IN_REGISTRY', message, { gene });
+    this.name = 'GeneNotInRegistryError';
+  }
+}
+
+export class InvalidPositionError extends ApiError {
+  constructor(message: string, details?: ApiErrorDetails) {
+    super('INVALID_POSITION', message, details);
+    this.name = 'InvalidPositionError';
+  }
+}
+
+export class ReferenceMismatchError extends ApiError {
+  constructor(message: string, details?: ApiErrorDetails, diagnostics?: InputDiagnostics) {
+    super('REF_MISMATCH', message, details, diagnostics);
+    this.name = 'ReferenceMismatchError';
+  }
+}
+
+// ==========================================
+// SERVICE
+// ==========================================
+
+export class UpstreamUnavailableError extends ApiError {
+  constructor(public service: string, public reason: FetchFailureReason, message?: string) {
+    super('UPSTREAM_UNAVAILABLE', message ?? `Service ${service} unavailable: ${reason}`, { service, reason });
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  constructor(retryAfter: number, message = `Rate limit exceeded; retry in ${retryAfter}s`) {
+    super('RATE_LIMITED', message, { retryAfter });
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * `error` as an ApiError: typed errors pass through, anything else is an
+ * INTERNAL_ERROR carrying its message.
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  return new ApiError('INTERNAL_ERROR', error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,602 @@
+/**
+ * EVIDENCE PROVIDERS
+ *
+ * Every evidence source besides UniProt, each contributing one coverage
+ * section. EVIDENCE_PROVIDERS (comma-separated ids) enables a subset; a
+ * disabled built-in section reads "unavailable", never "none".
+ */
+
+import { FetchFailure } from './fetch-utils';
+import { withUpstream } from './concurrency';
+import {
+  buildStructureCoverage,
+  buildClinicalCoverage,
+  buildLiteratureCoverage,
+} from './uniprot-curator';
+import { getClinVarUrl, getReviewStars, ResidueClinVarVariants } from './clinvar-client';
+import { GNOMAD_BROWSER_URL, PopulationRecord } from './gnomad-client';
+import type { GenomicVariant } from './genomic-variant';
+import { PredictorLookup } from './predictor-scores';
+import { parseProteinChange } from './variant';
+import type { VariantClients } from './variant-pipeline';
+import {
+  CuratedProteinInfo,
+  EvidenceCoverage,
+  AdditionalEvidenceSection,
+  IsoformUsage,
+  ProteinIdUsage,
+  VariantStreamEvent,
+  UNKNOWN_MESSAGES,
+} from './types/honest-response';
+
+// What a provider knows about the consequence when it runs
+export interface EvidenceContext {
+  gene: string;                  // Resolved gene symbol
+  proteinChange: string;         // p.R175H form used for ClinVar and PubMed queries
+  residue: number;               // Evaluated (canonical unless isoform-only) start position
+  curatedInfo: CuratedProteinInfo;
+  isoform: IsoformUsage | null;
+  protein: ProteinIdUsage | null;
+  allele: GenomicVariant | null; // GRCh38 allele; null for protein-level input
+  clients: VariantClients;
+}
+
+// Coverage slot each provider fills; 'additional' means coverage.additional[id]
+export interface EvidenceSections {
+  structure: EvidenceCoverage['structure'];
+  clinical: EvidenceCoverage['clinical'];
+  nearby: NonNullable<EvidenceCoverage['nearby']>;
+  literature: EvidenceCoverage['literature'];
+  population: NonNullable<EvidenceCoverage['population']>;
+  predictors: NonNullable<EvidenceCoverage['predictors']>;
+  additional: AdditionalEvidenceSection;
+}
+
+export type EvidenceSectionKey = keyof EvidenceSections;
+
+export interface EvidenceProvider<TResult = any, K extends EvidenceSectionKey = EvidenceSectionKey> {
+  id: string;                    // Stage name in timings; key under coverage.additional
+  label: string;
+  section: K;
+  dependsOn?: string[];          // Providers whose results `fetch` receives, by id
+  // `signal` aborts at the request deadline; pass it to withUpstream and the client calls
+  fetch(context: EvidenceContext, dependencies: Record<string, unknown>, signal?: AbortSignal): Promise<TResult>;
+  // `result` is the fetched value, a FetchFailure (including the deadline's timeout) or null
+  coverage(result: TResult | FetchFailure | null): EvidenceSections[K];
+  unknowns?(section: EvidenceSections[K]): string[];
+}
+
+const DISABLED_REASON = 'Source not enabled';
+
+// Placeholders for built-in sections whose provider is not enabled
+export const DISABLED_SECTIONS: Pick<EvidenceCoverage, 'structure' | 'clinical' | 'nearby' | 'literature' | 'population' | 'predictors'> = {
+  structure: { status: 'unavailable', reason: DISABLED_REASON },
+  clinical: { status: 'unavailable', reason: DISABLED_REASON },
+  nearby: { status: 'unavailable', reason: DISABLED_REASON },
+  literature: { variantSpecificCount: 0, unavailable: true, reason: DISABLED_REASON },
+  population: { status: 'unavailable', reason: DISABLED_REASON },
+  predictors: { status: 'unavailable', reason: DISABLED_REASON },
+};
+
+// ==========================================
+// BUILT-IN PROVIDERS
+// ==========================================
+
+/**
+ * Best structure for the residue with SIFTS-enriched alternatives, or null
+ * when none covers it.
+ */
+async function resolveStructureEvidence({
+  clients, curatedInfo, gene, residue: evaluatedStart, isoform, protein,
+}: EvidenceContext, _dependencies: Record<string, unknown>, signal?: AbortSignal) {
+  let structureData = null;
+  let enrichedAvailableStructures: any[] = [];
+  let availableStructures: any[] = [];
+
+  // Structures are numbered on the canonical sequence; isoform-only residues have no position there
+  const isoformNumbering =
+    isoform?.strategy === 'isoform' || (protein !== null && protein.uniprotId !== protein.canonicalId);
+  const result = isoformNumbering
+    ? { best: null, available: [] }
+    : await withUpstream('structure', () => clients.resolveStructure(protein?.canonicalId ?? gene, evaluatedStart, signal), signal);
+  structureData = result.best;
+  availableStructures = result.available || [];
+
+  // Enrich structures with SIFTS (now resilient)
+  if (curatedInfo.uniprotId && availableStructures.length > 0) {
+       enrichedAvailableStructures = await Promise.all(
+          availableStructures.map(async (s) => {
+              let chain = 'A';
+              let mapped = s.mapped ?? false;
+              let pdbResidue: string | undefined = undefined;
+
+              if (s.source === 'PDB') {
+                  const sifts = await withUpstream('structure', () =>
+                    clients.getSiftsMapping(curatedInfo.uniprotId, evaluatedStart, s.id, signal), signal
+                  );
+                  
+                  // Handle Resilient SIFTS Response
+                  if (sifts && 'unavailable' in sifts) {
+                      // partial failure of SIFTS for this structure
+                      // Treat as unmapped/unknown
+                      console.warn(`[HonestAPI] SIFTS unavailable for ${s.id}`);
+                      mapped = false; 
+                  } else if (sifts) {
+                      chain = sifts.chain;
+                      mapped = sifts.mapped;
+                      pdbResidue = sifts.pdbResidue;
+                  } else {
+                      mapped = false;
+                  }
+              } else if (s.source === 'AlphaFold') {
+                  chain = 'A';
+                  mapped = true;
+                  pdbResidue = String(evaluatedStart);
+              }
+
+              return {
+                  id: s.id,
+                  source: s.source,
+                  url: s.url,
+                  resolution: s.resolution,
+                  paeUrl: s.paeUrl,
+                  chain,
+                  mapped,
+                  pdbResidue
+              };
+          })
+       );
+  }
+
+  // structureData comes from resolveStructure().best, which does NOT have availableStructures.
+  // We must inject the enriched list here.
+  return structureData ? {
+      ...structureData,
+      sifts: (() => {
+        const matched = (enrichedAvailableStructures.length > 0 ? enrichedAvailableStructures : availableStructures)
+          .find((s: any) => s.id === structureData?.id && s.source === structureData?.source);
+        if (!matched) return null;
+        return {
+          mapped: !!matched.mapped && !!matched.pdbResidue,
+          pdbId: matched.id,
+          chain: matched.chain || 'A',
+          pdbResidue: matched.pdbResidue || '?',
+          source: matched.source === 'PDB' ? 'PDBe-KB' : 'AlphaFold sequence index'
+        };
+      })(),
+      availableStructures: enrichedAvailableStructures.length > 0 ? enrichedAvailableStructures : availableStructures
+  } : null;
+}
+
+/**
+ * ClinVar record shaped for the coverage builder; failures are passed through.
+ */
+async function fetchClinicalEvidence(
+  { clients, gene, proteinChange }: EvidenceContext,
+  _dependencies: Record<string, unknown>,
+  signal?: AbortSignal
+) {
+  let clinvarData = null;
+  
+  // getClinVarData now returns FetchResult<ClinVarResult>
+  const clinvarResult = await withUpstream('ncbi', () => clients.getClinVarData(gene, proteinChange, signal), signal);
+  
+  if (clinvarResult && !('unavailable' in clinvarResult)) {
+      // Success case - log it
+      console.log(`[HonestAPI] ClinVar found: ${clinvarResult.clinicalSignificance}`);
+      clinvarData = clinvarResult;
+  } else if (clinvarResult && 'unavailable' in clinvarResult) {
+      console.log(`[HonestAPI] ClinVar unavailable: ${clinvarResult.reason}`);
+  } else {
+      console.log(`[HonestAPI] No ClinVar entry for ${gene}:${proteinChange}`);
+  }
+
+  // Per-submitter assertions behind the record; their failure leaves the record itself intact
+  const clinvarId = clinvarData?.clinvarId;
+  const submissions = clinvarId
+    ? await withUpstream('ncbi', () => clients.getClinVarSubmissions(clinvarId, signal), signal)
+    : undefined;
+  if (submissions && 'unavailable' in submissions) {
+      console.log(`[HonestAPI] ClinVar submissions unavailable: ${submissions.reason}`);
+  }
+
+  // Prepare ClinVar data for builder
+  let clinvarBuilderData = null;
+  if (clinvarData) {
+      clinvarBuilderData = {
+         significance: clinvarData.clinicalSignificance,
+         reviewStatus: clinvarData.reviewStatus,
+         stars: getReviewStars(clinvarData.reviewStatus),
+         clinvarId: clinvarData.clinvarId,
+         url: getClinVarUrl(clinvarData.clinvarId),
+         conditions: clinvarData.conditions,
+         classifications: clinvarData.classifications?.map((c) => ({ ...c, stars: getReviewStars(c.reviewStatus) })),
+         submissions,
+      };
+  } else if (clinvarResult && 'unavailable' in clinvarResult) {
+      // The failure itself, so the stage timing can tell it from a missing record
+      return clinvarResult;
+  }
+  return clinvarBuilderData;
+}
+
+// Residues searched either side of the variant for other ClinVar variants
+export const NEARBY_CLINVAR_WINDOW = 5;
+
+interface NearbyClinVarLookup {
+  residue: number;
+  from: number;
+  to: number;
+  window: number; // 0 when only the variant's own residue could be searched
+  residues: ResidueClinVarVariants[];
+}
+
+/**
+ * Other ClinVar variants at the same residue and within NEARBY_CLINVAR_WINDOW.
+ * Neighbor reference residues come from the canonical sequence; when it is
+ * missing or does not agree with the input numbering, only the variant's own
+ * residue is searched.
+ */
+async function fetchNearbyClinicalEvidence(
+  { clients, gene, proteinChange, curatedInfo }: EvidenceContext,
+  _dependencies: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<NearbyClinVarLookup | FetchFailure | null> {
+  let change;
+  try {
+    change = parseProteinChange(proteinChange.replace(/^p\./, ''));
+  } catch {
+    change = null;
+  }
+  if (!change || !/^[A-Z]$/.test(change.ref)) return null;
+  const { ref, pos } = change;
+
+  const { uniprotId } = curatedInfo;
+  const sequence = uniprotId
+    ? await withUpstream('uniprot', () => clients.getCanonicalSequence(uniprotId, signal), signal).catch(() => null)
+    : null;
+  const residues = sequence && sequence.charAt(pos - 1).toUpperCase() === ref
+    ? Array.from({ length: 2 * NEARBY_CLINVAR_WINDOW + 1 }, (_, i) => pos - NEARBY_CLINVAR_WINDOW + i)
+        .filter((position) => position >= 1 && position <= sequence.length)
+        .map((position) => ({ position, ref: sequence.charAt(position - 1).toUpperCase() }))
+        .filter((residue) => /^[A-Z]$/.test(residue.ref))
+    : [{ position: pos, ref }];
+
+  const result = await withUpstream('ncbi', () => clients.getClinVarNeighborhood(gene, proteinChange, residues, signal), signal);
+  if (result && 'unavailable' in result) {
+    console.log(`[HonestAPI] ClinVar neighborhood unavailable: ${result.reason}`);
+    return result;
+  }
+  return {
+    residue: pos,
+    from: residues[0].position,
+    to: residues[residues.length - 1].position,
+    window: residues.length > 1 ? NEARBY_CLINVAR_WINDOW : 0,
+    residues: result ?? [],
+  };
+}
+
+export function buildNearbyClinicalCoverage(result: NearbyClinVarLookup | FetchFailure | null): EvidenceSections['nearby'] {
+  if (!result) {
+    return { status: 'unavailable', reason: 'The change names no reference residue to search around' };
+  }
+  if ('unavailable' in result) {
+    return { status: 'unavailable', reason: result.details ?? `ClinVar ${result.reason.replace(/_/g, ' ')}` };
+  }
+  return {
+    status: result.residues.length > 0 ? 'found' : 'none',
+    residue: result.residue,
+    window: result.window,
+    from: result.from,
+    to: result.to,
+    residues: result.residues,
+    ...(result.window === 0 ? { note: 'Canonical sequence unavailable or numbered differently; only the variant\'s own residue was searched' } : {}),
+  };
+}
+
+async function fetchLiteratureEvidence(
+  { clients, gene, proteinChange }: EvidenceContext,
+  _dependencies: Record<string, unknown>,
+  signal?: AbortSignal
+) {
+  const pubmedResult = await withUpstream('ncbi', () => clients.searchPubMed(gene, proteinChange, signal), signal);
+
+  if (pubmedResult && !('unavailable' in pubmedResult)) {
+       if (pubmedResult.count > 0) {
+           console.log(`[HonestAPI] PubMed found: ${pubmedResult.count} papers`);
+       }
+  } else if (pubmedResult && 'unavailable' in pubmedResult) {
+       const reason =
+         'reason' in pubmedResult ? String(pubmedResult.reason) : 'unknown';
+       console.log(`[HonestAPI] PubMed unavailable: ${reason}`);
+  }
+  return pubmedResult;
+}
+
+interface PopulationLookup {
+  query: string | null; // g. HGVS looked up; null when the input names no single allele
+  record: PopulationRecord | null;
+}
+
+async function fetchPopulationEvidence({ clients, allele }: EvidenceContext): Promise<PopulationLookup | FetchFailure> {
+  if (!allele) return { query: null, record: null };
+  const result = await clients.getPopulationFrequency(allele);
+  if (result && 'unavailable' in result) {
+    console.log(`[HonestAPI] gnomAD unavailable: ${result.details ?? result.reason}`);
+    return result;
+  }
+  return { query: allele.hgvs, record: result };
+}
+
+export function buildPopulationCoverage(result: PopulationLookup | FetchFailure | null): EvidenceSections['population'] {
+  if (!result) return { status: 'unavailable', reason: 'Population lookup failed' };
+  if ('unavailable' in result) {
+    return { status: 'unavailable', reason: result.details ?? `gnomAD ${result.reason.replace(/_/g, ' ')}` };
+  }
+  if (!result.query) {
+    return {
+      status: 'unavailable',
+      reason: 'Population frequency needs genomic or coding input; a protein change can come from several alleles',
+    };
+  }
+  const { record } = result;
+  if (!record) {
+    return {
+      status: 'none',
+      query: result.query,
+      // gnomAD left-aligns indels, HGVS shifts them 3': in a repeat the two positions differ
+      ...(/del|ins|dup/.test(result.query) ? { note: 'Indels are matched at their stated position; check the browser for repeats' } : {}),
+    };
+  }
+  return {
+    status: 'found',
+    source: record.source,
+    query: result.query,
+    variantId: record.variantId,
+    url: `${GNOMAD_BROWSER_URL}/${record.variantId}`,
+    filters: record.filters,
+    alleleCount: record.alleleCount,
+    alleleNumber: record.alleleNumber,
+    alleleFrequency: record.alleleFrequency,
+    homozygoteCount: record.homozygoteCount,
+    ancestries: record.ancestries,
+  };
+}
+
+const MISSENSE = /^p\.([ACDEFGHIKLMNPQRSTVWY])\d+([ACDEFGHIKLMNPQRSTVWY])$/;
+
+export const PREDICTOR_NOTE = 'Predictions from the named tools, categorized by their published calibrations; not a VariantLens classification';
+
+interface PredictorQuery {
+  query: string | null; // ACCESSION:R175H looked up; null when the change is not a missense substitution
+  lookup: PredictorLookup | null;
+}
+
+async function fetchPredictorEvidence({ clients, curatedInfo, proteinChange, residue }: EvidenceContext): Promise<PredictorQuery | FetchFailure> {
+  const missense = MISSENSE.exec(proteinChange);
+  if (!missense || missense[1] === missense[2] || !curatedInfo.uniprotId) return { query: null, lookup: null };
+  const substitution = `${missense[1]}${residue}${missense[2]}`;
+  const result = await clients.getPredictorScores(curatedInfo.uniprotId, residue, substitution);
+  if (result && 'unavailable' in result) {
+    console.log(`[HonestAPI] Predictor scores unavailable: ${result.details ?? result.reason}`);
+    return result;
+  }
+  return { query: `${curatedInfo.uniprotId}:${substitution}`, lookup: result };
+}
+
+export function buildPredictorCoverage(result: PredictorQuery | FetchFailure | null): EvidenceSections['predictors'] {
+  if (!result) return { status: 'unavailable', reason: 'Predictor score lookup failed' };
+  if ('unavailable' in result) {
+    return { status: 'unavailable', reason: result.details ?? `Predictor tables ${result.reason.replace(/_/g, ' ')}` };
+  }
+  if (!result.query || !result.lookup) {
+    return { status: 'unavailable', reason: 'Missense predictor scores apply only to single amino-acid substitutions' };
+  }
+  const { scores, missing, unreadable } = result.lookup;
+  if (scores.length === 0 && missing.length === 0) {
+    return { status: 'unavailable', reason: `Predictor tables could not be read: ${unreadable.join(', ')}`, query: result.query };
+  }
+  return {
+    status: scores.length > 0 ? 'found' : 'none',
+    query: result.query,
+    scores,
+    missing,
+    ...(unreadable.length > 0 ? { unreadable } : {}),
+    note: PREDICTOR_NOTE,
+  };
+}
+
+// PDB, AlphaFold and SIFTS together: the best structure is only useful with its residue mapping
+export const structureProvider: EvidenceProvider<Awaited<ReturnType<typeof resolveStructureEvidence>>, 'structure'> = {
+  id: 'structure',
+  label: 'PDB / AlphaFold',
+  section: 'structure',
+  fetch: resolveStructureEvidence,
+  coverage: buildStructureCoverage,
+  unknowns: (structure) => {
+    const hasMappedStructure = !!structure.sifts?.mapped ||
+      !!structure.availableStructures?.some((s) => s.mapped && !!s.pdbResidue);
+    if (structure.status === 'none') return [UNKNOWN_MESSAGES.NO_STRUCTURE];
+    if (structure.status === 'experimental' && !hasMappedStructure) return [UNKNOWN_MESSAGES.MAPPING_NOT_COMPUTED];
+    return [];
+  },
+};
+
+export const clinvarProvider: EvidenceProvider<Awaited<ReturnType<typeof fetchClinicalEvidence>>, 'clinical'> = {
+  id: 'clinvar',
+  label: 'ClinVar',
+  section: 'clinical',
+  fetch: fetchClinicalEvidence,
+  coverage: buildClinicalCoverage,
+  unknowns: (clinical) => (clinical.status !== 'none'
+    ? []
+    : clinical.classifications?.length
+      ? [UNKNOWN_MESSAGES.NO_GERMLINE_CLASSIFICATION]
+      : [UNKNOWN_MESSAGES.NO_CLINICAL]),
+};
+
+export const nearbyClinvarProvider: EvidenceProvider<Awaited<ReturnType<typeof fetchNearbyClinicalEvidence>>, 'nearby'> = {
+  id: 'clinvar-nearby',
+  label: 'ClinVar (nearby residues)',
+  section: 'nearby',
+  fetch: fetchNearbyClinicalEvidence,
+  coverage: buildNearbyClinicalCoverage,
+};
+
+export const pubmedProvider: EvidenceProvider<Awaited<ReturnType<typeof fetchLiteratureEvidence>>, 'literature'> = {
+  id: 'pubmed',
+  label: 'PubMed',
+  section: 'literature',
+  fetch: fetchLiteratureEvidence,
+  coverage: buildLiteratureCoverage,
+  unknowns: (literature) => (literature.variantSpecificCount === 0 ? [UNKNOWN_MESSAGES.NO_LITERATURE] : []),
+};
+
+// Local gnomAD sites file; reads no network, so it takes no upstream slot
+export const populationProvider: EvidenceProvider<Awaited<ReturnType<typeof fetchPopulationEvidence>>, 'population'> = {
+  id: 'population',
+  label: 'gnomAD',
+  section: 'population',
+  fetch: fetchPopulationEvidence,
+  coverage: buildPopulationCoverage,
+  unknowns: (population) => (population.status === 'none' ? [UNKNOWN_MESSAGES.NOT_IN_POPULATION] : []),
+};
+
+// Local score tables, like gnomAD: no upstream slot
+export const predictorsProvider: EvidenceProvider<Awaited<ReturnType<typeof fetchPredictorEvidence>>, 'predictors'> = {
+  id: 'predictors',
+  label: 'Missense predictors',
+  section: 'predictors',
+  fetch: fetchPredictorEvidence,
+  coverage: buildPredictorCoverage,
+  unknowns: (predictors) => (predictors.missing ?? []).map((tool) => `No precomputed ${tool} score for this substitution`),
+};
+
+// ==========================================
+// REGISTRY
+// ==========================================
+
+const registry = new Map<string, EvidenceProvider>();
+
+/**
+ * Add a provider. Ids are unique; registering one twice is a programming error.
+ */
+export function registerEvidenceProvider(provider: EvidenceProvider): void {
+  if (registry.has(provider.id)) {
+    throw new Error(`Evidence provider "${provider.id}" is already registered`);
+  }
+  registry.set(provider.id, provider);
+}
+
+export function listEvidenceProviders(): EvidenceProvider[] {
+  return [...registry.values()];
+}
+
+/**
+ * Providers enabled by `config` (default: EVIDENCE_PROVIDERS), in an order
+ * where every provider follows its dependencies. Unknown ids are ignored and
+ * a provider whose dependency is not enabled is dropped, both with a warning.
+ */
+export function resolveEnabledProviders(
+  config: string | undefined = process.env.EVIDENCE_PROVIDERS,
+  providers: EvidenceProvider[] = listEvidenceProviders()
+): EvidenceProvider[] {
+  const requested = config?.split(',').map((id) => id.trim()).filter(Boolean);
+  const byId = new Map(providers.map((p) => [p.id, p]));
+  for (const id of requested ?? []) {
+    if (!byId.has(id)) console.warn(`[EvidenceProviders] Unknown provider "${id}" in EVIDENCE_PROVIDERS`);
+  }
+  const enabled = new Set(requested ? requested.filter((id) => byId.has(id)) : byId.keys());
+
+  const ordered: EvidenceProvider[] = [];
+  const visiting = new Set<string>();
+  const visit = (id: string): boolean => {
+    if (ordered.some((p) => p.id === id)) return true;
+    const provider = byId.get(id);
+    if (!provider || !enabled.has(id)) return false;
+    if (visiting.has(id)) throw new Error(`Evidence provider dependency cycle through "${id}"`);
+    visiting.add(id);
+    const missing = (provider.dependsOn ?? []).filter((dep) => !visit(dep));
+    visiting.delete(id);
+    if (missing.length > 0) {
+      console.warn(`[EvidenceProviders] "${id}" disabled: requires ${missing.join(', ')}`);
+      enabled.delete(id);
+      return false;
+    }
+    ordered.push(provider);
+    return true;
+  };
+  [...enabled].forEach(visit);
+  return ordered;
+}
+
+/**
+ * Start every provider as soon as its dependencies have resolved. `run` wraps
+ * each fetch (deadline, its abort signal and timing in the pipeline); `onResult` sees each
+ * result as it arrives. Resolves with every result by provider id.
+ */
+export async function runEvidenceProviders(
+  providers: EvidenceProvider[],
+  context: EvidenceContext,
+  run: (provider: EvidenceProvider, task: (signal?: AbortSignal) => Promise<unknown>) => Promise<unknown>,
+  onResult: (provider: EvidenceProvider, result: unknown) => void = () => {}
+): Promise<Record<string, unknown>> {
+  const pending = new Map<string, Promise<unknown>>();
+  for (const provider of providers) {
+    const dependencies = provider.dependsOn ?? [];
+    pending.set(provider.id, Promise.all(dependencies.map((id) => pending.get(id))).then(async (values) => {
+      const resolved = Object.fromEntries(dependencies.map((id, i) => [id, values[i]]));
+      const result = await run(provider, (signal) => provider.fetch(context, resolved, signal));
+      onResult(provider, result);
+      return result;
+    }));
+  }
+
+  const ids = [...pending.keys()];
+  const values = await Promise.all(pending.values());
+  return Object.fromEntries(ids.map((id, i) => [id, values[i]]));
+}
+
+/**
+ * Put a provider's section into its coverage slot; returns the stream event
+ * announcing it.
+ */
+export function applyProviderSection(
+  coverage: EvidenceCoverage,
+  provider: EvidenceProvider,
+  section: EvidenceSections[EvidenceSectionKey],
+  index: number
+): VariantStreamEvent {
+  switch (provider.section) {
+    case 'structure':
+      coverage.structure = section as EvidenceSections['structure'];
+      return { type: 'structure', index, structure: coverage.structure };
+    case 'clinical':
+      coverage.clinical = section as EvidenceSections['clinical'];
+      return { type: 'clinical', index, clinical: coverage.clinical };
+    case 'nearby':
+      coverage.nearby = section as EvidenceSections['nearby'];
+      return { type: 'nearby', index, nearby: coverage.nearby };
+    case 'literature':
+      coverage.literature = section as EvidenceSections['literature'];
+      return { type: 'literature', index, literature: coverage.literature };
+    case 'population':
+      coverage.population = section as EvidenceSections['population'];
+      return { type: 'population', index, population: coverage.population };
+    case 'predictors':
+      coverage.predictors = section as EvidenceSections['predictors'];
+      return { type: 'predictors', index, predictors: coverage.predictors };
+    default: {
+      const additional = section as AdditionalEvidenceSection;
+      coverage.additional = { ...coverage.additional, [provider.id]: additional };
+      return { type: 'evidence', index, id: provider.id, section: additional };
+    }
+  }
+}
+
+registerEvidenceProvider(structureProvider);
+registerEvidenceProvider(clinvarProvider);
+registerEvidenceProvider(nearbyClinvarProvider);
+registerEvidenceProvider(pubmedProvider);
+registerEvidenceProvider(populationProvider);
+registerEvidenceProvider(predictorsProvider);
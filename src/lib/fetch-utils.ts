@@ -5,9 +5,12 @@
  * - Retries (Exponential backoff + Jitter)
  * - Circuit Breaker (Per-process state, fail-fast)
  * - Timeouts (AbortController)
+ * - Request deadlines (withDeadline), which cancel the work they abandon
  * - Standardized Error Handling
  */
 
+import { UpstreamUnavailableError } from './errors';
+
 export type FetchFailureReason = 
   | 'timeout' 
   | 'circuit_open' 
@@ -44,9 +47,9 @@ const CIRCUIT_THRESHOLD = 5; // failures to open
 const CIRCUIT_COOLDOWN_MS = 30000; // 30s default cooldown
 const CIRCUIT_COOLDOWN_429_MS = 60000; // 60s for rate limits
 
-export class ServiceUnavailableError extends Error {
-  constructor(public service: string, public reason: FetchFailureReason) {
-    super(`Service ${service} unavailable: ${reason}`);
+export class ServiceUnavailableError extends UpstreamUnavailableError {
+  constructor(service: string, reason: FetchFailureReason) {
+    super(service, reason);
     this.name = 'ServiceUnavailableError';
   }
 }
@@ -120,13 +123,20 @@ interface FetchOptions extends RequestInit {
   timeoutMs?: number;
   circuitBreakerKey?: string; // e.g., 'clinvar', 'pubmed'
   failOn404?: boolean; // if true, 404 throws/returns failure. if false (default), 404 returns null (not found).
+  responseType?: 'json' | 'text'; // 'text' returns the raw body (e.g. XML) as T
+  // `signal` (from RequestInit) cancels the attempt in flight and any retry
+}
+
+// The caller gave up (e.g. the request deadline passed); not an upstream fault
+function cancelled(service: string): FetchFailure {
+  return { unavailable: true, reason: 'timeout', service, details: 'Cancelled by the caller' };
 }
 
 /**
  * Robust fetch with retries, timeout, and circuit breaker.
  * 
  * Returns:
- * - Parsed JSON object (T) on success
+ * - Parsed JSON object (T) on success, or the body string with responseType 'text'
  * - null on 404 (Not Found) - implying data absence, not system failure
  * - FetchFailure object on system failure (if configured to not throw)
  * - Throws ServiceUnavailableError if desired, or returns FetchFailure
@@ -140,6 +150,8 @@ export async function fetchWithRetry<T>(
     circuitBreakerKey = 'unknown',
     failOn404 = false,
     method = 'GET',
+    responseType = 'json',
+    signal,
     ...fetchOpts 
   } = options;
 
@@ -162,9 +174,12 @@ export async function fetchWithRetry<T>(
   let attempt = 0;
 
   while (attempt <= MAX_RETRIES) {
+    if (signal?.aborted) return cancelled(circuitBreakerKey);
     attempt++;
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const cancel = () => controller.abort();
+    signal?.addEventListener('abort', cancel, { once: true });
 
     try {
       const response = await fetch(url, {
@@ -180,6 +195,7 @@ export async function fetchWithRetry<T>(
         recordSuccess(circuitBreakerKey);
         // Handle empty responses/text? Assuming JSON for now based on project usage.
         if (response.status === 204) return {} as T;
+        if (responseType === 'text') return await response.text() as T;
         return await response.json() as T;
       }
 
@@ -215,6 +231,7 @@ export async function fetchWithRetry<T>(
 
     } catch (error: any) {
       clearTimeout(timeoutId);
+      if (signal?.aborted) return cancelled(circuitBreakerKey);
       lastError = error;
 
       const isAbort = error.name === 'AbortError';
@@ -238,6 +255,8 @@ export async function fetchWithRetry<T>(
       } else {
         break; // Stop retrying
       }
+    } finally {
+      signal?.removeEventListener('abort', cancel);
     }
   }
 
@@ -258,3 +277,51 @@ export async function fetchWithRetry<T>(
     details: lastError?.message
   };
 }
+
+/**
+ * Resolve with `task`, or with a `timeout` failure once `deadline` (epoch ms
+ * on the `now` clock) passes or the caller's `signal` aborts. A task given as
+ * a function receives a signal that aborts at either, so its queued and
+ * in-flight calls stop; a late result is dropped either way.
+ */
+export async function withDeadline<T>(
+  task: Promise<T> | ((signal: AbortSignal) => Promise<T>),
+  deadline: number,
+  service: string,
+  now: () => number = Date.now,
+  signal?: AbortSignal
+): Promise<T | FetchFailure> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+  const expired = new Promise<FetchFailure>((resolve) => {
+    timer = setTimeout(() => {
+      resolve({
+        unavailable: true,
+        reason: 'timeout',
+        service,
+        details: 'Still pending at the request deadline',
+      });
+      controller.abort();
+    }, Math.max(0, deadline - now()));
+
+    if (!signal) return;
+    onAbort = () => {
+      resolve(cancelled(service));
+      controller.abort();
+    };
+    if (signal.aborted) onAbort();
+    else signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([typeof task === 'function' ? task(controller.signal) : task, expired]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+export function isFetchFailure(value: unknown): value is FetchFailure {
+  return !!value && typeof value === 'object' && (value as FetchFailure).unavailable === true && 'reason' in value;
+}
@@ -0,0 +1,119 @@
+/**
+ * GENE REGISTRY
+ *
+ * Gene symbol normalization and identifier lookup from the bundled HGNC
+ * snapshot. A previous symbol or alias shared by several genes is ambiguous
+ * and left as typed.
+ */
+
+import hgncData from './data/hgnc-genes.json';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export interface GeneRecord {
+  symbol: string;            // HGNC approved symbol
+  hgncId: string;
+  name: string;
+  previousSymbols: string[]; // Withdrawn symbols that now point at this gene
+  aliases: string[];
+  uniprot?: string;          // Canonical UniProt accession
+  ensembl?: string;          // Ensembl gene ID
+  refseq?: string[];         // RefSeq transcripts, MANE Select first
+}
+
+export type GeneMatch = 'approved' | 'previous' | 'alias' | 'unknown';
+
+export interface GeneResolution {
+  input: string;
+  symbol: string;            // Approved symbol, or the upper-cased input when unknown
+  matchedBy: GeneMatch;
+  record: GeneRecord | null;
+}
+
+// ==========================================
+// INDEXES
+// ==========================================
+
+const GENES: GeneRecord[] = (hgncData as { genes: GeneRecord[] }).genes;
+
+function buildIndex(keys: (gene: GeneRecord) => string[]): Map<string, GeneRecord[]> {
+  const index = new Map<string, GeneRecord[]>();
+  for (const gene of GENES) {
+    for (const key of keys(gene)) {
+      const upper = key.toUpperCase();
+      index.set(upper, [...(index.get(upper) || []), gene]);
+    }
+  }
+  return index;
+}
+
+const BY_SYMBOL = buildIndex((g) => [g.symbol]);
+const BY_PREVIOUS = buildIndex((g) => g.previousSymbols);
+const BY_ALIAS = buildIndex((g) => g.aliases);
+
+// ==========================================
+// LOOKUP
+// ==========================================
+
+export function resolveGeneSymbol(input: string): GeneResolution {
+  const upper = (input || '').trim().toUpperCase();
+  const tiers: Array<[GeneMatch, Map<string, GeneRecord[]>]> = [
+    ['approved', BY_SYMBOL],
+    ['previous', BY_PREVIOUS],
+    ['alias', BY_ALIAS],
+  ];
+
+  for (const [matchedBy, index] of tiers) {
+    const hits = index.get(upper) || [];
+    if (hits.length === 1) {
+      return { input: upper, symbol: hits[0].symbol, matchedBy, record: hits[0] };
+    }
+    if (hits.length > 1) break; // Ambiguous: do not guess
+  }
+
+  return { input: upper, symbol: upper, matchedBy: 'unknown', record: null };
+}
+
+export function normalizeGeneSymbol(input: string): string {
+  return resolveGeneSymbol(input).symbol;
+}
+
+export function getGeneRecord(gene: string): GeneRecord | null {
+  return resolveGeneSymbol(gene).record;
+}
+
+export function getUniprotAccession(gene: string): string | null {
+  return getGeneRecord(gene)?.uniprot || null;
+}
+
+export function findGeneByUniprot(accession: string): GeneRecord | null {
+  const canonical = accession.toUpperCase().replace(/-\d+$/, '');
+  return GENES.find((g) => g.uniprot === canonical) || null;
+}
+
+/**
+ * Every symbol the registry recognizes, keyed as typed upper-case, for fuzzy matching.
+ */
+export function listKnownSymbols(): Array<{ key: string; symbol: string; matchedBy: Exclude<GeneMatch, 'unknown'> }> {
+  return GENES.flatMap((g) => [
+    { key: g.symbol.toUpperCase(), symbol: g.symbol, matchedBy: 'approved' as const },
+    ...g.previousSymbols.map((s) => ({ key: s.toUpperCase(), symbol: g.symbol, matchedBy: 'previous' as const })),
+    ...g.aliases.map((s) => ({ key: s.toUpperCase(), symbol: g.symbol, matchedBy: 'alias' as const })),
+  ]);
+}
+
+/**
+ * Approved plus previous symbols, for sources that still index under old names.
+ */
+export function getSymbolVariants(gene: string): string[] {
+  const resolution = resolveGeneSymbol(gene);
+  if (!resolution.record) return [resolution.symbol];
+  return [resolution.record.symbol, ...resolution.record.previousSymbols.map((s) => s.toUpperCase())];
+}
+
+export function genesEquivalent(a: string, b: string): boolean {
+  if (!a || !b) return false;
+  return normalizeGeneSymbol(a) === normalizeGeneSymbol(b);
+}
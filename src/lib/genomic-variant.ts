@@ -0,0 +1,345 @@
+/**
+ * GENOMIC VARIANT MAPPER
+ *
+ * Maps GRCh38 genomic variants (VCF-style "17-7675088-C-T" or g. HGVS) onto
+ * annotated reference transcripts, one protein consequence per overlapping
+ * transcript. An annotation whose CDS length disagrees with its reference
+ * sequence is not used.
+ */
+
+import type { ParsedVariant } from './variant';
+import {
+  CodingChange,
+  deriveProteinConsequence,
+  formatCodingHgvs,
+  getReferenceTranscript,
+  parseNucleotideEdit,
+} from './coding-variant';
+import { ParseError, ReferenceMismatchError } from './errors';
+import { Cache } from './cache';
+import annotationData from './data/genomic-annotation.json';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export interface TranscriptAnnotation {
+  accession: string;
+  gene: string;
+  chrom: string;
+  strand: '+' | '-';
+  cds: Array<[number, number]>; // 1-based inclusive segments in transcript order
+}
+
+export interface GenomicVariant extends CodingChange {
+  chrom: string;
+  hgvs: string; // Canonical g. HGVS on the GRCh38 RefSeq accession
+}
+
+// ==========================================
+// REFERENCE DATA
+// ==========================================
+
+export const GENOMIC_ASSEMBLY = 'GRCh38';
+
+const ANNOTATION: TranscriptAnnotation[] =
+  (annotationData as unknown as { transcripts: TranscriptAnnotation[] }).transcripts;
+
+// MANE Select annotation fetched from NCBI, keyed by chromosome
+const fetchedAnnotation = new Cache<TranscriptAnnotation[]>(24 * 3600);
+
+// GRCh38 RefSeq chromosome accessions
+export const GRCH38_ACCESSIONS: Record<string, string> = {
+  '1': 'NC_000001.11', '2': 'NC_000002.12', '3': 'NC_000003.12', '4': 'NC_000004.12',
+  '5': 'NC_000005.10', '6': 'NC_000006.12', '7': 'NC_000007.14', '8': 'NC_000008.11',
+  '9': 'NC_000009.12', '10': 'NC_000010.11', '11': 'NC_000011.10', '12': 'NC_000012.12',
+  '13': 'NC_000013.11', '14': 'NC_000014.9', '15': 'NC_000015.10', '16': 'NC_000016.10',
+  '17': 'NC_000017.11', '18': 'NC_000018.10', '19': 'NC_000019.10', '20': 'NC_000020.11',
+  '21': 'NC_000021.9', '22': 'NC_000022.11', X: 'NC_000023.11', Y: 'NC_000024.10',
+};
+
+const VCF_PATTERN = /^(?:chr)?([0-9]{1,2}|X|Y)[-:](\d+)[-:]([ACGT]+)[-:>/]([ACGT]+)$/i;
+const GENOMIC_HGVS_PATTERN = /^([A-Za-z0-9_.]+):g\.(.+)$/i;
+
+const COMPLEMENT: Record<string, string> = { A: 'T', C: 'G', G: 'C', T: 'A' };
+
+function reverseComplement(bases: string): string {
+  return bases.split('').reverse().map((b) => COMPLEMENT[b] || 'N').join('');
+}
+
+/**
+ * Bundled annotation plus whatever has been fetched for other chromosomes.
+ */
+export function transcriptAnnotations(): TranscriptAnnotation[] {
+  const fetched = Object.keys(GRCH38_ACCESSIONS).flatMap((chrom) => fetchedAnnotation.get(chrom) ?? []);
+  const bundled = new Set(ANNOTATION.map((t) => t.accession));
+  return [...ANNOTATION, ...fetched.filter((t) => !bundled.has(t.accession))];
+}
+
+export function hasChromosomeAnnotation(chrom: string): boolean {
+  return fetchedAnnotation.get(chrom) !== null;
+}
+
+/**
+ * Record the transcripts NCBI annotates on `chrom`; an empty list marks the
+ * chromosome as looked up.
+ */
+export function addChromosomeAnnotation(chrom: string, transcripts: TranscriptAnnotation[]): void {
+  fetchedAnnotation.set(chrom, transcripts);
+}
+
+// ==========================================
+// PARSING
+// ==========================================
+
+export function isGenomicInput(input: string): boolean {
+  const clean = (input || '').trim().replace(/\s+/g, '');
+  return VCF_PATTERN.test(clean) || GENOMIC_HGVS_PATTERN.test(clean);
+}
+
+function resolveChromosome(sequence: string): string {
+  const upper = sequence.toUpperCase();
+  const chromMatch = upper.match(/^(?:CHR)?([0-9]{1,2}|X|Y)$/);
+  if (chromMatch && GRCH38_ACCESSIONS[chromMatch[1]]) {
+    return chromMatch[1];
+  }
+
+  const accessionMatch = upper.match(/^NC_0000(\d{2})(?:\.(\d+))?$/);
+  if (accessionMatch) {
+    const index = parseInt(accessionMatch[1], 10);
+    const chrom = index === 23 ? 'X' : index === 24 ? 'Y' : String(index);
+    const expected = GRCH38_ACCESSIONS[chrom];
+    if (expected && (!accessionMatch[2] || expected === upper)) {
+      return chrom;
+    }
+    if (expected) {
+      throw new ParseError(
+        `${upper} is not a ${GENOMIC_ASSEMBLY} accession. Only ${GENOMIC_ASSEMBLY} coordinates are supported (use ${expected}).`
+      );
+    }
+  }
+
+  throw new ParseError(`Unrecognized chromosome or reference sequence "${sequence}"`);
+}
+
+/**
+ * Convert VCF REF/ALT into a minimal edit by trimming shared prefix/suffix bases.
+ */
+export function vcfToEdit(pos: number, ref: string, alt: string): CodingChange {
+  let prefix = 0;
+  while (prefix < ref.length && prefix < alt.length && ref[prefix] === alt[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < ref.length - prefix &&
+    suffix < alt.length - prefix &&
+    ref[ref.length - 1 - suffix] === alt[alt.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const refBases = ref.slice(prefix, ref.length - suffix);
+  const altBases = alt.slice(prefix, alt.length - suffix);
+  const start = pos + prefix;
+
+  if (!refBases && !altBases) {
+    throw new ParseError('REF and ALT alleles are identical; no variant to map.');
+  }
+  if (!refBases) {
+    return { start: start - 1, end: start, kind: 'insertion', altBases };
+  }
+  const end = start + refBases.length - 1;
+  if (!altBases) {
+    return { start, end, kind: 'deletion', refBases };
+  }
+  if (refBases.length === 1 && altBases.length === 1) {
+    return { start, end, kind: 'substitution', refBases, altBases };
+  }
+  return { start, end, kind: 'delins', refBases, altBases };
+}
+
+function formatGenomicHgvs(chrom: string, change: CodingChange): string {
+  // formatCodingHgvs already encodes the edit grammar; swap the coordinate marker.
+  return formatCodingHgvs(GRCH38_ACCESSIONS[chrom], change).replace(':c.', ':g.');
+}
+
+/**
+ * Parse "17-7675088-C-T", "chr17:7675088:C:T", "NC_000017.11:g.7675088C>T" or "chr17:g.7675088C>T".
+ */
+export function parseGenomicVariant(input: string): GenomicVariant {
+  const clean = (input || '').trim().replace(/\s+/g, '');
+
+  const vcf = clean.match(VCF_PATTERN);
+  if (vcf) {
+    const chrom = resolveChromosome(vcf[1]);
+    const change = vcfToEdit(parseInt(vcf[2], 10), vcf[3].toUpperCase(), vcf[4].toUpperCase());
+    return { ...change, chrom, hgvs: formatGenomicHgvs(chrom, change) };
+  }
+
+  const hgvs = clean.match(GENOMIC_HGVS_PATTERN);
+  if (hgvs) {
+    const chrom = resolveChromosome(hgvs[1]);
+    const change = parseNucleotideEdit(hgvs[2], 'g');
+    return { ...change, chrom, hgvs: formatGenomicHgvs(chrom, change) };
+  }
+
+  throw new ParseError(
+    'Invalid genomic variant. Expected chrom-pos-ref-alt (e.g. 12-25245350-C-T) or g. HGVS (e.g. NC_000012.12:g.25245350C>T).'
+  );
+}
+
+// ==========================================
+// MAPPING
+// ==========================================
+
+function toCodingPosition(transcript: TranscriptAnnotation, genomicPos: number): number | null {
+  let offset = 0;
+  for (const [start, end] of transcript.cds) {
+    if (genomicPos >= start && genomicPos <= end) {
+      return offset + (transcript.strand === '+' ? genomicPos - start : end - genomicPos) + 1;
+    }
+    offset += end - start + 1;
+  }
+  return null;
+}
+
+function overlapsCds(transcript: TranscriptAnnotation, variant: GenomicVariant): boolean {
+  return transcript.chrom === variant.chrom &&
+    transcript.cds.some(([start, end]) => variant.start <= end && variant.end >= start);
+}
+
+export function overlappingTranscripts(
+  variant: GenomicVariant,
+  annotation: TranscriptAnnotation[] = transcriptAnnotations()
+): TranscriptAnnotation[] {
+  return annotation.filter((t) => overlapsCds(t, variant));
+}
+
+function cdsLength(transcript: TranscriptAnnotation): number {
+  return transcript.cds.reduce((total, [start, end]) => total + end - start + 1, 0);
+}
+
+function toCodingChange(transcript: TranscriptAnnotation, variant: GenomicVariant): CodingChange {
+  const first = toCodingPosition(transcript, variant.start);
+  const last = toCodingPosition(transcript, variant.end);
+  const location = `chr${variant.chrom}:${variant.start}${variant.end !== variant.start ? `_${variant.end}` : ''}`;
+
+  const minus = transcript.strand === '-';
+  const start = minus ? last : first;
+  const end = minus ? first : last;
+  const spanInCds = variant.end - variant.start === (end ?? 0) - (start ?? 0);
+  if (start === null || end === null || !spanInCds) {
+    throw new ParseError(
+      `${location} crosses an exon boundary of ${transcript.accession}. Splice-region variants are not supported.`
+    );
+  }
+
+  const orient = (bases?: string) => (bases && minus ? reverseComplement(bases) : bases);
+  return {
+    start,
+    end,
+    kind: variant.kind,
+    refBases: orient(variant.refBases),
+    altBases: orient(variant.altBases),
+  };
+}
+
+function checkGenomicReference(
+  transcript: TranscriptAnnotation,
+  cds: string,
+  variant: GenomicVariant,
+  change: CodingChange
+): void {
+  if (!change.refBases || change.kind === 'insertion') return;
+  const cdsBases = cds.slice(change.start - 1, change.end);
+  const genomicBases = transcript.strand === '-' ? reverseComplement(cdsBases) : cdsBases;
+  if (genomicBases !== variant.refBases) {
+    throw new ReferenceMismatchError(
+      `Reference mismatch at chr${variant.chrom}:${variant.start}: ${GENOMIC_ASSEMBLY} has ${genomicBases}, input states ${variant.refBases}`,
+      { statedRef: variant.refBases, actualRef: genomicBases }
+    );
+  }
+}
+
+/**
+ * Map a genomic variant to one protein consequence per overlapping transcript.
+ */
+export function mapGenomicVariant(
+  variant: GenomicVariant,
+  annotation: TranscriptAnnotation[] = transcriptAnnotations()
+): ParsedVariant[] {
+  const overlapping = overlappingTranscripts(variant, annotation);
+  if (overlapping.length === 0) {
+    throw new ParseError(
+      `${variant.hgvs} does not overlap the coding sequence of any annotated ${GENOMIC_ASSEMBLY} transcript.`
+    );
+  }
+
+  return overlapping.map((annotated) => {
+    const transcript = getReferenceTranscript(annotated.accession);
+    if (!transcript) {
+      throw new ParseError(`Annotated transcript ${annotated.accession} has no loaded reference sequence`);
+    }
+    if (cdsLength(annotated) !== transcript.cds.length) {
+      throw new ParseError(
+        `Exon annotation of ${annotated.accession} does not match its reference sequence (${cdsLength(annotated)} vs ${transcript.cds.length} bases).`
+      );
+    }
+    const change = toCodingChange(annotated, variant);
+    checkGenomicReference(annotated, transcript.cds, variant, change);
+
+    return {
+      ...deriveProteinConsequence(transcript, change),
+      codingHgvs: formatCodingHgvs(transcript.accession, change),
+      genomicHgvs: variant.hgvs,
+    };
+  });
+}
+
+export function parseGenomicHGVS(input: string): ParsedVariant[] {
+  return mapGenomicVariant(parseGenomicVariant(input));
+}
+
+function toGenomicPosition(transcript: TranscriptAnnotation, codingPos: number): number | null {
+  let offset = 0;
+  for (const [start, end] of transcript.cds) {
+    const length = end - start + 1;
+    if (codingPos >= 1 && codingPos <= offset + length) {
+      const within = codingPos - offset - 1;
+      return transcript.strand === '+' ? start + within : end - within;
+    }
+    offset += length;
+  }
+  return null;
+}
+
+/**
+ * The GRCh38 allele behind a consequence: the submitted genomic variant, or a
+ * coding change mapped back through the transcript annotation. Null for protein
+ * input (several alleles give one protein change) and for coding changes on
+ * transcripts without annotation or across an exon boundary.
+ */
+export function genomicAlleleOf(
+  parsed: ParsedVariant,
+  annotation: TranscriptAnnotation[] = transcriptAnnotations()
+): GenomicVariant | null {
+  if (parsed.genomicHgvs) return parseGenomicVariant(parsed.genomicHgvs);
+  const coding = parsed.codingHgvs?.match(/^([A-Za-z0-9_.]+):c\.(.+)$/);
+  const transcript = coding && annotation.find((t) => t.accession === coding[1]);
+  if (!coding || !transcript) return null;
+
+  const change = parseNucleotideEdit(coding[2], 'c');
+  const first = toGenomicPosition(transcript, change.start);
+  const last = toGenomicPosition(transcript, change.end);
+  if (first === null || last === null || Math.abs(last - first) !== change.end - change.start) return null;
+
+  const minus = transcript.strand === '-';
+  const orient = (bases?: string) => (bases && minus ? reverseComplement(bases) : bases);
+  const genomic: CodingChange = {
+    start: Math.min(first, last),
+    end: Math.max(first, last),
+    kind: change.kind,
+    refBases: orient(change.refBases),
+    altBases: orient(change.altBases),
+  };
+  return { ...genomic, chrom: transcript.chrom, hgvs: formatGenomicHgvs(transcript.chrom, genomic) };
+}
@@ -0,0 +1,161 @@
+/**
+ * GNOMAD CLIENT
+ *
+ * Population allele frequencies from a local gnomAD sites VCF, read through
+ * its tabix index. Alleles are compared as minimal edits, so VCF padding bases
+ * never decide a match.
+ */
+
+import path from 'path';
+import { FetchFailure, FetchResult } from './fetch-utils';
+import { GenomicVariant, vcfToEdit } from './genomic-variant';
+import { CodingChange } from './coding-variant';
+import { TabixFile } from './tabix';
+
+export interface AlleleFrequency {
+  alleleCount: number;
+  alleleNumber: number;
+  alleleFrequency: number;
+  homozygoteCount: number;
+}
+
+export interface PopulationRecord extends AlleleFrequency {
+  variantId: string;  // CHROM-POS-REF-ALT as the gnomAD browser writes it
+  filters: string[];  // Empty when the site passed every filter
+  ancestries: Array<AlleleFrequency & { id: string; label: string }>;
+  source: string;     // Sites file name
+}
+
+// gnomAD genetic ancestry groups (v2-v4 INFO suffixes)
+export const ANCESTRY_GROUPS: Record<string, string> = {
+  afr: 'African/African American',
+  amr: 'Admixed American',
+  asj: 'Ashkenazi Jewish',
+  eas: 'East Asian',
+  fin: 'European (Finnish)',
+  mid: 'Middle Eastern',
+  nfe: 'European (non-Finnish)',
+  sas: 'South Asian',
+  ami: 'Amish',
+  remaining: 'Remaining',
+  oth: 'Other',
+};
+
+export const GNOMAD_BROWSER_URL = 'https://gnomad.broadinstitute.org/variant';
+
+function unavailable(reason: FetchFailure['reason'], details: string): FetchFailure {
+  return { unavailable: true, reason, service: 'gnomad', details };
+}
+
+// ==========================================
+// RECORDS
+// ==========================================
+
+function parseInfo(info: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  for (const entry of info.split(';')) {
+    const eq = entry.indexOf('=');
+    if (eq === -1) fields.set(entry, '');
+    else fields.set(entry.slice(0, eq), entry.slice(eq + 1));
+  }
+  return fields;
+}
+
+/**
+ * Frequencies for one ALT allele of a record. AC, AF and nhomalt have one
+ * value per ALT; AN has one per site.
+ */
+function frequencyOf(info: Map<string, string>, altIndex: number, suffix = ''): AlleleFrequency | null {
+  const alleleNumber = Number(info.get(`AN${suffix}`));
+  if (!info.has(`AN${suffix}`) || Number.isNaN(alleleNumber)) return null;
+  const perAllele = (key: string) => {
+    const values = info.get(key)?.split(',');
+    const value = Number(values?.[altIndex] ?? values?.[0]);
+    return Number.isNaN(value) ? null : value;
+  };
+  const alleleCount = perAllele(`AC${suffix}`) ?? 0;
+  return {
+    alleleCount,
+    alleleNumber,
+    alleleFrequency: perAllele(`AF${suffix}`) ?? (alleleNumber > 0 ? alleleCount / alleleNumber : 0),
+    homozygoteCount: perAllele(`nhomalt${suffix}`) ?? 0,
+  };
+}
+
+function sameAllele(site: CodingChange, query: CodingChange): boolean {
+  // A duplication is an insertion of the duplicated bases, placed before or after them
+  if (query.kind === 'duplication') {
+    const length = query.end - query.start + 1;
+    return site.kind === 'insertion' &&
+      (site.start === query.end || site.start === query.start - 1) &&
+      (query.refBases ? site.altBases === query.refBases : site.altBases?.length === length);
+  }
+  return site.kind === query.kind &&
+    site.start === query.start &&
+    site.end === query.end &&
+    (!query.refBases || site.refBases === query.refBases) &&
+    (!query.altBases || site.altBases === query.altBases);
+}
+
+/**
+ * The record for `variant` among VCF `records` (fields), or null.
+ */
+export function matchPopulationRecord(records: string[][], variant: GenomicVariant, source: string): PopulationRecord | null {
+  for (const [chrom, pos, , ref, alts, , filter, info] of records) {
+    const altList = alts.split(',');
+    for (let altIndex = 0; altIndex < altList.length; altIndex++) {
+      const alt = altList[altIndex];
+      if (!/^[ACGT]+$/i.test(alt) || !/^[ACGT]+$/i.test(ref)) continue; // '*', symbolic alleles
+      let site: CodingChange;
+      try {
+        site = vcfToEdit(Number(pos), ref.toUpperCase(), alt.toUpperCase());
+      } catch {
+        continue;
+      }
+      if (!sameAllele(site, variant)) continue;
+
+      const fields = parseInfo(info);
+      const overall = frequencyOf(fields, altIndex);
+      if (!overall) continue;
+      return {
+        ...overall,
+        variantId: [chrom.replace(/^chr/i, ''), pos, ref, alt].join('-'),
+        filters: filter === 'PASS' || filter === '.' ? [] : filter.split(';'),
+        ancestries: Object.entries(ANCESTRY_GROUPS).flatMap(([id, label]) => {
+          const frequency = frequencyOf(fields, altIndex, `_${id}`);
+          return frequency ? [{ id, label, ...frequency }] : [];
+        }),
+        source,
+      };
+    }
+  }
+  return null;
+}
+
+// ==========================================
+// LOOKUP
+// ==========================================
+
+/**
+ * The gnomAD record for `variant`; null when the site is not in the file.
+ */
+export async function getPopulationFrequency(
+  variant: GenomicVariant,
+  sitesPath: string | undefined = process.env.GNOMAD_SITES_PATH
+): Promise<FetchResult<PopulationRecord>> {
+  if (!sitesPath) return unavailable('unknown', 'No gnomAD sites file configured (GNOMAD_SITES_PATH)');
+
+  const file = new TabixFile(sitesPath.replace('{chrom}', variant.chrom));
+  try {
+    // gnomAD v3+ names sequences chr17, v2 names them 17; the index knows which
+    const { names } = await file.index();
+    const sequence = [`chr${variant.chrom}`, variant.chrom].find((name) => names.includes(name));
+    if (!sequence) return null;
+    // From the base before the edit: VCF indels start at their padding base
+    const records = await file.query(sequence, variant.start - 1, variant.end);
+    return matchPopulationRecord(records, variant, path.basename(file.path));
+  } catch (error) {
+    console.error(`[gnomAD] Could not read ${file.path}:`, (error as Error).message);
+    return unavailable('bad_response', `gnomAD sites file could not be read: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,448 @@
+/**
+ * HGVS INPUT DIAGNOSTICS
+ *
+ * Explains why a variant input failed to parse and proposes corrected inputs.
+ * Only suggestions that re-parse cleanly are offered.
+ */
+
+import {
+  AMINO_ACIDS,
+  isAlleleInput,
+  isProteinIdentifier,
+  normalizeParsedVariant,
+  normalizeVariantInput,
+  parseVariantAllele,
+  ParsedVariant,
+} from './variant';
+import { listKnownSymbols, resolveGeneSymbol } from './gene-registry';
+import {
+  InputDiagnostics,
+  InputIssue,
+  InputIssueCode,
+  InputSuggestion,
+  ApiErrorBody,
+} from './types/honest-response';
+
+const MAX_FIX_DEPTH = 3;       // Rewrites chained onto one input
+const MAX_SUGGESTIONS = 5;
+const MAX_GENE_DISTANCE = 2;   // 1 for symbols of three characters or fewer
+
+type Attempt =
+  | { ok: true; normalized: string; parsed: ParsedVariant | null }
+  | { ok: false; error: string };
+
+interface Fix {
+  issue: InputIssue;
+  rewrites: Array<{ text: string; confidence: number }>;
+}
+
+type Rule = (text: string, outcome: Attempt) => Fix[];
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/**
+ * Optimal string alignment distance: Levenshtein plus adjacent transpositions,
+ * so TP35 is one edit from TP53.
+ */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function attempt(text: string): Attempt {
+  try {
+    if (isAlleleInput(text)) {
+      return { ok: true, normalized: parseVariantAllele(text).hgvs, parsed: null };
+    }
+    const results = normalizeVariantInput(text);
+    return results.length === 1
+      ? { ok: true, normalized: results[0].normalized, parsed: results[0].parsed }
+      : { ok: true, normalized: text, parsed: null };
+  } catch (error) {
+    return { ok: false, error: (error as Error).message };
+  }
+}
+
+// Transcript numbering is lost in the normalized form, so transcript input is suggested as rewritten
+function suggestionText(text: string, outcome: Attempt & { ok: true }): string {
+  return outcome.parsed?.transcript ? text : outcome.normalized;
+}
+
+// Offset where the protein change starts: after the last ":" or "p."
+function changeOffset(text: string): number {
+  return Math.max(text.lastIndexOf(':') + 1, text.toLowerCase().lastIndexOf('p.') + 2, 0);
+}
+
+function replaceAt(text: string, start: number, end: number, replacement: string): string {
+  return text.slice(0, start) + replacement + text.slice(end);
+}
+
+// ==========================================
+// REPAIR RULES (failed parses)
+// ==========================================
+
+const GENE_BEFORE_PROTEIN = /^((?:NM_\d+(?:\.\d+)?\()?[A-Za-z0-9-]+?\)?)(\s+|\.)?(?=p\.)/i;
+
+const missingColon: Rule = (text, outcome) => {
+  if (outcome.ok || text.includes(':')) return [];
+  const match = text.match(GENE_BEFORE_PROTEIN);
+  if (!match) return [];
+  const [, gene, separator = ''] = match;
+  const span = { start: gene.length, end: gene.length + separator.length };
+  return [{
+    issue: {
+      code: 'MISSING_COLON',
+      severity: 'error',
+      message: separator
+        ? `Expected ":" between ${gene} and the protein change, found "${separator.trim() || ' '}"`
+        : `Missing ":" between ${gene} and the protein change`,
+      span,
+    },
+    rewrites: [{ text: replaceAt(text, span.start, span.end, ':'), confidence: 0.95 }],
+  }];
+};
+
+const missingPDot: Rule = (text, outcome) => {
+  if (outcome.ok) return [];
+  const match = /(^|[:(])p(?=(?:Ter|[A-Za-z]{3}|[A-Za-z*])\d)/i.exec(text);
+  if (!match) return [];
+  const start = match.index + match[1].length;
+  return [{
+    issue: { code: 'MISSING_P_DOT', severity: 'error', message: 'Missing "." after "p"', span: { start, end: start + 1 } },
+    rewrites: [{ text: replaceAt(text, start + 1, start + 1, '.'), confidence: 0.9 }],
+  }];
+};
+
+const nucleotideArrow: Rule = (text, outcome) => {
+  if (outcome.ok) return [];
+  const match = /[A-Za-z*]\d+(>)(?=[A-Za-z*])/.exec(text);
+  if (!match) return [];
+  const start = match.index + match[0].length - 1;
+  return [{
+    issue: {
+      code: 'NUCLEOTIDE_ARROW',
+      severity: 'error',
+      message: '">" belongs to c. and g. substitutions; protein substitutions are written p.Arg175His',
+      span: { start, end: start + 1 },
+    },
+    rewrites: [{ text: replaceAt(text, start, start + 1, ''), confidence: 0.9 }],
+  }];
+};
+
+const positionFirst: Rule = (text, outcome) => {
+  if (outcome.ok) return [];
+  const match = /(?:^|:|p\.\(?)(\d+)(?:([A-Za-z*])>?([A-Za-z*])|([A-Za-z]{3})>?([A-Za-z]{3}))\)?$/i.exec(text);
+  if (!match) return [];
+  const [whole, pos, ref1, alt1, ref3, alt3] = match;
+  const start = match.index + whole.indexOf(pos);
+  const end = start + pos.length + (ref1 ? 1 : 3) + (whole.includes('>') ? 1 : 0) + (alt1 ? 1 : 3);
+  return [{
+    issue: {
+      code: 'POSITION_FIRST',
+      severity: 'error',
+      message: 'The reference residue goes before the position (e.g. R175H, not 175R>H)',
+      span: { start, end },
+    },
+    rewrites: [{ text: replaceAt(text, start, end, `${ref1 ?? ref3}${pos}${alt1 ?? alt3}`), confidence: 0.8 }],
+  }];
+};
+
+const THREE_LETTER_CODES = Object.keys(AMINO_ACIDS).filter((code) => code !== 'Stop');
+
+const invalidAminoAcid: Rule = (text, outcome) => {
+  if (outcome.ok) return [];
+  const token = outcome.error.match(/Invalid amino acid(?: code)?: (\S+)/)?.[1];
+  if (!token) return [];
+  const offset = changeOffset(text);
+  const index = text.slice(offset).toLowerCase().indexOf(token.toLowerCase());
+  const span = index >= 0 ? { start: offset + index, end: offset + index + token.length } : null;
+
+  const candidates = token.length > 1
+    ? THREE_LETTER_CODES
+      .map((code) => ({ code, distance: editDistance(token.toLowerCase(), code.toLowerCase()) }))
+      .filter(({ distance }) => distance <= 2)
+      .map(({ code, distance }) => ({
+        code,
+        confidence: (distance === 1 ? 0.8 : 0.5) + (code[0] === token[0].toUpperCase() ? 0.05 : 0),
+      }))
+      .sort((a, b) => b.confidence - a.confidence || a.code.localeCompare(b.code))
+      .slice(0, 3)
+    : [];
+
+  return [{
+    issue: {
+      code: 'INVALID_AMINO_ACID',
+      severity: 'error',
+      message: candidates.length
+        ? `"${token}" is not an amino acid code; did you mean ${candidates.map((c) => c.code).join(' or ')}?`
+        : `"${token}" is not an amino acid code`,
+      span,
+    },
+    rewrites: span
+      ? candidates.map(({ code, confidence }) => ({ text: replaceAt(text, span.start, span.end, code), confidence }))
+      : [],
+  }];
+};
+
+const missingAlt: Rule = (text, outcome) => {
+  if (outcome.ok) return [];
+  const match = /(?:^|:|p\.\(?)(Ter|[A-Za-z]{3}|[A-Za-z*])(\d+)\)?$/.exec(text);
+  if (!match) return [];
+  return [{
+    issue: {
+      code: 'MISSING_ALT',
+      severity: 'error',
+      message: `Nothing follows residue ${match[2]}: add the new amino acid or an edit (del, dup, fs)`,
+      span: { start: text.length, end: text.length },
+    },
+    rewrites: [],
+  }];
+};
+
+// Gene token as typed: GENE:... or NM_xxx(GENE):...
+const GENE_TOKEN = /^(NM_\d+(?:\.\d+)?\()?([A-Za-z0-9-]+)(?=\)?:)/i;
+
+function geneRule(strict: boolean): Rule {
+  return (text) => {
+    const match = text.match(GENE_TOKEN);
+    if (!match) return [];
+    const symbol = match[2];
+    if (/^NM_/i.test(symbol) || isProteinIdentifier(symbol)) return [];
+    if (resolveGeneSymbol(symbol).matchedBy !== 'unknown') return [];
+
+    const upper = symbol.toUpperCase();
+    const maxDistance = upper.length <= 3 ? 1 : MAX_GENE_DISTANCE;
+    const best = new Map<string, number>();
+    for (const known of listKnownSymbols()) {
+      const distance = editDistance(upper, known.key);
+      if (distance > maxDistance) continue;
+      const confidence = (distance === 1 ? 0.9 : 0.6) * (known.matchedBy === 'approved' ? 1 : 0.95);
+      best.set(known.symbol, Math.max(best.get(known.symbol) ?? 0, confidence));
+    }
+    const candidates = Array.from(best.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, 3);
+    if (candidates.length === 0 && !strict) return [];
+
+    const start = match[1]?.length ?? 0;
+    const span = { start, end: start + symbol.length };
+    return [{
+      issue: {
+        code: 'UNKNOWN_GENE',
+        severity: strict ? 'error' : 'warning',
+        message: candidates.length
+          ? `${upper} is not a known gene symbol; did you mean ${candidates.map(([s]) => s).join(' or ')}?`
+          : `${upper} is not a known gene symbol`,
+        span,
+      },
+      rewrites: candidates.map(([approved, confidence]) => ({
+        text: replaceAt(text, span.start, span.end, approved),
+        confidence,
+      })),
+    }];
+  };
+}
+
+// ==========================================
+// CAVEATS (inputs that parse)
+// ==========================================
+
+function ambiguousX(text: string): InputIssue | null {
+  const offset = changeOffset(text);
+  const index = text.slice(offset).search(/(?<=\d)X(?![a-z])|(?<![A-Za-z])X(?=\d)/i);
+  if (index < 0) return null;
+  return {
+    code: 'AMBIGUOUS_X',
+    severity: 'warning',
+    message: '"X" is read as a stop codon (Ter). HGVS writes stops as "*" or "Ter"; X also stands for an unknown amino acid',
+    span: { start: offset + index, end: offset + index + 1 },
+  };
+}
+
+function lowercaseCodes(text: string): InputIssue | null {
+  const offset = changeOffset(text);
+  const match = /^\(?([a-z]\d+[a-z])\)?$/.exec(text.slice(offset));
+  if (!match) return null;
+  const start = offset + match[0].indexOf(match[1]);
+  return {
+    code: 'LOWERCASE_CODES',
+    severity: 'warning',
+    message: `"${match[1]}" is read as ${match[1].toUpperCase()}; single-letter amino acid codes are upper case`,
+    span: { start, end: start + match[1].length },
+  };
+}
+
+// ==========================================
+// SEARCH
+// ==========================================
+
+const REPAIR_RULES: Rule[] = [missingColon, missingPDot, nucleotideArrow, positionFirst, invalidAminoAcid, missingAlt];
+
+/**
+ * Breadth-first over chained rewrites; every rewrite that parses becomes a suggestion.
+ */
+function searchRewrites(text: string, outcome: Attempt, rules: Rule[], exclude: string | null): InputSuggestion[] {
+  const best = new Map<string, InputSuggestion>();
+  const seen = new Set([text]);
+  let frontier = [{ text, outcome, fixes: [] as InputIssueCode[], score: 1 }];
+
+  for (let depth = 0; depth < MAX_FIX_DEPTH && frontier.length > 0; depth++) {
+    const next: typeof frontier = [];
+    for (const state of frontier) {
+      for (const fix of rules.flatMap((rule) => rule(state.text, state.outcome))) {
+        for (const rewrite of fix.rewrites) {
+          if (seen.has(rewrite.text)) continue;
+          seen.add(rewrite.text);
+          const candidate = {
+            text: rewrite.text,
+            outcome: attempt(rewrite.text),
+            fixes: [...state.fixes, fix.issue.code],
+            score: state.score * rewrite.confidence,
+          };
+          next.push(candidate);
+
+          const parsed = candidate.outcome.ok ? candidate.outcome.parsed : null;
+          if (!candidate.outcome.ok || parsed?.gene === 'UNKNOWN' || (exclude && parsed?.gene === exclude)) continue;
+          const hgvs = suggestionText(candidate.text, candidate.outcome);
+          const existing = best.get(hgvs);
+          if (!existing || existing.score < candidate.score) {
+            best.set(hgvs, { hgvs, fixes: candidate.fixes, score: Math.round(candidate.score * 100) / 100 });
+          }
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score || a.fixes.length - b.fixes.length)
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+// ==========================================
+// PUBLIC API
+// ==========================================
+
+/**
+ * Diagnose a variant input. Pass `geneUnresolved` once UniProt could not
+ * resolve the parsed gene, so the symbol itself is treated as the error.
+ */
+export function diagnoseVariantInput(
+  input: string,
+  options: { geneUnresolved?: boolean } = {}
+): InputDiagnostics {
+  const text = (input || '').trim();
+  const outcome = attempt(text);
+  const strictGene = Boolean(options.geneUnresolved);
+  const rules = [...REPAIR_RULES, geneRule(strictGene)];
+
+  const issues: InputIssue[] = [];
+  for (const rule of outcome.ok && !strictGene ? [] : rules) {
+    issues.push(...rule(text, outcome).map((fix) => fix.issue));
+  }
+  for (const caveat of [ambiguousX(text), lowercaseCodes(text)]) {
+    if (caveat) issues.push(caveat);
+  }
+
+  if (outcome.ok) {
+    const parsed = outcome.parsed;
+    if (parsed?.gene === 'UNKNOWN' && !parsed.transcript) {
+      issues.unshift({
+        code: 'MISSING_GENE',
+        severity: 'error',
+        message: 'No gene: prefix the change with a gene symbol (e.g. TP53:p.R175H)',
+        span: { start: 0, end: 0 },
+      });
+    }
+  } else if (!issues.some((issue) => issue.severity === 'error')) {
+    issues.unshift({ code: 'UNPARSEABLE', severity: 'error', message: outcome.error, span: null });
+  }
+
+  const hasErrors = issues.some((issue) => issue.severity === 'error');
+  let suggestions: InputSuggestion[] = [];
+  if (!outcome.ok || strictGene) {
+    const unresolved = strictGene && outcome.ok ? outcome.parsed?.gene ?? null : null;
+    suggestions = searchRewrites(text, outcome, rules, unresolved);
+  } else if (!hasErrors && issues.length > 0) {
+    // Caveats only: offer the unambiguous form the input was read as
+    const hgvs = suggestionText(text, outcome);
+    if (hgvs !== text) suggestions = [{ hgvs, fixes: issues.map((issue) => issue.code), score: 1 }];
+  }
+
+  return { input: text, valid: outcome.ok, issues, suggestions };
+}
+
+/**
+ * Turn a REF_MISMATCH validation into corrected inputs: the change with ref
+ * and alt swapped, the stated residue at nearby positions, or the isoforms
+ * that carry it.
+ */
+export function diagnoseReferenceMismatch(
+  input: string,
+  parsed: ParsedVariant,
+  validation: ApiErrorBody
+): InputDiagnostics {
+  const text = (input || '').trim();
+  const { actualRef, nearbyPositions = [], matchingIsoforms = [] } = validation.details ?? {};
+  const position = validation.details?.providedPosition ?? parsed.pos;
+  const single = parsed.end === undefined && parsed.type === 'missense';
+
+  const token = new RegExp(`(?:Ter|[A-Za-z]{3}|[A-Za-z*])${parsed.pos}(?!\\d)(?:Ter|[A-Za-z]{3}|[A-Za-z*])?`, 'i').exec(text);
+  const span = token ? { start: token.index, end: token.index + token[0].length } : null;
+
+  const issues: InputIssue[] = [];
+  const suggestions: InputSuggestion[] = [];
+  // `entry` replaces the gene with an isoform accession, which normalization would fold back to the gene
+  const offer = (variant: ParsedVariant, fix: InputIssueCode, score: number, entry?: string) => {
+    const normalized = normalizeParsedVariant(variant).normalized;
+    const hgvs = entry ? normalized.replace(/^[^:]+/, entry) : normalized;
+    if (attempt(hgvs).ok && !suggestions.some((s) => s.hgvs === hgvs)) {
+      suggestions.push({ hgvs, fixes: [fix], score: Math.round(score * 100) / 100 });
+    }
+  };
+  const base: ParsedVariant = { ...parsed, pos: position, transcript: undefined, proteinId: undefined };
+
+  if (single && actualRef === parsed.alt) {
+    issues.push({
+      code: 'SWAPPED_REF_ALT',
+      severity: 'error',
+      message: `Residue ${position} is ${parsed.alt}, the stated alternate; reference and alternate look swapped`,
+      span,
+    });
+    offer({ ...base, ref: parsed.alt, alt: parsed.ref }, 'SWAPPED_REF_ALT', 0.9);
+  }
+
+  if (single && (nearbyPositions.length > 0 || matchingIsoforms.length > 0)) {
+    issues.push({
+      code: 'REF_ELSEWHERE',
+      severity: 'error',
+      message: `The stated residue ${parsed.ref} occurs ${[
+        nearbyPositions.length ? `at ${nearbyPositions.slice(0, 3).join(', ')}` : '',
+        matchingIsoforms.length ? `in ${matchingIsoforms.join(', ')}` : '',
+      ].filter(Boolean).join(' and ')}`,
+      span: token ? { start: token.index, end: token.index + token[0].indexOf(String(parsed.pos)) } : null,
+    });
+    for (const nearby of nearbyPositions.slice(0, 3)) {
+      offer({ ...base, pos: nearby }, 'REF_ELSEWHERE', Math.max(0.3, 0.75 - 0.05 * Math.abs(nearby - position)));
+    }
+    for (const isoform of matchingIsoforms) {
+      offer(base, 'REF_ELSEWHERE', 0.5, isoform);
+    }
+  }
+
+  suggestions.sort((a, b) => b.score - a.score);
+  return { input: text, valid: true, issues, suggestions: suggestions.slice(0, MAX_SUGGESTIONS) };
+}
@@ -0,0 +1,91 @@
+/**
+ * TRANSCRIPT ISOFORM MAPPING
+ *
+ * Maps RefSeq transcripts onto the UniProt isoform they encode, from the
+ * bundled table. Unknown transcripts fall back to the canonical entry.
+ */
+
+import type { IsoformUsage } from './types/honest-response';
+import isoformData from './data/transcript-isoforms.json';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export interface IsoformMapping {
+  transcript: string;
+  gene: string;
+  isoform: string;   // UniProt isoform (or separate entry) encoded by the transcript
+  canonical: string; // Canonical UniProt accession for the gene
+  blocks: Array<[number, number, number]>; // [isoformStart, canonicalStart, length]
+}
+
+// ==========================================
+// REFERENCE DATA
+// ==========================================
+
+const MAPPINGS: IsoformMapping[] =
+  (isoformData as unknown as { transcripts: IsoformMapping[] }).transcripts;
+
+function stripVersion(accession: string): string {
+  return accession.toUpperCase().replace(/\.\d+$/, '');
+}
+
+/**
+ * Look up a transcript, preferring an exact version match.
+ */
+export function findIsoformMapping(transcript: string): IsoformMapping | null {
+  const upper = transcript.toUpperCase();
+  return (
+    MAPPINGS.find((m) => m.transcript === upper) ||
+    MAPPINGS.find((m) => stripVersion(m.transcript) === stripVersion(upper)) ||
+    null
+  );
+}
+
+function isCanonicalIsoform(mapping: IsoformMapping): boolean {
+  return mapping.isoform === mapping.canonical || mapping.isoform === `${mapping.canonical}-1`;
+}
+
+function findBlock(mapping: IsoformMapping, position: number): [number, number, number] | null {
+  return mapping.blocks.find(([start, , length]) => position >= start && position < start + length) || null;
+}
+
+// ==========================================
+// RESOLUTION
+// ==========================================
+
+/**
+ * Decide where a transcript-numbered residue range is evaluated.
+ * Returns null when there is no transcript or it is not in the table.
+ */
+export function resolveIsoformPosition(
+  transcript: string | undefined,
+  start: number,
+  end: number = start
+): IsoformUsage | null {
+  if (!transcript) return null;
+  const mapping = findIsoformMapping(transcript);
+  if (!mapping) return null;
+
+  const base = { transcript: mapping.transcript, isoform: mapping.isoform };
+  if (isCanonicalIsoform(mapping)) {
+    return { ...base, strategy: 'canonical', uniprotId: mapping.canonical, offset: 0, start, end };
+  }
+
+  // Renumber only when the whole range sits in one shared block
+  const block = findBlock(mapping, start);
+  if (block && findBlock(mapping, end) === block) {
+    const offset = block[1] - block[0];
+    return {
+      ...base,
+      strategy: 'renumbered',
+      uniprotId: mapping.canonical,
+      offset,
+      start: start + offset,
+      end: end + offset,
+    };
+  }
+
+  return { ...base, strategy: 'isoform', uniprotId: mapping.isoform, offset: 0, start, end };
+}
@@ -0,0 +1,252 @@
+/**
+ * JOB QUEUE
+ *
+ * Persistent batch jobs analyzed by an in-process worker. Jobs left running
+ * by a stopped process resume from their pending rows.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  analyzeVariant,
+  parseVariantInput,
+  prepareVariantInput,
+  describeParseError,
+  renderReportMarkdown,
+  PreparedVariantInput,
+} from './analyze-variant';
+import { needsReferenceData } from './refseq-client';
+import { ConcurrencyLimiter } from './concurrency';
+import { buildReportArchive } from './report-archive';
+import { logAuditEntry } from './audit-logger';
+import {
+  insertJob,
+  getJobRecord,
+  setJobStatus,
+  resetInterruptedJobs,
+  deleteJobsCompletedBefore,
+  getJobSummary,
+  listJobItems,
+  listPendingItems,
+  markItemRunning,
+  saveItemResult,
+  cancelPendingItems,
+  listJobReports,
+  NewJobItem,
+  StoredItemResult,
+  JobRecord,
+  JobRequester,
+} from './job-store';
+import { JobAPIResponse, ApiErrorBody } from './types/honest-response';
+import { toApiError } from './errors';
+
+export { MAX_JOB_ITEMS } from './types/api-schemas';
+export const JOB_ITEM_CONCURRENCY = 6;                   // Upstream limiters are the real bound
+export const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days after completion
+export const DEFAULT_JOB_PAGE_SIZE = 200;
+export const MAX_JOB_PAGE_SIZE = 1000;
+
+// Jobs with a worker in this process; the flag stops rows that have not started yet
+const workers = new Map<string, { cancelled: boolean; done: Promise<void> }>();
+
+// ==========================================
+// ANALYSIS
+// ==========================================
+
+// Row errors are the API envelope without its `error: true` marker
+function failureOf(body: ApiErrorBody): NonNullable<StoredItemResult['error']> {
+  const { error: _marker, ...failure } = body;
+  return failure;
+}
+
+async function analyzePrepared(prepared: PreparedVariantInput, requester: JobRequester): Promise<StoredItemResult> {
+  const startTime = Date.now();
+  const result = await analyzeVariant(prepared);
+  result.outcomes.forEach((outcome, index) => {
+    if (!outcome.ok) return;
+    const { normalized, parsed } = prepared.candidates[index];
+    logAuditEntry({
+      hgvs: normalized,
+      gene: parsed.gene,
+      residue: parsed.pos,
+      ip: requester.ip,
+      status: 'success',
+      processingMs: Date.now() - startTime,
+      evidenceSources: outcome.evidenceSources,
+      route: '/api/jobs',
+      apiKeyId: requester.apiKeyId,
+    });
+  });
+
+  if (!result.ok) return { key: prepared.key, status: 'error', error: failureOf(result.error) };
+  // Genomic and allele reports are stored even when only some entries failed
+  return {
+    key: prepared.key,
+    status: result.outcomes.some((o) => o.ok) ? 'success' : 'error',
+    response: result.report,
+    markdown: renderReportMarkdown(result.report, result.outcomes),
+  };
+}
+
+// ==========================================
+// WORKER
+// ==========================================
+
+async function runJob(jobId: string, requester: JobRequester): Promise<void> {
+  const worker = workers.get(jobId);
+  if (!worker) return;
+  const limiter = new ConcurrencyLimiter(JOB_ITEM_CONCURRENCY);
+
+  await Promise.all(listPendingItems(jobId).map(({ index, input }) => limiter.run(async () => {
+    if (worker.cancelled) return;
+    markItemRunning(jobId, index);
+
+    let result: StoredItemResult;
+    try {
+      result = await analyzePrepared(await prepareVariantInput(input), requester);
+    } catch (error) {
+      console.error(`[JobQueue] ${jobId} row ${index} failed:`, error);
+      result = { status: 'error', error: failureOf(toApiError(error).toBody()) };
+    }
+    saveItemResult(jobId, index, result);
+  })));
+
+  if (!worker.cancelled) setJobStatus(jobId, 'completed');
+}
+
+function startWorker(jobId: string, requester: JobRequester): void {
+  if (workers.has(jobId)) return;
+  const worker = { cancelled: false, done: Promise.resolve() };
+  workers.set(jobId, worker);
+  worker.done = runJob(jobId, requester)
+    .catch((error) => console.error(`[JobQueue] Worker for ${jobId} stopped:`, error))
+    .finally(() => workers.delete(jobId));
+}
+
+// ==========================================
+// PUBLIC API
+// ==========================================
+
+/**
+ * Store a job and start analyzing it in the background. Returns immediately
+ * with every row either pending, a duplicate or invalid; null when the job
+ * could not be stored (no database). Nothing is fetched here: rows whose
+ * reference sequence is not loaded yet are parsed by the worker.
+ */
+export async function createJob(inputs: string[], options: { ip?: string; apiKeyId?: string } = {}): Promise<JobAPIResponse | null> {
+  deleteJobsCompletedBefore(new Date(Date.now() - JOB_RETENTION_MS).toISOString());
+
+  const items: NewJobItem[] = [];
+  const firstByKey = new Map<string, number>();
+  // Rows awaiting a reference sequence are only known by their text until the worker loads it
+  const firstByInput = new Map<string, number>();
+
+  inputs.forEach((raw, index) => {
+    const input = String(raw ?? '').trim();
+    if (needsReferenceData(input)) {
+      const first = firstByInput.get(input);
+      if (first === undefined) firstByInput.set(input, index);
+      items.push({ index, input, status: 'pending', duplicateOf: first });
+      return;
+    }
+
+    let prepared: PreparedVariantInput;
+    try {
+      prepared = parseVariantInput(input);
+    } catch (error) {
+      items.push({ index, input, status: 'invalid', error: failureOf(describeParseError(input, error as Error)) });
+      return;
+    }
+    const first = firstByKey.get(prepared.key);
+    if (first === undefined) firstByKey.set(prepared.key, index);
+    items.push({ index, input, key: prepared.key, status: 'pending', duplicateOf: first });
+  });
+
+  const jobId = randomUUID();
+  const requester: JobRequester = { ip: options.ip || 'unknown', apiKeyId: options.apiKeyId };
+  insertJob(jobId, items, requester);
+  if (!getJobRecord(jobId)) return null;
+  if (items.some((item) => item.status === 'pending')) {
+    // Not awaited: the job keeps running after the HTTP response is sent
+    startWorker(jobId, requester);
+  } else {
+    setJobStatus(jobId, 'completed');
+  }
+
+  return getJob(jobId);
+}
+
+// A keyed job belongs to its API key (across rotations); an anonymous one to its IP
+function ownedBy(record: JobRecord, caller: JobRequester): boolean {
+  return record.apiKeyId ? caller.apiKeyId === record.apiKeyId : caller.ip === record.ip;
+}
+
+/**
+ * A page of the job's rows, or null for an unknown job or, given `caller`,
+ * one they did not submit.
+ */
+export function getJob(
+  jobId: string,
+  page: { offset?: number; limit?: number } = {},
+  caller?: JobRequester
+): JobAPIResponse | null {
+  const record = getJobRecord(jobId);
+  if (!record || (caller && !ownedBy(record, caller))) return null;
+
+  const offset = Math.max(0, page.offset ?? 0);
+  const limit = Math.min(MAX_JOB_PAGE_SIZE, Math.max(1, page.limit ?? DEFAULT_JOB_PAGE_SIZE));
+  return {
+    jobId: record.id,
+    status: record.status,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    ...(record.completedAt ? { completedAt: record.completedAt } : {}),
+    summary: getJobSummary(jobId),
+    items: listJobItems(jobId, offset, limit),
+    page: { offset, limit },
+    downloadUrl: `/api/jobs/${record.id}/download`,
+  };
+}
+
+/**
+ * Cancel a running job. Finished jobs are returned unchanged; null as for getJob.
+ */
+export function cancelJob(jobId: string, caller?: JobRequester): JobAPIResponse | null {
+  const record = getJobRecord(jobId);
+  if (!record || (caller && !ownedBy(record, caller))) return null;
+  if (record.status === 'running') {
+    const worker = workers.get(jobId);
+    if (worker) worker.cancelled = true;
+    cancelPendingItems(jobId);
+    setJobStatus(jobId, 'cancelled');
+  }
+  return getJob(jobId);
+}
+
+/**
+ * Zip of the Markdown reports of every successful row, or null for an unknown job.
+ */
+export async function buildJobArchive(jobId: string): Promise<Buffer | null> {
+  if (!getJobRecord(jobId)) return null;
+  return buildReportArchive(listJobReports(jobId));
+}
+
+/**
+ * Restart workers for jobs a previous process left running. Called once at
+ * server start (src/instrumentation.ts).
+ */
+export function resumeInterruptedJobs(): string[] {
+  const jobIds = resetInterruptedJobs();
+  for (const jobId of jobIds) {
+    const record = getJobRecord(jobId);
+    if (record) startWorker(jobId, { ip: record.ip, apiKeyId: record.apiKeyId });
+  }
+  if (jobIds.length > 0) console.log(`[JobQueue] Resumed ${jobIds.length} interrupted job(s)`);
+  return jobIds;
+}
+
+/**
+ * Resolves once the job's worker in this process has stopped.
+ */
+export async function waitForJob(jobId: string): Promise<void> {
+  await workers.get(jobId)?.done;
+}
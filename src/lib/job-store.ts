@@ -0,0 +1,231 @@
+/**
+ * JOB STORE
+ *
+ * SQLite persistence for batch jobs and their rows (schema in src/lib/db.ts).
+ */
+
+import db from './db';
+import { JobAPIResponse, JobItemResult, JobSummary } from './types/honest-response';
+
+export type JobStatus = JobAPIResponse['status'];
+
+// Who submitted a job: rows are audited as theirs and only they may read or cancel it
+export interface JobRequester {
+  ip: string;
+  apiKeyId?: string;
+}
+
+export interface JobRecord extends JobRequester {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  total: number;
+}
+
+export interface NewJobItem {
+  index: number;
+  input: string;
+  key?: string;
+  status: 'pending' | 'invalid';
+  duplicateOf?: number;
+  error?: JobItemResult['error'];
+}
+
+export interface StoredItemResult {
+  key?: string;        // Set for rows that could only be normalized once their reference loaded
+  status: 'success' | 'error';
+  response?: JobItemResult['response'];
+  error?: JobItemResult['error'];
+  markdown?: string;
+}
+
+function parseJson<T>(value: unknown): T | undefined {
+  return typeof value === 'string' ? (JSON.parse(value) as T) : undefined;
+}
+
+function toItem(row: Record<string, unknown>): JobItemResult {
+  return {
+    index: row.idx as number,
+    input: row.input as string,
+    ...(row.itemKey ? { key: row.itemKey as string } : {}),
+    status: row.status as JobItemResult['status'],
+    ...(row.duplicateOf !== null && row.duplicateOf !== undefined ? { duplicateOf: row.duplicateOf as number } : {}),
+    ...(row.responseJson ? { response: parseJson<JobItemResult['response']>(row.responseJson) } : {}),
+    ...(row.errorJson ? { error: parseJson<JobItemResult['error']>(row.errorJson) } : {}),
+  };
+}
+
+// ==========================================
+// JOBS
+// ==========================================
+
+export function insertJob(jobId: string, items: NewJobItem[], requester: JobRequester): void {
+  const now = new Date().toISOString();
+  const insertItem = db.prepare(`
+    INSERT INTO job_items (jobId, idx, input, itemKey, status, duplicateOf, errorJson, updatedAt)
+    VALUES (@jobId, @idx, @input, @itemKey, @status, @duplicateOf, @errorJson, @updatedAt)
+  `);
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO jobs (id, status, createdAt, updatedAt, ip, apiKeyId, total)
+      VALUES (@id, 'running', @now, @now, @ip, @apiKeyId, @total)
+    `).run({ id: jobId, now, ip: requester.ip, apiKeyId: requester.apiKeyId ?? null, total: items.length });
+
+    for (const item of items) {
+      insertItem.run({
+        jobId,
+        idx: item.index,
+        input: item.input,
+        itemKey: item.key ?? null,
+        status: item.status,
+        duplicateOf: item.duplicateOf ?? null,
+        errorJson: item.error ? JSON.stringify(item.error) : null,
+        updatedAt: now,
+      });
+    }
+  })();
+}
+
+export function getJobRecord(jobId: string): JobRecord | null {
+  const row = db.prepare('SELECT * FROM jobs WHERE id = ?').get(jobId);
+  if (!row || !row.id) return null;
+  return {
+    id: row.id as string,
+    status: row.status as JobStatus,
+    createdAt: row.createdAt as string,
+    updatedAt: row.updatedAt as string,
+    ...(row.completedAt ? { completedAt: row.completedAt as string } : {}),
+    total: row.total as number,
+    ip: (row.ip as string | null) ?? 'unknown',
+    ...(row.apiKeyId ? { apiKeyId: row.apiKeyId as string } : {}),
+  };
+}
+
+export function setJobStatus(jobId: string, status: JobStatus): void {
+  const now = new Date().toISOString();
+  db.prepare(`
+    UPDATE jobs SET status = @status, updatedAt = @now,
+      completedAt = CASE WHEN @status = 'running' THEN NULL ELSE @now END
+    WHERE id = @jobId
+  `).run({ jobId, status, now });
+}
+
+/**
+ * Jobs a stopped process left running. Their in-flight rows go back to pending.
+ */
+export function resetInterruptedJobs(): string[] {
+  const ids = db.prepare("SELECT id FROM jobs WHERE status = 'running'").all().map((row) => row.id as string);
+  db.prepare(`
+    UPDATE job_items SET status = 'pending', updatedAt = @now
+    WHERE status = 'running' AND jobId IN (SELECT id FROM jobs WHERE status = 'running')
+  `).run({ now: new Date().toISOString() });
+  return ids;
+}
+
+export function deleteJobsCompletedBefore(cutoff: string): void {
+  db.transaction(() => {
+    db.prepare(`
+      DELETE FROM job_items WHERE jobId IN (SELECT id FROM jobs WHERE completedAt IS NOT NULL AND completedAt < @cutoff)
+    `).run({ cutoff });
+    db.prepare('DELETE FROM jobs WHERE completedAt IS NOT NULL AND completedAt < @cutoff').run({ cutoff });
+  })();
+}
+
+// ==========================================
+// ROWS
+// ==========================================
+
+export function getJobSummary(jobId: string): JobSummary {
+  const row = db.prepare(`
+    SELECT
+      COUNT(*) AS total,
+      SUM(CASE WHEN status = 'invalid' THEN 1 ELSE 0 END) AS invalid,
+      SUM(CASE WHEN duplicateOf IS NOT NULL THEN 1 ELSE 0 END) AS duplicates,
+      SUM(CASE WHEN duplicateOf IS NULL AND status != 'invalid' THEN 1 ELSE 0 END) AS uniqueCount,
+      SUM(CASE WHEN duplicateOf IS NULL AND status IN ('success', 'error') THEN 1 ELSE 0 END) AS completed,
+      SUM(CASE WHEN duplicateOf IS NULL AND status = 'success' THEN 1 ELSE 0 END) AS succeeded,
+      SUM(CASE WHEN duplicateOf IS NULL AND status = 'error' THEN 1 ELSE 0 END) AS failed,
+      SUM(CASE WHEN duplicateOf IS NULL AND status = 'cancelled' THEN 1 ELSE 0 END) AS cancelled
+    FROM job_items WHERE jobId = ?
+  `).get(jobId) || {};
+  const count = (key: string) => Number(row[key] ?? 0);
+  return {
+    total: count('total'),
+    unique: count('uniqueCount'),
+    duplicates: count('duplicates'),
+    invalid: count('invalid'),
+    completed: count('completed'),
+    succeeded: count('succeeded'),
+    failed: count('failed'),
+    cancelled: count('cancelled'),
+  };
+}
+
+export function listJobItems(jobId: string, offset: number, limit: number): JobItemResult[] {
+  return db.prepare(`
+    SELECT idx, input, itemKey, status, duplicateOf, responseJson, errorJson
+    FROM job_items WHERE jobId = ? ORDER BY idx LIMIT ? OFFSET ?
+  `).all(jobId, limit, offset).map(toItem);
+}
+
+export function listPendingItems(jobId: string): Array<{ index: number; input: string }> {
+  return db.prepare(`
+    SELECT idx, input FROM job_items
+    WHERE jobId = ? AND status = 'pending' AND duplicateOf IS NULL ORDER BY idx
+  `).all(jobId).map((row) => ({ index: row.idx as number, input: row.input as string }));
+}
+
+export function markItemRunning(jobId: string, index: number): void {
+  db.prepare(`
+    UPDATE job_items SET status = 'running', attempts = attempts + 1, updatedAt = @now
+    WHERE jobId = @jobId AND idx = @index
+  `).run({ jobId, index, now: new Date().toISOString() });
+}
+
+export function saveItemResult(jobId: string, index: number, result: StoredItemResult): void {
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE job_items SET itemKey = COALESCE(@itemKey, itemKey), status = @status, responseJson = @responseJson,
+        errorJson = @errorJson, markdown = @markdown, updatedAt = @now
+      WHERE jobId = @jobId AND idx = @index
+    `).run({
+      jobId,
+      index,
+      itemKey: result.key ?? null,
+      status: result.status,
+      responseJson: result.response ? JSON.stringify(result.response) : null,
+      errorJson: result.error ? JSON.stringify(result.error) : null,
+      markdown: result.markdown ?? null,
+      now,
+    });
+    db.prepare(`
+      UPDATE job_items SET status = @status, updatedAt = @now WHERE jobId = @jobId AND duplicateOf = @index
+    `).run({ jobId, index, status: result.status, now });
+  })();
+}
+
+export function cancelPendingItems(jobId: string): void {
+  db.prepare(`
+    UPDATE job_items SET status = 'cancelled', updatedAt = @now
+    WHERE jobId = @jobId AND status = 'pending'
+  `).run({ jobId, now: new Date().toISOString() });
+}
+
+/**
+ * Markdown reports of successful rows, duplicates included under their own input.
+ */
+export function listJobReports(jobId: string): Array<{ hgvs: string; markdown: string }> {
+  return db.prepare(`
+    SELECT item.input AS hgvs, COALESCE(item.markdown, source.markdown) AS markdown
+    FROM job_items item
+    LEFT JOIN job_items source ON source.jobId = item.jobId AND source.idx = item.duplicateOf
+    WHERE item.jobId = ? AND item.status = 'success'
+    ORDER BY item.idx
+  `).all(jobId)
+    .filter((row) => typeof row.markdown === 'string')
+    .map((row) => ({ hgvs: row.hgvs as string, markdown: row.markdown as string }));
+}
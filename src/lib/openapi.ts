@@ -0,0 +1,444 @@
+/**
+ * OPENAPI
+ *
+ * Builds the OpenAPI 3.1 document served at /api/openapi.json from the zod
+ * schemas in src/lib/types/api-schemas.ts. Unsupported zod constructs throw
+ * rather than being emitted loosely.
+ */
+
+import { z, ZodFirstPartyTypeKind, ZodTypeAny } from 'zod';
+import { API_COMPONENTS, MAX_JOB_ITEMS } from './types/api-schemas';
+import { ERROR_STATUS } from './errors';
+import type { ApiErrorCode } from './types/honest-response';
+
+type JsonSchema = Record<string, unknown>;
+
+// ==========================================
+// ZOD -> JSON SCHEMA (2020-12, as OpenAPI 3.1 uses)
+// ==========================================
+
+const componentNames = new Map<ZodTypeAny, string>(
+  Object.entries(API_COMPONENTS).map(([name, schema]) => [schema as ZodTypeAny, name])
+);
+
+function ref(schema: ZodTypeAny): JsonSchema | null {
+  const name = componentNames.get(schema);
+  return name ? { $ref: `#/components/schemas/${name}` } : null;
+}
+
+function withDescription(schema: ZodTypeAny, json: JsonSchema): JsonSchema {
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+function isOptional(schema: ZodTypeAny): boolean {
+  return schema._def.typeName === ZodFirstPartyTypeKind.ZodOptional;
+}
+
+/**
+ * JSON Schema for `schema`; named components become `$ref`s unless
+ * `inline` (used when emitting the component itself).
+ */
+export function toJsonSchema(schema: ZodTypeAny, inline = false): JsonSchema {
+  if (!inline) {
+    const named = ref(schema);
+    if (named) return named;
+  }
+
+  const def = schema._def;
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return withDescription(schema, { type: 'string', ...stringChecks(schema as z.ZodString) });
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const number = schema as z.ZodNumber;
+      const json: JsonSchema = { type: number.isInt ? 'integer' : 'number' };
+      if (number.minValue !== null) json.minimum = number.minValue;
+      if (number.maxValue !== null) json.maximum = number.maxValue;
+      return withDescription(schema, json);
+    }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return withDescription(schema, { type: 'boolean' });
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return withDescription(schema, { const: def.value });
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return withDescription(schema, { type: 'string', enum: [...def.values] });
+    case ZodFirstPartyTypeKind.ZodUnknown:
+    case ZodFirstPartyTypeKind.ZodAny:
+      return withDescription(schema, {});
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const json: JsonSchema = { type: 'array', items: toJsonSchema(def.type) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      return withDescription(schema, json);
+    }
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, ZodTypeAny>;
+      const properties = Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])
+      );
+      const required = Object.keys(shape).filter((key) => !isOptional(shape[key]));
+      return withDescription(schema, {
+        type: 'object',
+        properties,
+        ...(required.length > 0 ? { required } : {}),
+      });
+    }
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return withDescription(schema, { type: 'object', additionalProperties: toJsonSchema(def.valueType) });
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return withDescription(schema, { anyOf: def.options.map((option: ZodTypeAny) => toJsonSchema(option)) });
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return withDescription(schema, {
+        oneOf: def.options.map((option: ZodTypeAny) => toJsonSchema(option)),
+        discriminator: { propertyName: def.discriminator },
+      });
+    case ZodFirstPartyTypeKind.ZodIntersection:
+      return withDescription(schema, { allOf: [toJsonSchema(def.left), toJsonSchema(def.right)] });
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema(def.innerType);
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return withDescription(schema, { anyOf: [toJsonSchema(def.innerType), { type: 'null' }] });
+    default:
+      throw new Error(`openapi: no JSON Schema conversion for ${def.typeName}`);
+  }
+}
+
+function stringChecks(schema: z.ZodString): JsonSchema {
+  const json: JsonSchema = {};
+  if (schema.minLength !== null) json.minLength = schema.minLength;
+  if (schema.maxLength !== null) json.maxLength = schema.maxLength;
+  return json;
+}
+
+// ==========================================
+// DOCUMENT
+// ==========================================
+
+type ComponentName = keyof typeof API_COMPONENTS;
+
+const schemaRef = (name: ComponentName) => ({ $ref: `#/components/schemas/${name}` });
+const json = (name: ComponentName) => ({ 'application/json': { schema: schemaRef(name) } });
+const response = (description: string, name: ComponentName, headers?: Record<string, unknown>) => ({
+  description,
+  content: json(name),
+  ...(headers ? { headers } : {}),
+});
+
+// Every error is an ApiError; the description lists the codes a status can carry
+const failure = (description: string, codes: ApiErrorCode[], headers?: Record<string, unknown>) =>
+  response(`${description} (${codes.join(', ')})`, 'ApiError', headers);
+
+const integerHeader = (description: string) => ({ description, schema: { type: 'integer' } });
+
+// Sent on every response of a rate-limited route; the quota headers only for API keys
+const RATE_LIMIT_HEADERS = {
+  'X-RateLimit-Limit': integerHeader('Requests allowed per window (per key, or per IP without one)'),
+  'X-RateLimit-Remaining': integerHeader('Requests left in the current window'),
+  'X-RateLimit-Reset': integerHeader('Seconds until the window resets'),
+  'X-RateLimit-Quota-Limit': integerHeader('Analyses the API key may run per UTC day'),
+  'X-RateLimit-Quota-Remaining': integerHeader('Analyses left today'),
+  'X-RateLimit-Quota-Reset': integerHeader('Seconds until 00:00 UTC'),
+};
+
+// Keyed routes take an API key but do not require one
+const OPTIONAL_API_KEY = [{}, { apiKey: [] }, { bearerApiKey: [] }];
+const ADMIN_ONLY = [{ adminApiKey: [] }];
+
+const RATE_LIMITED = failure('Rate limit or daily quota exceeded', ['RATE_LIMITED'], {
+  'Retry-After': integerHeader('Seconds until the limit resets'),
+  ...RATE_LIMIT_HEADERS,
+});
+const BAD_API_KEY = failure('Unknown, rotated or revoked API key', ['UNAUTHORIZED']);
+const ADMIN_UNAUTHORIZED = failure('Missing or wrong admin key', ['UNAUTHORIZED']);
+const ADMIN_MISCONFIGURED = failure('ADMIN_API_KEY is not configured', ['MISCONFIGURED']);
+const KEY_NOT_FOUND = failure('Unknown API key ID', ['NOT_FOUND']);
+const keyIdParam = { name: 'keyId', in: 'path', required: true, schema: { type: 'string' } };
+const INTERNAL_ERROR = failure('Unexpected server error', ['INTERNAL_ERROR']);
+const JOB_NOT_FOUND = failure('Unknown job ID, or the job finished more than 7 days ago', ['NOT_FOUND']);
+const VARIANT_INVALID: ApiErrorCode[] = ['PARSE_ERROR', 'INVALID_POSITION', 'REF_MISMATCH'];
+const GENE_NOT_FOUND = failure(
+  'Gene or protein not found, with spelling suggestions; or coding input for a gene outside the bundled registry',
+  ['UNKNOWN_GENE', 'GENE_NOT_IN_REGISTRY']
+);
+const UPSTREAM_UNAVAILABLE = failure('UniProt or Ensembl is down or out of time', ['UPSTREAM_UNAVAILABLE']);
+
+const formatParam = (values: string[]) => ({
+  name: 'format',
+  in: 'query',
+  required: false,
+  schema: { type: 'string', enum: values, default: 'json' },
+});
+const hgvsPathParam = {
+  name: 'hgvs',
+  in: 'path',
+  required: true,
+  description: 'Variant in any accepted notation, URL-encoded (BRAF%3Ap.V600E)',
+  schema: { type: 'string' },
+};
+const jobIdParam = { name: 'jobId', in: 'path', required: true, schema: { type: 'string' } };
+const pageParams = [
+  { name: 'offset', in: 'query', required: false, schema: { type: 'integer', minimum: 0, default: 0 } },
+  { name: 'limit', in: 'query', required: false, schema: { type: 'integer', minimum: 1, maximum: 1000, default: 200 } },
+];
+
+const variantReportContent = {
+  'application/json': { schema: schemaRef('VariantReport') },
+  'text/markdown': { schema: { type: 'string' } },
+};
+
+function buildPaths() {
+  return {
+    '/api/variant': {
+      get: {
+        operationId: 'getApiInfo',
+        summary: 'API version, disclaimer and usage notes',
+        responses: { 200: response('API information', 'ApiInfo') },
+      },
+      post: {
+        operationId: 'analyzeVariant',
+        summary: 'Evidence briefing for one variant',
+        description:
+          'Protein, coding, genomic (GRCh38) and bracketed allele HGVS are accepted. Genomic input returns one entry per ' +
+          'protein consequence, allele input one per component. With format=ndjson or format=sse (or Accept: ' +
+          'text/event-stream) the response is a stream of VariantStreamEvent, ending with a `report` event that carries ' +
+          'the status and body of the non-streaming request.',
+        security: OPTIONAL_API_KEY,
+        parameters: [formatParam(['json', 'md', 'markdown', 'ndjson', 'sse'])],
+        requestBody: { required: true, content: json('VariantRequest') },
+        responses: {
+          200: {
+            description: 'Report',
+            headers: RATE_LIMIT_HEADERS,
+            content: {
+              ...variantReportContent,
+              'application/x-ndjson': { schema: schemaRef('VariantStreamEvent') },
+              'text/event-stream': { schema: schemaRef('VariantStreamEvent') },
+            },
+          },
+          400: failure(
+            'Malformed body, input that does not parse (with diagnostics), position outside the protein or reference mismatch',
+            ['INVALID_REQUEST', ...VARIANT_INVALID]
+          ),
+          401: BAD_API_KEY,
+          404: GENE_NOT_FOUND,
+          429: RATE_LIMITED,
+          500: INTERNAL_ERROR,
+          503: UPSTREAM_UNAVAILABLE,
+        },
+      },
+    },
+    '/api/variant/{hgvs}': {
+      get: {
+        operationId: 'getVariantReport',
+        summary: 'Cacheable permalink for a variant report',
+        description:
+          'Same report as POST /api/variant. A weak ETag hashes the evidence (not timestamps or timings); Last-Modified is ' +
+          'when that evidence was first served. If-None-Match and If-Modified-Since return 304.',
+        security: OPTIONAL_API_KEY,
+        parameters: [
+          hgvsPathParam,
+          formatParam(['json', 'md', 'markdown']),
+          { name: 'If-None-Match', in: 'header', required: false, schema: { type: 'string' } },
+          { name: 'If-Modified-Since', in: 'header', required: false, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: {
+            description: 'Report',
+            headers: {
+              ...RATE_LIMIT_HEADERS,
+              ETag: { schema: { type: 'string' } },
+              'Last-Modified': { schema: { type: 'string' } },
+              'Cache-Control': { schema: { type: 'string' } },
+            },
+            content: variantReportContent,
+          },
+          304: { description: 'The cached copy is current' },
+          400: failure('Input that does not parse, position outside the protein or reference mismatch', VARIANT_INVALID),
+          401: BAD_API_KEY,
+          404: GENE_NOT_FOUND,
+          429: RATE_LIMITED,
+          503: UPSTREAM_UNAVAILABLE,
+        },
+      },
+    },
+    '/api/jobs': {
+      post: {
+        operationId: 'createJob',
+        summary: `Analyze up to ${MAX_JOB_ITEMS} variants server-side`,
+        description:
+          'Rows are deduplicated by normalized input. Every submitted row counts against an API key\'s daily quota. ' +
+          'Also available as POST /api/variant/batch.',
+        security: OPTIONAL_API_KEY,
+        requestBody: { required: true, content: json('JobRequest') },
+        responses: {
+          202: response('Job accepted', 'JobCreated', {
+            ...RATE_LIMIT_HEADERS,
+            Location: { description: 'Status URL of the job', schema: { type: 'string' } },
+          }),
+          400: failure('Missing, empty, oversized or non-string variants', ['INVALID_REQUEST']),
+          401: BAD_API_KEY,
+          429: RATE_LIMITED,
+          500: INTERNAL_ERROR,
+        },
+      },
+    },
+    '/api/jobs/{jobId}': {
+      get: {
+        operationId: 'getJob',
+        summary: 'Progress, summary and one page of row results',
+        parameters: [jobIdParam, ...pageParams],
+        responses: { 200: response('Job', 'JobAPIResponse'), 404: JOB_NOT_FOUND },
+      },
+      delete: {
+        operationId: 'cancelJob',
+        summary: 'Cancel rows that have not started',
+        parameters: [jobIdParam],
+        responses: { 200: response('Job after cancellation', 'JobAPIResponse'), 404: JOB_NOT_FOUND },
+      },
+    },
+    '/api/jobs/{jobId}/download': {
+      get: {
+        operationId: 'downloadJobReports',
+        summary: 'Zip of the Markdown report of every successful row',
+        parameters: [jobIdParam],
+        responses: {
+          200: { description: 'Zip archive', content: { 'application/zip': { schema: { type: 'string', contentEncoding: 'binary' } } } },
+          404: JOB_NOT_FOUND,
+          409: failure('Job still running', ['CONFLICT']),
+        },
+      },
+    },
+    '/api/health': {
+      get: {
+        operationId: 'getHealth',
+        summary: 'External dependency and configuration status',
+        responses: {
+          200: response('Every service is up or configured', 'Health'),
+          503: response('At least one service is down or missing', 'Health'),
+        },
+      },
+    },
+    '/api/ready': {
+      get: {
+        operationId: 'getReadiness',
+        summary: 'Readiness probe',
+        responses: { 200: response('Ready', 'Readiness') },
+      },
+    },
+    '/api/audit': {
+      get: {
+        operationId: 'getAudit',
+        summary: 'Audit summary, recent entries (format=json) or CSV export (format=csv)',
+        security: ADMIN_ONLY,
+        parameters: [
+          formatParam(['summary', 'json', 'csv']),
+          { name: 'limit', in: 'query', required: false, schema: { type: 'integer', default: 100 } },
+        ],
+        responses: {
+          200: {
+            description: 'Summary, entries or CSV',
+            content: {
+              'application/json': { schema: { anyOf: [schemaRef('AuditSummary'), schemaRef('AuditEntries')] } },
+              'text/csv': { schema: { type: 'string' } },
+            },
+          },
+          401: ADMIN_UNAUTHORIZED,
+          503: ADMIN_MISCONFIGURED,
+        },
+      },
+    },
+    '/api/admin/keys': {
+      get: {
+        operationId: 'listApiKeys',
+        summary: 'Every issued API key with today\'s usage',
+        security: ADMIN_ONLY,
+        responses: { 200: response('Keys', 'ApiKeyList'), 401: ADMIN_UNAUTHORIZED, 503: ADMIN_MISCONFIGURED },
+      },
+      post: {
+        operationId: 'createApiKey',
+        summary: 'Issue an API key',
+        description: 'The key is in the response only; the server keeps its SHA-256.',
+        security: ADMIN_ONLY,
+        requestBody: { required: true, content: json('ApiKeyCreateRequest') },
+        responses: {
+          201: response('Issued key', 'ApiKeyIssued'),
+          400: failure('Missing name or out-of-range limits', ['INVALID_REQUEST']),
+          401: ADMIN_UNAUTHORIZED,
+          503: ADMIN_MISCONFIGURED,
+        },
+      },
+    },
+    '/api/admin/keys/{keyId}': {
+      get: {
+        operationId: 'getApiKey',
+        summary: 'One API key with today\'s usage',
+        security: ADMIN_ONLY,
+        parameters: [keyIdParam],
+        responses: { 200: response('Key', 'ApiKey'), 401: ADMIN_UNAUTHORIZED, 404: KEY_NOT_FOUND, 503: ADMIN_MISCONFIGURED },
+      },
+      delete: {
+        operationId: 'revokeApiKey',
+        summary: 'Revoke an API key; requests with it are refused from now on',
+        security: ADMIN_ONLY,
+        parameters: [keyIdParam],
+        responses: { 200: response('Revoked key', 'ApiKey'), 401: ADMIN_UNAUTHORIZED, 404: KEY_NOT_FOUND, 503: ADMIN_MISCONFIGURED },
+      },
+    },
+    '/api/admin/keys/{keyId}/rotate': {
+      post: {
+        operationId: 'rotateApiKey',
+        summary: 'Replace the secret of an API key, keeping its limits and usage',
+        description: 'The previous secret stops working immediately.',
+        security: ADMIN_ONLY,
+        parameters: [keyIdParam],
+        responses: {
+          200: response('Key with its new secret', 'ApiKeyIssued'),
+          401: ADMIN_UNAUTHORIZED,
+          404: KEY_NOT_FOUND,
+          409: failure('The key is revoked', ['CONFLICT']),
+          503: ADMIN_MISCONFIGURED,
+        },
+      },
+    },
+    '/api/openapi.json': {
+      get: {
+        operationId: 'getOpenApiDocument',
+        summary: 'This document',
+        responses: { 200: { description: 'OpenAPI 3.1 document', content: { 'application/json': { schema: { type: 'object' } } } } },
+      },
+    },
+  };
+}
+
+let cached: JsonSchema | null = null;
+
+/**
+ * The OpenAPI 3.1 document; built once per process.
+ */
+export function buildOpenApiDocument(): JsonSchema {
+  if (cached) return cached;
+  cached = {
+    openapi: '3.1.0',
+    info: {
+      title: 'VariantLens API',
+      version: '2.0.0',
+      description:
+        'Evidence briefings for protein variants: structure, ClinVar (with nearby residues), literature, gnomAD population frequency, missense predictor scores and explicit unknowns. ' +
+        'Research use only; not for clinical decisions. Every error is an ApiError envelope whose `code` ' +
+        'decides the status: ' + Object.entries(ERROR_STATUS).map(([code, status]) => `${code} ${status}`).join(', ') + '.',
+      license: { name: 'MIT' },
+    },
+    jsonSchemaDialect: 'https://spec.openapis.org/oas/3.1/dialect/base',
+    paths: buildPaths(),
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(API_COMPONENTS).map(([name, schema]) => [name, toJsonSchema(schema as ZodTypeAny, true)])
+      ),
+      securitySchemes: {
+        adminApiKey: { type: 'apiKey', in: 'header', name: 'x-admin-api-key' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+        bearerApiKey: { type: 'http', scheme: 'bearer', description: 'The same API key as x-api-key' },
+      },
+    },
+  };
+  return cached;
+}
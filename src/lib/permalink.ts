@@ -0,0 +1,21 @@
+/**
+ * Report permalinks: /v/{hgvs} (page) and /api/variant/{hgvs} (JSON).
+ * Shared by the client and the server, so it imports nothing.
+ */
+
+export function variantPagePath(hgvs: string): string {
+  return `/v/${encodeURIComponent(hgvs)}`;
+}
+
+export function variantApiPath(hgvs: string): string {
+  return `/api/variant/${encodeURIComponent(hgvs)}`;
+}
+
+// Route segments may arrive still percent-encoded (BRAF%3Ap.V600E)
+export function decodeHgvsSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment).trim();
+  } catch {
+    return segment.trim();
+  }
+}
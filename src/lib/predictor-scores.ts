@@ -0,0 +1,196 @@
+/**
+ * PREDICTOR SCORES
+ *
+ * Precomputed missense predictor scores (AlphaMissense, REVEL, CADD) from the
+ * local tables named in PREDICTOR_TABLES. VariantLens reports each tool's
+ * calibrated category; it neither combines scores nor scores variants itself.
+ */
+
+import { promises as fs } from 'fs';
+import { FetchFailure, FetchResult } from './fetch-utils';
+import { TabixFile } from './tabix';
+
+export interface PredictorTool {
+  id: string;
+  label: string;
+  calibration: string; // Where the category thresholds come from
+  categorize(score: number): string;
+}
+
+export interface PredictorScore {
+  id: string;
+  tool: string;
+  version?: string;
+  score: number;
+  category: string;
+  calibration: string;
+}
+
+export interface PredictorLookup {
+  scores: PredictorScore[];
+  missing: string[];    // Tools whose table has no score for the substitution
+  unreadable: string[]; // Tools whose table could not be read
+}
+
+// ==========================================
+// TOOLS
+// ==========================================
+
+const CLINGEN_CALIBRATION = 'ClinGen SVI PP3/BP4 calibration (Pejaver et al. 2022)';
+
+export const PREDICTOR_TOOLS: Record<string, PredictorTool> = {
+  alphamissense: {
+    id: 'alphamissense',
+    label: 'AlphaMissense',
+    calibration: 'AlphaMissense classes (Cheng et al. 2023)',
+    categorize: (score) => (score > 0.564 ? 'likely_pathogenic' : score < 0.34 ? 'likely_benign' : 'ambiguous'),
+  },
+  revel: {
+    id: 'revel',
+    label: 'REVEL',
+    calibration: CLINGEN_CALIBRATION,
+    categorize: (score) => {
+      if (score >= 0.932) return 'PP3_strong';
+      if (score >= 0.773) return 'PP3_moderate';
+      if (score >= 0.644) return 'PP3_supporting';
+      if (score > 0.29) return 'indeterminate';
+      if (score > 0.183) return 'BP4_supporting';
+      if (score > 0.016) return 'BP4_moderate';
+      if (score > 0.003) return 'BP4_strong';
+      return 'BP4_very_strong';
+    },
+  },
+  cadd: {
+    id: 'cadd',
+    label: 'CADD',
+    calibration: `${CLINGEN_CALIBRATION}, PHRED-scaled`,
+    categorize: (score) => {
+      if (score >= 28.1) return 'PP3_moderate';
+      if (score >= 25.3) return 'PP3_supporting';
+      if (score > 22.7) return 'indeterminate';
+      if (score > 17.3) return 'BP4_supporting';
+      return 'BP4_moderate';
+    },
+  },
+};
+
+export interface PredictorTable {
+  tool: PredictorTool;
+  path: string;
+}
+
+/**
+ * Tables named by `config` (default: PREDICTOR_TABLES). Unknown tools are
+ * ignored with a warning.
+ */
+export function configuredPredictorTables(config: string | undefined = process.env.PREDICTOR_TABLES): PredictorTable[] {
+  return (config ?? '').split(',').map((entry) => entry.trim()).filter(Boolean).flatMap((entry) => {
+    const eq = entry.indexOf('=');
+    const tool = PREDICTOR_TOOLS[entry.slice(0, eq).trim().toLowerCase()];
+    if (eq === -1 || !tool) {
+      console.warn(`[Predictors] Ignoring "${entry}" in PREDICTOR_TABLES (expected tool=path; tools: ${Object.keys(PREDICTOR_TOOLS).join(', ')})`);
+      return [];
+    }
+    return [{ tool, path: entry.slice(eq + 1).trim() }];
+  });
+}
+
+// ==========================================
+// TABLES
+// ==========================================
+
+interface TableEntry {
+  score: number;
+  version?: string;
+}
+
+function versionOf(headerLines: string[]): string | undefined {
+  const line = headerLines.find((l) => l.startsWith('##version='));
+  return line ? line.slice('##version='.length).trim() : undefined;
+}
+
+const plainTables = new Map<string, Promise<{ version?: string; scores: Map<string, number> }>>();
+
+function loadPlainTable(path: string) {
+  let table = plainTables.get(path);
+  if (!table) {
+    table = fs.readFile(path, 'utf8').then((text) => {
+      const lines = text.split('\n');
+      const scores = new Map<string, number>();
+      for (const line of lines) {
+        if (!line || line.startsWith('#')) continue;
+        const [accession, position, variant, score] = line.split('\t');
+        scores.set(`${accession}:${position}:${variant}`, Number(score));
+      }
+      return { version: versionOf(lines.filter((l) => l.startsWith('#'))), scores };
+    });
+    table.catch(() => plainTables.delete(path));
+    plainTables.set(path, table);
+  }
+  return table;
+}
+
+async function readScore(path: string, accession: string, position: number, variant: string): Promise<TableEntry | null> {
+  if (/\.b?gz$/.test(path)) {
+    const file = new TabixFile(path);
+    const rows = await file.query(accession, position, position);
+    const row = rows.find((fields) => fields[2] === variant);
+    return row ? { score: Number(row[3]), version: versionOf(await file.header()) } : null;
+  }
+  const table = await loadPlainTable(path);
+  const score = table.scores.get(`${accession}:${position}:${variant}`);
+  return score === undefined ? null : { score, version: table.version };
+}
+
+// ==========================================
+// LOOKUP
+// ==========================================
+
+/**
+ * Every configured tool's score for `variant` (one-letter, e.g. R175H) at
+ * `position` of `accession`.
+ */
+export async function getPredictorScores(
+  accession: string,
+  position: number,
+  variant: string,
+  tables: PredictorTable[] = configuredPredictorTables()
+): Promise<FetchResult<PredictorLookup>> {
+  if (tables.length === 0) {
+    const failure: FetchFailure = {
+      unavailable: true,
+      reason: 'unknown',
+      service: 'predictors',
+      details: 'No predictor tables configured (PREDICTOR_TABLES)',
+    };
+    return failure;
+  }
+
+  const lookup: PredictorLookup = { scores: [], missing: [], unreadable: [] };
+  // In configuration order, so sections list tools the same way every time
+  const results = await Promise.all(tables.map(({ path }) =>
+    readScore(path, accession, position, variant).then((entry) => ({ entry }), (error: Error) => ({ error }))
+  ));
+  tables.forEach(({ tool }, i) => {
+    const result = results[i];
+    if ('error' in result) {
+      console.error(`[Predictors] Could not read the ${tool.label} table:`, result.error.message);
+      lookup.unreadable.push(tool.label);
+      return;
+    }
+    const { entry } = result;
+    if (!entry || Number.isNaN(entry.score)) {
+      lookup.missing.push(tool.label);
+    } else {
+      lookup.scores.push({
+        id: tool.id,
+        tool: tool.label,
+        ...(entry.version ? { version: entry.version } : {}),
+        score: entry.score,
+        category: tool.categorize(entry.score),
+        calibration: tool.calibration,
+      });
+    }
+  });
+  return lookup;
+}
@@ -47,10 +47,10 @@ function decodeBasicEntities(input: string): string {
     .replace(/&#39;/g, "'");
 }
 
-async function fetchArticleTitleFallback(pmid: string): Promise<string | null> {
+async function fetchArticleTitleFallback(pmid: string, signal?: AbortSignal): Promise<string | null> {
   try {
     const efetchUrl = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi?db=pubmed&id=${pmid}&retmode=xml`;
-    const response = await fetch(efetchUrl);
+    const response = await fetch(efetchUrl, { signal });
     if (!response.ok) return null;
 
     const xml = await response.text();
@@ -70,7 +70,8 @@ async function fetchArticleTitleFallback(pmid: string): Promise<string | null> {
  */
 export async function searchPubMed(
   gene: string,
-  proteinChange: string
+  proteinChange: string,
+  signal?: AbortSignal
 ): Promise<PubMedResult | null> {
   const cacheKey = `${gene}:${proteinChange}`;
   
@@ -89,7 +90,7 @@ export async function searchPubMed(
     
     console.log(`[PubMed] Searching: ${query}`);
     
-    const searchRes = await fetch(searchUrl);
+    const searchRes = await fetch(searchUrl, { signal });
     if (!searchRes.ok) throw new Error(`PubMed search failed: ${searchRes.status}`);
     const searchData = await searchRes.json();
     
@@ -100,7 +101,7 @@ export async function searchPubMed(
     let papers: PubMedPaper[] = [];
     if (count > 0 && ids.length > 0) {
       const summaryUrl = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi?db=pubmed&id=${ids.join(',')}&retmode=json`;
-      const summaryRes = await fetch(summaryUrl);
+      const summaryRes = await fetch(summaryUrl, { signal });
       if (summaryRes.ok) {
         const summaryData = await summaryRes.json();
         papers = [];
@@ -108,7 +109,7 @@ export async function searchPubMed(
           const doc = summaryData.result[id];
           let title = (doc?.title || '').trim();
           if (isPlaceholderTitle(title, id)) {
-            title = (await fetchArticleTitleFallback(id)) || '';
+            title = (await fetchArticleTitleFallback(id, signal)) || '';
           }
           if (isPlaceholderTitle(title, id)) {
             // Avoid exposing obviously broken titles such as "PMID 12345678".
@@ -133,7 +134,8 @@ export async function searchPubMed(
       papers
     };
 
-    pubmedCache.set(cacheKey, result);
+    // Titles dropped by a cancelled fallback fetch must not be cached
+    if (!signal?.aborted) pubmedCache.set(cacheKey, result);
     return result;
 
   } catch (error) {
@@ -0,0 +1,213 @@
+/**
+ * RATE LIMIT STORES
+ *
+ * Sliding-window logs for RateLimiter, in memory, SQLite or Redis (chosen by
+ * RATE_LIMIT_STORE). Refused requests are not logged, so hammering does not
+ * extend a block.
+ */
+
+import { randomBytes } from 'crypto';
+import db from './db';
+import { RedisClient, RespValue } from './redis-client';
+
+export interface WindowHits {
+  count: number;         // Hits in the window, including this one when it was allowed
+  oldest: number | null; // Epoch ms of the oldest hit in the window
+}
+
+export interface RateLimitStore {
+  /**
+   * Log a hit on `key` at `now` unless `limit` hits already fall within the
+   * last `windowMs`.
+   */
+  hit(key: string, now: number, windowMs: number, limit: number): Promise<WindowHits & { allowed: boolean }>;
+  // The hits on `key` within the last `windowMs`, without logging one
+  peek(key: string, now: number, windowMs: number): Promise<WindowHits>;
+  // Drop hits that have left their window
+  cleanup(now: number): Promise<void>;
+  // Forget every key starting with `prefix`
+  reset(prefix: string): Promise<void>;
+}
+
+// ==========================================
+// MEMORY
+// ==========================================
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, { hits: number[]; windowMs: number }>();
+
+  async hit(key: string, now: number, windowMs: number, limit: number) {
+    const hits = this.prune(key, now, windowMs);
+    const allowed = hits.length < limit;
+    if (allowed) {
+      hits.push(now);
+      this.windows.set(key, { hits, windowMs });
+    }
+    return { allowed, count: hits.length, oldest: hits[0] ?? null };
+  }
+
+  async peek(key: string, now: number, windowMs: number) {
+    const hits = this.prune(key, now, windowMs);
+    return { count: hits.length, oldest: hits[0] ?? null };
+  }
+
+  async cleanup(now: number) {
+    for (const [key, { windowMs }] of this.windows.entries()) this.prune(key, now, windowMs);
+  }
+
+  async reset(prefix: string) {
+    for (const key of this.windows.keys()) {
+      if (key.startsWith(prefix)) this.windows.delete(key);
+    }
+  }
+
+  // Hits still inside the window, oldest first; empty windows are dropped
+  private prune(key: string, now: number, windowMs: number): number[] {
+    const entry = this.windows.get(key);
+    if (!entry) return [];
+    const hits = entry.hits.filter((at) => at > now - windowMs);
+    if (hits.length === 0) this.windows.delete(key);
+    else entry.hits = hits;
+    return hits;
+  }
+}
+
+// ==========================================
+// SQLITE
+// ==========================================
+
+/**
+ * Shares limits between processes on one host (or one volume). Uses the
+ * application database (src/lib/db.ts).
+ */
+export class SqliteRateLimitStore implements RateLimitStore {
+  async hit(key: string, now: number, windowMs: number, limit: number) {
+    // One transaction: no other process can log a hit between the count and the insert
+    return db.transaction(() => {
+      db.prepare('DELETE FROM rate_limit_hits WHERE key = @key AND at <= @since').run({ key, since: now - windowMs });
+      const window = this.count(key, now, windowMs);
+      if (window.count >= limit) return { allowed: false, ...window };
+      db.prepare('INSERT INTO rate_limit_hits (key, at, expiresAt) VALUES (@key, @now, @expiresAt)')
+        .run({ key, now, expiresAt: now + windowMs });
+      return { allowed: true, count: window.count + 1, oldest: window.oldest ?? now };
+    })();
+  }
+
+  async peek(key: string, now: number, windowMs: number) {
+    return this.count(key, now, windowMs);
+  }
+
+  async cleanup(now: number) {
+    db.prepare('DELETE FROM rate_limit_hits WHERE expiresAt <= @now').run({ now });
+  }
+
+  async reset(prefix: string) {
+    db.prepare("DELETE FROM rate_limit_hits WHERE substr(key, 1, length(@prefix)) = @prefix").run({ prefix });
+  }
+
+  private count(key: string, now: number, windowMs: number): WindowHits {
+    const row = db.prepare(`
+      SELECT COUNT(*) AS count, MIN(at) AS oldest FROM rate_limit_hits WHERE key = @key AND at > @since
+    `).get({ key, since: now - windowMs });
+    return { count: (row.count as number) ?? 0, oldest: (row.oldest as number | null) ?? null };
+  }
+}
+
+// ==========================================
+// REDIS
+// ==========================================
+
+/**
+ * Trim, count and log a hit in one step: Redis runs a script without
+ * interleaving other commands. KEYS[1] is the window; ARGV is now, windowMs,
+ * limit and the member to add. Replies { allowed (0/1), count, ZRANGE 0 0 WITHSCORES }.
+ */
+export const HIT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - windowMs)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < tonumber(ARGV[3]) then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  redis.call('PEXPIRE', KEYS[1], windowMs)
+  count = count + 1
+  allowed = 1
+end
+return { allowed, count, redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES') }
+`;
+
+const SCAN_BATCH = 500;
+
+// MATCH treats these as glob syntax
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Shares limits between every instance that reaches the same Redis. Each key
+ * is a sorted set of hits scored by time, expiring with its window.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private client: RedisClient, private namespace = 'variantlens:ratelimit:') {}
+
+  async hit(key: string, now: number, windowMs: number, limit: number) {
+    const redisKey = this.namespace + key;
+    const member = `${now}-${randomBytes(4).toString('hex')}`;
+    const reply = await this.client.send(['EVAL', HIT_SCRIPT, 1, redisKey, now, windowMs, limit, member]);
+    const [allowed, count, oldest] = reply as RespValue[];
+    return { allowed: allowed === 1, count: count as number, oldest: oldestScore(oldest) };
+  }
+
+  async peek(key: string, now: number, windowMs: number) {
+    const redisKey = this.namespace + key;
+    const [, count, oldest] = await this.client.transaction([
+      ['ZREMRANGEBYSCORE', redisKey, '-inf', now - windowMs],
+      ['ZCARD', redisKey],
+      ['ZRANGE', redisKey, 0, 0, 'WITHSCORES'],
+    ]);
+    return { count: count as number, oldest: oldestScore(oldest) };
+  }
+
+  // Keys expire with their window (PEXPIRE on every hit)
+  async cleanup() {}
+
+  // SCAN rather than KEYS, which blocks the server while it walks every key
+  async reset(prefix: string) {
+    const pattern = `${escapeGlob(this.namespace + prefix)}*`;
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.client.send(['SCAN', cursor, 'MATCH', pattern, 'COUNT', SCAN_BATCH]) as [string, string[]];
+      if (keys.length > 0) await this.client.send(['DEL', ...keys]);
+      cursor = next;
+    } while (cursor !== '0');
+  }
+}
+
+// ZRANGE ... WITHSCORES: [member, score]
+function oldestScore(reply: RespValue): number | null {
+  return Array.isArray(reply) && reply.length === 2 ? Number(reply[1]) : null;
+}
+
+// ==========================================
+// SELECTION
+// ==========================================
+
+/**
+ * The store RATE_LIMIT_STORE names: `memory` (default), `sqlite` or `redis`
+ * (with REDIS_URL). A Redis store without REDIS_URL falls back to memory.
+ */
+export function createRateLimitStore(
+  env: Record<string, string | undefined> = process.env
+): RateLimitStore {
+  switch (env.RATE_LIMIT_STORE) {
+    case 'sqlite':
+      return new SqliteRateLimitStore();
+    case 'redis':
+      if (env.REDIS_URL) return new RedisRateLimitStore(new RedisClient(env.REDIS_URL));
+      console.error('[RateLimit] RATE_LIMIT_STORE=redis but REDIS_URL is not set. Using in-memory limits.');
+      return new MemoryRateLimitStore();
+    default:
+      return new MemoryRateLimitStore();
+  }
+}
@@ -1,90 +1,139 @@
+import { RateLimitStore, createRateLimitStore } from './rate-limit-store';
+
 export interface RateLimitConfig {
   windowMs: number;
   maxRequests: number;
+  name?: string;          // Key prefix, so limiters can share a store
+  store?: RateLimitStore; // Defaults to a store of its own, per RATE_LIMIT_STORE
+}
+
+// What X-RateLimit-* headers report for one identifier
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
 }
 
-interface RateLimitEntry {
-  count: number;
-  windowStart: number;
+export interface RateLimitDecision extends RateLimitState {
+  allowed: boolean;
+  retryAfter: number; // Seconds until a request would be allowed; 0 when allowed
 }
 
+const MAX_CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Sliding-window limiter: at most `maxRequests` in any `windowMs`, counted
+ * from the hits themselves rather than from fixed buckets, so a burst at the
+ * end of one window cannot be followed by a full one at the start of the next.
+ * When the store fails, requests are let through (and the failure logged):
+ * an unreachable Redis must not take the API down with it.
+ */
 export class RateLimiter {
-  private store = new Map<string, RateLimitEntry>();
+  private store: RateLimitStore;
   private config: RateLimitConfig;
+  private prefix: string;
+  private cleanupTimer: ReturnType<typeof setInterval>;
 
   constructor(config: RateLimitConfig) {
     this.config = config;
+    this.store = config.store ?? createRateLimitStore();
+    this.prefix = `${config.name ?? 'default'}:`;
+
+    // Keys that stop being hit are otherwise never pruned
+    this.cleanupTimer = setInterval(() => {
+      this.cleanup().catch((error) => console.error('[RateLimit] Cleanup failed:', error));
+    }, Math.min(config.windowMs, MAX_CLEANUP_INTERVAL_MS));
+    this.cleanupTimer.unref?.();
+  }
+
+  // `maxRequests` overrides the configured limit for this identifier (per-key limits)
+  async check(identifier: string, maxRequests = this.config.maxRequests): Promise<boolean> {
+    return (await this.consume(identifier, maxRequests)).allowed;
   }
 
-  async check(identifier: string): Promise<boolean> {
+  /**
+   * Count a request against `identifier` and report the window after it.
+   */
+  async consume(identifier: string, maxRequests = this.config.maxRequests): Promise<RateLimitDecision> {
     const now = Date.now();
-    const entry = this.store.get(identifier);
-
-    if (!entry) {
-      // First request
-      this.store.set(identifier, {
-        count: 1,
-        windowStart: now,
-      });
-      return true;
+    try {
+      const { allowed, count, oldest } = await this.store.hit(this.prefix + identifier, now, this.config.windowMs, maxRequests);
+      const state = this.describe(count, oldest, now, maxRequests);
+      return { allowed, ...state, retryAfter: allowed ? 0 : state.resetSeconds };
+    } catch (error) {
+      console.error(`[RateLimit] Store unavailable for ${this.prefix}${identifier}; allowing request.`, error);
+      return { allowed: true, limit: maxRequests, remaining: maxRequests, resetSeconds: this.windowSeconds, retryAfter: 0 };
     }
+  }
 
-    // Check if window has reset
-    if (now - entry.windowStart > this.config.windowMs) {
-      this.store.set(identifier, {
-        count: 1,
-        windowStart: now,
-      });
-      return true;
-    }
+  async getRetryAfter(identifier: string, maxRequests = this.config.maxRequests): Promise<number> {
+    const state = await this.getState(identifier, maxRequests);
+    return state.remaining > 0 ? 0 : state.resetSeconds;
+  }
 
-    // Check limit
-    if (entry.count >= this.config.maxRequests) {
-      return false;
-    }
+  async getState(identifier: string, maxRequests = this.config.maxRequests): Promise<RateLimitState> {
+    const now = Date.now();
+    const { count, oldest } = await this.store.peek(this.prefix + identifier, now, this.config.windowMs);
+    return this.describe(count, oldest, now, maxRequests);
+  }
 
-    // Increment
-    entry.count++;
-    return true;
+  // Drop expired hits; runs on a timer, callable directly
+  async cleanup(): Promise<void> {
+    await this.store.cleanup(Date.now());
   }
 
-  getRetryAfter(identifier: string): number {
-    const entry = this.store.get(identifier);
-    if (!entry) return 0;
+  // Reset (for testing)
+  async reset(): Promise<void> {
+    await this.store.reset(this.prefix);
+  }
 
-    const now = Date.now();
-    const resetTime = entry.windowStart + this.config.windowMs;
-    return Math.max(0, Math.ceil((resetTime - now) / 1000));
+  // Stop the cleanup timer
+  stop(): void {
+    clearInterval(this.cleanupTimer);
   }
 
-  // Cleanup old entries (call periodically)
-  cleanup(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.store.entries()) {
-      if (now - entry.windowStart > this.config.windowMs) {
-        this.store.delete(key);
-      }
-    }
+  private get windowSeconds(): number {
+    return Math.ceil(this.config.windowMs / 1000);
   }
 
-  // Reset (for testing)
-  reset(): void {
-    this.store.clear();
+  // Reset is when the oldest hit leaves the window and frees a slot
+  private describe(count: number, oldest: number | null, now: number, maxRequests: number): RateLimitState {
+    return {
+      limit: maxRequests,
+      remaining: Math.max(0, maxRequests - count),
+      resetSeconds: oldest === null ? this.windowSeconds : Math.max(0, Math.ceil((oldest + this.config.windowMs - now) / 1000)),
+    };
   }
 }
 
-// Global instances for different endpoints
+// Global instances for different endpoints, sharing one store
+const sharedStore = createRateLimitStore();
+
 export const variantRateLimiter = new RateLimiter({
   windowMs: 60 * 1000, // 1 minute
   maxRequests: 100,
+  name: 'variant',
+  store: sharedStore,
 });
 
 export const batchRateLimiter = new RateLimiter({
   windowMs: 60 * 60 * 1000, // 1 hour
   maxRequests: 2,
+  name: 'batch',
+  store: sharedStore,
+});
+
+// Requests carrying an API key: one window per key, limit from the key
+export const apiKeyRateLimiter = new RateLimiter({
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: 100,
+  name: 'apikey',
+  store: sharedStore,
 });
 
 export const validationRateLimiter = new RateLimiter({
   windowMs: 60 * 60 * 1000, // 1 hour
   maxRequests: 100,
+  name: 'validation',
+  store: sharedStore,
 });
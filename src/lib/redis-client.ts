@@ -0,0 +1,181 @@
+/**
+ * REDIS CLIENT
+ *
+ * Minimal RESP2 client over a TCP socket, enough for the shared rate-limit
+ * store without a driver dependency.
+ */
+
+import net from 'net';
+
+export type RespValue = string | number | null | RespValue[] | RedisError;
+
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisError';
+  }
+}
+
+// ==========================================
+// PROTOCOL
+// ==========================================
+
+export function encodeCommand(args: Array<string | number>): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    const value = String(arg);
+    parts.push(`$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+  }
+  return Buffer.from(parts.join(''));
+}
+
+/**
+ * One reply from the start of `buffer` (at `offset`) and where the next one
+ * begins, or null when the buffer does not hold a whole reply yet.
+ */
+export function parseReply(buffer: Buffer, offset = 0): { value: RespValue; next: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const afterLine = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, next: afterLine };
+    case '-':
+      return { value: new RedisError(line), next: afterLine };
+    case ':':
+      return { value: Number(line), next: afterLine };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, next: afterLine };
+      if (buffer.length < afterLine + length + 2) return null;
+      return { value: buffer.toString('utf8', afterLine, afterLine + length), next: afterLine + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, next: afterLine };
+      const items: RespValue[] = [];
+      let next = afterLine;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, next);
+        if (!item) return null;
+        items.push(item.value);
+        next = item.next;
+      }
+      return { value: items, next };
+    }
+    default:
+      throw new RedisError(`Unexpected RESP type byte "${type}"`);
+  }
+}
+
+// ==========================================
+// CLIENT
+// ==========================================
+
+interface Pending {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+export class RedisClient {
+  private socket: net.Socket | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: Pending[] = [];
+  private readonly url: URL;
+  private readonly timeoutMs: number;
+
+  constructor(url: string, options: { timeoutMs?: number } = {}) {
+    this.url = new URL(url);
+    this.timeoutMs = options.timeoutMs ?? 2000;
+  }
+
+  /**
+   * Run one command.
+   */
+  async send(args: Array<string | number>): Promise<RespValue> {
+    const [reply] = await this.write([args]);
+    return reply;
+  }
+
+  /**
+   * Run `commands` as one MULTI/EXEC transaction and return their replies.
+   */
+  async transaction(commands: Array<Array<string | number>>): Promise<RespValue[]> {
+    const replies = await this.write([['MULTI'], ...commands, ['EXEC']]);
+    const results = replies[replies.length - 1];
+    if (!Array.isArray(results)) throw new RedisError('Transaction aborted');
+    return results;
+  }
+
+  close(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.end();
+  }
+
+  private write(commands: Array<Array<string | number>>): Promise<RespValue[]> {
+    const socket = this.connect();
+    const replies = commands.map(() => new Promise<RespValue>((resolve, reject) => {
+      this.pending.push({
+        resolve: (value) => (value instanceof RedisError ? reject(value) : resolve(value)),
+        reject,
+      });
+    }));
+    socket.write(Buffer.concat(commands.map(encodeCommand)));
+    return Promise.all(replies);
+  }
+
+  private connect(): net.Socket {
+    if (this.socket) return this.socket;
+
+    const socket = net.createConnection({
+      host: this.url.hostname || '127.0.0.1',
+      port: Number(this.url.port || 6379),
+    });
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', (chunk) => this.receive(chunk));
+    socket.on('timeout', () => socket.destroy(new RedisError(`No reply from ${this.url.host} within ${this.timeoutMs}ms`)));
+    socket.on('error', (error) => this.fail(socket, error));
+    socket.on('close', () => this.fail(socket, new RedisError('Connection closed')));
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    // AUTH and SELECT go first; their replies are consumed here
+    const password = this.url.password ? decodeURIComponent(this.url.password) : '';
+    const username = this.url.username ? decodeURIComponent(this.url.username) : '';
+    const database = this.url.pathname.slice(1);
+    const setup: Array<Array<string | number>> = [];
+    if (password) setup.push(username ? ['AUTH', username, password] : ['AUTH', password]);
+    if (database) setup.push(['SELECT', database]);
+    for (const args of setup) {
+      this.pending.push({
+        resolve: (value) => { if (value instanceof RedisError) socket.destroy(value); },
+        reject: () => {},
+      });
+      socket.write(encodeCommand(args));
+    }
+    return socket;
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    let offset = 0;
+    let reply: ReturnType<typeof parseReply>;
+    while (offset < this.buffer.length && (reply = parseReply(this.buffer, offset))) {
+      offset = reply.next;
+      this.pending.shift()?.resolve(reply.value);
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private fail(socket: net.Socket, error: Error): void {
+    if (this.socket !== socket) return;
+    this.socket = null;
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(({ reject }) => reject(error));
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * REFSEQ CLIENT
+ *
+ * Reference sequences and GRCh38 exon tables that the bundled snapshot does
+ * not carry, fetched from NCBI before the synchronous parsers run. NCBI being
+ * down is UPSTREAM_UNAVAILABLE, never blamed on the input.
+ */
+
+import { FetchFailureReason, fetchWithRetry, FetchResult } from './fetch-utils';
+import { withUpstream } from './concurrency';
+import {
+  addReferenceTranscript,
+  getReferenceTranscript,
+  maneSelectTranscript,
+  ReferenceTranscript,
+} from './coding-variant';
+import {
+  addChromosomeAnnotation,
+  GenomicVariant,
+  GRCH38_ACCESSIONS,
+  hasChromosomeAnnotation,
+  isGenomicInput,
+  overlappingTranscripts,
+  parseGenomicVariant,
+  TranscriptAnnotation,
+} from './genomic-variant';
+import { listKnownSymbols } from './gene-registry';
+import { codingReferenceAccessions } from './variant';
+import { UpstreamUnavailableError } from './errors';
+
+interface ESearchResponse {
+  esearchresult?: { idlist?: string[] };
+}
+
+// Fetches in flight, so concurrent rows naming one transcript share a request
+const pendingTranscripts = new Map<string, Promise<FetchResult<ReferenceTranscript>>>();
+const pendingAnnotation = new Map<string, Promise<FetchResult<TranscriptAnnotation[]>>>();
+
+const EUTILS = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+
+// ==========================================
+// PARSING
+// ==========================================
+
+/**
+ * The first CDS record of an NCBI fasta_cds_na response, e.g.
+ * ">lcl|NM_004333.6_cds_NP_004324.2_1 [gene=BRAF] ...". Null when the body
+ * holds no such record.
+ */
+export function parseCdsFasta(fasta: string): ReferenceTranscript | null {
+  const record = fasta.trim().split(/\n(?=>)/)[0] ?? '';
+  const [header = '', ...lines] = record.split('\n');
+  const accession = header.match(/^>lcl\|(N[MR]_\d+\.\d+)_cds_/)?.[1];
+  const gene = header.match(/\[gene=([^\]]+)\]/)?.[1];
+  const cds = lines.join('').replace(/\s+/g, '').toUpperCase();
+  if (!accession || !gene || !/^[ACGTN]+$/.test(cds)) return null;
+  return { accession, gene, cds };
+}
+
+/**
+ * CDS segments of every transcript in an NCBI gene_table report that sits on
+ * a GRCh38 chromosome (alternate loci and other assemblies are skipped).
+ * Coding exons are the rows with four intervals; the second is the genomic
+ * coding interval, written high-to-low on the minus strand.
+ */
+export function parseGeneTable(table: string): TranscriptAnnotation[] {
+  const chromosomes = new Map(Object.entries(GRCH38_ACCESSIONS).map(([chrom, accession]) => [accession, chrom]));
+  const transcripts: TranscriptAnnotation[] = [];
+  let gene = '';
+  let chrom: string | undefined;
+  let current: { accession: string; intervals: Array<[number, number]> } | null = null;
+
+  const finish = () => {
+    if (current && chrom && current.intervals.length > 0) {
+      const minus = current.intervals.some(([from, to]) => from > to);
+      transcripts.push({
+        accession: current.accession,
+        gene,
+        chrom,
+        strand: minus ? '-' : '+',
+        cds: current.intervals.map(([from, to]) => (minus ? [to, from] : [from, to])),
+      });
+    }
+    current = null;
+  };
+
+  for (const line of table.split('\n')) {
+    const geneHeader = line.match(/^(\S+) .*\[Homo sapiens\]\s*$/);
+    const reference = line.match(/^Reference .*?\b(NC_\d+\.\d+)/);
+    const exonTable = line.match(/^Exon table for\s+mRNA\s+(N[MR]_\d+\.\d+)/);
+    if (geneHeader || reference || exonTable) finish();
+    if (geneHeader) {
+      gene = geneHeader[1];
+      chrom = undefined;
+    } else if (reference) {
+      chrom = /ALT_REF_LOCI|PATCHES/.test(line) ? undefined : chromosomes.get(reference[1]);
+    } else if (exonTable) {
+      current = { accession: exonTable[1], intervals: [] };
+    } else if (current) {
+      const intervals = line.match(/\d+-\d+/g);
+      if (intervals?.length === 4) {
+        const [from, to] = intervals[1].split('-').map(Number);
+        current.intervals.push([from, to]);
+      }
+    }
+  }
+  finish();
+  return transcripts;
+}
+
+// ==========================================
+// PUBLIC API
+// ==========================================
+
+/**
+ * Coding sequence of RefSeq transcript `accession` (versioned or not).
+ * Returns null if NCBI has no such transcript, FetchFailure if unavailable.
+ */
+export async function fetchReferenceTranscript(accession: string): Promise<FetchResult<ReferenceTranscript>> {
+  const url = `${EUTILS}/efetch.fcgi?db=nuccore&id=${encodeURIComponent(accession)}&rettype=fasta_cds_na&retmode=text`;
+  const fasta = await fetchWithRetry<string>(url, {
+    circuitBreakerKey: 'refseq',
+    timeoutMs: 8000,
+    responseType: 'text',
+  });
+  if (typeof fasta !== 'string') return fasta;
+  return parseCdsFasta(fasta);
+}
+
+/**
+ * GRCh38 annotation of the registry's MANE Select transcripts on `chrom`.
+ * Returns an empty list when no registry gene sits there.
+ */
+export async function fetchChromosomeAnnotation(chrom: string): Promise<FetchResult<TranscriptAnnotation[]>> {
+  const mane = new Map<string, string>();
+  for (const { symbol, matchedBy } of listKnownSymbols()) {
+    const accession = matchedBy === 'approved' ? maneSelectTranscript(symbol) : null;
+    if (accession) mane.set(symbol, accession.split('.')[0]);
+  }
+
+  const term = `(${[...mane.keys()].map((symbol) => `${symbol}[sym]`).join(' OR ')}) AND 9606[taxid] AND ${chrom}[chr]`;
+  const search = await fetchWithRetry<ESearchResponse>(
+    `${EUTILS}/esearch.fcgi?db=gene&retmode=json&retmax=100&term=${encodeURIComponent(term)}`,
+    { circuitBreakerKey: 'refseq', timeoutMs: 8000 }
+  );
+  if (search && 'unavailable' in search) return search;
+  const ids = search?.esearchresult?.idlist ?? [];
+  if (ids.length === 0) return [];
+
+  const table = await fetchWithRetry<string>(
+    `${EUTILS}/efetch.fcgi?db=gene&id=${ids.join(',')}&rettype=gene_table&retmode=text`,
+    { circuitBreakerKey: 'refseq', timeoutMs: 8000, responseType: 'text' }
+  );
+  if (typeof table !== 'string') return table;
+  return parseGeneTable(table).filter((t) => mane.get(t.gene) === t.accession.split('.')[0]);
+}
+
+function unavailable(what: string, reason: FetchFailureReason): UpstreamUnavailableError {
+  return new UpstreamUnavailableError(
+    'refseq',
+    reason,
+    `${what} unavailable from NCBI (${reason}). Retry later or provide protein HGVS.`
+  );
+}
+
+async function loadChromosomeAnnotation(chrom: string): Promise<void> {
+  if (hasChromosomeAnnotation(chrom)) return;
+
+  let pending = pendingAnnotation.get(chrom);
+  if (!pending) {
+    pending = withUpstream('ncbi', () => fetchChromosomeAnnotation(chrom));
+    pendingAnnotation.set(chrom, pending);
+    pending.finally(() => pendingAnnotation.delete(chrom)).catch(() => {});
+  }
+
+  const result = await pending;
+  if (result && 'unavailable' in result) {
+    throw unavailable(`Transcript annotation for chromosome ${chrom}`, result.reason);
+  }
+  addChromosomeAnnotation(chrom, result ?? []);
+}
+
+async function loadTranscript(accession: string): Promise<void> {
+  if (getReferenceTranscript(accession)) return;
+
+  let pending = pendingTranscripts.get(accession);
+  if (!pending) {
+    pending = withUpstream('ncbi', () => fetchReferenceTranscript(accession));
+    pendingTranscripts.set(accession, pending);
+    pending.finally(() => pendingTranscripts.delete(accession)).catch(() => {});
+  }
+
+  const result = await pending;
+  if (result && 'unavailable' in result) {
+    throw unavailable(`Reference sequence ${accession}`, result.reason);
+  }
+  if (result) addReferenceTranscript(result, accession);
+}
+
+async function loadGenomicReference(variant: GenomicVariant): Promise<void> {
+  if (overlappingTranscripts(variant).length === 0) {
+    await loadChromosomeAnnotation(variant.chrom);
+  }
+  await Promise.all(overlappingTranscripts(variant).map((t) => loadTranscript(t.accession)));
+}
+
+/**
+ * Whether `input` is read against reference data that has not been loaded
+ * yet, i.e. whether loadReferenceData would have to ask NCBI. Malformed
+ * input needs none.
+ */
+export function needsReferenceData(input: string): boolean {
+  if (isGenomicInput(input)) {
+    let variant: GenomicVariant;
+    try {
+      variant = parseGenomicVariant(input);
+    } catch {
+      return false;
+    }
+    const transcripts = overlappingTranscripts(variant);
+    if (transcripts.length === 0) return !hasChromosomeAnnotation(variant.chrom);
+    return transcripts.some((t) => !getReferenceTranscript(t.accession));
+  }
+  return codingReferenceAccessions(input).some((accession) => !getReferenceTranscript(accession));
+}
+
+/**
+ * Fetch whatever reference sequences and exon annotation `input` is read
+ * against and the bundled snapshot lacks. Input that needs none (protein
+ * HGVS) returns at once; malformed input is left for the parser to report.
+ * Throws UpstreamUnavailableError when NCBI cannot be reached.
+ */
+export async function loadReferenceData(input: string): Promise<void> {
+  if (isGenomicInput(input)) {
+    let variant: GenomicVariant;
+    try {
+      variant = parseGenomicVariant(input);
+    } catch {
+      return;
+    }
+    await loadGenomicReference(variant);
+    return;
+  }
+  await Promise.all(codingReferenceAccessions(input).map(loadTranscript));
+}
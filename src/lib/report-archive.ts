@@ -0,0 +1,31 @@
+/**
+ * REPORT ARCHIVE
+ *
+ * Zip of Markdown reports, laid out the way BatchUpload has always saved
+ * them: one file per variant under variant-lens-reports/.
+ */
+
+import JSZip from 'jszip';
+
+export const REPORT_FOLDER = 'variant-lens-reports';
+
+export function reportFilename(hgvs: string): string {
+  return hgvs.replace(/[^a-zA-Z0-9_\-\.]/g, '_') + '.md';
+}
+
+export function archiveFilename(date = new Date()): string {
+  return `variant-lens-results-${date.toISOString().slice(0, 10)}.zip`;
+}
+
+export async function buildReportArchive(reports: Array<{ hgvs: string; markdown: string }>): Promise<Buffer> {
+  const zip = new JSZip();
+  const folder = zip.folder(REPORT_FOLDER);
+  for (const report of reports) {
+    folder?.file(reportFilename(report.hgvs), report.markdown);
+  }
+  return zip.generateAsync({
+    type: 'nodebuffer',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 },
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * REPORT ETAG
+ *
+ * Validators for GET permalinks. The weak ETag hashes the evidence, not the
+ * per-request fields, and If-None-Match wins over If-Modified-Since.
+ */
+
+import { createHash } from 'crypto';
+import { Cache } from './cache';
+
+const VOLATILE_FIELDS = new Set(['timestamp', 'processingMs', 'timings']);
+
+// First time each (input, ETag) pair was served; a week is longer than any upstream cache
+const firstServed = new Cache<number>(7 * 24 * 60 * 60);
+
+/**
+ * Weak ETag over the report with its per-request fields removed.
+ */
+export function evidenceEtag(report: unknown, variant = ''): string {
+  const stable = JSON.stringify(report, (key, value) => (VOLATILE_FIELDS.has(key) ? undefined : value));
+  const digest = createHash('sha256').update(stable).digest('base64url').slice(0, 27);
+  return `W/"${digest}${variant ? `-${variant}` : ''}"`;
+}
+
+/**
+ * When this ETag was first served for `key`, in whole seconds (HTTP dates
+ * have no milliseconds).
+ */
+export function lastModifiedFor(key: string, etag: string, now: number = Date.now()): Date {
+  const cacheKey = `${key}|${etag}`;
+  let seen = firstServed.get(cacheKey);
+  if (seen === null) {
+    seen = Math.floor(now / 1000) * 1000;
+    firstServed.set(cacheKey, seen);
+  }
+  return new Date(seen);
+}
+
+/**
+ * True when the request's validators still match, i.e. a 304 is due.
+ */
+export function isNotModified(headers: Headers, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = headers.get('if-none-match');
+  if (ifNoneMatch) {
+    // Weak comparison: W/ prefixes are ignored
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+    const tags = ifNoneMatch.split(',').map(opaque);
+    return tags.includes('*') || tags.includes(opaque(etag));
+  }
+
+  const ifModifiedSince = headers.get('if-modified-since');
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    return !Number.isNaN(since) && lastModified.getTime() <= since;
+  }
+  return false;
+}
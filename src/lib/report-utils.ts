@@ -1,4 +1,4 @@
-import { HonestReportData } from './types/honest-response';
+import { EvidenceCoverage, HonestReportData } from './types/honest-response';
 
 function starsFromCount(stars?: number): string {
   if (typeof stars !== 'number') return '\u2606\u2606\u2606\u2606';
@@ -36,6 +36,99 @@ function formatResolution(resolution?: number): string {
   return `, ${resolution.toFixed(2)}A`;
 }
 
+export function formatAlleleFrequency(frequency: number): string {
+  return frequency === 0 ? '0' : frequency < 0.001 ? frequency.toExponential(2) : frequency.toPrecision(3);
+}
+
+/**
+ * One line on the gnomAD lookup: overall frequency, homozygotes, the group
+ * where the allele is most common and any failed site filters.
+ */
+export function describePopulation(population: NonNullable<EvidenceCoverage['population']>): string {
+  if (population.status === 'unavailable') return `gnomAD unavailable (${population.reason || 'unknown'})`;
+  if (population.status === 'none') return 'Not observed in gnomAD';
+
+  const highest = [...(population.ancestries ?? [])]
+    .filter((group) => group.alleleCount > 0)
+    .sort((a, b) => b.alleleFrequency - a.alleleFrequency)[0];
+  const parts = [
+    `gnomAD AF ${formatAlleleFrequency(population.alleleFrequency ?? 0)} (${population.alleleCount}/${population.alleleNumber} alleles, ${population.homozygoteCount} homozygotes)`,
+    highest ? `highest in ${highest.label} (AF ${formatAlleleFrequency(highest.alleleFrequency)})` : '',
+    population.filters?.length ? `site filtered: ${population.filters.join(', ')}` : '',
+  ];
+  return parts.filter(Boolean).join('; ');
+}
+
+type ClinVarClassification = NonNullable<EvidenceCoverage['clinical']['classifications']>[number];
+
+export const CLASSIFICATION_LABELS: Record<ClinVarClassification['type'], string> = {
+  germline: 'Germline',
+  somatic_clinical_impact: 'Somatic clinical impact',
+  oncogenicity: 'Oncogenicity',
+};
+
+/**
+ * One aggregate classification with its own review, e.g.
+ * "Oncogenicity: Oncogenic (2/4 stars, criteria provided, single submitter)".
+ */
+export function describeClassification(classification: ClinVarClassification): string {
+  const conditions = classification.conditions.length > 0 ? ` for ${classification.conditions.join(', ')}` : '';
+  return `${CLASSIFICATION_LABELS[classification.type]}: ${classification.description} (${classification.stars}/4 stars, ${classification.reviewStatus})${conditions}`;
+}
+
+/**
+ * What submitters said, pathogenic side against benign side, e.g.
+ * "5 pathogenic/likely pathogenic vs 1 benign/likely benign (2 uncertain)".
+ */
+export function describeTally(tally: NonNullable<EvidenceCoverage['clinical']['tally']>): string {
+  const pathogenicSide = tally.pathogenic + tally.pathogenicLikelyPathogenic + tally.likelyPathogenic;
+  const benignSide = tally.benign + tally.benignLikelyBenign + tally.likelyBenign;
+  const split = `${pathogenicSide} pathogenic/likely pathogenic vs ${benignSide} benign/likely benign`;
+  const rest = [
+    tally.uncertain ? `${tally.uncertain} uncertain` : '',
+    tally.other ? `${tally.other} other` : '',
+  ].filter(Boolean);
+  return rest.length > 0 ? `${split} (${rest.join(', ')})` : split;
+}
+
+// Submissions listed in markdown before the rest are summarized as a count
+const MARKDOWN_SUBMISSION_LIMIT = 10;
+
+/**
+ * One line on a submission: submitter, call, date, method and conditions.
+ */
+export function describeSubmission(submission: NonNullable<EvidenceCoverage['clinical']['submissions']>[number]): string {
+  return [
+    `${submission.submitter} (${submission.scv}): ${submission.classification}${submission.type !== 'germline' ? ` [${CLASSIFICATION_LABELS[submission.type].toLowerCase()}]` : ''}`,
+    submission.dateLastEvaluated ? `evaluated ${submission.dateLastEvaluated}` : '',
+    submission.method || '',
+    submission.conditions.length > 0 ? submission.conditions.join(', ') : '',
+  ].filter(Boolean).join('; ');
+}
+
+/**
+ * One line per residue with other ClinVar variants, e.g.
+ * "Residue 175 (this residue): p.Arg175Cys Pathogenic ★★★☆".
+ */
+export function describeNearbyClinVar(nearby: NonNullable<EvidenceCoverage['nearby']>): string[] {
+  const residue = nearby.residue;
+  return (nearby.residues ?? []).map((group) => {
+    const where = residue === undefined ? '' : group.residue === residue ? ' (this residue)' : ` (${group.residue > residue ? '+' : ''}${group.residue - residue})`;
+    const variants = group.variants
+      .map((v) => `[${v.proteinChange}](${v.url}) ${v.significance} ${starsFromCount(v.stars)}`)
+      .join('; ');
+    return `Residue ${group.residue}${where}: ${variants}`;
+  });
+}
+
+/**
+ * One tool's score with its version and calibrated category, e.g.
+ * "REVEL 0.94 (v1.3): PP3_strong".
+ */
+export function describePredictorScore(score: NonNullable<NonNullable<EvidenceCoverage['predictors']>['scores']>[number]): string {
+  return `${score.tool} ${score.score}${score.version ? ` (${score.version})` : ''}: ${score.category.replace(/_/g, ' ')}`;
+}
+
 export function generateMarkdown(data: HonestReportData): string {
   const { variant, coverage, curatedInfo, unknowns } = data;
   const normalizedHgvs = variant.normalizedHgvs || variant.hgvs;
@@ -67,14 +160,71 @@ export function generateMarkdown(data: HonestReportData): string {
     ? unknowns.items.join(` ${bullet} `)
     : 'No major evidence gaps flagged';
   const timestamp = data.timestamp || new Date().toISOString();
+  const codingLine = variant.codingHgvs
+    ? `Derived from ${variant.genomicHgvs ? `${variant.genomicHgvs} (GRCh38) via ` : ''}${variant.codingHgvs} (${variant.proteinHgvs || normalizedHgvs})  \n`
+    : '';
+  const isoformLine = variant.isoform && variant.isoform.strategy !== 'canonical'
+    ? `${variant.isoform.transcript} encodes ${variant.isoform.isoform}; evaluated on ${variant.isoform.uniprotId} ${variant.isoform.strategy === 'renumbered' ? `residue ${variant.isoform.start} (offset ${variant.isoform.offset >= 0 ? '+' : ''}${variant.isoform.offset})` : 'isoform numbering'}  \n`
+    : '';
 
-  return `**Variant Lens Report**  
-**${variant.gene} ${normalizedHgvs}** (residue ${variant.residue} ${bullet} ${curatedInfo.proteinName})
+  const proteinIdLine = variant.proteinId
+    ? `Submitted against ${variant.proteinId.input}${variant.proteinId.input !== variant.proteinId.uniprotId ? ` (UniProt ${variant.proteinId.uniprotId})` : ''}  \n`
+    : '';
+  // Sections from configured non-core providers, one bullet each
+  const additionalLines = Object.values(coverage.additional ?? {})
+    .map((section) => `${bullet} ${section.label}: ${section.status === 'unavailable' ? `unavailable (${section.reason || 'unknown'})` : section.summary || section.status}  \n`)
+    .join('');
+  const additionalBlock = additionalLines ? `\n**Additional Evidence**  \n${additionalLines}` : '';
+  // Reports made before the population section existed have none
+  const populationBlock = coverage.population
+    ? `\n**Population Frequency**  \n${bullet} ${describePopulation(coverage.population)}  \n`
+    : '';
+  // Other classified changes at and around the residue; absent from older reports
+  const nearbyLines = !coverage.nearby
+    ? ''
+    : coverage.nearby.status === 'unavailable'
+      ? `${bullet} Unavailable (${coverage.nearby.reason || 'unknown'})  \n`
+      : coverage.nearby.status === 'none'
+        ? `${bullet} No other ClinVar variants at residues ${coverage.nearby.from}-${coverage.nearby.to}  \n`
+        : describeNearbyClinVar(coverage.nearby).map((line) => `${bullet} ${line}  \n`).join('');
+  const nearbyBlock = nearbyLines ? `\n**Nearby ClinVar Variants**  \n${nearbyLines}` : '';
+  // Named tools' predictions, labeled as such; absent from older reports
+  const predictorLines = !coverage.predictors
+    ? ''
+    : coverage.predictors.status === 'unavailable'
+      ? `${bullet} Unavailable (${coverage.predictors.reason || 'unknown'})  \n`
+      : [
+          ...(coverage.predictors.scores ?? []).map((score) => `${bullet} ${describePredictorScore(score)}  \n`),
+          ...(coverage.predictors.missing ?? []).map((tool) => `${bullet} ${tool}: no precomputed score  \n`),
+          coverage.predictors.note ? `_${coverage.predictors.note}_  \n` : '',
+        ].join('');
+  const predictorBlock = predictorLines ? `\n**Missense Predictors**  \n${predictorLines}` : '';
+  // Somatic and oncogenicity classifications listed apart from the germline headline
+  const classifications = coverage.clinical.classifications ?? [];
+  const classificationLines = classifications.some((c) => c.type !== 'germline')
+    ? classifications.map((c) => `${bullet} ${describeClassification(c)}  \n`).join('')
+    : '';
+  // Per-submitter detail behind the aggregate; absent from older reports
+  const submissions = coverage.clinical.submissions ?? [];
+  const submissionLines = coverage.clinical.tally
+    ? [
+        `Accessions: ${[coverage.clinical.vcv, ...(coverage.clinical.rcvs ?? [])].filter(Boolean).join(', ')}  \n`,
+        `Germline submitters: ${describeTally(coverage.clinical.tally)}  \n`,
+        ...submissions.slice(0, MARKDOWN_SUBMISSION_LIMIT).map((s) => `${bullet} ${describeSubmission(s)}  \n`),
+        submissions.length > MARKDOWN_SUBMISSION_LIMIT ? `${bullet} ${submissions.length - MARKDOWN_SUBMISSION_LIMIT} more submissions in ClinVar  \n` : '',
+      ].join('')
+    : coverage.clinical.submissionsReason ? `Submissions: ${coverage.clinical.submissionsReason}  \n` : '';
+  const geneLine = variant.geneResolution
+    ? `Gene symbol ${variant.geneResolution.submitted} (${variant.geneResolution.matchedBy === 'previous' ? 'withdrawn HGNC symbol' : 'alias'}) resolved to ${variant.geneResolution.approved}  \n`
+    : '';
 
+  return `**Variant Lens Report**  
+**${variant.gene} ${normalizedHgvs}** (${variant.residueEnd ? `residues ${variant.residue}-${variant.residueEnd}` : `residue ${variant.residue}`} ${bullet} ${curatedInfo.proteinName})  
+${geneLine}${proteinIdLine}${codingLine}${isoformLine}
 **Clinical Snapshot**  
 ${starsFromCount(coverage.clinical.stars)} **${significance}** ${reviewStatus}  
-ClinVar: [${clinvarId}](${clinvarUrl})
-
+${classificationLines}ClinVar: [${clinvarId}](${clinvarUrl})  
+${submissionLines}${nearbyBlock}
 **Structural View**  
 ${bullet} Structure used: **${structureId}** (${structureStatus}${formatResolution(coverage.structure.resolution)})  
 ${bullet} Location: ${location}  
@@ -82,7 +232,7 @@ ${bullet} Quick context: ${smartSummary}
 
 **Literature Signal**  
 ${bullet} ${coverage.literature.variantSpecificCount} papers mention the exact variant
-
+${populationBlock}${predictorBlock}${additionalBlock}
 **Gaps & Notes**  
 ${bullet} ${gaps}
 
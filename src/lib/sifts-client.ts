@@ -28,7 +28,8 @@ const CACHE_TTL = 60 * 60 * 1000; // 1 hour
 export async function getSiftsMapping(
   uniprotId: string,
   residueNumber: number,
-  pdbId: string
+  pdbId: string,
+  signal?: AbortSignal
 ): Promise<SiftsResult | null> {
   const cacheKey = `sifts:${uniprotId}`;
   
@@ -44,7 +45,7 @@ export async function getSiftsMapping(
   if (!data) {
     try {
       console.log(`[SIFTS] Fetching mappings for PDB ${cleanPdbId}...`);
-      const response = await fetch(`https://www.ebi.ac.uk/pdbe/api/mappings/${cleanPdbId}`);
+      const response = await fetch(`https://www.ebi.ac.uk/pdbe/api/mappings/${cleanPdbId}`, { signal });
       if (!response.ok) {
         if (response.status === 404) return null;
         throw new Error(`SIFTS API error: ${response.status}`);
@@ -1,5 +1,9 @@
 import { promises as fs } from 'fs';
 import path from 'path';
+import { getUniprotAccession } from './gene-registry';
+import { UNIPROT_ACCESSION_PATTERN } from './variant';
+import { Cache } from './cache';
+import { fetchWithRetry } from './fetch-utils';
 
 export interface StructureData {
   source: 'PDB' | 'AlphaFold';
@@ -37,7 +41,7 @@ export class PDBResolver {
   private baseUrl = 'https://search.rcsb.org/rcsbsearch/v2/query';
   private downloadUrl = 'https://files.rcsb.org/download';
 
-  async resolve(uniprotId: string, residueNumber?: number): Promise<StructureData[]> {
+  async resolve(uniprotId: string, residueNumber?: number, signal?: AbortSignal): Promise<StructureData[]> {
     const cacheKey = `pdb:${uniprotId}:${residueNumber}:list`;
     // const cached = getCache(cacheKey); // Phase-4: Temporarily disable list cache or update cache logic
     // if (cached) return cached; // Type mismatch, cache stores single. Needs update.
@@ -61,6 +65,7 @@ export class PDBResolver {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(query),
+        signal,
       });
 
       if (response.status === 204) {
@@ -82,7 +87,7 @@ export class PDBResolver {
         data.result_set.slice(0, 5).map(async (entry: any) => {
           // Identifier is now like "1TUP_3" (PDB_Entity)
           const [pdbId, entityId] = entry.identifier.split('_');
-          return this.getStructureDetails(pdbId, entityId, uniprotId, residueNumber);
+          return this.getStructureDetails(pdbId, entityId, uniprotId, residueNumber, signal);
         })
       );
 
@@ -109,12 +114,13 @@ export class PDBResolver {
     pdbId: string,
     entityId: string, 
     uniprotId: string,
-    residueNumber?: number
+    residueNumber?: number,
+    signal?: AbortSignal
   ): Promise<StructureData | null> {
     try {
       // 1. Get Entry Summary (for resolution)
       const summaryUrl = `https://data.rcsb.org/rest/v1/core/entry/${pdbId}`;
-      const summaryRes = await fetch(summaryUrl);
+      const summaryRes = await fetch(summaryUrl, { signal });
       
       if (!summaryRes.ok) return null;
       
@@ -132,7 +138,7 @@ export class PDBResolver {
       let coverageReason: CoverageResult['reason'] = 'resolved';
 
       if (residueNumber) {
-        const coverage = await this.checkCoverage(pdbId, entityId, residueNumber);
+        const coverage = await this.checkCoverage(pdbId, entityId, residueNumber, signal);
         isMapped = coverage.covered;
         coverageReason = coverage.reason;
         coverageNote = isMapped 
@@ -168,12 +174,13 @@ export class PDBResolver {
   private async checkCoverage(
     pdbId: string, 
     entityId: string,
-    residueNumber: number
+    residueNumber: number,
+    signal?: AbortSignal
   ): Promise<CoverageResult> {
     try {
       // Step 1: Get SIFTS alignment to map UniProt → PDB residue
       const url = `https://data.rcsb.org/rest/v1/core/polymer_entity/${pdbId}/${entityId}`;
-      const response = await fetch(url);
+      const response = await fetch(url, { signal });
       
       if (!response.ok) return { covered: false, reason: 'unmapped' };
 
@@ -225,7 +232,7 @@ export class PDBResolver {
         entityId,
         pdbResidueNumber,
         chainId,
-      });
+      }, signal);
 
       return observedResult;
 
@@ -245,7 +252,7 @@ export class PDBResolver {
     entityId: string;
     pdbResidueNumber: number;
     chainId: string | null;
-  }): Promise<CoverageResult> {
+  }, signal?: AbortSignal): Promise<CoverageResult> {
     const { pdbId, entityId, pdbResidueNumber, chainId } = mapping;
 
     try {
@@ -258,7 +265,7 @@ export class PDBResolver {
         const pdbeUrl = `https://www.ebi.ac.uk/pdbe/api/pdb/entry/observed_residues_ratio/${pdbId.toLowerCase()}`;
         const response = await fetch(pdbeUrl, {
           headers: { 'Accept': 'application/json' },
-          signal: AbortSignal.timeout(5000), // 5s timeout
+          signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(5000)]) : AbortSignal.timeout(5000), // 5s timeout
         });
 
         if (!response.ok) {
@@ -360,13 +367,13 @@ export class PDBResolver {
 export class AlphaFoldResolver {
   private baseUrl = 'https://alphafold.ebi.ac.uk/api/prediction';
 
-  async resolve(uniprotId: string): Promise<StructureData> {
+  async resolve(uniprotId: string, signal?: AbortSignal): Promise<StructureData> {
     const cacheKey = `af:${uniprotId}`;
     const cached = getCache(cacheKey);
     if (cached) return cached;
 
     try {
-      const response = await fetch(`${this.baseUrl}/${uniprotId}`);
+      const response = await fetch(`${this.baseUrl}/${uniprotId}`, { signal });
       
       if (!response.ok) {
         if (response.status === 404 || response.status === 400) {
@@ -388,6 +395,7 @@ export class AlphaFoldResolver {
         paeUrl: entry.paeDocUrl, // Use API-provided PAE URL (not hardcoded v4)
         coverage: `${entry.coverage?.[0]?.seqStart || 1}-${entry.coverage?.[0]?.seqEnd || 'full'}`,
         experimental: false,
+        coordinates: entry.pdbUrl,
       };
 
       setCache(cacheKey, structure);
@@ -403,43 +411,58 @@ export class AlphaFoldResolver {
   }
 }
 
-const COMMON_GENES: Record<string, string> = {
-  'BRCA1': 'P38398',
-  'BRCA2': 'P51587',
-  'TP53': 'P04637',
-  'EGFR': 'P00533',
-  'CFTR': 'P13569',
-  'BRAF': 'P15056',
-  'KRAS': 'P01116',
-  'PIK3CA': 'P42336',
-  'IDH1': 'O75874',
-  'IDH2': 'P48735',
-  'NDUFAF6': 'Q330K2',
-  'PTPN11': 'Q06124',
-  'RYR1': 'P21817',
-  'SURF1': 'Q15526',
-  'PROM1': 'O43490',
-  'POLG': 'P54098',
-  'G6PD': 'P11413',
-  'HBB': 'P68871',
-  'SCN5A': 'Q14524',
-  'APOE': 'P02649',
-  'DMD': 'P11532',
-  'MYH7': 'P12883',
-  'LDLR': 'P01130',
-  'COL1A1': 'P02452',
-  'TSC2': 'P49815',
-  'LMNA': 'P02545',
-  'GBA': 'P04062',
-  'NOTCH1': 'P46531',
-  'FBN1': 'P35555',
-  'OBSCN': 'Q5VST9',
-};
-
-async function fetchUniprotId(gene: string): Promise<string | null> {
+// ==========================================
+// C-ALPHA COORDINATES
+// ==========================================
+
+const caCache = new Cache<Map<number, [number, number, number]>>(60 * 60); // 1 hour, like resolved structures
+const MODEL_DOWNLOAD_TIMEOUT_MS = 10000;
+
+/**
+ * Fetch a PDB-format model and index its C-alpha atoms by residue number.
+ * Only the first chain is read; AlphaFold models are single-chain and use UniProt numbering.
+ */
+export async function fetchCAlphaCoordinates(pdbUrl: string, signal?: AbortSignal): Promise<Map<number, [number, number, number]>> {
+  const cached = caCache.get(pdbUrl);
+  if (cached) return cached;
+
+  const text = await fetchWithRetry<string>(pdbUrl, {
+    circuitBreakerKey: 'alphafold',
+    timeoutMs: MODEL_DOWNLOAD_TIMEOUT_MS,
+    responseType: 'text',
+    signal,
+  });
+  if (typeof text !== 'string') {
+    throw new Error(`Model download failed: ${text ? text.reason : 'not found'}`);
+  }
+
+  const atoms = new Map<number, [number, number, number]>();
+  let chain: string | null = null;
+  for (const line of text.split('\n')) {
+    if (!line.startsWith('ATOM') || line.slice(12, 16).trim() !== 'CA') continue;
+    const lineChain = line.charAt(21);
+    chain = chain ?? lineChain;
+    if (lineChain !== chain) break;
+    const residue = parseInt(line.slice(22, 26), 10);
+    atoms.set(residue, [
+      parseFloat(line.slice(30, 38)),
+      parseFloat(line.slice(38, 46)),
+      parseFloat(line.slice(46, 54)),
+    ]);
+  }
+
+  caCache.set(pdbUrl, atoms);
+  return atoms;
+}
+
+// UniProt accessions found by live lookup for genes outside the registry
+const DYNAMIC_UNIPROT_IDS = new Map<string, string>();
+
+async function fetchUniprotId(gene: string, signal?: AbortSignal): Promise<string | null> {
   try {
     const response = await fetch(
-      `https://rest.uniprot.org/uniprotkb/search?query=gene:${gene}+AND+reviewed:true&format=json&limit=1`
+      `https://rest.uniprot.org/uniprotkb/search?query=gene:${gene}+AND+reviewed:true&format=json&limit=1`,
+      { signal }
     );
     if (!response.ok) return null;
     const data = await response.json();
@@ -452,18 +475,20 @@ async function fetchUniprotId(gene: string): Promise<string | null> {
 
 export async function resolveStructure(
   uniprotId: string, 
-  residueNumber?: number
+  residueNumber?: number,
+  signal?: AbortSignal
 ): Promise<{ best: StructureData | null, available: StructureData[] }> {
-  // 1. Check Hardcoded Map
-  let mappedId = COMMON_GENES[uniprotId.toUpperCase()];
+  // 1. Accept accessions as-is, else check the HGNC registry
+  let mappedId = UNIPROT_ACCESSION_PATTERN.test(uniprotId)
+    ? uniprotId
+    : getUniprotAccession(uniprotId) || DYNAMIC_UNIPROT_IDS.get(uniprotId.toUpperCase());
 
   // 2. Dynamic Lookup (if not mapped)
   if (!mappedId) {
-     const dynamicId = await fetchUniprotId(uniprotId);
+     const dynamicId = await fetchUniprotId(uniprotId, signal);
      if (dynamicId) {
        mappedId = dynamicId;
-       // Optional: Cache this mapping for this session?
-       COMMON_GENES[uniprotId.toUpperCase()] = dynamicId; 
+       DYNAMIC_UNIPROT_IDS.set(uniprotId.toUpperCase(), dynamicId);
      } else {
        mappedId = uniprotId; // Fallback to raw input
      }
@@ -475,8 +500,8 @@ export async function resolveStructure(
   
   // Fetch both in parallel
   const [pdbResults, afResult] = await Promise.all([
-    pdbResolver.resolve(mappedId, residueNumber).catch(() => [] as StructureData[]),
-    afResolver.resolve(mappedId).catch(() => null)
+    pdbResolver.resolve(mappedId, residueNumber, signal).catch(() => [] as StructureData[]),
+    afResolver.resolve(mappedId, signal).catch(() => null)
   ]);
   
   // Combine: PDBs first, then AlphaFold
@@ -0,0 +1,235 @@
+/**
+ * TABIX READER
+ *
+ * Reads the records of a bgzip-compressed, tabix-indexed file that overlap a
+ * region (1-based, inclusive), inflating only the blocks the index points at.
+ */
+
+import { promises as fs } from 'fs';
+import zlib from 'zlib';
+
+interface Chunk {
+  begin: bigint; // Virtual offsets: compressed block offset << 16 | offset inside the block
+  end: bigint;
+}
+
+interface SequenceIndex {
+  bins: Map<number, Chunk[]>;
+  linear: bigint[]; // Lowest virtual offset of a record overlapping each 16 kb window
+}
+
+export interface TabixIndex {
+  format: number;   // 0 generic, 1 SAM, 2 VCF
+  seqColumn: number; // 1-based columns
+  beginColumn: number;
+  endColumn: number; // 0 when records have no end column
+  meta: string;     // Lines starting with this character are headers
+  names: string[];
+  sequences: SequenceIndex[];
+}
+
+const TABIX_MAGIC = 'TBI\u0001';
+const VCF_FORMAT = 2;
+const LINEAR_SHIFT = 14;
+
+// ==========================================
+// INDEX
+// ==========================================
+
+export function parseTabixIndex(data: Buffer): TabixIndex {
+  if (data.toString('latin1', 0, 4) !== TABIX_MAGIC) {
+    throw new Error('Not a tabix index (bad magic)');
+  }
+  let offset = 4;
+  const int32 = () => { const value = data.readInt32LE(offset); offset += 4; return value; };
+  const uint64 = () => { const value = data.readBigUInt64LE(offset); offset += 8; return value; };
+
+  const sequenceCount = int32();
+  const format = int32();
+  const seqColumn = int32();
+  const beginColumn = int32();
+  const endColumn = int32();
+  const meta = String.fromCharCode(int32());
+  int32(); // Lines to skip: covered by `meta` for every format we read
+  const namesLength = int32();
+  const names = data.toString('latin1', offset, offset + namesLength).split('\0').filter(Boolean);
+  offset += namesLength;
+
+  const sequences: SequenceIndex[] = [];
+  for (let s = 0; s < sequenceCount; s++) {
+    const bins = new Map<number, Chunk[]>();
+    const binCount = int32();
+    for (let b = 0; b < binCount; b++) {
+      const bin = data.readUInt32LE(offset);
+      offset += 4;
+      const chunks: Chunk[] = [];
+      const chunkCount = int32();
+      for (let c = 0; c < chunkCount; c++) chunks.push({ begin: uint64(), end: uint64() });
+      bins.set(bin, chunks);
+    }
+    const linear: bigint[] = [];
+    const windowCount = int32();
+    for (let w = 0; w < windowCount; w++) linear.push(uint64());
+    sequences.push({ bins, linear });
+  }
+
+  return { format: format & 0xffff, seqColumn, beginColumn, endColumn, meta, names, sequences };
+}
+
+/**
+ * Bins that may hold records overlapping [begin, end) (0-based), per the
+ * UCSC binning scheme tabix shares with BAM.
+ */
+export function regionToBins(begin: number, end: number): number[] {
+  const bins = [0];
+  const last = end - 1;
+  const levels: Array<[number, number]> = [[1, 26], [9, 23], [73, 20], [585, 17], [4681, 14]];
+  for (const [first, shift] of levels) {
+    for (let bin = first + (begin >> shift); bin <= first + (last >> shift); bin++) bins.push(bin);
+  }
+  return bins;
+}
+
+// ==========================================
+// BGZF
+// ==========================================
+
+/**
+ * The BGZF block at `offset`: its inflated bytes and compressed size, or
+ * null at the end of the file.
+ */
+async function readBlock(file: fs.FileHandle, offset: number): Promise<{ data: Buffer; size: number } | null> {
+  const header = Buffer.alloc(18);
+  const { bytesRead } = await file.read(header, 0, 18, offset);
+  if (bytesRead < 18) return null;
+  if (header[0] !== 31 || header[1] !== 139 || header[12] !== 66 || header[13] !== 67) {
+    throw new Error(`Not a BGZF block at offset ${offset}`);
+  }
+  const size = header.readUInt16LE(16) + 1;
+  const block = Buffer.alloc(size);
+  await file.read(block, 0, size, offset);
+  return { data: zlib.gunzipSync(block), size };
+}
+
+function splitVirtualOffset(virtual: bigint): [number, number] {
+  return [Number(virtual >> 16n), Number(virtual & 0xffffn)];
+}
+
+// Inflated bytes between two virtual offsets
+async function readRange(file: fs.FileHandle, begin: bigint, end: bigint): Promise<Buffer> {
+  const [firstBlock, firstOffset] = splitVirtualOffset(begin);
+  const [lastBlock, lastOffset] = splitVirtualOffset(end);
+  const parts: Buffer[] = [];
+  let blockOffset = firstBlock;
+  while (blockOffset <= lastBlock) {
+    const block = await readBlock(file, blockOffset);
+    if (!block) break;
+    const from = blockOffset === firstBlock ? firstOffset : 0;
+    const to = blockOffset === lastBlock ? lastOffset : block.data.length;
+    parts.push(block.data.subarray(from, to));
+    blockOffset += block.size;
+  }
+  return Buffer.concat(parts);
+}
+
+// ==========================================
+// QUERIES
+// ==========================================
+
+const indexCache = new Map<string, Promise<TabixIndex>>();
+
+export class TabixFile {
+  constructor(readonly path: string, readonly indexPath = `${path}.tbi`) {}
+
+  index(): Promise<TabixIndex> {
+    let index = indexCache.get(this.indexPath);
+    if (!index) {
+      index = fs.readFile(this.indexPath).then((data) => parseTabixIndex(zlib.gunzipSync(data)));
+      // A failed read is retried next time (the file may appear later)
+      index.catch(() => indexCache.delete(this.indexPath));
+      indexCache.set(this.indexPath, index);
+    }
+    return index;
+  }
+
+  /**
+   * The header lines (those starting with the index's meta character) at the
+   * top of the file.
+   */
+  async header(): Promise<string[]> {
+    const { meta } = await this.index();
+    const file = await fs.open(this.path, 'r');
+    try {
+      const lines: string[] = [];
+      let partial = '';
+      let offset = 0;
+      for (let block = await readBlock(file, offset); block; block = await readBlock(file, offset)) {
+        const text = (partial + block.data.toString('utf8')).split('\n');
+        partial = text.pop() ?? '';
+        for (const line of text) {
+          if (!line.startsWith(meta)) return lines;
+          lines.push(line);
+        }
+        offset += block.size;
+      }
+      return lines;
+    } finally {
+      await file.close();
+    }
+  }
+
+  /**
+   * Tab-separated fields of every record on `sequence` overlapping
+   * `start`-`end`, in file order.
+   */
+  async query(sequence: string, start: number, end: number): Promise<string[][]> {
+    const index = await this.index();
+    const sequenceId = index.names.indexOf(sequence);
+    if (sequenceId === -1) return [];
+    const { bins, linear } = index.sequences[sequenceId];
+
+    const window = Math.min((start - 1) >> LINEAR_SHIFT, linear.length - 1);
+    const minOffset = window >= 0 ? linear[window] : 0n;
+    const chunks = regionToBins(start - 1, end)
+      .flatMap((bin) => bins.get(bin) ?? [])
+      .filter((chunk) => chunk.end > minOffset)
+      .sort((a, b) => (a.begin < b.begin ? -1 : a.begin > b.begin ? 1 : 0));
+    if (chunks.length === 0) return [];
+
+    // Overlapping chunks are read once
+    const merged: Chunk[] = [];
+    for (const chunk of chunks) {
+      const previous = merged[merged.length - 1];
+      if (previous && chunk.begin <= previous.end) {
+        if (chunk.end > previous.end) previous.end = chunk.end;
+      } else {
+        merged.push({ ...chunk });
+      }
+    }
+
+    const file = await fs.open(this.path, 'r');
+    try {
+      const records: string[][] = [];
+      for (const chunk of merged) {
+        const text = (await readRange(file, chunk.begin, chunk.end)).toString('utf8');
+        for (const line of text.split('\n')) {
+          if (!line || line.startsWith(index.meta)) continue;
+          const fields = line.split('\t');
+          if (fields[index.seqColumn - 1] !== sequence) continue;
+          const recordStart = Number(fields[index.beginColumn - 1]);
+          const recordEnd = recordEndOf(index, fields, recordStart);
+          if (recordStart <= end && recordEnd >= start) records.push(fields);
+        }
+      }
+      return records;
+    } finally {
+      await file.close();
+    }
+  }
+}
+
+function recordEndOf(index: TabixIndex, fields: string[], recordStart: number): number {
+  if (index.format === VCF_FORMAT) return recordStart + fields[3].length - 1; // REF spans the record
+  if (index.endColumn > 0) return Number(fields[index.endColumn - 1]);
+  return recordStart;
+}
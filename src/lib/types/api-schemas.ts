@@ -0,0 +1,679 @@
+/**
+ * API SCHEMAS
+ *
+ * The public contract of every route, as zod schemas. Types, route validation
+ * and the OpenAPI document are all derived from these.
+ */
+
+import { z } from 'zod';
+
+// ==========================================
+// INPUT DIAGNOSTICS
+// ==========================================
+export const InputIssueCodeSchema = z.enum([
+  'MISSING_COLON',
+  'MISSING_P_DOT',
+  'NUCLEOTIDE_ARROW',
+  'POSITION_FIRST',
+  'INVALID_AMINO_ACID',
+  'MISSING_ALT',
+  'MISSING_GENE',
+  'UNKNOWN_GENE',
+  'AMBIGUOUS_X',
+  'LOWERCASE_CODES',
+  'SWAPPED_REF_ALT',
+  'REF_ELSEWHERE',
+  'UNPARSEABLE',
+]);
+
+export const InputIssueSchema = z.object({
+  code: InputIssueCodeSchema,
+  severity: z.enum(['error', 'warning']),
+  message: z.string(),
+  span: z.object({ start: z.number().int(), end: z.number().int() }).nullable(), // Offsets into the trimmed input, end exclusive
+});
+
+export const InputSuggestionSchema = z.object({
+  hgvs: z.string(),               // Normalized, parses as-is
+  fixes: z.array(InputIssueCodeSchema),
+  score: z.number().min(0).max(1), // Suggestions are sorted by it
+});
+
+export const InputDiagnosticsSchema = z.object({
+  input: z.string(),
+  valid: z.boolean(),             // Parses as submitted (warnings may remain)
+  issues: z.array(InputIssueSchema),
+  suggestions: z.array(InputSuggestionSchema),
+});
+
+// ==========================================
+// VARIANT ECHO
+// ==========================================
+export const GeneSymbolResolutionSchema = z.object({
+  submitted: z.string(),
+  approved: z.string(),
+  matchedBy: z.enum(['previous', 'alias']), // 'previous' = withdrawn HGNC symbol
+  hgncId: z.string().optional(),
+});
+
+export const ProteinIdUsageSchema = z.object({
+  input: z.string(),
+  source: z.enum(['uniprot', 'ensembl']),
+  uniprotId: z.string(),   // Entry the variant was evaluated on (isoform suffix kept when non-canonical)
+  canonicalId: z.string(), // Canonical accession used for structures
+  gene: z.string(),
+});
+
+export const IsoformUsageSchema = z.object({
+  transcript: z.string(),
+  isoform: z.string(),     // UniProt isoform encoded by the transcript
+  strategy: z.enum(['canonical', 'renumbered', 'isoform']),
+  uniprotId: z.string(),
+  offset: z.number().int(), // Added to the input residue to reach uniprotId numbering
+  start: z.number().int(),  // Evaluated residue range on uniprotId
+  end: z.number().int(),
+});
+
+export const VariantEchoSchema = z.object({
+  hgvs: z.string(),                     // Main display string (usually requested input)
+  originalHgvs: z.string().optional(),  // Explicit requested input
+  normalizedHgvs: z.string().optional(), // Canonical form (Gene:p.RefPosAlt)
+  transcript: z.string().optional(),
+  codingHgvs: z.string().optional(),    // Submitted c. change when input was coding HGVS
+  genomicHgvs: z.string().optional(),   // GRCh38 g. change when input was a genomic coordinate
+  proteinHgvs: z.string().optional(),   // 3-letter HGVS, e.g. p.Gly12Asp
+  variantType: z.string().optional(),   // e.g. missense/stop-gain/frameshift
+  significance: z.string().optional(),  // Deterministic note for specific classes
+  gene: z.string(),
+  residue: z.number().int(),
+  residueEnd: z.number().int().optional(), // Last affected residue for range changes
+  isoform: IsoformUsageSchema.optional(),
+  geneResolution: GeneSymbolResolutionSchema.optional(),
+  proteinId: ProteinIdUsageSchema.optional(),
+  isValidPosition: z.boolean(),
+});
+
+// ==========================================
+// CURATED PROTEIN INFO
+// ==========================================
+export const CuratedProteinInfoSchema = z.object({
+  gene: z.string(),
+  uniprotId: z.string(),
+  proteinName: z.string(),
+  proteinLength: z.number().int(),
+  domains: z.array(z.object({
+    name: z.string(),
+    start: z.number().int(),
+    end: z.number().int(),
+    description: z.string().optional(),
+  })),
+  functionalSites: z.array(z.object({
+    type: z.enum(['active_site', 'binding_site', 'metal_binding', 'disulfide_bond']),
+    residue: z.number().int(),
+    description: z.string().optional(),
+  })),
+  variantPosition: z.number().int(),
+  variantEndPosition: z.number().int().optional(),
+  variantInDomain: z.string().nullable(),          // Domain name or null
+  affectedDomains: z.array(z.string()).optional(), // Every domain overlapping the affected range
+  nearFunctionalSite: z.boolean(),
+  distanceToNearestSite: z.number().nullable(),    // In sequence, not 3D
+});
+
+// ==========================================
+// EVIDENCE COVERAGE
+// ==========================================
+export const StructureCoverageSchema = z.object({
+  status: z.enum(['experimental', 'predicted', 'none', 'unavailable']),
+  reason: z.string().optional(),
+  source: z.enum(['PDB', 'AlphaFold']).optional(),
+  id: z.string().optional(),
+  resolution: z.number().optional(),
+  paeUrl: z.string().optional(),
+  note: z.string().optional(),
+  sifts: z.object({
+    mapped: z.boolean(),
+    pdbId: z.string(),
+    chain: z.string(),
+    pdbResidue: z.string(),
+    source: z.string(),
+  }).optional(),
+  availableStructures: z.array(z.object({
+    id: z.string(),
+    source: z.string(),
+    url: z.string().optional(),
+    resolution: z.number().optional(),
+    paeUrl: z.string().optional(),
+    chain: z.string(),
+    mapped: z.boolean(),
+    pdbResidue: z.string().optional(),
+  })).optional(),
+});
+
+// ClinVar classifies germline pathogenicity, somatic clinical impact and oncogenicity separately
+export const ClinVarClassificationTypeSchema = z.enum(['germline', 'somatic_clinical_impact', 'oncogenicity']);
+
+export const ClinVarClassificationSchema = z.object({
+  type: ClinVarClassificationTypeSchema,
+  description: z.string(),                   // As ClinVar states it, e.g. "Tier I - Strong", "Oncogenic"
+  reviewStatus: z.string(),
+  stars: z.number().int().min(0).max(4),
+  lastEvaluated: z.string().optional(),      // YYYY-MM-DD
+  conditions: z.array(z.string()),
+});
+
+export const ClinVarSubmissionSchema = z.object({
+  scv: z.string(),                           // SCV000033680.1
+  submitter: z.string(),
+  type: ClinVarClassificationTypeSchema,
+  classification: z.string(),                // As submitted
+  dateLastEvaluated: z.string().optional(),  // YYYY-MM-DD
+  reviewStatus: z.string().optional(),
+  method: z.string().optional(),             // Assertion method, e.g. "ACMG Guidelines, 2015"
+  conditions: z.array(z.string()),
+});
+
+// Germline submissions per classification; shows what a conflicting aggregate is made of
+export const ClassificationTallySchema = z.object({
+  pathogenic: z.number().int(),
+  pathogenicLikelyPathogenic: z.number().int(), // ClinVar's combined "Pathogenic/Likely pathogenic" call
+  likelyPathogenic: z.number().int(),
+  uncertain: z.number().int(),
+  likelyBenign: z.number().int(),
+  benignLikelyBenign: z.number().int(),
+  benign: z.number().int(),
+  other: z.number().int(), // Risk factor, drug response, not provided, ...
+});
+
+export const ClinicalCoverageSchema = z.object({
+  status: z.enum(['pathogenic', 'likely_pathogenic', 'uncertain', 'likely_benign', 'benign', 'none', 'unavailable']),
+  reason: z.string().optional(),
+  source: z.enum(['ClinVar', 'HGMD']).optional(),
+  significance: z.string().optional(),      // Germline aggregate; other types are in classifications
+  reviewStatus: z.string().optional(),
+  stars: z.number().int().min(0).max(4).optional(), // ClinVar review stars
+  clinvarId: z.string().optional(),
+  url: z.string().optional(),
+  conditions: z.array(z.string()).optional(),
+  classifications: z.array(ClinVarClassificationSchema).optional(), // One per type ClinVar classified
+  vcv: z.string().optional(),                 // VCV accession with version
+  rcvs: z.array(z.string()).optional(),       // RCV accessions, one per condition
+  submissions: z.array(ClinVarSubmissionSchema).optional(),
+  tally: ClassificationTallySchema.optional(),
+  submissionsReason: z.string().optional(),   // Why submissions are missing when the record was found
+});
+
+export const NearbyClinVarVariantSchema = z.object({
+  clinvarId: z.string(),
+  proteinChange: z.string(), // p.Arg175Cys
+  significance: z.string(),
+  reviewStatus: z.string(),
+  stars: z.number().int().min(0).max(4),
+  url: z.string(),
+});
+
+export const NearbyClinicalCoverageSchema = z.object({
+  status: z.enum(['found', 'none', 'unavailable']), // 'none': no other ClinVar variant in the window
+  reason: z.string().optional(),
+  residue: z.number().int().optional(), // Variant's residue, in the submitted numbering ClinVar is searched with
+  window: z.number().int().optional(),  // Residues searched either side of it
+  from: z.number().int().optional(),   // First and last residue searched
+  to: z.number().int().optional(),
+  residues: z.array(z.object({
+    residue: z.number().int(),
+    variants: z.array(NearbyClinVarVariantSchema),
+  })).optional(),
+  note: z.string().optional(),
+});
+
+export const DomainCoverageSchema = z.object({
+  inAnnotatedDomain: z.boolean(),
+  domainName: z.string().optional(),
+});
+
+export const LiteratureCoverageSchema = z.object({
+  variantSpecificCount: z.number().int(),
+  unavailable: z.boolean().optional(),
+  reason: z.string().optional(),
+  query: z.string().optional(), // Search transparency
+  papers: z.array(z.object({
+    title: z.string(),
+    url: z.string(),
+    source: z.string(),
+    year: z.string(),
+  })).optional(),
+  note: z.string().optional(),
+});
+
+export const PopulationFrequencySchema = z.object({
+  id: z.string(),    // gnomAD ancestry group: afr, amr, nfe, ...
+  label: z.string(),
+  alleleCount: z.number().int(),
+  alleleNumber: z.number().int(),
+  alleleFrequency: z.number(),
+  homozygoteCount: z.number().int(),
+});
+
+export const PopulationCoverageSchema = z.object({
+  status: z.enum(['found', 'none', 'unavailable']), // 'none': not observed in the population database
+  reason: z.string().optional(),
+  source: z.string().optional(),    // Sites file the lookup read
+  query: z.string().optional(),     // GRCh38 g. HGVS looked up
+  variantId: z.string().optional(), // CHROM-POS-REF-ALT of the matching site
+  url: z.string().optional(),
+  filters: z.array(z.string()).optional(), // Site filters failed; empty when PASS
+  alleleCount: z.number().int().optional(),
+  alleleNumber: z.number().int().optional(),
+  alleleFrequency: z.number().optional(),
+  homozygoteCount: z.number().int().optional(),
+  ancestries: z.array(PopulationFrequencySchema).optional(),
+  note: z.string().optional(),
+});
+
+export const PredictorScoreSchema = z.object({
+  id: z.string(),                   // alphamissense, revel, cadd
+  tool: z.string(),                 // Tool name as published
+  version: z.string().optional(),   // Release named by the score table
+  score: z.number(),
+  category: z.string(),             // The tool's calibrated category, e.g. likely_pathogenic or PP3_moderate
+  calibration: z.string(),          // Source of the category thresholds
+});
+
+export const PredictorCoverageSchema = z.object({
+  status: z.enum(['found', 'none', 'unavailable']), // 'none': no configured tool scores this substitution
+  reason: z.string().optional(),
+  query: z.string().optional(),     // UniProt accession and substitution, e.g. P04637:R175H
+  scores: z.array(PredictorScoreSchema).optional(),
+  missing: z.array(z.string()).optional(),     // Tools with no score for the substitution
+  unreadable: z.array(z.string()).optional(),  // Tools whose table could not be read
+  note: z.string().optional(),
+});
+
+export const AdditionalEvidenceSectionSchema = z.object({
+  label: z.string(),
+  status: z.enum(['found', 'none', 'unavailable']),
+  reason: z.string().optional(),
+  summary: z.string().optional(),
+  url: z.string().optional(),
+  data: z.record(z.unknown()).optional(), // Provider-specific detail, passed through as-is
+});
+
+export const EvidenceCoverageSchema = z.object({
+  structure: StructureCoverageSchema,
+  clinical: ClinicalCoverageSchema,
+  domain: DomainCoverageSchema,
+  literature: LiteratureCoverageSchema,
+  population: PopulationCoverageSchema.optional(), // Absent from reports made before it existed
+  predictors: PredictorCoverageSchema.optional(),  // Likewise
+  nearby: NearbyClinicalCoverageSchema.optional(), // Likewise
+  additional: z.record(AdditionalEvidenceSectionSchema).optional(), // Keyed by evidence provider id
+});
+
+export const ExplicitUnknownsSchema = z.object({
+  items: z.array(z.string()),
+  severity: z.enum(['critical', 'moderate', 'minor']),
+});
+
+// ==========================================
+// PIPELINE TIMINGS
+// ==========================================
+export const StageTimingSchema = z.object({
+  startedMs: z.number(),  // Offset from the start of the request
+  durationMs: z.number(), // Until the stage resolved, or until the deadline cut it off
+  outcome: z.enum(['ok', 'unavailable', 'timeout', 'error']),
+});
+
+export const PipelineTimingsSchema = z.object({
+  deadlineMs: z.number(),
+  totalMs: z.number(),
+  stages: z.record(StageTimingSchema), // Keyed by 'uniprot' or an evidence provider id
+});
+
+// ==========================================
+// VARIANT REPORTS
+// ==========================================
+export const HonestAPIResponseSchema = z.object({
+  variant: VariantEchoSchema,
+  coverage: EvidenceCoverageSchema,
+  unknowns: ExplicitUnknownsSchema,
+  curatedInfo: CuratedProteinInfoSchema,
+  timestamp: z.string(),
+  processingMs: z.number(),
+  timings: PipelineTimingsSchema.optional(),
+});
+
+// ==========================================
+// ERROR ENVELOPE
+// Every error any route returns, and every failed consequence inside a report
+// ==========================================
+export const ApiErrorCodeSchema = z.enum([
+  'INVALID_REQUEST',      // 400 Body is not JSON or does not match its schema
+  'PARSE_ERROR',          // 400 Input is not a variant we can read
+  'INVALID_POSITION',     // 400 Residue outside the protein
+  'REF_MISMATCH',         // 400 Stated reference residue differs from the sequence
+  'UNAUTHORIZED',         // 401
+  'UNKNOWN_GENE',         // 404 Gene or protein ID does not resolve to UniProt
+  'GENE_NOT_IN_REGISTRY', // 404 Coding input names a gene outside the bundled HGNC subset
+  'NOT_FOUND',            // 404
+  'CONFLICT',             // 409 Resource not in a state that allows the request
+  'RATE_LIMITED',         // 429 See details.retryAfter and Retry-After
+  'INTERNAL_ERROR',       // 500
+  'UPSTREAM_UNAVAILABLE', // 503 A source the answer depends on is down or timed out
+  'MISCONFIGURED',        // 503 Server configuration is missing
+]);
+
+export const ApiErrorSchema = z.object({
+  error: z.literal(true),
+  code: ApiErrorCodeSchema,
+  message: z.string(),
+  details: z.object({
+    gene: z.string().optional(),
+    uniprotId: z.string().optional(),
+    providedPosition: z.number().int().optional(),
+    proteinLength: z.number().int().optional(),
+    statedRef: z.string().optional(),
+    actualRef: z.string().optional(),
+    nearbyPositions: z.array(z.number().int()).optional(), // Canonical positions nearby that carry statedRef
+    matchingIsoforms: z.array(z.string()).optional(),      // Isoform accessions with statedRef at providedPosition
+    service: z.string().optional(),                        // UPSTREAM_UNAVAILABLE: which source
+    reason: z.string().optional(),                         // UPSTREAM_UNAVAILABLE: timeout, upstream_5xx, ...
+    retryAfter: z.number().int().optional(),               // RATE_LIMITED: seconds
+    issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(), // INVALID_REQUEST
+  }).optional(),
+  diagnostics: InputDiagnosticsSchema.optional(), // Corrected inputs to try (PARSE_ERROR, UNKNOWN_GENE, REF_MISMATCH)
+});
+
+// One analyzed consequence or component: a report, or why there is none
+export const ConsequenceResultSchema = z.union([HonestAPIResponseSchema, ApiErrorSchema]);
+
+export const GenomicAPIResponseSchema = z.object({
+  input: z.object({
+    originalHgvs: z.string(),
+    genomicHgvs: z.string(),
+    assembly: z.string(),
+  }),
+  consequences: z.array(ConsequenceResultSchema),
+  timestamp: z.string(),
+  processingMs: z.number(),
+});
+
+export const AlleleSharedContextSchema = z.object({
+  analyzedComponents: z.number().int(),
+  sameDomain: z.boolean(),                 // Every analyzed component overlaps a common domain
+  sharedDomains: z.array(z.string()),
+  sequenceSpan: z.number().int().nullable(), // Residues from the first to the last affected position
+  structure: z.object({
+    status: z.enum(['measured', 'unavailable']),
+    reason: z.string().optional(),
+    source: z.literal('AlphaFold').optional(),
+    id: z.string().optional(),
+    pairs: z.array(z.object({ a: z.string(), b: z.string(), distanceAngstrom: z.number() })), // Closest C-alpha pair per component pair
+    sameNeighborhood: z.boolean().optional(), // Every pair within ALLELE_NEIGHBORHOOD_ANGSTROMS
+  }),
+});
+
+export const AlleleAPIResponseSchema = z.object({
+  input: z.object({
+    originalHgvs: z.string(),
+    alleleHgvs: z.string(),
+    phase: z.enum(['cis', 'trans', 'unknown']),
+  }),
+  components: z.array(z.intersection(ConsequenceResultSchema, z.object({ allele: z.number().int() }))),
+  shared: AlleleSharedContextSchema,
+  timestamp: z.string(),
+  processingMs: z.number(),
+});
+
+// Every successful body of POST /api/variant and GET /api/variant/{hgvs}
+export const VariantReportSchema = z.union([
+  HonestAPIResponseSchema,
+  GenomicAPIResponseSchema,
+  AlleleAPIResponseSchema,
+]);
+
+// Final status and body of POST /api/variant, as the last streamed event
+export const VariantReportBodySchema = z.union([VariantReportSchema, ApiErrorSchema]);
+
+// ==========================================
+// STREAMING EVENTS
+// ==========================================
+export const VariantStreamEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('variant'), index: z.number().int(), variant: VariantEchoSchema }),
+  z.object({
+    type: z.literal('protein'),
+    index: z.number().int(),
+    variant: VariantEchoSchema,
+    curatedInfo: CuratedProteinInfoSchema,
+    domain: DomainCoverageSchema,
+  }),
+  z.object({ type: z.literal('structure'), index: z.number().int(), structure: StructureCoverageSchema }),
+  z.object({ type: z.literal('clinical'), index: z.number().int(), clinical: ClinicalCoverageSchema }),
+  z.object({ type: z.literal('literature'), index: z.number().int(), literature: LiteratureCoverageSchema }),
+  z.object({ type: z.literal('population'), index: z.number().int(), population: PopulationCoverageSchema }),
+  z.object({ type: z.literal('predictors'), index: z.number().int(), predictors: PredictorCoverageSchema }),
+  z.object({ type: z.literal('nearby'), index: z.number().int(), nearby: NearbyClinicalCoverageSchema }),
+  z.object({ type: z.literal('evidence'), index: z.number().int(), id: z.string(), section: AdditionalEvidenceSectionSchema }),
+  z.object({ type: z.literal('unknowns'), index: z.number().int(), unknowns: ExplicitUnknownsSchema }),
+  z.object({
+    type: z.literal('error'),
+    index: z.number().int(),
+    status: z.number().int(),
+    body: ApiErrorSchema,
+  }),
+  z.object({ type: z.literal('report'), status: z.number().int(), body: VariantReportBodySchema }),
+]);
+
+// ==========================================
+// REQUEST BODIES
+// ==========================================
+export const VariantRequestSchema = z.object({
+  hgvs: z.string({ required_error: 'Missing required field: hgvs' })
+    .min(1, 'Missing required field: hgvs')
+    .describe('Protein, coding, genomic or allele HGVS, e.g. TP53:p.R175H'),
+});
+
+export const MAX_JOB_ITEMS = 5000;
+
+export const JobRequestSchema = z.object({
+  variants: z.array(
+    z.string({ invalid_type_error: 'Every entry in variants must be an HGVS string' }),
+    { required_error: 'Missing required field: variants (array of HGVS strings)' },
+  )
+    .min(1, 'Missing required field: variants (array of HGVS strings)')
+    .max(MAX_JOB_ITEMS, `Job too large (maximum ${MAX_JOB_ITEMS} variants)`),
+});
+
+export const ApiKeyCreateRequestSchema = z.object({
+  name: z.string({ required_error: 'Missing required field: name' })
+    .min(1, 'Missing required field: name')
+    .max(100)
+    .describe('Who the key is for, e.g. the team or service using it'),
+  rateLimitPerMinute: z.number().int().min(1).max(10000).optional(), // Defaults to 100
+  dailyQuota: z.number().int().min(1).nullable().optional(),         // Analyses per UTC day; null is unlimited, default 1000
+});
+
+// ==========================================
+// JOBS
+// ==========================================
+export const JobSummarySchema = z.object({
+  total: z.number().int(),
+  unique: z.number().int(),    // Distinct normalized inputs to analyze
+  duplicates: z.number().int(),
+  invalid: z.number().int(),   // Rows that did not parse
+  completed: z.number().int(), // Unique analyses finished (success or error)
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+  cancelled: z.number().int(),
+});
+
+export const JobItemResultSchema = z.object({
+  index: z.number().int(),    // Row in the submitted list
+  input: z.string(),
+  key: z.string().optional(), // Normalized input used for deduplication
+  status: z.enum(['pending', 'running', 'success', 'error', 'invalid', 'cancelled']),
+  duplicateOf: z.number().int().optional(), // Row whose analysis this row shares
+  response: VariantReportSchema.optional(),
+  error: ApiErrorSchema.omit({ error: true }).optional(),
+});
+
+export const JobAPIResponseSchema = z.object({
+  jobId: z.string(),
+  status: z.enum(['running', 'completed', 'cancelled']),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  completedAt: z.string().optional(),
+  summary: JobSummarySchema,
+  items: z.array(JobItemResultSchema), // One page of rows, see `page`
+  page: z.object({ offset: z.number().int(), limit: z.number().int() }),
+  downloadUrl: z.string(), // Zip of Markdown reports for successful rows
+});
+
+export const JobCreatedSchema = z.object({
+  jobId: z.string(),
+  status: JobAPIResponseSchema.shape.status,
+  statusUrl: z.string(),
+  downloadUrl: z.string(),
+  summary: JobSummarySchema,
+});
+
+// ==========================================
+// SERVICE
+// ==========================================
+export const ApiInfoSchema = z.record(z.string());
+
+export const HealthSchema = z.object({
+  status: z.string(),
+  version: z.string(),
+  timestamp: z.string(),
+  services: z.record(z.string()),
+});
+
+export const ReadinessSchema = z.object({
+  status: z.string(),
+  services: z.record(z.string()),
+});
+
+// ==========================================
+// API KEYS
+// Only a hash of each key is stored; the key itself is shown once
+// ==========================================
+export const ApiKeyUsageSchema = z.object({
+  requests: z.number().int(),
+  analyses: z.number().int(), // Variants analyzed; what dailyQuota counts
+});
+
+export const ApiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(),                    // First characters of the key, to tell keys apart
+  rateLimitPerMinute: z.number().int(),
+  dailyQuota: z.number().int().nullable(),
+  createdAt: z.string(),
+  rotatedAt: z.string().optional(),
+  revokedAt: z.string().optional(),      // Revoked keys are refused with UNAUTHORIZED
+  lastUsedAt: z.string().optional(),
+  usageToday: ApiKeyUsageSchema,         // UTC day
+});
+
+export const ApiKeyIssuedSchema = z.object({
+  key: ApiKeySchema,
+  secret: z.string(), // Send as x-api-key or Authorization: Bearer; not retrievable later
+});
+
+export const ApiKeyListSchema = z.object({
+  keys: z.array(ApiKeySchema),
+});
+
+// ==========================================
+// AUDIT
+// ==========================================
+export const AuditEntrySchema = z.object({
+  timestamp: z.string(),
+  requestId: z.string(),
+  hgvs: z.string(),
+  gene: z.string(),
+  residue: z.number().int(),
+  ip: z.string(),
+  status: z.enum(['success', 'error', 'rate_limited']),
+  processingMs: z.number(),
+  evidenceSources: z.object({
+    clinvar: z.boolean(),
+    structure: z.boolean(),
+    literature: z.boolean(),
+  }),
+  errorCode: z.string().optional(),
+  route: z.string().optional(),
+  apiKeyId: z.string().optional(), // Key the request was made with; absent for anonymous requests
+});
+
+export const AuditEntriesSchema = z.object({
+  count: z.number().int(),
+  entries: z.array(AuditEntrySchema),
+});
+
+export const AuditSummarySchema = z.object({
+  totalQueries: z.number().int(),
+  successRate: z.number(),
+  topGenes: z.array(z.object({ gene: z.string(), count: z.number().int() })),
+  avgProcessingMs: z.number(),
+  exportFormats: z.object({ csv: z.string(), json: z.string() }),
+});
+
+// ==========================================
+// COMPONENTS
+// Named schemas, emitted once under components.schemas and referenced by $ref
+// ==========================================
+export const API_COMPONENTS = {
+  InputIssue: InputIssueSchema,
+  InputSuggestion: InputSuggestionSchema,
+  InputDiagnostics: InputDiagnosticsSchema,
+  GeneSymbolResolution: GeneSymbolResolutionSchema,
+  ProteinIdUsage: ProteinIdUsageSchema,
+  IsoformUsage: IsoformUsageSchema,
+  VariantEcho: VariantEchoSchema,
+  CuratedProteinInfo: CuratedProteinInfoSchema,
+  StructureCoverage: StructureCoverageSchema,
+  ClinVarClassification: ClinVarClassificationSchema,
+  ClinVarSubmission: ClinVarSubmissionSchema,
+  ClassificationTally: ClassificationTallySchema,
+  ClinicalCoverage: ClinicalCoverageSchema,
+  NearbyClinVarVariant: NearbyClinVarVariantSchema,
+  NearbyClinicalCoverage: NearbyClinicalCoverageSchema,
+  DomainCoverage: DomainCoverageSchema,
+  LiteratureCoverage: LiteratureCoverageSchema,
+  PopulationFrequency: PopulationFrequencySchema,
+  PopulationCoverage: PopulationCoverageSchema,
+  PredictorScore: PredictorScoreSchema,
+  PredictorCoverage: PredictorCoverageSchema,
+  AdditionalEvidenceSection: AdditionalEvidenceSectionSchema,
+  EvidenceCoverage: EvidenceCoverageSchema,
+  ExplicitUnknowns: ExplicitUnknownsSchema,
+  StageTiming: StageTimingSchema,
+  PipelineTimings: PipelineTimingsSchema,
+  HonestAPIResponse: HonestAPIResponseSchema,
+  ApiError: ApiErrorSchema,
+  ConsequenceResult: ConsequenceResultSchema,
+  GenomicAPIResponse: GenomicAPIResponseSchema,
+  AlleleSharedContext: AlleleSharedContextSchema,
+  AlleleAPIResponse: AlleleAPIResponseSchema,
+  VariantReport: VariantReportSchema,
+  VariantReportBody: VariantReportBodySchema,
+  VariantStreamEvent: VariantStreamEventSchema,
+  VariantRequest: VariantRequestSchema,
+  JobRequest: JobRequestSchema,
+  JobSummary: JobSummarySchema,
+  JobItemResult: JobItemResultSchema,
+  JobAPIResponse: JobAPIResponseSchema,
+  JobCreated: JobCreatedSchema,
+  ApiKeyCreateRequest: ApiKeyCreateRequestSchema,
+  ApiKeyUsage: ApiKeyUsageSchema,
+  ApiKey: ApiKeySchema,
+  ApiKeyIssued: ApiKeyIssuedSchema,
+  ApiKeyList: ApiKeyListSchema,
+  ApiInfo: ApiInfoSchema,
+  Health: HealthSchema,
+  Readiness: ReadinessSchema,
+  AuditEntry: AuditEntrySchema,
+  AuditEntries: AuditEntriesSchema,
+  AuditSummary: AuditSummarySchema,
+} as const;
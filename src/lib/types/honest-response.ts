@@ -5,122 +5,70 @@
  * No fake precision, no over-claiming.
  * 
  * These replace the old "hypothesis" and "confidence" types.
+ *
+ * API shapes are inferred from the zod schemas in api-schemas.ts, which are
+ * the contract routes validate against and /api/openapi.json publishes.
+ * Types only the UI uses (HonestReportData, StreamedReportData) stay here.
  */
 
+import type { z } from 'zod';
+import type {
+  CuratedProteinInfoSchema,
+  EvidenceCoverageSchema,
+  AdditionalEvidenceSectionSchema,
+  ExplicitUnknownsSchema,
+  GeneSymbolResolutionSchema,
+  ProteinIdUsageSchema,
+  IsoformUsageSchema,
+  HonestAPIResponseSchema,
+  StageTimingSchema,
+  PipelineTimingsSchema,
+  GenomicAPIResponseSchema,
+  AlleleSharedContextSchema,
+  AlleleAPIResponseSchema,
+  JobItemResultSchema,
+  JobSummarySchema,
+  JobAPIResponseSchema,
+  ApiErrorSchema,
+  ApiErrorCodeSchema,
+  InputIssueCodeSchema,
+  InputIssueSchema,
+  InputSuggestionSchema,
+  InputDiagnosticsSchema,
+  VariantStreamEventSchema,
+  VariantReportBodySchema,
+} from './api-schemas';
+
 // ==========================================
 // CURATED PROTEIN INFO
 // Extracted from UniProt, not raw JSON dump
 // ==========================================
-export interface CuratedProteinInfo {
-  gene: string;
-  uniprotId: string;
-  proteinName: string;
-  proteinLength: number;
-  
-  // Domains - only those explicitly annotated in UniProt
-  domains: Array<{
-    name: string;
-    start: number;
-    end: number;
-    description?: string;
-  }>;
-  
-  // Functional sites - NOT "activeResidues"
-  // Only sites explicitly typed in UniProt features
-  functionalSites: Array<{
-    type: 'active_site' | 'binding_site' | 'metal_binding' | 'disulfide_bond';
-    residue: number;
-    description?: string;
-  }>;
-  
-  // Variant-specific context
-  variantPosition: number;
-  variantInDomain: string | null; // Domain name or null
-  nearFunctionalSite: boolean;
-  distanceToNearestSite: number | null; // In sequence, not 3D
-}
+export type CuratedProteinInfo = z.infer<typeof CuratedProteinInfoSchema>;
 
 // ==========================================
 // EVIDENCE COVERAGE
 // Replaces fake "certainty %" with honest indicators
 // ==========================================
-export interface EvidenceCoverage {
-  // Structure availability
-  structure: {
-    status: 'experimental' | 'predicted' | 'none' | 'unavailable';
-    reason?: string; // For unavailable status
-    source?: 'PDB' | 'AlphaFold';
-    id?: string;
-    resolution?: number;
-    paeUrl?: string; // Phase-4
-    note?: string; 
-    sifts?: {
-       mapped: boolean;
-       pdbId: string;
-       chain: string;
-       pdbResidue: string;
-       source: string;
-    };
-    availableStructures?: Array<{
-       id: string;
-       source: string;
-       url?: string; // Phase-4: API-provided structure URL
-       resolution?: number;
-       paeUrl?: string; // Phase-4
-       chain: string;
-       mapped: boolean;
-       pdbResidue?: string; // Phase-4: Required for highlighting
-    }>;
-  };
-  
-  // Clinical annotation status (Phase-2: ClinVar integration)
-  clinical: {
-    status: 'pathogenic' | 'likely_pathogenic' | 'uncertain' | 'likely_benign' | 'benign' | 'none' | 'unavailable';
-    reason?: string; // For unavailable status
-    source?: 'ClinVar' | 'HGMD';
-    significance?: string;      // Raw ClinVar text
-    reviewStatus?: string;      // ClinVar review status
-    stars?: number;             // 0-4 stars
-    clinvarId?: string;         // For linking
-    url?: string;               // Direct ClinVar URL
-    conditions?: string[];      // Associated conditions
-  };
-  
-  // Domain annotation
-  domain: {
-    inAnnotatedDomain: boolean;
-    domainName?: string;
-  };
-  
-  // Literature
-  literature: {
-    variantSpecificCount: number;
-    unavailable?: boolean; // For unavailable status
-    reason?: string;       // For unavailable status
-    query?: string;         // Search transparency
-    papers?: Array<{        // Top 5 snippets
-      title: string;
-      url: string;
-      source: string;
-      year: string;
-    }>;
-    note?: string; 
-  };
-}
+export type EvidenceCoverage = z.infer<typeof EvidenceCoverageSchema>;
+
+export type AdditionalEvidenceSection = z.infer<typeof AdditionalEvidenceSectionSchema>;
+
+// One evidence provider's section: a built-in coverage slot or an additional source
+export type EvidenceSection =
+  | NonNullable<EvidenceCoverage['structure' | 'clinical' | 'nearby' | 'literature' | 'population' | 'predictors']>
+  | AdditionalEvidenceSection;
 
 // ==========================================
 // EXPLICIT UNKNOWNS
 // Must be populated before AI summary
 // ==========================================
-export interface ExplicitUnknowns {
-  items: string[];
-  severity: 'critical' | 'moderate' | 'minor';
-}
+export type ExplicitUnknowns = z.infer<typeof ExplicitUnknownsSchema>;
 
 // Pre-defined unknown messages for consistency
 export const UNKNOWN_MESSAGES = {
   NO_STRUCTURE: 'No experimental or predicted structure available',
   NO_CLINICAL: 'No clinical significance annotation in ClinVar',
+  NO_GERMLINE_CLASSIFICATION: 'ClinVar classifies this variant for somatic impact or oncogenicity only, not germline pathogenicity',
   OUTSIDE_DOMAIN: 'Variant position is outside annotated protein domains',
   NO_DOMAIN_ANNOTATION: 'No domain annotations available from UniProt/Pfam/Gene3D for this protein',
   NO_LITERATURE: 'No variant-specific literature found',
@@ -128,39 +76,67 @@ export const UNKNOWN_MESSAGES = {
   UNRESOLVED_REGION: 'Variant falls in unresolved region of available structures',
   NO_FUNCTIONAL_SITE: 'No curated active/binding site annotation near this variant in UniProt',
   MAPPING_NOT_COMPUTED: 'Structure residue mapping not yet computed',
+  NOT_IN_POPULATION: 'Not observed in population database (gnomAD)',
 } as const;
 
+// ==========================================
+// GENE SYMBOL RESOLUTION
+// Set when the submitted symbol was not the HGNC approved symbol
+// ==========================================
+export type GeneSymbolResolution = z.infer<typeof GeneSymbolResolutionSchema>;
+
+// ==========================================
+// PROTEIN ID USAGE
+// Set when the input named a UniProt accession or Ensembl protein ID
+// ==========================================
+export type ProteinIdUsage = z.infer<typeof ProteinIdUsageSchema>;
+
+// ==========================================
+// ISOFORM USAGE
+// Where a transcript-numbered residue was evaluated
+// ==========================================
+export type IsoformUsage = z.infer<typeof IsoformUsageSchema>;
+
 // ==========================================
 // HONEST RESPONSE
 // Full API response structure
 // ==========================================
-export interface HonestAPIResponse {
-  // Input echo
-  variant: {
-    hgvs: string;          // Main display string (usually requested input)
-    originalHgvs?: string; // Explicit requested input
-    normalizedHgvs?: string; // Canonical form (Gene:p.RefPosAlt)
-    transcript?: string;   // Transcript if detected
-    variantType?: string;  // High-level type, e.g. missense/stop-gain/frameshift
-    significance?: string; // Optional deterministic significance note for specific classes
-    gene: string;
-    residue: number;
-    isValidPosition: boolean;
-  };
+export type HonestAPIResponse = z.infer<typeof HonestAPIResponseSchema>;
 
-  // Evidence indicators (NO percentages)
-  coverage: EvidenceCoverage;
-  
-  // UNKNOWNS FIRST (before any AI text)
-  unknowns: ExplicitUnknowns;
-  
-  // Curated context
-  curatedInfo: CuratedProteinInfo;
-  
-  // Metadata
-  timestamp: string;
-  processingMs: number;
-}
+// ==========================================
+// PIPELINE TIMINGS
+// Per-stage breakdown of one consequence's analysis
+// ==========================================
+// 'uniprot' (core) or an evidence provider id: 'structure', 'clinvar', 'pubmed', ...
+export type PipelineStage = string;
+
+export type StageTiming = z.infer<typeof StageTimingSchema>;
+
+export type PipelineTimings = z.infer<typeof PipelineTimingsSchema>;
+
+// ==========================================
+// GENOMIC INPUT RESPONSE
+// One analysis per overlapping transcript
+// ==========================================
+export type GenomicAPIResponse = z.infer<typeof GenomicAPIResponseSchema>;
+
+// ==========================================
+// ALLELE INPUT RESPONSE
+// Per-component analyses plus context shared between the components
+// ==========================================
+export type AlleleSharedContext = z.infer<typeof AlleleSharedContextSchema>;
+
+export type AlleleAPIResponse = z.infer<typeof AlleleAPIResponseSchema>;
+
+// ==========================================
+// JOB RESPONSE (batches)
+// One entry per submitted row; rows with the same normalized input share one analysis
+// ==========================================
+export type JobItemResult = z.infer<typeof JobItemResultSchema>;
+
+export type JobSummary = z.infer<typeof JobSummarySchema>;
+
+export type JobAPIResponse = z.infer<typeof JobAPIResponseSchema>;
 
 export interface HonestReportData {
   variant: {
@@ -168,10 +144,17 @@ export interface HonestReportData {
     originalHgvs?: string;
     normalizedHgvs?: string;
     transcript?: string;
+    codingHgvs?: string;
+    genomicHgvs?: string;
+    proteinHgvs?: string;
     variantType?: string;
     significance?: string;
     gene: string;
     residue: number;
+    residueEnd?: number;
+    isoform?: IsoformUsage;
+    geneResolution?: GeneSymbolResolution;
+    proteinId?: ProteinIdUsage;
   };
   coverage: EvidenceCoverage;
   unknowns: ExplicitUnknowns;
@@ -180,18 +163,43 @@ export interface HonestReportData {
 }
 
 // ==========================================
-// VALIDATION ERROR
-// For invalid variants (position > length, etc.)
+// ERROR ENVELOPE
+// Every error body, and every failed consequence in a report (src/lib/errors.ts)
 // ==========================================
-export interface VariantValidationError {
-  error: true;
-  code: 'INVALID_POSITION' | 'UNKNOWN_GENE' | 'PARSE_ERROR' | 'DATA_UNAVAILABLE';
-  message: string;
-  details?: {
-    providedPosition?: number;
-    proteinLength?: number;
-    gene?: string;
-  };
+export type ApiErrorCode = z.infer<typeof ApiErrorCodeSchema>;
+
+export type ApiErrorBody = z.infer<typeof ApiErrorSchema>;
+
+// ==========================================
+// INPUT DIAGNOSTICS
+// Why an input failed (or parsed with caveats) and corrected inputs to try
+// ==========================================
+export type InputIssueCode = z.infer<typeof InputIssueCodeSchema>;
+
+export type InputIssue = z.infer<typeof InputIssueSchema>;
+
+export type InputSuggestion = z.infer<typeof InputSuggestionSchema>;
+
+export type InputDiagnostics = z.infer<typeof InputDiagnosticsSchema>;
+
+// ==========================================
+// STREAMING EVENTS
+// Emitted by POST /api/variant?format=ndjson|sse as each source resolves
+// ==========================================
+export type VariantStreamEvent = z.infer<typeof VariantStreamEventSchema>;
+
+export type VariantReportBody = z.infer<typeof VariantReportBodySchema>;
+
+export type VariantStreamSection = 'protein' | 'structure' | 'clinical' | 'literature' | 'population' | 'predictors' | 'nearby' | 'unknowns';
+
+// A report assembled from stream events; sections are filled in as they arrive
+export interface StreamedReportData {
+  variant: HonestReportData['variant'];
+  curatedInfo?: CuratedProteinInfo;
+  coverage: Partial<EvidenceCoverage>;
+  unknowns?: ExplicitUnknowns;
+  timestamp?: string;
+  failed?: string; // Set when the consequence ended in an error event
 }
 
 // ==========================================
@@ -8,6 +8,7 @@
  * - Domain extraction (only explicitly annotated)
  * - Functional site detection
  * - Variant position validation
+ * - Reference residue check against the canonical sequence
  * - Unknown generation
  */
 
@@ -15,15 +16,26 @@ import {
   CuratedProteinInfo, 
   EvidenceCoverage, 
   ExplicitUnknowns,
+  ProteinIdUsage,
   UNKNOWN_MESSAGES,
-  VariantValidationError 
+  ApiErrorBody,
 } from './types/honest-response';
+import {
+  UpstreamUnavailableError,
+  UnknownGeneError,
+  InvalidPositionError,
+  ReferenceMismatchError,
+} from './errors';
+import { toThreeLetter, ENSEMBL_PROTEIN_PATTERN, UNIPROT_ACCESSION_PATTERN } from './variant';
+import { getUniprotAccession, normalizeGeneSymbol } from './gene-registry';
+import type { ClinVarSubmissions } from './clinvar-submissions';
 
 // ==========================================
 // CONSTANTS
 // ==========================================
 
 const UNIPROT_API = 'https://rest.uniprot.org/uniprotkb';
+const ENSEMBL_API = 'https://rest.ensembl.org';
 
 // Feature types we extract (explicit UniProt annotations only)
 const DOMAIN_FEATURE_TYPES = new Set([
@@ -41,75 +53,42 @@ const FUNCTIONAL_SITE_FEATURE_TYPES = new Set([
   'site',
 ]);
 
+// How far either side of a mismatched residue to look for the stated ref
+const NEARBY_REF_WINDOW = 10;
+// Cap on isoform entries fetched when suggesting alternatives for a mismatch
+const MAX_ISOFORM_LOOKUPS = 5;
+
 // Cache to avoid repeated API calls
 const CACHE = new Map<string, any>();
 const CACHE_TTL = 60 * 60 * 1000; // 1 hour
 
-// ==========================================
-// GENE TO UNIPROT MAPPING
-// ==========================================
-
-const COMMON_GENES: Record<string, string> = {
-  'JAK2': 'O60674',
-  'BRAF': 'P15056',
-  'TP53': 'P04637',
-  'BRCA1': 'P38398',
-  'BRCA2': 'P51587',
-  'EGFR': 'P00533',
-  'KRAS': 'P01116',
-  'PIK3CA': 'P42336',
-  'IDH1': 'O75874',
-  'IDH2': 'P48735',
-  'CFTR': 'P13569',
-  'PTEN': 'P60484',
-  'AKT1': 'P31749',
-  'ERBB2': 'P04626',
-  'NDUFAF6': 'Q330K2',
-  'PTPN11': 'Q06124',
-  'RYR1': 'P21817',
-  'SURF1': 'Q15526',
-  'PROM1': 'O43490',
-  'POLG': 'P54098',
-  'G6PD': 'P11413',
-  'HBB': 'P68871',
-  'SCN5A': 'Q14524',
-  'APOE': 'P02649',
-  'DMD': 'P11532',
-  'MYH7': 'P12883',
-  'LDLR': 'P01130',
-  'COL1A1': 'P02452',
-  'TSC2': 'P49815',
-  'LMNA': 'P02545',
-  'GBA': 'P04062',
-  'NOTCH1': 'P46531',
-  'FBN1': 'P35555',
-  'OBSCN': 'Q5VST9',
-};
-
 import { fetchWithRetry, FetchResult, FetchFailure, ServiceUnavailableError } from './fetch-utils';
 
 // ... (existing constants)
 
-export class UniProtUnavailableError extends Error {
+export { ReferenceMismatchError };
+
+export class UniProtUnavailableError extends UpstreamUnavailableError {
     constructor(public failure: FetchFailure) {
-        super(`UniProt Unavailable: ${failure.reason}`);
+        super('uniprot', failure.reason, `UniProt Unavailable: ${failure.reason}`);
         this.name = 'UniProtUnavailableError';
     }
 }
 
-async function resolveUniprotId(gene: string): Promise<string | null> {
+async function resolveUniprotId(gene: string, signal?: AbortSignal): Promise<string | null> {
   const upper = gene.toUpperCase();
   
-  // Check hardcoded map first
-  if (COMMON_GENES[upper]) {
-    return COMMON_GENES[upper];
+  // Check the HGNC registry first
+  const registered = getUniprotAccession(upper);
+  if (registered) {
+    return registered;
   }
   
   // Dynamic lookup
   try {
     const strictResult = await fetchWithRetry<any>(
       `${UNIPROT_API}/search?query=gene_exact:${upper}+AND+reviewed:true&format=json&size=25`,
-      { circuitBreakerKey: 'uniprot', timeoutMs: 6000 }
+      { circuitBreakerKey: 'uniprot', timeoutMs: 6000, signal }
     );
 
     if (strictResult && 'unavailable' in strictResult) {
@@ -122,7 +101,7 @@ async function resolveUniprotId(gene: string): Promise<string | null> {
     // Fallback: broader query, still filtered by exact primary gene symbol.
     const broadResult = await fetchWithRetry<any>(
       `${UNIPROT_API}/search?query=gene:${upper}+AND+reviewed:true&format=json&size=50`,
-      { circuitBreakerKey: 'uniprot', timeoutMs: 6000 }
+      { circuitBreakerKey: 'uniprot', timeoutMs: 6000, signal }
     );
     if (broadResult && 'unavailable' in broadResult) {
       throw new UniProtUnavailableError(broadResult);
@@ -166,6 +145,14 @@ interface UniprotCrossReference {
   properties?: Array<{ key: string; value: string }>;
 }
 
+interface UniprotComment {
+  commentType: string;
+  isoforms?: Array<{
+    isoformIds?: string[];
+    isoformSequenceStatus?: string; // 'Displayed' marks the canonical isoform
+  }>;
+}
+
 interface UniprotData {
   primaryAccession: string;
   proteinDescription?: {
@@ -174,12 +161,13 @@ interface UniprotData {
     };
   };
   genes?: Array<{ geneName?: { value: string } }>;
-  sequence?: { length: number };
+  sequence?: { length: number; value?: string };
+  comments?: UniprotComment[];
   features?: UniprotFeature[];
   uniProtKBCrossReferences?: UniprotCrossReference[];
 }
 
-async function fetchUniprotData(uniprotId: string): Promise<UniprotData | null> {
+async function fetchUniprotData(uniprotId: string, signal?: AbortSignal): Promise<UniprotData | null> {
   const cacheKey = `uniprot:${uniprotId}`;
   const cached = CACHE.get(cacheKey);
   if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
@@ -189,7 +177,8 @@ async function fetchUniprotData(uniprotId: string): Promise<UniprotData | null>
   try {
     const result = await fetchWithRetry<UniprotData>(`${UNIPROT_API}/${uniprotId}.json`, {
         circuitBreakerKey: 'uniprot',
-        timeoutMs: 6000
+        timeoutMs: 6000,
+        signal,
     });
     
     if (result && 'unavailable' in result) {
@@ -201,12 +190,88 @@ async function fetchUniprotData(uniprotId: string): Promise<UniprotData | null>
     CACHE.set(cacheKey, { data: result, timestamp: Date.now() });
     return result;
   } catch (error) {
-    if (error instanceof UniProtUnavailableError) throw error;
+    if (error instanceof UpstreamUnavailableError) throw error;
     console.warn(`[UniProt] Failed to fetch ${uniprotId}:`, error);
     return null;
   }
 }
 
+/**
+ * Canonical sequence of a UniProt entry (cached with the entry), or null
+ * when the entry carries none.
+ */
+export async function getCanonicalSequence(uniprotId: string, signal?: AbortSignal): Promise<string | null> {
+  const data = await fetchUniprotData(uniprotId.replace(/-\d+$/, ''), signal);
+  return data?.sequence?.value || null;
+}
+
+// ==========================================
+// PROTEIN IDENTIFIERS (UniProt / Ensembl input)
+// ==========================================
+
+interface EnsemblXref {
+  dbname: string;
+  primary_id: string;
+}
+
+async function mapEnsemblProtein(ensemblId: string, signal?: AbortSignal): Promise<string | null> {
+  const stableId = ensemblId.toUpperCase().replace(/\.\d+$/, '');
+  const result = await fetchWithRetry<EnsemblXref[]>(
+    `${ENSEMBL_API}/xrefs/id/${stableId}?content-type=application/json`,
+    { circuitBreakerKey: 'ensembl', timeoutMs: 6000, signal }
+  );
+  if (result && 'unavailable' in result) {
+    throw new UpstreamUnavailableError(
+      'ensembl',
+      result.reason,
+      `Ensembl unavailable (${result.reason}); cannot map ${stableId} to UniProt`
+    );
+  }
+
+  // Prefer the isoform-level mapping, then the reviewed entry
+  const xrefs = Array.isArray(result) ? result : [];
+  const hit =
+    xrefs.find((x) => x.dbname === 'Uniprot_isoform') ||
+    xrefs.find((x) => x.dbname === 'Uniprot/SWISSPROT');
+  return hit?.primary_id?.toUpperCase() || null;
+}
+
+/**
+ * Resolve a UniProt accession (optionally with isoform suffix) or Ensembl
+ * protein ID straight to its UniProt entry and gene, without a gene-name search.
+ * Isoform suffixes naming the displayed isoform collapse to the canonical entry.
+ */
+export async function resolveProteinId(proteinId: string, signal?: AbortSignal): Promise<ProteinIdUsage> {
+  const input = proteinId.toUpperCase();
+  const source = ENSEMBL_PROTEIN_PATTERN.test(input) ? 'ensembl' : 'uniprot';
+  const accession = source === 'ensembl' ? await mapEnsemblProtein(input, signal) : input;
+  if (!accession) {
+    throw new UnknownGeneError(`Could not resolve ${input} to a UniProt entry`);
+  }
+
+  const canonicalId = accession.replace(/-\d+$/, '');
+  const data = await fetchUniprotData(canonicalId, signal);
+  if (!data) {
+    throw new UnknownGeneError(`Could not fetch UniProt data for ${canonicalId}`, { uniprotId: canonicalId });
+  }
+
+  const displayed = (data.comments || [])
+    .filter((c) => c.commentType === 'ALTERNATIVE PRODUCTS')
+    .flatMap((c) => c.isoforms || [])
+    .filter((iso) => iso.isoformSequenceStatus === 'Displayed')
+    .flatMap((iso) => iso.isoformIds || []);
+  const uniprotId = displayed.includes(accession) ? canonicalId : accession;
+  const geneName = data.genes?.[0]?.geneName?.value;
+
+  return {
+    input,
+    source,
+    uniprotId,
+    canonicalId,
+    gene: geneName ? normalizeGeneSymbol(geneName) : canonicalId,
+  };
+}
+
 // ==========================================
 // EXTRACT DOMAINS
 // ==========================================
@@ -490,7 +555,7 @@ function getFallbackDomainsForGene(gene: string): CuratedProteinInfo['domains']
 export function validateVariantPosition(
   residueNumber: number, 
   proteinLength: number
-): VariantValidationError | null {
+): ApiErrorBody | null {
   if (residueNumber < 1) {
     return {
       error: true,
@@ -513,20 +578,97 @@ export function validateVariantPosition(
 }
 
 // ==========================================
-// FIND DOMAIN FOR POSITION
+// REFERENCE RESIDUE VALIDATION
 // ==========================================
 
-function findDomainForPosition(
-  domains: CuratedProteinInfo['domains'],
+function residueLabel(oneLetter: string): string {
+  return `${toThreeLetter(oneLetter)} (${oneLetter})`;
+}
+
+/**
+ * Compare the stated reference residue with the canonical sequence.
+ * On a mismatch, lists nearby positions that do carry the stated residue,
+ * which usually points at an off-by-N numbering or transcript mix-up.
+ */
+export function validateReferenceResidue(
+  sequence: string,
   position: number,
+  statedRef: string,
   gene?: string
-): string | null {
-  const containing = domains.filter((d) => position >= d.start && position <= d.end);
-  if (containing.length === 0) return null;
+): ApiErrorBody | null {
+  const actualRef = sequence.charAt(position - 1).toUpperCase();
+  const expected = statedRef.toUpperCase();
+  if (!actualRef || actualRef === expected) return null;
+
+  const nearbyPositions: number[] = [];
+  const from = Math.max(1, position - NEARBY_REF_WINDOW);
+  const to = Math.min(sequence.length, position + NEARBY_REF_WINDOW);
+  for (let i = from; i <= to; i++) {
+    if (i !== position && sequence.charAt(i - 1).toUpperCase() === expected) {
+      nearbyPositions.push(i);
+    }
+  }
+  nearbyPositions.sort((a, b) => Math.abs(a - position) - Math.abs(b - position) || a - b);
+
+  return {
+    error: true,
+    code: 'REF_MISMATCH',
+    message: `Reference mismatch at residue ${position}${gene ? ` of ${gene}` : ''}: canonical sequence has ${residueLabel(actualRef)}, input states ${residueLabel(expected)}`,
+    details: {
+      gene,
+      providedPosition: position,
+      proteinLength: sequence.length,
+      statedRef: expected,
+      actualRef,
+      nearbyPositions,
+    },
+  };
+}
+
+/**
+ * Non-canonical isoforms that carry the stated residue at the given position.
+ * Suggestions only: lookup failures are swallowed.
+ */
+async function findMatchingIsoforms(
+  data: UniprotData,
+  position: number,
+  statedRef: string
+): Promise<string[]> {
+  const isoformIds = (data.comments || [])
+    .filter((c) => c.commentType === 'ALTERNATIVE PRODUCTS')
+    .flatMap((c) => c.isoforms || [])
+    .filter((iso) => iso.isoformSequenceStatus !== 'Displayed')
+    .flatMap((iso) => iso.isoformIds || [])
+    .slice(0, MAX_ISOFORM_LOOKUPS);
+
+  const matches: string[] = [];
+  for (const isoformId of isoformIds) {
+    try {
+      const isoform = await fetchUniprotData(isoformId);
+      const residue = isoform?.sequence?.value?.charAt(position - 1).toUpperCase();
+      if (residue && residue === statedRef.toUpperCase()) {
+        matches.push(isoformId);
+      }
+    } catch {
+      // Isoforms only refine the suggestion; the mismatch stands regardless
+    }
+  }
+  return matches;
+}
 
+// ==========================================
+// FIND DOMAIN FOR POSITION / RANGE
+// ==========================================
+
+function findDomainsForRange(
+  domains: CuratedProteinInfo['domains'],
+  start: number,
+  end: number,
+  gene?: string
+): CuratedProteinInfo['domains'] {
+  const overlapping = domains.filter((d) => start <= d.end && end >= d.start);
   const upperGene = (gene || '').toUpperCase();
-  const sorted = [...containing].sort((a, b) => domainPriorityScore(b, upperGene) - domainPriorityScore(a, upperGene));
-  return sorted[0].name;
+  return [...overlapping].sort((a, b) => domainPriorityScore(b, upperGene) - domainPriorityScore(a, upperGene));
 }
 
 function domainPriorityScore(domain: CuratedProteinInfo['domains'][number], gene: string): number {
@@ -552,11 +694,12 @@ function domainPriorityScore(domain: CuratedProteinInfo['domains'][number], gene
 
 function applyCanonicalDomainOverrides(
   gene: string,
-  position: number,
+  start: number,
+  end: number,
   current: string | null
 ): string | null {
   const upper = gene.toUpperCase();
-  if (upper === 'TP53' && position >= 102 && position <= 292) {
+  if (upper === 'TP53' && start <= 292 && end >= 102) {
     return 'DNA-binding domain';
   }
   return current;
@@ -568,13 +711,15 @@ function applyCanonicalDomainOverrides(
 
 function findNearestSite(
   sites: CuratedProteinInfo['functionalSites'], 
-  position: number
+  start: number,
+  end: number
 ): { near: boolean; distance: number | null } {
   if (sites.length === 0) {
     return { near: false, distance: null };
   }
   
-  const distances = sites.map(s => Math.abs(s.residue - position));
+  // Sites inside the affected range are at distance 0
+  const distances = sites.map(s => Math.max(0, start - s.residue, s.residue - end));
   const minDistance = Math.min(...distances);
   
   // "Near" = within 10 residues in sequence
@@ -587,23 +732,26 @@ function findNearestSite(
 
 export async function curateUniprotData(
   geneOrUniprotId: string,
-  residueNumber: number
+  residueNumber: number,
+  endResidue: number = residueNumber,
+  statedRefs: { ref?: string; endRef?: string } = {},
+  signal?: AbortSignal
 ): Promise<CuratedProteinInfo> {
   // 1. Resolve UniProt ID
   let uniprotId = geneOrUniprotId;
-  if (!geneOrUniprotId.match(/^[A-Z][0-9][A-Z0-9]{3}[0-9]$/)) {
+  if (!UNIPROT_ACCESSION_PATTERN.test(geneOrUniprotId)) {
     // Looks like a gene name, not UniProt ID
-    const resolved = await resolveUniprotId(geneOrUniprotId);
+    const resolved = await resolveUniprotId(geneOrUniprotId, signal);
     if (!resolved) {
-      throw new Error(`Could not resolve gene ${geneOrUniprotId} to UniProt ID`);
+      throw new UnknownGeneError(`Could not resolve gene ${geneOrUniprotId} to UniProt ID`, { gene: geneOrUniprotId });
     }
     uniprotId = resolved;
   }
   
   // 2. Fetch UniProt data
-  const data = await fetchUniprotData(uniprotId);
+  const data = await fetchUniprotData(uniprotId, signal);
   if (!data) {
-    throw new Error(`Could not fetch UniProt data for ${uniprotId}`);
+    throw new UnknownGeneError(`Could not fetch UniProt data for ${uniprotId}`, { uniprotId });
   }
   
   // 3. Extract protein info
@@ -612,9 +760,31 @@ export async function curateUniprotData(
   const proteinName = data.proteinDescription?.recommendedName?.fullName?.value || 'Unknown protein';
   
   // 4. Validate position BEFORE any further processing
-  const validationError = validateVariantPosition(residueNumber, proteinLength);
+  const validationError =
+    validateVariantPosition(residueNumber, proteinLength) ||
+    validateVariantPosition(endResidue, proteinLength);
   if (validationError) {
-    throw new Error(validationError.message);
+    throw new InvalidPositionError(validationError.message, validationError.details);
+  }
+
+  // 4b. Check stated reference residues ('*' and '?' have nothing to compare)
+  const canonicalSequence = data.sequence?.value;
+  if (canonicalSequence) {
+    const checks: Array<[number, string | undefined]> = [
+      [residueNumber, statedRefs.ref],
+      [endResidue, statedRefs.endRef],
+    ];
+    for (const [position, ref] of checks) {
+      if (!ref || !/^[A-Z]$/i.test(ref)) continue;
+      const mismatch = validateReferenceResidue(canonicalSequence, position, ref, geneName);
+      if (mismatch) {
+        throw new ReferenceMismatchError(mismatch.message, {
+          ...mismatch.details,
+          uniprotId,
+          matchingIsoforms: await findMatchingIsoforms(data, position, ref),
+        });
+      }
+    }
   }
   
   // 5. Extract domains and sites
@@ -629,19 +799,19 @@ export async function curateUniprotData(
       : getFallbackDomainsForGene(geneName);
   const functionalSites = extractFunctionalSites(features);
   
-  // 6. Analyze variant position
-  let variantInDomain = findDomainForPosition(domains, residueNumber, geneName);
-  if (!variantInDomain) {
-    const fallbackMatch = getFallbackDomainsForGene(geneName).find(
-      (domain) => residueNumber >= domain.start && residueNumber <= domain.end
-    );
-    if (fallbackMatch) {
-      variantInDomain = fallbackMatch.name;
-      domains = dedupeDomains([...domains, fallbackMatch]);
-    }
+  // 6. Analyze the affected range (a single residue for substitutions)
+  let overlapping = findDomainsForRange(domains, residueNumber, endResidue, geneName);
+  if (overlapping.length === 0) {
+    overlapping = findDomainsForRange(getFallbackDomainsForGene(geneName), residueNumber, endResidue, geneName);
+    domains = dedupeDomains([...domains, ...overlapping]);
   }
-  variantInDomain = applyCanonicalDomainOverrides(geneName, residueNumber, variantInDomain);
-  const siteAnalysis = findNearestSite(functionalSites, residueNumber);
+  const variantInDomain = applyCanonicalDomainOverrides(
+    geneName,
+    residueNumber,
+    endResidue,
+    overlapping[0]?.name ?? null
+  );
+  const siteAnalysis = findNearestSite(functionalSites, residueNumber, endResidue);
   
   return {
     gene: geneName,
@@ -651,7 +821,9 @@ export async function curateUniprotData(
     domains,
     functionalSites,
     variantPosition: residueNumber,
+    ...(endResidue !== residueNumber ? { variantEndPosition: endResidue } : {}),
     variantInDomain,
+    affectedDomains: overlapping.map((domain) => domain.name),
     nearFunctionalSite: siteAnalysis.near,
     distanceToNearestSite: siteAnalysis.distance,
   };
@@ -663,26 +835,9 @@ export async function curateUniprotData(
 
 export function generateUnknowns(
   curatedInfo: CuratedProteinInfo,
-  coverage: EvidenceCoverage
+  sourceItems: string[] = []    // From the evidence providers (src/lib/evidence-providers.ts)
 ): ExplicitUnknowns {
-  const items: string[] = [];
-  const hasMappedStructure = !!coverage.structure.sifts?.mapped ||
-    !!coverage.structure.availableStructures?.some((s) => s.mapped && !!s.pdbResidue);
-  
-  // Structure unknowns
-  if (coverage.structure.status === 'none') {
-    items.push(UNKNOWN_MESSAGES.NO_STRUCTURE);
-  } else if (
-    coverage.structure.status === 'experimental' &&
-    !hasMappedStructure
-  ) {
-    items.push(UNKNOWN_MESSAGES.MAPPING_NOT_COMPUTED);
-  }
-  
-  // Clinical unknowns
-  if (coverage.clinical.status === 'none') {
-    items.push(UNKNOWN_MESSAGES.NO_CLINICAL);
-  }
+  const items: string[] = [...sourceItems];
   
   // Domain unknowns
   if (curatedInfo.domains.length === 0) {
@@ -696,11 +851,6 @@ export function generateUnknowns(
     items.push(UNKNOWN_MESSAGES.NO_FUNCTIONAL_SITE);
   }
   
-  // Literature unknowns
-  if (coverage.literature.variantSpecificCount === 0) {
-    items.push(UNKNOWN_MESSAGES.NO_LITERATURE);
-  }
-  
   // Determine severity
   let severity: 'critical' | 'moderate' | 'minor' = 'minor';
   if (items.length >= 4) severity = 'critical';
@@ -713,63 +863,64 @@ export function generateUnknowns(
 // BUILD EVIDENCE COVERAGE
 // ==========================================
 
-// ==========================================
-// BUILD EVIDENCE COVERAGE
-// ==========================================
-
-export async function buildEvidenceCoverage(
-  curatedInfo: CuratedProteinInfo,
-  structureData: { 
-    source: 'PDB' | 'AlphaFold'; 
-    id: string; 
-    resolution?: number;
-    paeUrl?: string; // Phase-4
-    sifts?: {
-      mapped: boolean;
-      pdbId: string;
-      chain: string;
-      pdbResidue: string;
-      source: string;
-      availableStructures?: Array<{
-        id: string;
-        source: string;
-        resolution?: number;
-        chain: string;
-        mapped: boolean;
-        paeUrl?: string; // Phase-4
-      }>;
-    } | null;
+type StructureCoverageInput = {
+  source: 'PDB' | 'AlphaFold';
+  id: string;
+  resolution?: number;
+  paeUrl?: string; // Phase-4
+  sifts?: {
+    mapped: boolean;
+    pdbId: string;
+    chain: string;
+    pdbResidue: string;
+    source: string;
     availableStructures?: Array<{
       id: string;
       source: string;
-      url?: string;
       resolution?: number;
       chain: string;
       mapped: boolean;
-      pdbResidue?: string;
       paeUrl?: string; // Phase-4
     }>;
-  } | { unavailable: true; reason: string } | null,
-  clinvarData: { 
-    significance: string; 
-    reviewStatus: string;
-    stars: number;
-    clinvarId: string;
+  } | null;
+  availableStructures?: Array<{
+    id: string;
+    source: string;
+    url?: string;
+    resolution?: number;
+    chain: string;
+    mapped: boolean;
+    pdbResidue?: string;
+    paeUrl?: string; // Phase-4
+  }>;
+} | { unavailable: true; reason: string } | null;
+
+type ClinicalCoverageInput = {
+  significance: string;
+  reviewStatus: string;
+  stars: number;
+  clinvarId: string;
+  url: string;
+  conditions: string[];
+  // Every aggregate classification type on the record, germline included
+  classifications?: NonNullable<EvidenceCoverage['clinical']['classifications']>;
+  // Per-submitter detail; absent when not fetched, a reason when it failed
+  submissions?: ClinVarSubmissions | { unavailable: true; reason: string } | null;
+} | { unavailable: true; reason: string } | null;
+
+type LiteratureCoverageInput = {
+  count: number;
+  query: string;
+  papers: Array<{
+    title: string;
     url: string;
-    conditions: string[];
-  } | { unavailable: true; reason: string } | null,
-  literatureData: { 
-    count: number; 
-    query: string;
-    papers: Array<{
-      title: string;
-      url: string;
-      source: string;
-      pubDate: string;
-    }>;
-  } | { unavailable: true; reason: string } | null
-): Promise<EvidenceCoverage> {
-  // Structure
+    source: string;
+    pubDate: string;
+  }>;
+} | { unavailable: true; reason: string } | null;
+
+// Each section is also built on its own so streamed responses can emit it as soon as its source resolves
+export function buildStructureCoverage(structureData: StructureCoverageInput): EvidenceCoverage['structure'] {
   let structureCoverage: EvidenceCoverage['structure'];
   if (structureData && 'unavailable' in structureData) {
       structureCoverage = { 
@@ -794,8 +945,10 @@ export async function buildEvidenceCoverage(
   } else {
       structureCoverage = { status: 'none' };
   }
+  return structureCoverage;
+}
 
-  // Clinical
+export function buildClinicalCoverage(clinvarData: ClinicalCoverageInput): EvidenceCoverage['clinical'] {
   let clinicalCoverage: EvidenceCoverage['clinical'];
   if (clinvarData && 'unavailable' in clinvarData) {
       clinicalCoverage = { 
@@ -803,8 +956,11 @@ export async function buildEvidenceCoverage(
           reason: clinvarData.reason 
       };
   } else if (clinvarData) {
+      // Somatic and oncogenicity calls (e.g. "Tier IV - Benign/Likely benign") are no germline status
+      const classifications = clinvarData.classifications ?? [];
+      const germline = classifications.length === 0 || classifications.some((c) => c.type === 'germline');
       clinicalCoverage = {
-          status: mapClinicalSignificance(clinvarData.significance),
+          status: germline ? mapClinicalSignificance(clinvarData.significance) : 'none',
           source: 'ClinVar',
           significance: clinvarData.significance,
           reviewStatus: clinvarData.reviewStatus,
@@ -812,12 +968,30 @@ export async function buildEvidenceCoverage(
           clinvarId: clinvarData.clinvarId,
           url: clinvarData.url,
           conditions: clinvarData.conditions,
+          ...(clinvarData.classifications ? { classifications: clinvarData.classifications } : {}),
+          ...describeSubmissions(clinvarData.submissions),
       };
   } else {
       clinicalCoverage = { status: 'none' };
   }
+  return clinicalCoverage;
+}
 
-  // Literature
+function describeSubmissions(
+  submissions: ClinVarSubmissions | { unavailable: true; reason: string } | null | undefined
+): Partial<EvidenceCoverage['clinical']> {
+  if (submissions === undefined) return {};
+  if (!submissions) return { submissionsReason: 'ClinVar returned no submissions for this record' };
+  if ('unavailable' in submissions) return { submissionsReason: `ClinVar submissions unavailable (${submissions.reason})` };
+  return {
+    vcv: submissions.vcv,
+    rcvs: submissions.rcvs,
+    submissions: submissions.submissions,
+    tally: submissions.tally,
+  };
+}
+
+export function buildLiteratureCoverage(literatureData: LiteratureCoverageInput): EvidenceCoverage['literature'] {
   let literatureCoverage: EvidenceCoverage['literature'];
   if (literatureData && 'unavailable' in literatureData) {
       literatureCoverage = {
@@ -841,15 +1015,27 @@ export async function buildEvidenceCoverage(
           note: (literatureData?.count || 0) === 0 ? UNKNOWN_MESSAGES.NO_LITERATURE : undefined,
       };
   }
+  return literatureCoverage;
+}
 
+export function buildDomainCoverage(curatedInfo: CuratedProteinInfo): EvidenceCoverage['domain'] {
   return {
-    structure: structureCoverage,
-    clinical: clinicalCoverage,
-    domain: {
-      inAnnotatedDomain: !!curatedInfo.variantInDomain,
-      domainName: curatedInfo.variantInDomain || undefined,
-    },
-    literature: literatureCoverage,
+    inAnnotatedDomain: !!curatedInfo.variantInDomain,
+    domainName: curatedInfo.variantInDomain || undefined,
+  };
+}
+
+export async function buildEvidenceCoverage(
+  curatedInfo: CuratedProteinInfo,
+  structureData: StructureCoverageInput,
+  clinvarData: ClinicalCoverageInput,
+  literatureData: LiteratureCoverageInput
+): Promise<EvidenceCoverage> {
+  return {
+    structure: buildStructureCoverage(structureData),
+    clinical: buildClinicalCoverage(clinvarData),
+    domain: buildDomainCoverage(curatedInfo),
+    literature: buildLiteratureCoverage(literatureData),
   };
 }
 
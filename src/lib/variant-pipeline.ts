@@ -0,0 +1,327 @@
+/**
+ * VARIANT PIPELINE
+ *
+ * Curation and evidence pipeline for one normalized protein consequence.
+ * UniProt is core; every other source degrades to "unavailable", and stages
+ * still pending at the deadline become a `timeout` failure.
+ */
+
+import {
+  formatProteinChange,
+  describeProteinChange,
+  getAffectedRange,
+  normalizeParsedVariant,
+  ParsedVariant,
+} from './variant';
+import { resolveIsoformPosition } from './isoform-mapping';
+import { resolveGeneSymbol } from './gene-registry';
+import { diagnoseVariantInput, diagnoseReferenceMismatch } from './hgvs-diagnostics';
+import { resolveStructure } from './structure';
+import { withUpstream } from './concurrency';
+import { withDeadline, isFetchFailure, FetchFailure } from './fetch-utils';
+import {
+  EvidenceProvider,
+  EvidenceContext,
+  DISABLED_SECTIONS,
+  resolveEnabledProviders,
+  runEvidenceProviders,
+  applyProviderSection,
+} from './evidence-providers';
+import {
+  curateUniprotData,
+  buildDomainCoverage,
+  generateUnknowns,
+  UniProtUnavailableError,
+  resolveProteinId,
+  getCanonicalSequence,
+} from './uniprot-curator';
+import { ApiError, ReferenceMismatchError, UnknownGeneError, UpstreamUnavailableError } from './errors';
+import {
+  HonestAPIResponse,
+  ApiErrorBody,
+  GeneSymbolResolution,
+  ProteinIdUsage,
+  IsoformUsage,
+  VariantStreamEvent,
+  EvidenceCoverage,
+  EvidenceSection,
+  PipelineStage,
+  PipelineTimings,
+  StageTiming,
+} from './types/honest-response';
+import { getClinVarData, getClinVarNeighborhood } from './clinvar-client';
+import { getClinVarSubmissions } from './clinvar-submissions';
+import { searchPubMed } from './pubmed-client';
+import { getSiftsMapping } from './sifts-client';
+import { getPopulationFrequency } from './gnomad-client';
+import { getPredictorScores } from './predictor-scores';
+import { genomicAlleleOf } from './genomic-variant';
+
+// Reported when the submitted symbol was an alias or withdrawn symbol
+function describeGeneResolution(parsed: ParsedVariant): GeneSymbolResolution | undefined {
+  if (!parsed.submittedGene) return undefined;
+  const { matchedBy, record } = resolveGeneSymbol(parsed.submittedGene);
+  if (matchedBy !== 'previous' && matchedBy !== 'alias') return undefined;
+  return { submitted: parsed.submittedGene, approved: parsed.gene, matchedBy, hgncId: record?.hgncId };
+}
+
+// Variant echo shared by the early stream event and the final response
+function describeVariant(
+  parsed: ParsedVariant,
+  normalizedInput: string,
+  originalHgvs: string,
+  gene: string,
+  isoform: IsoformUsage | null,
+  protein: ProteinIdUsage | null
+): HonestAPIResponse['variant'] {
+  const residueEnd = getAffectedRange(parsed).end;
+  return {
+    hgvs: normalizedInput,
+    originalHgvs,
+    normalizedHgvs: normalizedInput,
+    transcript: parsed.transcript,
+    codingHgvs: parsed.codingHgvs,
+    genomicHgvs: parsed.genomicHgvs,
+    proteinHgvs: formatProteinChange(parsed),
+    variantType: parsed.type === 'nonsense'
+      ? 'stop-gain'
+      : parsed.type,
+    significance: parsed.type === 'nonsense'
+      ? 'Pathogenic (nonsense)'
+      : undefined,
+    gene,
+    residue: parsed.pos,
+    ...(residueEnd !== parsed.pos ? { residueEnd } : {}),
+    ...(isoform ? { isoform } : {}),
+    geneResolution: describeGeneResolution(parsed),
+    ...(protein ? { proteinId: protein } : {}),
+    isValidPosition: true,
+  };
+}
+
+export const PIPELINE_DEADLINE_MS = 15000;
+
+// Upstream calls the pipeline makes; scripts and tests can replace any of them
+export interface VariantClients {
+  resolveProteinId: typeof resolveProteinId;
+  curateUniprotData: typeof curateUniprotData;
+  resolveStructure: typeof resolveStructure;
+  getSiftsMapping: typeof getSiftsMapping;
+  getClinVarData: typeof getClinVarData;
+  getClinVarSubmissions: typeof getClinVarSubmissions;
+  getClinVarNeighborhood: typeof getClinVarNeighborhood;
+  getCanonicalSequence: typeof getCanonicalSequence;
+  searchPubMed: typeof searchPubMed;
+  getPopulationFrequency: typeof getPopulationFrequency;
+  getPredictorScores: typeof getPredictorScores;
+}
+
+export const defaultVariantClients: VariantClients = {
+  resolveProteinId,
+  curateUniprotData,
+  resolveStructure,
+  getSiftsMapping,
+  getClinVarData,
+  getClinVarSubmissions,
+  getClinVarNeighborhood,
+  getCanonicalSequence,
+  searchPubMed,
+  getPopulationFrequency,
+  getPredictorScores,
+};
+
+export interface AnalyzeOptions {
+  index?: number;                             // Consequence/component index carried by stream events
+  emit?: (event: VariantStreamEvent) => void; // Receives each section as it resolves
+  deadline?: number;                          // Epoch ms; defaults to startTime + PIPELINE_DEADLINE_MS
+  clients?: Partial<VariantClients>;          // Missing entries fall back to defaultVariantClients
+  providers?: EvidenceProvider[];             // Defaults to resolveEnabledProviders()
+  now?: () => number;                         // Clock for timings and timestamps; defaults to Date.now
+  signal?: AbortSignal;                       // Caller gave up (e.g. client disconnected): pending stages stop
+}
+
+export type VariantOutcome =
+  | {
+      ok: true;
+      response: HonestAPIResponse;
+      evidenceSources: { clinvar: boolean; structure: boolean; literature: boolean };
+    }
+  | { ok: false; status: number; body: ApiErrorBody };
+
+function failed(error: ApiError): VariantOutcome {
+  return { ok: false, status: error.status, body: error.toBody() };
+}
+
+/**
+ * Run the curation/evidence pipeline for one normalized protein consequence.
+ * Genomic input calls this once per overlapping transcript.
+ */
+export async function analyzeNormalizedVariant(
+  normalizedVariant: { normalized: string; parsed: ParsedVariant },
+  originalHgvs: string,
+  startTime: number,
+  options: AnalyzeOptions = {}
+): Promise<VariantOutcome> {
+  const { parsed } = normalizedVariant;
+  const index = options.index ?? 0;
+  const emit = options.emit ?? (() => {});
+  const deadline = options.deadline ?? startTime + PIPELINE_DEADLINE_MS;
+  const clients: VariantClients = { ...defaultVariantClients, ...options.clients };
+  const now = options.now ?? Date.now;
+
+  // Every stage is timed; a stage still pending at the deadline resolves to a timeout failure
+  const stages: PipelineTimings['stages'] = {};
+  const runStage = async <T>(stage: PipelineStage, task: (signal: AbortSignal) => Promise<T>): Promise<T | FetchFailure> => {
+    const started = now();
+    let outcome: StageTiming['outcome'] = 'error';
+    try {
+      const result = await withDeadline(task, deadline, stage, now, options.signal);
+      outcome = !isFetchFailure(result) ? 'ok' : result.reason === 'timeout' ? 'timeout' : 'unavailable';
+      return result;
+    } finally {
+      stages[stage] = { startedMs: started - startTime, durationMs: now() - started, outcome };
+    }
+  };
+  let normalizedInput = normalizedVariant.normalized;
+  let gene = parsed.gene;
+  const residueNumber = parsed.pos;
+  const residueEnd = getAffectedRange(parsed).end;
+
+  // Transcript-numbered residues are renumbered onto the canonical entry,
+  // or evaluated on the isoform itself when they have no canonical counterpart
+  const isoform = resolveIsoformPosition(parsed.transcript, residueNumber, residueEnd);
+  const evaluatedStart = isoform?.start ?? residueNumber;
+  const evaluatedEnd = isoform?.end ?? residueEnd;
+  emit({ type: 'variant', index, variant: describeVariant(parsed, normalizedInput, originalHgvs, gene, isoform, null) });
+
+  // ==========================================
+  // STEP 1: CURATE UNIPROT DATA (CORE)
+  // ==========================================
+  let curatedInfo;
+  let protein: ProteinIdUsage | null = null;
+  try {
+    // UniProt / Ensembl protein input names its entry directly: no gene-name search
+    const curated = await runStage('uniprot', async (signal) => {
+      if (parsed.proteinId) {
+        const proteinId = parsed.proteinId;
+        protein = await withUpstream('uniprot', () => clients.resolveProteinId(proteinId, signal), signal);
+        gene = protein.gene;
+        normalizedInput = normalizeParsedVariant({ ...parsed, gene }).normalized;
+      }
+      const entry = protein?.uniprotId ?? isoform?.uniprotId ?? gene;
+      return withUpstream('uniprot', () =>
+        clients.curateUniprotData(entry, evaluatedStart, evaluatedEnd, { ref: parsed.ref, endRef: parsed.endRef }, signal), signal
+      );
+    });
+    if (isFetchFailure(curated)) throw new UniProtUnavailableError(curated);
+    curatedInfo = curated;
+  } catch (error) {
+    // Stated reference residue does not match the canonical sequence
+    if (error instanceof ReferenceMismatchError) {
+      const diagnostics = diagnoseReferenceMismatch(originalHgvs, parsed, error.toBody());
+      return failed(new ReferenceMismatchError(error.message, error.details, diagnostics));
+    }
+
+    // UniProt (core) down or out of time: nothing can be said about the variant
+    if (error instanceof UniProtUnavailableError) {
+      console.error(`[HonestAPI] Core data unavailable: ${gene}`);
+      return failed(new UpstreamUnavailableError(
+        'uniprot',
+        error.failure.reason,
+        error.failure.reason === 'timeout'
+          ? 'Core protein data service (UniProt) did not respond within the request time budget.'
+          : 'Core protein data service (UniProt) is unavailable.'
+      ));
+    }
+
+    if (error instanceof UnknownGeneError) {
+      return failed(new UnknownGeneError(
+        parsed.proteinId
+          ? `Could not resolve protein ID "${parsed.proteinId}" to UniProt`
+          : `Could not resolve gene "${gene}" to UniProt`,
+        { ...error.details, gene },
+        // Misspelled symbols: closest registry genes as corrected inputs
+        parsed.proteinId || parsed.genomicHgvs ? undefined : diagnoseVariantInput(originalHgvs, { geneUnresolved: true })
+      ));
+    }
+
+    // INVALID_POSITION, other upstreams (Ensembl)
+    if (error instanceof ApiError) return failed(error);
+
+    throw error;
+  }
+  emit({
+    type: 'protein',
+    index,
+    variant: describeVariant(parsed, normalizedInput, originalHgvs, curatedInfo.gene, isoform, protein),
+    curatedInfo,
+    domain: buildDomainCoverage(curatedInfo),
+  });
+
+  // ==========================================
+  // STEPS 2-4: EVIDENCE PROVIDERS (concurrent)
+  // ==========================================
+  // Each section is emitted as soon as its own provider resolves
+  const providers = options.providers ?? resolveEnabledProviders();
+  const context: EvidenceContext = {
+    gene,
+    proteinChange: `p.${describeProteinChange(parsed)}`,
+    residue: evaluatedStart,
+    curatedInfo,
+    isoform,
+    protein,
+    allele: genomicAlleleOf(parsed),
+    clients,
+  };
+  const coverage: EvidenceCoverage = { ...DISABLED_SECTIONS, domain: buildDomainCoverage(curatedInfo) };
+  const sections = new Map<string, EvidenceSection>();
+  await runEvidenceProviders(
+    providers,
+    context,
+    // A provider that throws has no answer, not an empty one: its section reads unavailable
+    (provider, task) => runStage(provider.id, task).catch((error): FetchFailure => {
+      const message = (error as Error).message;
+      console.warn(`[HonestAPI] ${provider.label} failed:`, message);
+      return { unavailable: true, reason: 'unknown', service: provider.id, details: `${provider.label} failed: ${message}` };
+    }),
+    (provider, result) => {
+      const section = provider.coverage(result);
+      sections.set(provider.id, section);
+      emit(applyProviderSection(coverage, provider, section, index));
+    }
+  );
+
+  // ==========================================
+  // STEPS 5-6: GENERATE EXPLICIT UNKNOWNS
+  // ==========================================
+  // Provider order, not completion order, so the list is stable
+  const sourceUnknowns = providers.flatMap((p) => {
+    const section = sections.get(p.id);
+    return section && p.unknowns ? p.unknowns(section) : [];
+  });
+  const unknowns = generateUnknowns(curatedInfo, sourceUnknowns);
+  emit({ type: 'unknowns', index, unknowns });
+
+  // ==========================================
+  // STEP 7: BUILD RESPONSE
+  // ==========================================
+  const response: HonestAPIResponse = {
+    variant: describeVariant(parsed, normalizedInput, originalHgvs, curatedInfo.gene, isoform, protein),
+    coverage,
+    unknowns,
+    curatedInfo,
+    timestamp: new Date(now()).toISOString(),
+    processingMs: now() - startTime,
+    timings: { deadlineMs: deadline - startTime, totalMs: now() - startTime, stages },
+  };
+
+  return {
+    ok: true,
+    response,
+    evidenceSources: {
+      clinvar: (coverage.clinical.status !== 'none' && coverage.clinical.status !== 'unavailable') || !!coverage.clinical.classifications?.length,
+      structure: coverage.structure.status === 'experimental' || coverage.structure.status === 'predicted',
+      literature: !coverage.literature.unavailable && coverage.literature.variantSpecificCount > 0,
+    },
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * VARIANT STREAM
+ *
+ * Progressive delivery of a variant report as NDJSON or SSE events. The last
+ * event is always `report`, with the body a non-streaming request returns.
+ */
+
+import { StreamedReportData, VariantStreamEvent } from './types/honest-response';
+import { toApiError } from './errors';
+
+export type StreamFormat = 'ndjson' | 'sse';
+
+export const STREAM_CONTENT_TYPES: Record<StreamFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  sse: 'text/event-stream',
+};
+
+// ==========================================
+// SERVER
+// ==========================================
+
+/**
+ * `?format=ndjson|sse` wins; otherwise an Accept header naming either type.
+ */
+export function resolveStreamFormat(format: string | null, accept: string | null): StreamFormat | null {
+  if (format === 'ndjson' || format === 'sse') return format;
+  if (accept?.includes(STREAM_CONTENT_TYPES.sse)) return 'sse';
+  if (accept?.includes(STREAM_CONTENT_TYPES.ndjson)) return 'ndjson';
+  return null;
+}
+
+export function encodeStreamEvent(event: VariantStreamEvent, format: StreamFormat): string {
+  const json = JSON.stringify(event);
+  return format === 'sse' ? `event: ${event.type}\ndata: ${json}\n\n` : `${json}\n`;
+}
+
+/**
+ * Streaming response fed by `run`. An exception inside `run` becomes a final
+ * 500 `report` event, since the status line has already been sent. When
+ * `signal` aborts or the reader cancels, the stream closes at once, later
+ * events are dropped and the signal handed to `run` aborts.
+ */
+export function createEventStream(
+  format: StreamFormat,
+  run: (emit: (event: VariantStreamEvent) => void, signal: AbortSignal) => Promise<void>,
+  signal?: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  const cancelled = new AbortController();
+  let open = true;
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const close = () => {
+        if (!open) return;
+        open = false;
+        controller.close();
+      };
+      cancelled.signal.addEventListener('abort', close, { once: true });
+      if (signal?.aborted) cancelled.abort();
+      else signal?.addEventListener('abort', () => cancelled.abort(), { once: true });
+
+      const emit = (event: VariantStreamEvent) => {
+        if (open) controller.enqueue(encoder.encode(encodeStreamEvent(event, format)));
+      };
+      try {
+        await run(emit, cancelled.signal);
+      } catch (error) {
+        console.error('[VariantStream] Error:', error);
+        const apiError = toApiError(error);
+        emit({ type: 'report', status: apiError.status, body: apiError.toBody() });
+      }
+      close();
+    },
+    cancel() {
+      // The reader is gone; closing the controller now would throw
+      open = false;
+      cancelled.abort();
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'Content-Type': STREAM_CONTENT_TYPES[format],
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no', // Keep reverse proxies from holding events back
+    },
+  });
+}
+
+// ==========================================
+// CLIENT
+// ==========================================
+
+/**
+ * Read an NDJSON stream, calling `onEvent` for every complete line.
+ */
+export async function readVariantStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: VariantStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line) as VariantStreamEvent);
+    }
+    if (done) break;
+  }
+  if (buffer.trim()) onEvent(JSON.parse(buffer) as VariantStreamEvent);
+}
+
+/**
+ * Fold one section event into the partial reports, indexed by consequence.
+ * `report` is left to the caller: it replaces the partial reports entirely.
+ */
+export function applyStreamEvent(reports: StreamedReportData[], event: VariantStreamEvent): StreamedReportData[] {
+  if (event.type === 'report') return reports;
+
+  const next = [...reports];
+  const current = next[event.index];
+  switch (event.type) {
+    case 'variant':
+      next[event.index] = { variant: event.variant, coverage: {} };
+      break;
+    case 'protein':
+      if (!current) return reports;
+      next[event.index] = {
+        ...current,
+        variant: event.variant,
+        curatedInfo: event.curatedInfo,
+        coverage: { ...current.coverage, domain: event.domain },
+      };
+      break;
+    case 'structure':
+      if (!current) return reports;
+      next[event.index] = { ...current, coverage: { ...current.coverage, structure: event.structure } };
+      break;
+    case 'clinical':
+      if (!current) return reports;
+      next[event.index] = { ...current, coverage: { ...current.coverage, clinical: event.clinical } };
+      break;
+    case 'literature':
+      if (!current) return reports;
+      next[event.index] = { ...current, coverage: { ...current.coverage, literature: event.literature } };
+      break;
+    case 'population':
+      if (!current) return reports;
+      next[event.index] = { ...current, coverage: { ...current.coverage, population: event.population } };
+      break;
+    case 'predictors':
+      if (!current) return reports;
+      next[event.index] = { ...current, coverage: { ...current.coverage, predictors: event.predictors } };
+      break;
+    case 'nearby':
+      if (!current) return reports;
+      next[event.index] = { ...current, coverage: { ...current.coverage, nearby: event.nearby } };
+      break;
+    case 'evidence':
+      if (!current) return reports;
+      next[event.index] = {
+        ...current,
+        coverage: { ...current.coverage, additional: { ...current.coverage.additional, [event.id]: event.section } },
+      };
+      break;
+    case 'unknowns':
+      if (!current) return reports;
+      next[event.index] = { ...current, unknowns: event.unknowns };
+      break;
+    case 'error': {
+      if (!current) return reports;
+      next[event.index] = { ...current, failed: event.body.message };
+      break;
+    }
+  }
+  return next;
+}
@@ -1,3 +1,8 @@
+import { maneSelectTranscript, parseCodingHGVS } from './coding-variant';
+import { isGenomicInput, parseGenomicHGVS } from './genomic-variant';
+import { resolveGeneSymbol, findGeneByUniprot } from './gene-registry';
+import { ParseError } from './errors';
+
 // Amino acid 3-letter to 1-letter mapping
 export const AMINO_ACIDS: Record<string, string> = {
   Ala: 'A',
@@ -39,65 +44,180 @@ export function toThreeLetter(oneLetter: string): string {
 }
 
 const VALID_AA = new Set(Object.values(AMINO_ACIDS));
-const GENE_ALIASES: Record<string, string> = {
-  ABCC7: 'CFTR',
-};
-
+const EDIT_TOKENS = ['del', 'ins', 'dup', 'delins', 'fs', 'ext', '?'];
 export interface ParsedVariant {
-  gene: string;
-  ref: string;
-  pos: number;
-  alt: string;
+  gene: string;          // HGNC approved symbol where known
+  submittedGene?: string; // Symbol as typed, when it was an alias or withdrawn symbol
+  ref: string;           // Residue at `pos` (one-letter, '*' for stop)
+  pos: number;           // First affected residue
+  end?: number;          // Last affected residue for ranges (e.g. p.Glu746_Ala750del) and insertion flanks
+  endRef?: string;       // Residue at `end`
+  alt: string;           // One-letter residue, or del | ins | dup | delins | fs | ext | ?
+  inserted?: string;     // Inserted residues (one-letter) for ins/delins, new residue for ext
+  extension?: string;    // Extension suffix, e.g. '*?' or '*17' (C-terminal), '-5' (N-terminal)
   transcript?: string;
-  type: 'missense' | 'nonsense' | 'silent' | 'deletion' | 'insertion' | 'duplication' | 'frameshift' | 'unknown';
+  proteinId?: string;    // UniProt accession or Ensembl protein ID the input was written against
+  codingHgvs?: string; // Canonical c. form when the protein change was derived from coding HGVS
+  genomicHgvs?: string; // Canonical GRCh38 g. form when the input was a genomic coordinate
+  type:
+    | 'missense'
+    | 'nonsense'
+    | 'silent'
+    | 'deletion'
+    | 'insertion'
+    | 'duplication'
+    | 'delins'
+    | 'frameshift'
+    | 'extension'
+    | 'start_loss'
+    | 'unknown';
+}
+
+export type ProteinChange = Pick<
+  ParsedVariant,
+  'ref' | 'pos' | 'end' | 'endRef' | 'alt' | 'inserted' | 'extension' | 'type'
+>;
+
+const RESIDUE_TOKEN = '(Ter|[A-Za-z]{3}|[A-Za-z*])';
+const PROTEIN_CHANGE_PATTERN = new RegExp(`^${RESIDUE_TOKEN}(\\d+)(?:_${RESIDUE_TOKEN}(\\d+))?(.+)$`);
+
+// Protein identifiers accepted in place of a gene symbol (P04637, P04637-2, ENSP00000269305)
+export const UNIPROT_ACCESSION_PATTERN =
+  /^(?:[OPQ][0-9][A-Z0-9]{3}[0-9]|[A-NR-Z][0-9](?:[A-Z][A-Z0-9]{2}[0-9]){1,2})(?:-\d+)?$/;
+export const ENSEMBL_PROTEIN_PATTERN = /^ENSP\d{11}(?:\.\d+)?$/;
+
+export function isProteinIdentifier(token: string): boolean {
+  const upper = token.toUpperCase();
+  return UNIPROT_ACCESSION_PATTERN.test(upper) || ENSEMBL_PROTEIN_PATTERN.test(upper);
 }
 
 // Helper to extract protein part from potentially transcript-prefixed string
 // e.g. "NM_004333.6:p.Val600Glu" -> "Val600Glu"
 // e.g. "p.V600E" -> "V600E"
+// e.g. "EGFR:p.(Glu746_Ala750del)" -> "Glu746_Ala750del"
 export function extractProteinPart(input: string): string | null {
-  const aaPattern = '([A-Za-z]{1,3})(\\d+)([A-Za-z]{1,3}fs\\*?\\d*|[A-Za-z]{1,3}|\\*|Ter|del|ins|dup|fs)';
-  const tokenTail = '(?=$|[^A-Za-z0-9])';
+  const unwrap = (token: string) => token.replace(/^\((.*)\)$/, '$1');
+  const looksLikeChange = (token: string) => PROTEIN_CHANGE_PATTERN.test(unwrap(token));
 
   // Case 1: starts directly with p.XnnnY
-  const startWithProteinMarker = input.match(new RegExp(`^p\\.${aaPattern}${tokenTail}`, 'i'));
-  if (startWithProteinMarker) {
-    return `${startWithProteinMarker[1]}${startWithProteinMarker[2]}${startWithProteinMarker[3]}`;
+  const startWithProteinMarker = input.match(/^p\.(.+)$/i);
+  if (startWithProteinMarker && looksLikeChange(startWithProteinMarker[1])) {
+    return unwrap(startWithProteinMarker[1]);
   }
 
   // Case 2: appears after ":" or "(" with optional p. marker
-  const withDelimiter = input.match(new RegExp(`[:(](?:p\\.)?${aaPattern}${tokenTail}`, 'i'));
-  if (withDelimiter) {
-    return `${withDelimiter[1]}${withDelimiter[2]}${withDelimiter[3]}`;
+  for (const candidate of input.matchAll(/[:(](?:p\.)?(\([^()]+\)|[A-Za-z*][A-Za-z0-9*_?=-]*)/gi)) {
+    if (looksLikeChange(candidate[1])) return unwrap(candidate[1]);
   }
 
   // Fallback: plain token only when the entire input is just the variant (e.g., "V600E").
-  const bareToken = input.match(/^([A-Za-z]{1,3})(\d+)([A-Za-z]{1,3}|\*|Ter|del|ins|dup|fs)$/i);
-  if (bareToken) {
-    return `${bareToken[1]}${bareToken[2]}${bareToken[3]}`;
+  if (looksLikeChange(input)) {
+    return input;
   }
 
   return null;
 }
 
+/**
+ * Parse a protein change (without "p.") using the HGVS protein grammar:
+ * substitutions, ranges, del, dup, ins, delins, fs, ext and start-loss (Met1?).
+ *
+ * Returns null when the text is not a protein change at all; throws when it is
+ * one but uses an unknown amino acid or an impossible range.
+ */
+export function parseProteinChange(change: string): ProteinChange | null {
+  const match = change.match(PROTEIN_CHANGE_PATTERN);
+  if (!match) return null;
+
+  const [, refRaw, posStr, endRefRaw, endStr, tail] = match;
+  const ref = convertAA(refRaw, { allowStopAliases: true });
+  const pos = parseInt(posStr, 10);
+  const range = endStr
+    ? { end: parseInt(endStr, 10), endRef: convertAA(endRefRaw, { allowStopAliases: true }) }
+    : {};
+  if (range.end !== undefined && range.end <= pos) {
+    throw new ParseError(`Invalid protein range ${refRaw}${pos}_${endRefRaw}${range.end}: end must follow start`);
+  }
+
+  let m: RegExpMatchArray | null;
+  if ((m = tail.match(/^delins([A-Za-z*]+)$/i))) {
+    return { ref, pos, ...range, alt: 'delins', inserted: convertSequence(m[1]), type: 'delins' };
+  }
+  if (/^del[A-Za-z]*$/i.test(tail)) {
+    return { ref, pos, ...range, alt: 'del', type: 'deletion' };
+  }
+  if (/^dup[A-Za-z]*$/i.test(tail)) {
+    return { ref, pos, ...range, alt: 'dup', type: 'duplication' };
+  }
+  if ((m = tail.match(/^ins([A-Za-z*]+)?$/i))) {
+    if (m[1] && range.end !== pos + 1) {
+      throw new ParseError('Insertions must name two adjacent flanking residues (e.g. p.Lys745_Glu746insIlePro)');
+    }
+    return { ref, pos, ...range, alt: 'ins', inserted: m[1] ? convertSequence(m[1]) : undefined, type: 'insertion' };
+  }
+  if (range.end !== undefined) {
+    // Only del/dup/ins/delins may span residues
+    return null;
+  }
+  if (/^(?:[A-Za-z]{1,3})?fs(?:\*|Ter|X)?(?:\d+|\?)?$/i.test(tail)) {
+    return { ref, pos, alt: 'fs', type: 'frameshift' };
+  }
+  if ((m = tail.match(/^([A-Za-z]{1,3})?ext(?:(?:\*|Ter|X)(\d+|\?)|(-\d+))$/i))) {
+    const cTerminal = m[2] !== undefined;
+    if (cTerminal ? ref !== '*' : !(ref === 'M' && pos === 1)) {
+      throw new ParseError('Extensions start at the stop codon (p.*nXxxext*N) or at Met1 (p.Met1ext-N)');
+    }
+    return {
+      ref,
+      pos,
+      alt: 'ext',
+      inserted: m[1] ? convertAA(m[1]) : undefined,
+      extension: cTerminal ? `*${m[2]}` : m[3],
+      type: 'extension',
+    };
+  }
+  if (tail === '?') {
+    if (!(ref === 'M' && pos === 1)) return null;
+    return { ref, pos, alt: '?', type: 'start_loss' };
+  }
+  if (tail === '=') {
+    return { ref, pos, alt: ref, type: 'silent' };
+  }
+  if (/^(Ter|[A-Za-z]{3}|[A-Za-z*])$/i.test(tail)) {
+    const alt = convertAA(tail, { allowStopAliases: true });
+    let type: ParsedVariant['type'] = 'missense';
+    if (alt === '*') type = 'nonsense';
+    if (ref === alt) type = 'silent';
+    return { ref, pos, alt, type };
+  }
+
+  return null;
+}
+
+const ONE_VARIANT_ONLY =
+  'Invalid HGVS format. Only one protein variant per request is supported. Use allele syntax for several changes (e.g. TP53:p.[Arg175His;Arg248Gln]).';
+
 export function parseHGVS(hgvs: string): ParsedVariant {
   if (!hgvs || typeof hgvs !== 'string') {
-    throw new Error('Invalid HGVS format: empty input');
+    throw new ParseError('Invalid HGVS format: empty input');
   }
 
   const rawInput = hgvs.trim();
+  if (isAlleleInput(rawInput)) {
+    throw new ParseError('Bracketed alleles list several changes. Use parseVariantAllele().');
+  }
   if (/p\.[A-Za-z*]+\d+.*\s+p\./i.test(rawInput)) {
-    throw new Error('Invalid HGVS format. Only one protein variant per request is supported.');
+    throw new ParseError(ONE_VARIANT_ONLY);
   }
 
   const cleanInput = rawInput.replace(/\s+/g, '');
 
   if (/p\.=/i.test(cleanInput)) {
-    throw new Error('Invalid HGVS format. p.= (no protein change) is not supported.');
+    throw new ParseError('Invalid HGVS format. p.= (no protein change) is not supported.');
   }
 
   if (/p\.[^:()]*p\./i.test(cleanInput)) {
-    throw new Error('Invalid HGVS format. Only one protein variant per request is supported.');
+    throw new ParseError(ONE_VARIANT_ONLY);
   }
 
   // Guard only against truly multiple protein-variant blocks (e.g. "p.R175H p.R248Q").
@@ -105,19 +225,28 @@ export function parseHGVS(hgvs: string): ParsedVariant {
   const explicitProteinBlocks =
     cleanInput.match(/p\.[A-Za-z]{1,3}\d+(?:[A-Za-z]{1,3}fs\*?\d*|[A-Za-z]{1,3}|\*|Ter|X|del|ins|dup|fs)(?=$|[^A-Za-z0-9])/gi) || [];
   if (explicitProteinBlocks.length > 1) {
-    throw new Error('Invalid HGVS format. Only one protein variant per request is supported.');
+    throw new ParseError(ONE_VARIANT_ONLY);
   }
 
   if (/^rs\d+$/i.test(cleanInput)) {
-    throw new Error('dbSNP rsIDs are not supported directly. Please provide protein HGVS (e.g. BRAF:p.V600E).');
+    throw new ParseError('dbSNP rsIDs are not supported directly. Please provide protein HGVS (e.g. BRAF:p.V600E).');
   }
 
-  if (/:([cgmnr])\./i.test(cleanInput) && !/:p\./i.test(cleanInput)) {
-    throw new Error('Protein HGVS required. Nucleotide/RNA HGVS (c., g., m., n., r.) not supported.');
+  if (/:c\./i.test(cleanInput) && !/p\./i.test(cleanInput)) {
+    const gene = resolveGeneSymbol(extractGeneSymbol(cleanInput));
+    return withSubmittedGene(parseCodingHGVS(cleanInput, gene.symbol), gene.input);
+  }
+
+  if (isGenomicInput(cleanInput)) {
+    throw new ParseError('Genomic input can map to several protein consequences. Use normalizeVariantInput().');
+  }
+
+  if (/:([gmnr])\./i.test(cleanInput) && !/:p\./i.test(cleanInput)) {
+    throw new ParseError('Protein, coding or genomic HGVS required. m., n. and r. HGVS are not supported.');
   }
 
   if (!cleanInput.includes(':') && /^[A-Za-z0-9-]+p\./i.test(cleanInput)) {
-    throw new Error(
+    throw new ParseError(
       'Invalid HGVS format. Missing ":" between gene and protein change (e.g. NDUFAF6:p.Ala178Pro).'
     );
   }
@@ -127,89 +256,195 @@ export function parseHGVS(hgvs: string): ParsedVariant {
   const cleanChange = extractProteinPart(cleanInput);
 
   if (!cleanChange) {
-    throw new Error('Invalid HGVS format. Expected protein change (e.g. p.Val600Glu or V600E)');
+    throw new ParseError('Invalid HGVS format. Expected protein change (e.g. p.Val600Glu or V600E)');
   }
 
-  const match = cleanChange.match(/^([A-Za-z]+)(\d+)([A-Za-z*]+(?:\*?\d+)?|Ter|X|del|ins|dup|fs)$/i);
-  if (!match) {
-    throw new Error('Invalid HGVS format. Expected protein change (e.g. p.Val600Glu or V600E)');
+  const change = parseProteinChange(cleanChange);
+  if (!change) {
+    throw new ParseError('Invalid HGVS format. Expected protein change (e.g. p.Val600Glu or V600E)');
   }
 
-  const [, refRaw, posStr, altRaw] = match;
-  let gene = 'UNKNOWN';
+  const symbol = extractGeneSymbol(cleanInput);
+  const gene = resolveGeneSymbol(symbol);
+  if (gene.matchedBy !== 'approved' && isProteinIdentifier(symbol)) {
+    // Gene is provisional until the route resolves the entry; the registry knows most UniProt accessions
+    const registered = UNIPROT_ACCESSION_PATTERN.test(symbol) ? findGeneByUniprot(symbol) : null;
+    return { gene: registered?.symbol ?? symbol, ...change, transcript, proteinId: symbol };
+  }
+  return withSubmittedGene({ gene: gene.symbol, ...change, transcript }, gene.input);
+}
+
+
+/**
+ * RefSeq transcripts coding input is read against: the one it names, or the
+ * gene's MANE Select transcript. Empty for any other input.
+ */
+export function codingReferenceAccessions(input: string): string[] {
+  const cleanInput = (input || '').trim().replace(/\s+/g, '');
+  if (!/:c\./i.test(cleanInput) || /p\./i.test(cleanInput)) return [];
+  const transcriptMatch = cleanInput.match(/(NM_\d+(?:\.\d+)?)/i);
+  if (transcriptMatch) return [transcriptMatch[1].toUpperCase()];
+  const mane = maneSelectTranscript(resolveGeneSymbol(extractGeneSymbol(cleanInput)).symbol);
+  return mane ? [mane] : [];
+}
+
+// Keep the symbol as typed when the registry resolved it from an alias or withdrawn symbol
+function withSubmittedGene(parsed: ParsedVariant, submitted: string): ParsedVariant {
+  return parsed.gene !== submitted && submitted !== 'UNKNOWN' ? { ...parsed, submittedGene: submitted } : parsed;
+}
 
-  // Support transcript-prefixed HGVS: NM_xxx(GENE):p.XnnnY
+// Support transcript-prefixed HGVS: NM_xxx(GENE):p.XnnnY as well as GENE:p.XnnnY
+// (GENE may also be a UniProt accession or Ensembl protein ID).
+// Returns the symbol as typed (upper-cased); resolveGeneSymbol normalizes it.
+function extractGeneSymbol(cleanInput: string): string {
+  let gene = 'UNKNOWN';
   const transcriptGeneMatch = cleanInput.match(/^NM_\d+(?:\.\d+)?\(([A-Z0-9-]+)\):/i);
   if (transcriptGeneMatch) {
     gene = transcriptGeneMatch[1].toUpperCase();
   } else {
-    const geneMatch = cleanInput.match(/^([A-Z0-9-]+):/i);
+    const geneMatch = cleanInput.match(/^([A-Z0-9.-]+):/i);
     if (geneMatch && !geneMatch[1].toUpperCase().startsWith('NM_')) {
       gene = geneMatch[1].toUpperCase();
     }
   }
-  gene = normalizeGeneSymbol(gene);
+  return gene;
+}
 
-  const pos = parseInt(posStr, 10);
-  const normalizedAltRaw = altRaw.toLowerCase();
-  if (normalizedAltRaw.includes('fs')) {
-    return {
-      gene,
-      ref: convertAA(refRaw),
-      pos,
-      alt: 'fs',
-      transcript,
-      type: 'frameshift',
-    };
+/**
+ * Describe a protein change without the "p." prefix, in one-letter ("E746_A750del")
+ * or three-letter ("Glu746_Ala750del") form.
+ */
+export function describeProteinChange(change: ProteinChange, style: 'one' | 'three' = 'one'): string {
+  const aa = (residue: string) => (style === 'three' ? toThreeLetter(residue) : residue);
+  const seq = (residues?: string) => (residues || '').split('').map(aa).join('');
+  const start = `${aa(change.ref)}${change.pos}`;
+  const span = change.end !== undefined ? `${start}_${aa(change.endRef || '')}${change.end}` : start;
+
+  switch (change.type) {
+    case 'frameshift':
+      return `${start}fs`;
+    case 'start_loss':
+      return `${start}?`;
+    case 'extension': {
+      const extension = style === 'three' ? (change.extension || '').replace('*', 'Ter') : change.extension;
+      return `${start}${seq(change.inserted)}ext${extension}`;
+    }
+    case 'deletion':
+      return `${span}del`;
+    case 'duplication':
+      return `${span}dup`;
+    case 'insertion':
+      return `${span}ins${seq(change.inserted)}`;
+    case 'delins':
+      return `${span}delins${seq(change.inserted)}`;
+    default:
+      return `${start}${aa(change.alt)}`;
   }
+}
 
-  if (['del', 'ins', 'dup', 'fs'].includes(normalizedAltRaw)) {
-    const typeByToken: Record<string, ParsedVariant['type']> = {
-      del: 'deletion',
-      ins: 'insertion',
-      dup: 'duplication',
-      fs: 'frameshift',
-    };
-    return {
-      gene,
-      ref: convertAA(refRaw),
-      pos,
-      alt: normalizedAltRaw,
-      transcript,
-      type: typeByToken[normalizedAltRaw] || 'unknown',
-    };
+/**
+ * Format the protein change in 3-letter HGVS form, e.g. "p.Gly12Asp" or "p.Glu746_Ala750del".
+ */
+export function formatProteinChange(parsed: ParsedVariant): string {
+  return `p.${describeProteinChange(parsed, 'three')}`;
+}
+
+/**
+ * Residue span touched by the change. Insertions report their two flanking residues.
+ */
+export function getAffectedRange(parsed: ProteinChange): { start: number; end: number } {
+  return { start: parsed.pos, end: parsed.end ?? parsed.pos };
+}
+
+export function normalizeVariant(hgvs: string): { normalized: string; parsed: ParsedVariant } {
+  return normalizeParsedVariant(parseHGVS(hgvs));
+}
+
+export function normalizeParsedVariant(parsed: ParsedVariant): { normalized: string; parsed: ParsedVariant } {
+  for (const residue of [parsed.ref, parsed.endRef, ...(parsed.inserted || '').split('')]) {
+    if (residue && !VALID_AA.has(residue)) {
+      throw new ParseError(`Invalid amino acid: ${residue}`);
+    }
+  }
+  if (!VALID_AA.has(parsed.alt) && !EDIT_TOKENS.includes(parsed.alt)) {
+    throw new ParseError(`Invalid amino acid: ${parsed.alt}`);
   }
 
-  const ref = convertAA(refRaw);
-  const alt = convertAA(altRaw, { allowStopAliases: true });
+  const change = describeProteinChange(parsed);
+  const normalized = `${parsed.gene}:p.${parsed.type === 'nonsense' ? change.replace(/\*$/, 'Ter') : change}`;
+  return { normalized, parsed };
+}
 
-  let type: ParsedVariant['type'] = 'missense';
-  if (alt === '*') type = 'nonsense';
-  if (ref === alt) type = 'silent';
+/**
+ * Normalize any supported input. Protein and coding HGVS yield exactly one
+ * entry; genomic input yields one entry per overlapping transcript.
+ */
+export function normalizeVariantInput(input: string): Array<{ normalized: string; parsed: ParsedVariant }> {
+  if (isGenomicInput(input)) {
+    return parseGenomicHGVS(input).map(normalizeParsedVariant);
+  }
+  return [normalizeVariant(input)];
+}
 
-  return {
-    gene,
-    ref,
-    pos,
-    alt,
-    transcript,
-    type,
-  };
+// ==========================================
+// ALLELES (p.[A;B] cis, p.[A];[B] trans, p.[A(;)B] phase unknown)
+// ==========================================
+
+export interface VariantAllele {
+  gene: string;
+  phase: 'cis' | 'trans' | 'unknown';
+  hgvs: string; // Normalized allele, e.g. TP53:p.[R175H;R248Q]
+  components: Array<{ normalized: string; parsed: ParsedVariant; allele: number }>;
 }
 
-export function normalizeVariant(hgvs: string): { normalized: string; parsed: ParsedVariant } {
-  const parsed = parseHGVS(hgvs);
+const ALLELE_PATTERN = /^(.*?)p\.(\[.+\])$/i;
+
+export function isAlleleInput(input: string): boolean {
+  return /(?:^|:)p\.\[/i.test((input || '').replace(/\s+/g, ''));
+}
 
-  if (!VALID_AA.has(parsed.ref)) {
-    throw new Error(`Invalid amino acid: ${parsed.ref}`);
+/**
+ * Parse bracketed protein alleles into their component changes.
+ * Components are normalized exactly like single-variant input on the same gene.
+ */
+export function parseVariantAllele(input: string): VariantAllele {
+  const clean = (input || '').trim().replace(/\s+/g, '');
+  const match = clean.match(ALLELE_PATTERN);
+  if (!match) {
+    throw new ParseError('Invalid allele format. Expected e.g. TP53:p.[Arg175His;Arg248Gln] or TP53:p.[Arg175His];[Arg248Gln]');
   }
-  if (!VALID_AA.has(parsed.alt) && !['del', 'ins', 'dup', 'fs'].includes(parsed.alt)) {
-    throw new Error(`Invalid amino acid: ${parsed.alt}`);
+
+  const [, prefix, body] = match;
+  const alleles = body.split(/\];(?:p\.)?\[/i).map((allele) => allele.replace(/^\[|\]$/g, ''));
+  const unknownPhase = alleles.some((allele) => allele.includes('(;)'));
+  if (unknownPhase && alleles.length > 1) {
+    throw new ParseError('Invalid allele format. Use either [A];[B] (trans) or [A(;)B] (phase unknown), not both.');
   }
 
-  const normalizedAlt = parsed.alt === '*' ? 'Ter' : parsed.alt;
-  const normalized = `${parsed.gene}:p.${parsed.ref}${parsed.pos}${normalizedAlt}`;
-  return { normalized, parsed };
+  const components = alleles.flatMap((allele, index) =>
+    allele.split(/\(;\)|;/).map((change) => {
+      if (!change) throw new ParseError('Invalid allele format. Empty change between ";" separators.');
+      return { ...normalizeVariant(`${prefix}p.${change}`), allele: index + 1 };
+    })
+  );
+  if (components.length < 2) {
+    throw new ParseError('An allele needs at least two changes. Submit a single change without brackets.');
+  }
+
+  const gene = components[0].parsed.gene;
+  const separator = unknownPhase ? '(;)' : ';';
+  const describe = (allele: number) =>
+    components
+      .filter((c) => c.allele === allele)
+      .map((c) => c.normalized.slice(c.normalized.indexOf(':p.') + 3))
+      .join(separator);
+
+  return {
+    gene,
+    phase: unknownPhase ? 'unknown' : alleles.length > 1 ? 'trans' : 'cis',
+    hgvs: `${gene}:p.${alleles.map((_, index) => `[${describe(index + 1)}]`).join(';')}`,
+    components,
+  };
 }
 
 export function validateHGVS(hgvs: string): boolean {
@@ -221,6 +456,18 @@ export function validateHGVS(hgvs: string): boolean {
   }
 }
 
+// Residue sequences are 3-letter when they split cleanly into codes (ArgSer), else 1-letter (RS)
+function convertSequence(residues: string): string {
+  const chunks = residues.match(/.{3}/g) || [];
+  const threeLetter =
+    residues.length % 3 === 0 &&
+    chunks.every((chunk) => AMINO_ACIDS[chunk.charAt(0).toUpperCase() + chunk.slice(1).toLowerCase()]);
+  if (threeLetter) {
+    return chunks.map((chunk) => convertAA(chunk)).join('');
+  }
+  return residues.split('').map((residue) => convertAA(residue, { allowStopAliases: true })).join('');
+}
+
 function convertAA(
   aa: string,
   options: { allowStopAliases?: boolean } = {}
@@ -236,13 +483,8 @@ function convertAA(
   const oneLetter = AMINO_ACIDS[upper];
 
   if (!oneLetter) {
-    throw new Error(`Invalid amino acid code: ${aa}`);
+    throw new ParseError(`Invalid amino acid code: ${aa}`);
   }
 
   return oneLetter;
 }
-
-function normalizeGeneSymbol(gene: string): string {
-  const upper = gene.toUpperCase();
-  return GENE_ALIASES[upper] || upper;
-}
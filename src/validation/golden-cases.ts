@@ -175,7 +175,7 @@ export const GOLDEN_CASES: GoldenCase[] = [
     id: 19,
     hgvs: 'CFTR:c.1521_1523delCTT',
     tier: 'edge',
-    note: 'Legacy c. notation should be rejected with a protein-HGVS message.',
+    note: 'c. notation without a bundled reference transcript should be rejected.',
     expected: { apiShouldReject: true },
   },
   {
@@ -446,10 +446,10 @@ export const GOLDEN_CASES: GoldenCase[] = [
     id: 47,
     hgvs: 'GBA:p.N409S',
     tier: 'famous',
-    note: 'Common Gaucher disease variant.',
+    note: 'Common Gaucher disease variant; withdrawn symbol GBA should resolve to GBA1.',
     expected: {
       expectedStatus: 200,
-      normalized: 'GBA:p.N409S',
+      normalized: 'GBA1:p.N409S',
       clinicalShouldBePathogenicOrLikely: true,
     },
   },
@@ -521,6 +521,38 @@ export const GOLDEN_CASES: GoldenCase[] = [
       clinicalShouldBePathogenicOrLikely: true,
     },
   },
+  {
+    id: 54,
+    hgvs: 'NM_004985.5:c.35G>A',
+    tier: 'famous',
+    note: 'Coding HGVS should translate through the bundled KRAS transcript to p.G12D.',
+    expected: {
+      expectedStatus: 200,
+      normalized: 'KRAS:p.G12D',
+      transcript: 'NM_004985.5',
+    },
+  },
+  {
+    id: 55,
+    hgvs: 'EGFR:p.Glu746_Ala750del',
+    tier: 'famous',
+    note: 'Exon 19 range deletion must keep its full residue span through normalization.',
+    expected: {
+      expectedStatus: 200,
+      normalized: 'EGFR:p.E746_A750del',
+      domainShouldBeAnnotated: true,
+    },
+  },
+  {
+    id: 56,
+    hgvs: 'EGFR:p.Leu858_Thr859delinsArgSer',
+    tier: 'edge',
+    note: 'Multi-residue delins should retain the inserted residues.',
+    expected: {
+      expectedStatus: 200,
+      normalized: 'EGFR:p.L858_T859delinsRS',
+    },
+  },
 ];
 
 export const getGoldenCasesByTier = (tier: GoldenCaseTier) =>
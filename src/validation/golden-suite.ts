@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import { GOLDEN_CASES } from './golden-cases';
+import { analyzeVariant } from '../lib/analyze-variant';
 
 interface CompactSnapshot {
   normalizedHgvs?: string;
@@ -66,6 +67,26 @@ function summarizePayload(payload: any): CompactSnapshot | undefined {
   };
 }
 
+// One analysis as the API would answer it: in-process by default, over HTTP when a base URL is given
+type VariantCall = (hgvs: string) => Promise<{ status: number; ok: boolean; payload: any }>;
+
+function httpCall(baseUrl: string): VariantCall {
+  return async (hgvs) => {
+    const response = await fetch(`${baseUrl}/api/variant`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ hgvs }),
+    });
+    return { status: response.status, ok: response.ok, payload: parsePayload(await response.text()) };
+  };
+}
+
+const inProcessCall: VariantCall = async (hgvs) => {
+  const result = await analyzeVariant(hgvs);
+  const payload = result.ok ? result.report : result.error;
+  return { status: result.status, ok: result.status < 400, payload };
+};
+
 function failedChecks(checks: string[]): string[] {
   return checks.filter((c) => c.startsWith('FAIL:'));
 }
@@ -79,7 +100,8 @@ function parseCaseIdFilter(input: string | undefined): Set<number> | null {
   return ids.length > 0 ? new Set(ids) : null;
 }
 
-async function runGoldenSuite(baseUrl = 'http://localhost:3000', caseIdFilter: Set<number> | null = null): Promise<void> {
+async function runGoldenSuite(baseUrl: string | null = null, caseIdFilter: Set<number> | null = null): Promise<void> {
+  const call = baseUrl ? httpCall(baseUrl) : inProcessCall;
   const results: GoldenResult[] = [];
   const casesToRun = caseIdFilter
     ? GOLDEN_CASES.filter((testCase) => caseIdFilter.has(testCase.id))
@@ -90,14 +112,8 @@ async function runGoldenSuite(baseUrl = 'http://localhost:3000', caseIdFilter: S
     const checks: string[] = [];
 
     try {
-      const response = await fetch(`${baseUrl}/api/variant`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ hgvs: testCase.hgvs }),
-      });
-
-      const text = await response.text();
-      const payload = parsePayload(text);
+      const response = await call(testCase.hgvs);
+      const { payload } = response;
       let ok = true;
 
       if (typeof testCase.expected.expectedStatus === 'number') {
@@ -114,14 +130,13 @@ async function runGoldenSuite(baseUrl = 'http://localhost:3000', caseIdFilter: S
         if (testCase.expected.apiErrorCode) {
           ok =
             assert(
-              payload?.code === testCase.expected.apiErrorCode ||
-                String(payload?.message || '').includes(testCase.expected.apiErrorCode),
+              payload?.code === testCase.expected.apiErrorCode,
               `Error code should be ${testCase.expected.apiErrorCode}`,
               checks
             ) && ok;
         }
         if (testCase.expected.errorContains) {
-          const errorText = `${payload?.error || ''} ${payload?.message || ''}`.toLowerCase();
+          const errorText = String(payload?.message || '').toLowerCase();
           ok =
             assert(
               errorText.includes(testCase.expected.errorContains.toLowerCase()),
@@ -266,13 +281,8 @@ async function runGoldenSuite(baseUrl = 'http://localhost:3000', caseIdFilter: S
 
           if (testCase.expected.repeatCallShouldMatch) {
             const repeatStarted = Date.now();
-            const repeatResponse = await fetch(`${baseUrl}/api/variant`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ hgvs: testCase.hgvs }),
-            });
-            const repeatText = await repeatResponse.text();
-            const repeatPayload = parsePayload(repeatText);
+            const repeatResponse = await call(testCase.hgvs);
+            const repeatPayload = repeatResponse.payload;
             const repeatDuration = Date.now() - repeatStarted;
 
             ok =
@@ -336,7 +346,7 @@ async function runGoldenSuite(baseUrl = 'http://localhost:3000', caseIdFilter: S
     '# Golden Report (Compact)',
     '',
     `Date: ${new Date().toISOString()}`,
-    `Base URL: ${baseUrl}`,
+    `Base URL: ${baseUrl ?? 'in-process (analyzeVariant)'}`,
     `Total: ${results.length}`,
     `Passed: ${passCount}`,
     `Failed: ${failCount}`,
@@ -393,7 +403,8 @@ async function runGoldenSuite(baseUrl = 'http://localhost:3000', caseIdFilter: S
   console.log('Payload dump: golden_report_payloads.json');
 }
 
-const baseUrlFromCli = process.argv[2] || process.env.GOLDEN_BASE_URL || 'http://localhost:3000';
+// Without a base URL the suite runs in-process; pass one to exercise a running server
+const baseUrlFromCli = process.argv[2] || process.env.GOLDEN_BASE_URL || null;
 const caseFilterInput = process.argv[3] || process.env.GOLDEN_CASE_IDS;
 const caseFilter = parseCaseIdFilter(caseFilterInput);
 
@@ -45,7 +45,7 @@ async function runSuite() {
 
       if (!response.ok) {
         const err = await response.json().catch(() => ({ error: response.statusText }));
-        throw new Error(`${response.status} - ${err.error || JSON.stringify(err)}`);
+        throw new Error(`${response.status} - ${err.message || JSON.stringify(err)}`);
       }
 
       const data = await response.json();
@@ -133,7 +133,7 @@ async function analyzeVariantHonestly(hgvs: string): Promise<any> {
   
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.message || error.error || 'API Error');
+    throw new Error(error.message || 'API Error');
   }
   
   return response.json();